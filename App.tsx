@@ -1,23 +1,330 @@
-import React, { useState } from 'react';
-import { VoiceName, Tone } from './types';
-import { generateSpeech, generateBackgroundMusic } from './services/gemini';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { VoiceName, Tone, SynthesisProgress, ScriptMode, Casting, SpeakerCasting, ProviderId, MusicScore, ProjectSummary, AudioMarker, DuckingSettings, SilenceSettings, SpeechEffect, ToneStyle } from './types';
+import { MUSIC_COMPOSERS, SPEECH_PROVIDERS, loadProviderSetting, saveProviderSetting } from './services/providers';
+import { defaultProjectName, deleteProject, getProject, listProjects, saveProject, updateProject } from './services/library';
+import { buildAudioTags, exportMidi, importMidi, midiFileName, readVoiceAndTone } from './services/exporter';
+import { isCancelled } from './services/errors';
+import { loadToneStyles, saveToneStyles } from './services/presets';
+import { castSpeakers, detectSpeakers, dialogueMarkupErrors, looksLikeDialogue, parseDialogue } from './utils/dialogue';
+import { parseMarkup } from './utils/markup';
+import { DEFAULT_DUCKING } from './utils/ducking';
+import { sanitizeChain } from './utils/effects';
+import { DEFAULT_SILENCE } from './utils/silence';
+import { SPEECH_SAMPLE_RATE } from './utils/audio';
+import { SpeechStream } from './utils/stream';
+import { createToneStyle, sanitizeToneStyle } from './utils/tones';
+import { readWavMetadata } from './utils/wav';
 import AudioPlayer from './components/AudioPlayer';
-import { SpeakerIcon, WandIcon } from './components/Icons';
+import BatchPanel from './components/BatchPanel';
+import CastingPanel from './components/CastingPanel';
+import ProjectLibrary from './components/ProjectLibrary';
+import ToneStyleEditor from './components/ToneStyleEditor';
+import { BatchIcon, LibraryIcon, SpeakerIcon, WandIcon } from './components/Icons';
 
 const App: React.FC = () => {
   const [text, setText] = useState('');
   const [selectedVoice, setSelectedVoice] = useState<VoiceName>(VoiceName.Puck);
   const [selectedTone, setSelectedTone] = useState<Tone>(Tone.Normal);
+  const [selectedStyle, setSelectedStyle] = useState<ToneStyle | null>(null); // Overrides the tone, which is its base
+  const [toneStyles, setToneStyles] = useState<ToneStyle[]>(loadToneStyles);
+  const [editingStyle, setEditingStyle] = useState<ToneStyle | null>(null);
+  const [mode, setMode] = useState<ScriptMode>('narration');
+  const [castingOverrides, setCastingOverrides] = useState<Casting>({});
+  const [providerId, setProviderId] = useState<ProviderId>(loadProviderSetting);
   
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [speechStream, setSpeechStream] = useState<SpeechStream | null>(null); // Speech playing while it is generated
   const [musicUrl, setMusicUrl] = useState<string | null>(null);
+  const [musicScore, setMusicScore] = useState<MusicScore | null>(null); // The score musicUrl was rendered from
+  const [playbackRate, setPlaybackRate] = useState(1.0);
+  const [pitch, setPitch] = useState(0); // Semitones
+  const [musicVolume, setMusicVolume] = useState(0.3); // Default low volume for background
+  const [ducking, setDucking] = useState<DuckingSettings>(DEFAULT_DUCKING);
+  const [silence, setSilence] = useState<SilenceSettings>(DEFAULT_SILENCE);
+  const [effects, setEffects] = useState<SpeechEffect[]>([]);
+  const [markers, setMarkers] = useState<AudioMarker[]>([]);
+  const [bookmarks, setBookmarks] = useState<AudioMarker[]>([]);
+  const [audioProviderId, setAudioProviderId] = useState<ProviderId>(providerId); // Engine that voiced audioUrl
+
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [isBatchOpen, setIsBatchOpen] = useState(false);
+  // Last player settings written to the library, to skip no-op saves
+  const savedSettings = useRef({ playbackRate: 1.0, pitch: 0, musicVolume: 0.3, ducking: DEFAULT_DUCKING, silence: DEFAULT_SILENCE, effects: [] as SpeechEffect[] });
   
   const [isLoading, setIsLoading] = useState(false);
   const [isGeneratingMusic, setIsGeneratingMusic] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<SynthesisProgress | null>(null);
+  const [forceRegenerate, setForceRegenerate] = useState(false);
+  const [speechCached, setSpeechCached] = useState(false);
+  const [musicCached, setMusicCached] = useState(false);
+  const [musicFallback, setMusicFallback] = useState<string | null>(null); // Why Gemini failed, when the music was composed offline
+  // Abort the generation in progress, for the Cancel buttons
+  const speechAbort = useRef<AbortController | null>(null);
+  const musicAbort = useRef<AbortController | null>(null);
+
+  const speakers = useMemo(
+    () => (mode === 'dialogue' ? detectSpeakers(parseDialogue(text)) : []),
+    [mode, text]
+  );
+  const casting = useMemo(() => castSpeakers(speakers, castingOverrides), [speakers, castingOverrides]);
+  const suggestDialogue = mode === 'narration' && looksLikeDialogue(text);
+  // Dialogue markup is applied turn by turn, so it is checked that way too
+  const markupErrors = useMemo(
+    () => (mode === 'dialogue' ? dialogueMarkupErrors(text, toneStyles) : parseMarkup(text, toneStyles).errors),
+    [mode, text, toneStyles]
+  );
+  const canGenerate = text.trim().length > 0
+    && markupErrors.length === 0
+    && (mode === 'narration' || speakers.length > 0);
+
+  const speechProvider = SPEECH_PROVIDERS[providerId];
+  const musicComposer = MUSIC_COMPOSERS[providerId];
+
+  const audioTags = useMemo(() => buildAudioTags({
+    name: projects.find(p => p.id === projectId)?.name ?? defaultProjectName(text),
+    script: text,
+    mode,
+    voice: selectedVoice,
+    tone: selectedTone,
+    style: mode === 'narration' ? selectedStyle : null,
+    casting: mode === 'dialogue' ? casting : {},
+    model: SPEECH_PROVIDERS[audioProviderId].model,
+  }), [projects, projectId, text, mode, selectedVoice, selectedTone, selectedStyle, casting, audioProviderId]);
+
+  const handleCastingChange = (speaker: string, value: SpeakerCasting) => {
+    setCastingOverrides(prev => ({ ...prev, [speaker]: value }));
+  };
+
+  const handleSelectTone = (tone: Tone) => {
+    setSelectedTone(tone);
+    setSelectedStyle(null);
+  };
+
+  const handleSelectStyle = (style: ToneStyle) => {
+    setSelectedTone(style.base);
+    setSelectedStyle(style);
+  };
+
+  // Speakers cast with a style hold a copy of it, so edits and deletes reach them too
+  const recastStyle = (id: string, style: ToneStyle | null) => {
+    setCastingOverrides((prev: Casting) => Object.fromEntries(
+      Object.entries(prev).map(([speaker, cast]) => {
+        if (cast.style?.id !== id) return [speaker, cast];
+        const { style: _previous, ...rest } = cast;
+        return [speaker, style ? { ...rest, tone: style.base, style } : rest];
+      })
+    ));
+  };
+
+  const handleSaveStyle = (style: ToneStyle) => {
+    const exists = toneStyles.some(s => s.id === style.id);
+    const next = exists ? toneStyles.map(s => (s.id === style.id ? style : s)) : [...toneStyles, style];
+    setToneStyles(next);
+    saveToneStyles(next);
+    if (!exists || selectedStyle?.id === style.id) handleSelectStyle(style);
+    recastStyle(style.id, style);
+    setEditingStyle(null);
+  };
+
+  const handleDeleteStyle = (id: string) => {
+    const next = toneStyles.filter(s => s.id !== id);
+    setToneStyles(next);
+    saveToneStyles(next);
+    if (selectedStyle?.id === id) setSelectedStyle(null);
+    recastStyle(id, null);
+    setEditingStyle(null);
+  };
+
+  const handleProviderChange = (id: ProviderId) => {
+    setProviderId(id);
+    saveProviderSetting(id);
+  };
+
+  const refreshProjects = () => {
+    listProjects()
+      .then(setProjects)
+      .catch(err => console.error("Failed to load project library", err));
+  };
+
+  useEffect(refreshProjects, []);
+
+  // Persist player settings on the open project, debounced while sliders move
+  useEffect(() => {
+    if (!projectId) return;
+    const saved = savedSettings.current;
+    if (
+      saved.playbackRate === playbackRate && saved.pitch === pitch
+      && saved.musicVolume === musicVolume && saved.ducking === ducking && saved.silence === silence
+      && saved.effects === effects
+    ) return;
+    const timer = setTimeout(() => {
+      savedSettings.current = { playbackRate, pitch, musicVolume, ducking, silence, effects };
+      updateProject(projectId, { playbackRate, pitch, musicVolume, ducking, silence, effects })
+        .catch(err => console.error("Failed to save project settings", err));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [projectId, playbackRate, pitch, musicVolume, ducking, silence, effects]);
+
+  const createProject = async (url: string, paragraphMarkers: AudioMarker[]) => {
+    const id = crypto.randomUUID();
+    const now = Date.now();
+    try {
+      const speechBlob = await fetch(url).then(r => r.blob());
+      await saveProject({
+        id,
+        name: defaultProjectName(text),
+        createdAt: now,
+        updatedAt: now,
+        script: text,
+        mode,
+        voice: selectedVoice,
+        tone: selectedTone,
+        style: selectedStyle,
+        casting,
+        providerId,
+        speechBlob,
+        musicBlob: null,
+        musicScore: null,
+        playbackRate,
+        pitch,
+        musicVolume,
+        ducking,
+        silence,
+        effects,
+        markers: paragraphMarkers,
+        bookmarks: [],
+      });
+      savedSettings.current = { playbackRate, pitch, musicVolume, ducking, silence, effects };
+      setProjectId(id);
+      refreshProjects();
+    } catch (err) {
+      console.error("Failed to save project", err);
+    }
+  };
+
+  const attachMusicToProject = async (url: string, score: MusicScore) => {
+    if (!projectId) return;
+    try {
+      const musicBlob = await fetch(url).then(r => r.blob());
+      await updateProject(projectId, { musicBlob, musicScore: score });
+      refreshProjects();
+    } catch (err) {
+      console.error("Failed to save project music", err);
+    }
+  };
+
+  const handleOpenProject = async (id: string) => {
+    try {
+      const project = await getProject(id);
+      if (!project) return;
+
+      if (audioUrl) URL.revokeObjectURL(audioUrl);
+      if (musicUrl) URL.revokeObjectURL(musicUrl);
+
+      setText(project.script);
+      setMode(project.mode);
+      setSelectedVoice(project.voice);
+      setSelectedTone(project.tone);
+      setSelectedStyle(sanitizeToneStyle(project.style));
+      setCastingOverrides(project.casting);
+      setPlaybackRate(project.playbackRate);
+      setMusicVolume(project.musicVolume);
+      // Projects saved before markers, pitch, ducking, silence editing or effects existed lack those fields
+      const projectPitch = project.pitch ?? 0;
+      const projectDucking = project.ducking ?? DEFAULT_DUCKING;
+      const projectSilence = project.silence ?? DEFAULT_SILENCE;
+      const projectEffects = sanitizeChain(project.effects);
+      setPitch(projectPitch);
+      setDucking(projectDucking);
+      setSilence(projectSilence);
+      setEffects(projectEffects);
+      setMarkers(project.markers ?? []);
+      setBookmarks(project.bookmarks ?? []);
+      setAudioProviderId(project.providerId);
+      savedSettings.current = {
+        playbackRate: project.playbackRate,
+        pitch: projectPitch,
+        musicVolume: project.musicVolume,
+        ducking: projectDucking,
+        silence: projectSilence,
+        effects: projectEffects,
+      };
+      setAudioUrl(URL.createObjectURL(project.speechBlob));
+      setMusicUrl(project.musicBlob ? URL.createObjectURL(project.musicBlob) : null);
+      setMusicScore(project.musicBlob ? project.musicScore : null);
+      setSpeechCached(false);
+      setMusicCached(false);
+      setMusicFallback(null);
+      setProjectId(project.id);
+      setError(null);
+      setIsLibraryOpen(false);
+    } catch (err) {
+      console.error(err);
+      setError("Could not open that project.");
+    }
+  };
+
+  const handleRenameProject = async (id: string, name: string) => {
+    await updateProject(id, { name }).catch(err => console.error("Failed to rename project", err));
+    refreshProjects();
+  };
+
+  const handleImportAudio = async (file: File) => {
+    try {
+      const metadata = readWavMetadata(new Uint8Array(await file.arrayBuffer()));
+      const { voice, tone } = readVoiceAndTone(metadata);
+      const id = crypto.randomUUID();
+      const now = Date.now();
+      await saveProject({
+        id,
+        name: metadata.title || file.name.replace(/\.wav$/i, ''),
+        createdAt: now,
+        updatedAt: now,
+        script: metadata.script ?? '',
+        mode: 'narration',
+        voice: voice ?? selectedVoice,
+        tone: tone ?? selectedTone,
+        casting: {},
+        providerId,
+        speechBlob: file,
+        musicBlob: null,
+        musicScore: null,
+        // The file already has speed and music baked in
+        playbackRate: 1.0,
+        pitch: 0,
+        musicVolume,
+        ducking,
+        silence,
+        effects: [],
+        markers: [],
+        bookmarks: metadata.markers,
+      });
+      refreshProjects();
+      await handleOpenProject(id);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Could not import that file.");
+    }
+  };
+
+  const handleBookmarksChange = (next: AudioMarker[]) => {
+    setBookmarks(next);
+    if (!projectId) return;
+    updateProject(projectId, { bookmarks: next })
+      .catch(err => console.error("Failed to save bookmarks", err));
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    await deleteProject(id).catch(err => console.error("Failed to delete project", err));
+    if (id === projectId) setProjectId(null);
+    refreshProjects();
+  };
 
   const handleGenerate = async () => {
-    if (!text.trim()) return;
+    if (!canGenerate) return;
 
     setIsLoading(true);
     setError(null);
@@ -25,44 +332,161 @@ const App: React.FC = () => {
     if (musicUrl) URL.revokeObjectURL(musicUrl);
     setAudioUrl(null);
     setMusicUrl(null);
+    setMusicScore(null);
+    setProjectId(null);
+    setSpeechCached(false);
+    setMusicCached(false);
+    setMusicFallback(null);
+    setMarkers([]);
+    setBookmarks([]);
+    const controller = new AbortController();
+    speechAbort.current = controller;
+    // The player opens with the first audio and plays the rest as it streams in
+    const stream = new SpeechStream(SPEECH_SAMPLE_RATE);
+    const onAudio = (samples: Int16Array) => {
+      if (stream.sampleCount === 0) setSpeechStream(stream);
+      stream.append(samples);
+    };
 
     try {
-      const url = await generateSpeech(text, selectedVoice, selectedTone);
+      const options = { onProgress: setProgress, onAudio, forceRegenerate, styles: toneStyles, signal: controller.signal };
+      const { url, cached, markers: paragraphMarkers } = mode === 'dialogue'
+        ? await speechProvider.generateDialogue(text, casting, options)
+        : await speechProvider.generateSpeech(text, selectedVoice, selectedTone, { ...options, style: selectedStyle ?? undefined });
+      stream.finish();
       setAudioUrl(url);
+      setMarkers(paragraphMarkers);
+      setAudioProviderId(providerId);
+      setSpeechCached(cached);
+      setForceRegenerate(false);
+      createProject(url, paragraphMarkers);
     } catch (err: any) {
-      setError(err.message || "Failed to generate audio. Please check your API key.");
+      if (!isCancelled(err)) setError(err.message || "Failed to generate audio.");
     } finally {
+      speechAbort.current = null;
+      setSpeechStream(null);
       setIsLoading(false);
+      setProgress(null);
     }
   };
 
-  const handleGenerateMusic = async () => {
+  const handleGenerateMusic = async (force = forceRegenerate) => {
     if (!audioUrl || !text) return;
     
     setIsGeneratingMusic(true);
+    const controller = new AbortController();
+    musicAbort.current = controller;
     try {
-      const url = await generateBackgroundMusic(text);
+      const { url, score, cached, fallback, fallbackReason } = await musicComposer.generateBackgroundMusic(text, {
+        forceRegenerate: force,
+        tone: mode === 'narration' ? selectedTone : undefined,
+        signal: controller.signal,
+      });
+      if (musicUrl) URL.revokeObjectURL(musicUrl);
       setMusicUrl(url);
+      setMusicScore(score);
+      setMusicCached(cached);
+      setMusicFallback(fallback ? fallbackReason ?? "Gemini couldn't compose the music." : null);
+      setForceRegenerate(false);
+      attachMusicToProject(url, score);
     } catch (err: any) {
+      if (isCancelled(err)) return;
       console.error(err);
       // Optional: show a toast or error specific to music, but we'll just log it to keep UI clean or reuse error state
-      setError("Failed to generate background music. Try again.");
+      setError(err.message || "Failed to generate background music. Try again.");
     } finally {
+      musicAbort.current = null;
       setIsGeneratingMusic(false);
     }
   };
 
+  const handleImportMidi = async (file: File) => {
+    setIsGeneratingMusic(true);
+    try {
+      const { url, score } = await importMidi(file);
+      if (musicUrl) URL.revokeObjectURL(musicUrl);
+      setMusicUrl(url);
+      setMusicScore(score);
+      setMusicCached(false);
+      setMusicFallback(null);
+      attachMusicToProject(url, score);
+    } catch (err: any) {
+      console.error(err);
+      setError(`Could not import that MIDI file. ${err.message ?? ''}`.trim());
+    } finally {
+      setIsGeneratingMusic(false);
+    }
+  };
+
+  const handleExportMidi = () => {
+    if (!musicScore) return;
+    const url = URL.createObjectURL(exportMidi(musicScore));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = midiFileName();
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
   const handleReset = () => {
+    speechAbort.current?.abort();
+    musicAbort.current?.abort();
     if (audioUrl) URL.revokeObjectURL(audioUrl);
     if (musicUrl) URL.revokeObjectURL(musicUrl);
     setAudioUrl(null);
     setMusicUrl(null);
+    setMusicScore(null);
+    setProjectId(null);
+    setSpeechCached(false);
+    setMusicCached(false);
+    setMusicFallback(null);
+    setMarkers([]);
+    setBookmarks([]);
     setText('');
     setError(null);
   };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 to-slate-800 text-slate-100 flex flex-col items-center py-12 px-4 sm:px-6 lg:px-8">
+      {isLibraryOpen && (
+        <ProjectLibrary
+          projects={projects}
+          activeId={projectId}
+          onOpen={handleOpenProject}
+          onRename={handleRenameProject}
+          onDelete={handleDeleteProject}
+          onImport={handleImportAudio}
+          onClose={() => setIsLibraryOpen(false)}
+        />
+      )}
+
+      <button
+        onClick={() => setIsLibraryOpen(true)}
+        className="fixed top-4 left-4 z-10 flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-800/80 border border-slate-700 text-sm text-slate-300 hover:text-white hover:bg-slate-700 transition-colors"
+      >
+        <LibraryIcon />
+        Library{projects.length > 0 && ` (${projects.length})`}
+      </button>
+
+      <button
+        onClick={() => setIsBatchOpen(true)}
+        className="fixed top-4 right-4 z-10 flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-800/80 border border-slate-700 text-sm text-slate-300 hover:text-white hover:bg-slate-700 transition-colors"
+      >
+        <BatchIcon />
+        Batch
+      </button>
+
+      {isBatchOpen && (
+        <BatchPanel
+          provider={speechProvider}
+          composer={musicComposer}
+          styles={toneStyles}
+          defaultVoice={selectedVoice}
+          defaultTone={selectedTone}
+          onClose={() => setIsBatchOpen(false)}
+        />
+      )}
+
       <div className="w-full max-w-2xl space-y-8">
         
         {/* Header */}
@@ -78,55 +502,142 @@ const App: React.FC = () => {
           <p className="text-slate-400 text-lg max-w-lg mx-auto leading-relaxed">
             Transform text into lifelike speech. Control tone, time and speed with precision.
           </p>
+
+          {/* Provider Selection */}
+          <div className="flex items-center justify-center gap-2 pt-2 text-xs">
+            <span className="text-slate-500 uppercase tracking-wider font-semibold">Engine</span>
+            {(Object.keys(SPEECH_PROVIDERS) as ProviderId[]).map((id) => (
+              <button
+                key={id}
+                onClick={() => handleProviderChange(id)}
+                className={`px-3 py-1 rounded-full border transition-all duration-200 ${
+                  providerId === id
+                    ? 'bg-blue-600 border-blue-500 text-white'
+                    : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-slate-200'
+                }`}
+              >
+                {SPEECH_PROVIDERS[id].label}
+              </button>
+            ))}
+          </div>
+          {!speechProvider.isAvailable() && (
+            <p className="text-xs text-amber-300">
+              No Gemini API key is configured. Switch to the Offline engine or set GEMINI_API_KEY.
+            </p>
+          )}
         </div>
 
         {/* Main Card */}
         <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700/50 rounded-2xl p-6 md:p-8 shadow-2xl">
           
-          {!audioUrl ? (
+          {!audioUrl && !speechStream ? (
             <div className="space-y-6 animate-fade-in-up">
+
+              {/* Mode Selection */}
+              <div className="flex p-1 bg-slate-900 border border-slate-700 rounded-xl">
+                {(['narration', 'dialogue'] as ScriptMode[]).map((m) => (
+                  <button
+                    key={m}
+                    onClick={() => setMode(m)}
+                    className={`flex-1 py-2 rounded-lg text-sm font-medium capitalize transition-all duration-200 ${
+                      mode === m
+                        ? 'bg-slate-700 text-white shadow-md'
+                        : 'text-slate-400 hover:text-slate-200'
+                    }`}
+                  >
+                    {m}
+                  </button>
+                ))}
+              </div>
               
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                {/* Voice Selection */}
-                <div className="space-y-2">
-                  <label className="block text-sm font-medium text-slate-300">Voice</label>
-                  <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-2 gap-2">
-                    {Object.values(VoiceName).map((voice) => (
-                      <button
-                        key={voice}
-                        onClick={() => setSelectedVoice(voice)}
-                        className={`px-3 py-2 rounded-lg text-sm font-medium transition-all duration-200 border ${
-                          selectedVoice === voice
-                            ? 'bg-blue-600 border-blue-500 text-white shadow-md shadow-blue-900/50'
-                            : 'bg-slate-700 border-slate-600 text-slate-300 hover:bg-slate-600'
-                        }`}
-                      >
-                        {voice}
-                      </button>
-                    ))}
+              {mode === 'dialogue' ? (
+                <CastingPanel speakers={speakers} casting={casting} styles={toneStyles} onChange={handleCastingChange} />
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  {/* Voice Selection */}
+                  <div className="space-y-2">
+                    <label className="block text-sm font-medium text-slate-300">Voice</label>
+                    <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-2 gap-2">
+                      {Object.values(VoiceName).map((voice) => (
+                        <button
+                          key={voice}
+                          onClick={() => setSelectedVoice(voice)}
+                          className={`px-3 py-2 rounded-lg text-sm font-medium transition-all duration-200 border ${
+                            selectedVoice === voice
+                              ? 'bg-blue-600 border-blue-500 text-white shadow-md shadow-blue-900/50'
+                              : 'bg-slate-700 border-slate-600 text-slate-300 hover:bg-slate-600'
+                          }`}
+                        >
+                          {voice}
+                        </button>
+                      ))}
+                    </div>
                   </div>
-                </div>
 
-                {/* Tone Selection */}
-                <div className="space-y-2">
-                  <label className="block text-sm font-medium text-slate-300">Tone</label>
-                  <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-2 gap-2">
-                    {Object.values(Tone).map((tone) => (
+                  {/* Tone Selection */}
+                  <div className="space-y-2">
+                    <label className="block text-sm font-medium text-slate-300">Tone</label>
+                    <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-2 gap-2">
+                      {Object.values(Tone).map((tone) => (
+                        <button
+                          key={tone}
+                          onClick={() => handleSelectTone(tone)}
+                          className={`px-3 py-2 rounded-lg text-sm font-medium transition-all duration-200 border ${
+                            !selectedStyle && selectedTone === tone
+                              ? 'bg-teal-600 border-teal-500 text-white shadow-md shadow-teal-900/50'
+                              : 'bg-slate-700 border-slate-600 text-slate-300 hover:bg-slate-600'
+                          }`}
+                        >
+                          {tone}
+                        </button>
+                      ))}
+                      {toneStyles.map((style) => (
+                        <button
+                          key={style.id}
+                          onClick={() => handleSelectStyle(style)}
+                          title={`Custom style based on ${style.base}`}
+                          className={`px-3 py-2 rounded-lg text-sm font-medium truncate transition-all duration-200 border ${
+                            selectedStyle?.id === style.id
+                              ? 'bg-teal-600 border-teal-500 text-white shadow-md shadow-teal-900/50'
+                              : 'bg-slate-700 border-dashed border-teal-700 text-slate-300 hover:bg-slate-600'
+                          }`}
+                        >
+                          {style.name}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="flex gap-3 text-xs">
                       <button
-                        key={tone}
-                        onClick={() => setSelectedTone(tone)}
-                        className={`px-3 py-2 rounded-lg text-sm font-medium transition-all duration-200 border ${
-                          selectedTone === tone
-                            ? 'bg-teal-600 border-teal-500 text-white shadow-md shadow-teal-900/50'
-                            : 'bg-slate-700 border-slate-600 text-slate-300 hover:bg-slate-600'
-                        }`}
+                        onClick={() => setEditingStyle(createToneStyle(selectedTone))}
+                        className="text-teal-400 hover:text-teal-300"
                       >
-                        {tone}
+                        + New style
                       </button>
-                    ))}
+                      {selectedStyle && (
+                        <button
+                          onClick={() => setEditingStyle(toneStyles.find(s => s.id === selectedStyle.id) ?? selectedStyle)}
+                          className="text-teal-400 hover:text-teal-300"
+                        >
+                          Edit {selectedStyle.name}
+                        </button>
+                      )}
+                    </div>
                   </div>
+
+                  {editingStyle && (
+                    <div className="md:col-span-2">
+                      <ToneStyleEditor
+                        key={editingStyle.id}
+                        initial={editingStyle}
+                        styles={toneStyles}
+                        onSave={handleSaveStyle}
+                        onCancel={() => setEditingStyle(null)}
+                        onDelete={toneStyles.some(s => s.id === editingStyle.id) ? () => handleDeleteStyle(editingStyle.id) : undefined}
+                      />
+                    </div>
+                  )}
                 </div>
-              </div>
+              )}
 
               {/* Text Input */}
               <div className="space-y-2">
@@ -138,20 +649,44 @@ const App: React.FC = () => {
                   rows={6}
                   value={text}
                   onChange={(e) => setText(e.target.value)}
-                  placeholder="Enter the text you want to hear..."
+                  placeholder={mode === 'dialogue' ? "Alice: Did you hear that?\nBob: Hear what?" : "Enter the text you want to hear..."}
                   className="w-full px-4 py-3 bg-slate-900 border border-slate-700 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-100 placeholder-slate-500 resize-none transition-all"
                 />
-                <div className="text-right text-xs text-slate-500">
-                  {text.length} chars
+                <div className="flex justify-between text-xs text-slate-500">
+                  <span>
+                    {suggestDialogue && (
+                      <button onClick={() => setMode('dialogue')} className="text-blue-400 hover:text-blue-300">
+                        Looks like a dialogue — switch to dialogue mode?
+                      </button>
+                    )}
+                    {mode === 'dialogue' && speakers.length > 0 && `${speakers.length} speakers detected`}
+                  </span>
+                  <span>{text.length} chars</span>
                 </div>
+                {markupErrors.length > 0 ? (
+                  <ul className="p-3 bg-red-900/20 border border-red-800 rounded-lg text-red-200 text-xs font-mono space-y-1">
+                    {markupErrors.map((err, i) => (
+                      <li key={i}>
+                        Line {err.line}, col {err.column}: {err.message}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-xs text-slate-500">
+                    Markup: <span className="font-mono text-slate-400">[pause 800ms]</span>,{' '}
+                    <span className="font-mono text-slate-400">[tone:Sad]…[/tone]</span> (or a custom style's name),{' '}
+                    <span className="font-mono text-slate-400">[whisper]…[/whisper]</span>,{' '}
+                    <span className="font-mono text-slate-400">*emphasis*</span>
+                  </p>
+                )}
               </div>
 
               {/* Generate Button */}
               <button
                 onClick={handleGenerate}
-                disabled={isLoading || !text.trim()}
+                disabled={isLoading || !canGenerate}
                 className={`w-full py-4 rounded-xl text-lg font-bold shadow-lg transition-all flex items-center justify-center gap-2 ${
-                  isLoading || !text.trim()
+                  isLoading || !canGenerate
                     ? 'bg-slate-700 text-slate-500 cursor-not-allowed'
                     : 'bg-gradient-to-r from-blue-600 to-teal-500 hover:from-blue-500 hover:to-teal-400 text-white shadow-blue-900/30 hover:shadow-blue-900/50 transform hover:-translate-y-0.5'
                 }`}
@@ -162,12 +697,54 @@ const App: React.FC = () => {
                       <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                       <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                     </svg>
-                    Synthesizing...
+                    {progress && progress.total > 1
+                      ? `Synthesizing part ${Math.min(progress.completed + 1, progress.total)} of ${progress.total}...`
+                      : 'Synthesizing...'}
                   </>
                 ) : (
                   'Generate Audio'
                 )}
               </button>
+              {isLoading && (
+                <button
+                  onClick={() => speechAbort.current?.abort()}
+                  className="w-full -mt-2 py-2 rounded-xl text-sm text-slate-400 hover:text-white hover:bg-slate-700/50 transition-colors"
+                >
+                  Cancel
+                </button>
+              )}
+
+              <label className="flex items-center justify-end gap-2 text-xs text-slate-500 cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={forceRegenerate}
+                  onChange={(e) => setForceRegenerate(e.target.checked)}
+                  className="accent-blue-500"
+                />
+                Force regenerate (skip cache)
+              </label>
+
+              {/* Per-chunk progress for long scripts */}
+              {isLoading && progress && progress.total > 1 && (
+                <div className="flex gap-1">
+                  {progress.chunks.map((status, i) => (
+                    <div
+                      key={i}
+                      className={`h-1.5 flex-1 rounded-full transition-colors ${
+                        status === 'done'
+                          ? 'bg-teal-500'
+                          : status === 'cached'
+                          ? 'bg-emerald-400'
+                          : status === 'generating'
+                          ? 'bg-blue-500 animate-pulse'
+                          : status === 'error'
+                          ? 'bg-red-500'
+                          : 'bg-slate-700'
+                      }`}
+                    />
+                  ))}
+                </div>
+              )}
 
               {error && (
                 <div className="p-4 bg-red-900/20 border border-red-800 rounded-xl text-red-200 text-sm">
@@ -179,24 +756,79 @@ const App: React.FC = () => {
             <div className="animate-fade-in space-y-4">
               <div className="flex justify-between items-start">
                  <div>
-                   <h2 className="text-xl font-semibold text-white mb-1">Audio Ready</h2>
-                   <p className="text-slate-400 text-sm truncate max-w-[200px] sm:max-w-md">Source: "{text.substring(0, 50)}..."</p>
-                 </div>
-                 <div className="flex gap-2">
-                    <span className="px-2 py-1 rounded bg-blue-900/50 border border-blue-800 text-blue-200 text-xs">{selectedVoice}</span>
-                    <span className="px-2 py-1 rounded bg-teal-900/50 border border-teal-800 text-teal-200 text-xs">{selectedTone}</span>
+                   <h2 className="text-xl font-semibold text-white mb-1">{audioUrl ? 'Audio Ready' : 'Streaming...'}</h2>
+                   {!audioUrl && (
+                     <p className="mt-1 text-xs text-slate-400">
+                       {progress && progress.total > 1
+                         ? `Synthesizing part ${Math.min(progress.completed + 1, progress.total)} of ${progress.total}, playing as it arrives. `
+                         : 'Playing as it arrives. '}
+                       <button
+                         onClick={() => speechAbort.current?.abort()}
+                         className="text-slate-400 hover:text-white underline transition-colors"
+                       >
+                         Cancel
+                       </button>
+                     </p>
+                   )}
+                   {(speechCached || musicCached) && (
+                     <p className="mt-1 text-xs text-emerald-300">
+                       {speechCached && musicCached
+                         ? 'Speech and music served from cache'
+                         : speechCached
+                         ? 'Speech served from cache'
+                         : 'Music served from cache'}
+                     </p>
+                   )}
+                   {musicFallback && (
+                     <p className="mt-1 text-xs text-amber-300">
+                       {musicFallback} The music was composed offline instead.
+                     </p>
+                   )}
                  </div>
+                 {mode === 'dialogue' ? (
+                   <div className="flex flex-wrap justify-end gap-2">
+                      {speakers.map((speaker) => (
+                        <span key={speaker} className="px-2 py-1 rounded bg-blue-900/50 border border-blue-800 text-blue-200 text-xs">
+                          {speaker}: {casting[speaker].voice}
+                        </span>
+                      ))}
+                   </div>
+                 ) : (
+                   <div className="flex gap-2">
+                      <span className="px-2 py-1 rounded bg-blue-900/50 border border-blue-800 text-blue-200 text-xs">{selectedVoice}</span>
+                      <span className="px-2 py-1 rounded bg-teal-900/50 border border-teal-800 text-teal-200 text-xs">{selectedStyle?.name ?? selectedTone}</span>
+                   </div>
+                 )}
               </div>
               
               <AudioPlayer 
                  audioUrl={audioUrl} 
+                 stream={speechStream}
                  musicUrl={musicUrl}
+                 playbackRate={playbackRate}
+                 pitch={pitch}
+                 musicVolume={musicVolume}
+                 ducking={ducking}
+                 silence={silence}
+                 effects={effects}
+                 script={text}
+                 mode={mode}
+                 tags={audioTags}
+                 markers={markers}
+                 bookmarks={bookmarks}
+                 onPlaybackRateChange={setPlaybackRate}
+                 onPitchChange={setPitch}
+                 onMusicVolumeChange={setMusicVolume}
+                 onDuckingChange={setDucking}
+                 onSilenceChange={setSilence}
+                 onEffectsChange={setEffects}
+                 onBookmarksChange={handleBookmarksChange}
                  onReset={handleReset} 
               />
               
-              {!musicUrl && (
+              {!musicUrl && audioUrl && (
                  <button 
-                   onClick={handleGenerateMusic}
+                   onClick={() => handleGenerateMusic()}
                    disabled={isGeneratingMusic}
                    className="w-full py-3 rounded-xl bg-slate-700/50 hover:bg-slate-700 border border-slate-600 text-slate-300 hover:text-white transition-all flex items-center justify-center gap-2 group"
                  >
@@ -216,6 +848,48 @@ const App: React.FC = () => {
                    )}
                  </button>
               )}
+
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex gap-4">
+                  <label className={`text-xs text-slate-500 transition-colors ${isGeneratingMusic ? 'opacity-50' : 'hover:text-slate-300 cursor-pointer'}`}>
+                    Import MIDI...
+                    <input
+                      type="file"
+                      accept=".mid,.midi,audio/midi"
+                      className="hidden"
+                      disabled={isGeneratingMusic}
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) handleImportMidi(file);
+                        e.target.value = '';
+                      }}
+                    />
+                  </label>
+                  {musicScore && (
+                    <button
+                      onClick={handleExportMidi}
+                      className="text-xs text-slate-500 hover:text-slate-300 transition-colors"
+                    >
+                      Download MIDI
+                    </button>
+                  )}
+                </div>
+                {isGeneratingMusic ? (
+                  <button
+                    onClick={() => musicAbort.current?.abort()}
+                    className="text-xs text-slate-400 hover:text-white transition-colors"
+                  >
+                    Composing... Cancel
+                  </button>
+                ) : musicUrl && (
+                  <button
+                    onClick={() => handleGenerateMusic(true)}
+                    className="text-xs text-slate-500 hover:text-slate-300 transition-colors"
+                  >
+                    Compose new music (skip cache)
+                  </button>
+                )}
+              </div>
             </div>
           )}
 
@@ -1,117 +1,340 @@
-import React, { useRef, useEffect, useState } from 'react';
-import { PlayIcon, PauseIcon, RefreshIcon, DownloadIcon, MusicIcon } from './Icons';
-import { renderEnhancedAudio } from '../utils/audio';
+import React, { useRef, useEffect, useMemo, useState } from 'react';
+import { AudioMarker, AudioTags, DuckingSettings, LoudnessStats, ScriptMode, SilenceSettings, SpeechEffect, TimeRegion, WaveformPeaks } from '../types';
+import { formatLevel, measureMix } from '../services/exporter';
+import { PlaybackEngine } from '../services/playback';
+import { computePeaks, editPeaks } from '../services/waveform';
+import { alignScript } from '../utils/alignment';
+import { buildDuckingCurve, duckingGainAt } from '../utils/ducking';
+import { planSilenceEdit, toEditedTime, toSourceTime } from '../utils/silence';
+import { MAX_PITCH_SEMITONES, MIN_PITCH_SEMITONES } from '../utils/stretch';
+import { SpeechStream } from '../utils/stream';
+import { PlayIcon, PauseIcon, RefreshIcon, DownloadIcon, MusicIcon, BookmarkIcon, CloseIcon, LoopIcon, AuditionIcon } from './Icons';
+import ExportDialog from './ExportDialog';
+import MarkerList from './MarkerList';
+import DuckingControls from './DuckingControls';
+import EffectsRack from './EffectsRack';
+import SilenceControls from './SilenceControls';
+import Waveform from './Waveform';
+import Transcript from './Transcript';
 
 interface AudioPlayerProps {
   audioUrl: string | null;
+  stream: SpeechStream | null; // Speech still being generated, played as it arrives until audioUrl is set
   musicUrl: string | null;
+  playbackRate: number;
+  pitch: number; // Semitones
+  musicVolume: number;
+  ducking: DuckingSettings;
+  silence: SilenceSettings;
+  effects: SpeechEffect[];
+  script: string;
+  mode: ScriptMode;
+  tags: AudioTags;
+  markers: AudioMarker[];
+  bookmarks: AudioMarker[];
+  onPlaybackRateChange: (rate: number) => void;
+  onPitchChange: (semitones: number) => void;
+  onMusicVolumeChange: (volume: number) => void;
+  onDuckingChange: (ducking: DuckingSettings) => void;
+  onSilenceChange: (silence: SilenceSettings) => void;
+  onEffectsChange: (effects: SpeechEffect[]) => void;
+  onBookmarksChange: (bookmarks: AudioMarker[]) => void;
   onReset: () => void;
 }
 
-const AudioPlayer: React.FC<AudioPlayerProps> = ({ audioUrl, musicUrl, onReset }) => {
-  const audioRef = useRef<HTMLAudioElement>(null);
-  const musicRef = useRef<HTMLAudioElement>(null);
+const AudioPlayer: React.FC<AudioPlayerProps> = ({
+  audioUrl,
+  stream,
+  musicUrl,
+  playbackRate,
+  pitch,
+  musicVolume,
+  ducking,
+  silence,
+  effects,
+  script,
+  mode,
+  tags,
+  markers,
+  bookmarks,
+  onPlaybackRateChange,
+  onPitchChange,
+  onMusicVolumeChange,
+  onDuckingChange,
+  onSilenceChange,
+  onEffectsChange,
+  onBookmarksChange,
+  onReset,
+}) => {
+  const engineRef = useRef<PlaybackEngine | null>(null);
+  const streamedRef = useRef(false); // The engine holds streamed speech that audioUrl will finish
   
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
-  const [playbackRate, setPlaybackRate] = useState(1.0);
-  const [musicVolume, setMusicVolume] = useState(0.3); // Default low volume for background
-  const [isProcessingDownload, setIsProcessingDownload] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [mixLoudness, setMixLoudness] = useState<LoudnessStats | null>(null);
+  const [exportedLoudness, setExportedLoudness] = useState<LoudnessStats | null>(null);
+  const [speechActivity, setSpeechActivity] = useState<Uint8Array | null>(null);
+  const [speechLevels, setSpeechLevels] = useState<Float32Array | null>(null);
+  const [speechPeaks, setSpeechPeaks] = useState<WaveformPeaks | null>(null);
+  const [musicPeaks, setMusicPeaks] = useState<WaveformPeaks | null>(null);
+  const [region, setRegion] = useState<TimeRegion | null>(null);
+  const [isLooping, setIsLooping] = useState(false);
+  const [isAuditioning, setIsAuditioning] = useState(false); // Playing the region once
 
-  // Sync audio events with state (Speech is the master clock)
+  // One Web Audio engine for the player's lifetime (Speech is the master clock)
   useEffect(() => {
-    const audio = audioRef.current;
-    if (!audio) return;
-
-    const updateTime = () => setCurrentTime(audio.currentTime);
-    const updateDuration = () => setDuration(audio.duration);
-    const onEnded = () => {
+    const engine = new PlaybackEngine();
+    engine.onEnded = () => {
       setIsPlaying(false);
-      // Stop music when speech ends
-      if (musicRef.current) {
-        musicRef.current.pause();
-        musicRef.current.currentTime = 0;
+      setIsAuditioning(false);
+      setCurrentTime(engine.currentTime);
+    };
+    engineRef.current = engine;
+    return () => {
+      engineRef.current = null;
+      engine.dispose();
+    };
+  }, []);
+
+  // Speech still being generated starts playing with its first samples,
+  // on a timeline that grows as the rest arrives
+  useEffect(() => {
+    const engine = engineRef.current;
+    if (!engine || !stream) return;
+    streamedRef.current = true;
+    setIsPlaying(false);
+    setCurrentTime(0);
+    setDuration(0);
+    setSpeechActivity(null);
+    setSpeechLevels(null);
+    setRegion(null);
+    setIsLooping(false);
+    engine.beginStream(stream.sampleRate);
+
+    let read = 0;
+    let ended = false;
+    const follow = () => {
+      if (stream.sampleCount > read) {
+        engine.appendStream(stream.read(read));
+        if (read === 0) setIsPlaying(true);
+        read = stream.sampleCount;
+      }
+      if (stream.finished && !ended) {
+        ended = true;
+        engine.endStream();
       }
+      setDuration(engine.duration);
+    };
+    follow();
+    return stream.subscribe(follow);
+  }, [stream]);
+
+  useEffect(() => {
+    const engine = engineRef.current;
+    if (!engine || !audioUrl) return;
+    let cancelled = false;
+    // The finished file of streamed speech carries on where playback is
+    if (!streamedRef.current) {
+      setIsPlaying(false);
+      setCurrentTime(0);
+      setRegion(null);
+      setIsLooping(false);
+    }
+    streamedRef.current = false;
+    setSpeechActivity(null);
+    setSpeechLevels(null);
+    engine.loadSpeech(audioUrl)
+      .then(({ duration, activity, levels }) => {
+        if (cancelled) return;
+        setDuration(duration);
+        setSpeechActivity(activity);
+        setSpeechLevels(levels);
+      })
+      .catch(err => console.error("Failed to load speech", err));
+    return () => {
+      cancelled = true;
     };
+  }, [audioUrl]);
 
-    audio.addEventListener('timeupdate', updateTime);
-    audio.addEventListener('loadedmetadata', updateDuration);
-    audio.addEventListener('ended', onEnded);
+  useEffect(() => {
+    engineRef.current?.loadMusic(musicUrl).catch(err => console.error("Failed to load music", err));
+  }, [musicUrl]);
 
+  // Waveform peaks come from a worker, separately from playback
+  useEffect(() => {
+    if (!audioUrl) return;
+    let cancelled = false;
+    setSpeechPeaks(null);
+    computePeaks(audioUrl)
+      .then(peaks => { if (!cancelled) setSpeechPeaks(peaks); })
+      .catch(err => console.error("Failed to draw speech waveform", err));
     return () => {
-      audio.removeEventListener('timeupdate', updateTime);
-      audio.removeEventListener('loadedmetadata', updateDuration);
-      audio.removeEventListener('ended', onEnded);
+      cancelled = true;
     };
   }, [audioUrl]);
 
+  useEffect(() => {
+    let cancelled = false;
+    setMusicPeaks(null);
+    if (!musicUrl) return;
+    computePeaks(musicUrl)
+      .then(peaks => { if (!cancelled) setMusicPeaks(peaks); })
+      .catch(err => console.error("Failed to draw music waveform", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [musicUrl]);
+
+  // Silence edits are planned on the original speech; everything on the
+  // player's timeline (markers, peaks, region, captions) follows the edit
+  const silenceEdit = useMemo(
+    () => (speechLevels ? planSilenceEdit(speechLevels, silence, markers) : null),
+    [speechLevels, silence, markers]
+  );
+
+  useEffect(() => {
+    const engine = engineRef.current;
+    const loaded = engine?.setSilenceEdit(silenceEdit);
+    if (!engine || !loaded) return;
+    setDuration(loaded.duration);
+    setSpeechActivity(loaded.activity);
+    setCurrentTime(engine.currentTime);
+    setRegion(null);
+    setIsLooping(false);
+  }, [silenceEdit]);
+
+  const editedMarkers = useMemo(
+    () => markers.map(m => ({ ...m, time: toEditedTime(silenceEdit, m.time) })),
+    [markers, silenceEdit]
+  );
+  const editedBookmarks = useMemo(
+    () => bookmarks.map(b => ({ ...b, time: toEditedTime(silenceEdit, b.time) })),
+    [bookmarks, silenceEdit]
+  );
+  const editedPeaks = useMemo(
+    () => (speechPeaks && silenceEdit ? editPeaks(speechPeaks, silenceEdit) : speechPeaks),
+    [speechPeaks, silenceEdit]
+  );
+
+  // Bookmarks are stored on the original speech, so they survive edit changes
+  const handleBookmarksChange = (next: AudioMarker[]) => {
+    onBookmarksChange(next.map(bookmark => {
+      const original = bookmarks.find(b => toEditedTime(silenceEdit, b.time) === bookmark.time);
+      return { ...bookmark, time: original ? original.time : toSourceTime(silenceEdit, bookmark.time) };
+    }));
+  };
+
+  // Looping wraps at the region end; an audition stops there
+  useEffect(() => {
+    engineRef.current?.setRegion(isLooping || isAuditioning ? region : null, isLooping);
+  }, [region, isLooping, isAuditioning]);
+
   // Handle Play/Pause for both tracks
   useEffect(() => {
-    const audio = audioRef.current;
-    const music = musicRef.current;
-
-    if (audio) {
-      if (isPlaying) {
-        audio.play().catch(e => console.error("Audio play failed", e));
-        if (music) music.play().catch(e => console.error("Music play failed", e));
-      } else {
-        audio.pause();
-        if (music) music.pause();
-      }
-    }
-  }, [isPlaying, audioUrl, musicUrl]);
+    const engine = engineRef.current;
+    if (!engine) return;
+    if (isPlaying) engine.play().catch(e => console.error("Playback failed", e));
+    else engine.pause();
+  }, [isPlaying]);
+
+  // Follow the engine clock while playing
+  useEffect(() => {
+    const engine = engineRef.current;
+    if (!engine || !isPlaying) return;
+    let frame = requestAnimationFrame(function follow() {
+      setCurrentTime(engine.currentTime);
+      frame = requestAnimationFrame(follow);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying]);
 
-  // Sync playback rate
   useEffect(() => {
-    if (audioRef.current) audioRef.current.playbackRate = playbackRate;
-    if (musicRef.current) musicRef.current.playbackRate = playbackRate;
+    engineRef.current?.setSpeed(playbackRate);
   }, [playbackRate]);
 
-  // Sync Music Volume
   useEffect(() => {
-    if (musicRef.current) {
-      musicRef.current.volume = musicVolume;
-    }
-  }, [musicVolume, musicUrl]);
+    engineRef.current?.setPitch(pitch);
+  }, [pitch]);
+
+  useEffect(() => {
+    engineRef.current?.setEffects(effects);
+  }, [effects]);
+
+  // Same curve the export renders with, so the preview ducks identically
+  const duckingCurve = useMemo(
+    () => (speechActivity ? buildDuckingCurve(speechActivity, ducking, playbackRate) : null),
+    [speechActivity, ducking, playbackRate]
+  );
+
+  useEffect(() => {
+    engineRef.current?.setMusicMix(musicVolume, duckingCurve);
+  }, [musicVolume, duckingCurve]);
+
+  const musicGainAt = useMemo(
+    () => (time: number) => musicVolume * (duckingCurve ? duckingGainAt(duckingCurve, time) : 1),
+    [musicVolume, duckingCurve]
+  );
+
+  // Sentence and word timings for captions, from the same activity the ducking uses
+  const alignment = useMemo(
+    () => (speechActivity ? alignScript(script, mode, speechActivity, editedMarkers) : null),
+    [speechActivity, script, mode, editedMarkers]
+  );
+
+  // Measure the mix loudness once sliders settle. The mix renders in a
+  // worker, and a change stops any render still running for the old settings.
+  useEffect(() => {
+    if (!audioUrl) return;
+    const controller = new AbortController();
+    setMixLoudness(null);
+    const timer = setTimeout(() => {
+      const source = { speechUrl: audioUrl, musicUrl, speed: playbackRate, pitch, musicVolume, ducking, silence: silenceEdit, effects };
+      measureMix(source, controller.signal)
+        .then(stats => { if (!controller.signal.aborted) setMixLoudness(stats); })
+        .catch(err => { if (!controller.signal.aborted) console.error("Failed to measure loudness", err); });
+    }, 800);
+    return () => {
+      controller.abort();
+      clearTimeout(timer);
+    };
+  }, [audioUrl, musicUrl, playbackRate, pitch, musicVolume, ducking, silenceEdit, effects]);
 
   const togglePlay = () => {
+    if (isPlaying) setIsAuditioning(false);
     setIsPlaying(!isPlaying);
   };
 
-  const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (!audioRef.current) return;
-    const time = parseFloat(e.target.value);
-    audioRef.current.currentTime = time;
+  const seekTo = (time: number) => {
+    engineRef.current?.seek(time);
     setCurrentTime(time);
-    
-    // Sync music logic handled by loop, but we could enforce strict sync here if needed.
   };
 
-  const handleFinalDownload = async () => {
-    if (!audioUrl) return;
-    setIsProcessingDownload(true);
-
-    try {
-      // Process the audio offline with current speed and volume settings
-      const finalBlob = await renderEnhancedAudio(audioUrl, musicUrl, playbackRate, musicVolume);
-      const finalUrl = URL.createObjectURL(finalBlob);
-
-      const link = document.createElement('a');
-      link.href = finalUrl;
-      link.download = `sonicflow-final-${Date.now()}.wav`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      
-      // Cleanup
-      setTimeout(() => URL.revokeObjectURL(finalUrl), 1000);
-    } catch (error) {
-      console.error("Failed to process final audio download", error);
-      alert("Could not process audio for download.");
-    } finally {
-      setIsProcessingDownload(false);
-    }
+  const handleRegionChange = (next: TimeRegion | null) => {
+    setRegion(next);
+    if (!next) setIsLooping(false);
+  };
+
+  const handleAudition = () => {
+    if (!region) return;
+    engineRef.current?.setRegion(region, isLooping);
+    setIsAuditioning(true);
+    seekTo(region.start);
+    setIsPlaying(true);
+  };
+
+  const handleToggleLoop = () => {
+    if (!region) return;
+    const next = !isLooping;
+    setIsLooping(next);
+    // Jump into the region so the loop takes over straight away
+    if (next && isPlaying && (currentTime < region.start || currentTime >= region.end)) seekTo(region.start);
+  };
+
+  const handleAddBookmark = () => {
+    const bookmark = { time: toSourceTime(silenceEdit, currentTime), label: `Bookmark ${bookmarks.length + 1}` };
+    onBookmarksChange([...bookmarks, bookmark].sort((a, b) => a.time - b.time));
   };
 
   const formatTime = (time: number) => {
@@ -122,13 +345,10 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({ audioUrl, musicUrl, onReset }
     return `${minutes}:${seconds.toString().padStart(2, '0')}`;
   };
 
-  if (!audioUrl) return null;
+  if (!audioUrl && !stream) return null;
 
   return (
     <div className="bg-slate-800 rounded-xl p-6 shadow-xl border border-slate-700 w-full animate-fade-in">
-      <audio ref={audioRef} src={audioUrl} className="hidden" />
-      {musicUrl && <audio ref={musicRef} src={musicUrl} loop className="hidden" />}
-
       <div className="flex flex-col gap-6">
         
         {/* Timeline Control */}
@@ -137,16 +357,61 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({ audioUrl, musicUrl, onReset }
             <span>{formatTime(currentTime)}</span>
             <span>{formatTime(duration)}</span>
           </div>
-          <input
-            type="range"
-            min={0}
-            max={duration || 0}
-            value={currentTime}
-            onChange={handleSeek}
-            className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500 hover:accent-blue-400 transition-all"
+          <Waveform
+            speechPeaks={editedPeaks}
+            musicPeaks={musicPeaks}
+            duration={duration}
+            currentTime={currentTime}
+            speed={playbackRate}
+            isPlaying={isPlaying}
+            markers={editedMarkers}
+            bookmarks={editedBookmarks}
+            region={region}
+            musicGainAt={musicGainAt}
+            onSeek={seekTo}
+            onRegionChange={handleRegionChange}
+          />
+          {region && (
+            <div className="flex items-center gap-2 text-xs text-slate-300 bg-blue-900/20 border border-blue-800/50 rounded-lg px-3 py-1.5">
+              <span className="flex-1 font-mono">
+                Selection {formatTime(region.start)} – {formatTime(region.end)}
+                <span className="text-slate-500"> ({formatTime(region.end - region.start)})</span>
+              </span>
+              <button
+                onClick={handleAudition}
+                className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+                title="Play the selection once"
+              >
+                <AuditionIcon />
+              </button>
+              <button
+                onClick={handleToggleLoop}
+                className={`p-1 rounded transition-colors ${isLooping ? 'text-blue-400 bg-slate-700' : 'text-slate-400 hover:text-white hover:bg-slate-700'}`}
+                title={isLooping ? 'Stop looping the selection' : 'Loop the selection'}
+              >
+                <LoopIcon />
+              </button>
+              <button
+                onClick={() => handleRegionChange(null)}
+                className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+                title="Clear selection"
+              >
+                <CloseIcon />
+              </button>
+            </div>
+          )}
+          <MarkerList
+            markers={editedMarkers}
+            bookmarks={editedBookmarks}
+            formatTime={formatTime}
+            onSeek={seekTo}
+            onBookmarksChange={handleBookmarksChange}
           />
         </div>
 
+        {/* Script, following playback */}
+        <Transcript alignment={alignment} currentTime={currentTime} isPlaying={isPlaying} onSeek={seekTo} />
+
         {/* Playback Controls */}
         <div className="flex items-center justify-between">
           
@@ -171,15 +436,40 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({ audioUrl, musicUrl, onReset }
                 max="3"
                 step="0.1"
                 value={playbackRate}
-                onChange={(e) => setPlaybackRate(parseFloat(e.target.value))}
+                onChange={(e) => onPlaybackRateChange(parseFloat(e.target.value))}
                 className="w-full h-1 bg-slate-600 rounded-lg appearance-none cursor-pointer"
               />
               <span className="text-xs text-slate-500 w-8 text-left">3.0x</span>
             </div>
+            <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">
+              Voice Pitch <span className="font-mono normal-case text-slate-500">{pitch > 0 ? '+' : ''}{pitch} st</span>
+            </span>
+            <div className="flex items-center gap-4 w-full">
+              <span className="text-xs text-slate-500 w-8 text-right">Deeper</span>
+              <input
+                type="range"
+                min={MIN_PITCH_SEMITONES}
+                max={MAX_PITCH_SEMITONES}
+                step="1"
+                value={pitch}
+                onChange={(e) => onPitchChange(parseInt(e.target.value, 10))}
+                onDoubleClick={() => onPitchChange(0)}
+                title="Double-click to reset"
+                className="w-full h-1 bg-slate-600 rounded-lg appearance-none cursor-pointer"
+              />
+              <span className="text-xs text-slate-500 w-8 text-left">Brighter</span>
+            </div>
           </div>
 
           {/* Action Buttons */}
           <div className="flex gap-2">
+            <button
+              onClick={handleAddBookmark}
+              className="p-3 rounded-full text-slate-400 hover:text-amber-300 hover:bg-slate-700 transition-colors"
+              title="Bookmark Current Position"
+            >
+              <BookmarkIcon />
+            </button>
             <button 
               onClick={onReset}
               className="p-3 rounded-full text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
@@ -190,51 +480,83 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({ audioUrl, musicUrl, onReset }
           </div>
         </div>
 
+        <SilenceControls settings={silence} summary={silenceEdit?.summary ?? null} onChange={onSilenceChange} />
+
+        <EffectsRack chain={effects} onChange={onEffectsChange} />
+
         {/* Music Volume Control (Only visible if music exists) */}
         {musicUrl && (
-          <div className="flex items-center gap-4 bg-slate-900/50 p-3 rounded-lg border border-slate-700/50">
-            <div className="text-slate-400">
-               <MusicIcon />
+          <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700/50 space-y-3">
+            <div className="flex items-center gap-4">
+              <div className="text-slate-400">
+                 <MusicIcon />
+              </div>
+              <div className="flex-1 flex flex-col">
+                 <span className="text-xs text-slate-400 font-semibold mb-1">Background Music Volume</span>
+                 <input 
+                    type="range" 
+                    min="0" 
+                    max="1" 
+                    step="0.05" 
+                    value={musicVolume} 
+                    onChange={(e) => onMusicVolumeChange(parseFloat(e.target.value))}
+                    className="w-full h-1 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-teal-500"
+                 />
+              </div>
+               <span className="text-xs font-mono text-slate-500 w-8 text-right">{(musicVolume * 100).toFixed(0)}%</span>
             </div>
-            <div className="flex-1 flex flex-col">
-               <span className="text-xs text-slate-400 font-semibold mb-1">Background Music Volume</span>
-               <input 
-                  type="range" 
-                  min="0" 
-                  max="1" 
-                  step="0.05" 
-                  value={musicVolume} 
-                  onChange={(e) => setMusicVolume(parseFloat(e.target.value))}
-                  className="w-full h-1 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-teal-500"
-               />
-            </div>
-             <span className="text-xs font-mono text-slate-500 w-8 text-right">{(musicVolume * 100).toFixed(0)}%</span>
+            <DuckingControls settings={ducking} onChange={onDuckingChange} />
           </div>
         )}
         
+        {/* Loudness Readout */}
+        <div className="flex flex-wrap justify-between gap-2 text-xs font-mono text-slate-500">
+          <span title="Integrated loudness (BS.1770) and true peak of the mix before export normalization">
+            Mix: {mixLoudness
+              ? `${formatLevel(mixLoudness.integrated, 'LUFS')} · ${formatLevel(mixLoudness.truePeak, 'dBTP')}`
+              : 'measuring...'}
+          </span>
+          {exportedLoudness && (
+            <span className="text-emerald-400/80">
+              Last export: {formatLevel(exportedLoudness.integrated, 'LUFS')} · {formatLevel(exportedLoudness.truePeak, 'dBTP')}
+            </span>
+          )}
+        </div>
+
         {/* Final Download Button */}
         <button
-          onClick={handleFinalDownload}
-          disabled={isProcessingDownload}
-          className="mt-2 w-full py-3 rounded-xl bg-gradient-to-r from-emerald-600 to-emerald-500 hover:from-emerald-500 hover:to-emerald-400 text-white font-semibold shadow-lg shadow-emerald-900/20 transition-all transform hover:-translate-y-0.5 flex items-center justify-center gap-2"
+          onClick={() => setIsExportOpen(true)}
+          disabled={!audioUrl}
+          className="mt-2 w-full py-3 rounded-xl bg-gradient-to-r from-emerald-600 to-emerald-500 hover:from-emerald-500 hover:to-emerald-400 text-white font-semibold shadow-lg shadow-emerald-900/20 transition-all transform hover:-translate-y-0.5 flex items-center justify-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed disabled:transform-none"
         >
-          {isProcessingDownload ? (
-             <>
-                <svg className="animate-spin h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                </svg>
-                Processing Audio...
-             </>
-          ) : (
-             <>
-               <DownloadIcon />
-               Save Final Audio (Mix & Speed Applied)
-             </>
-          )}
+          <DownloadIcon />
+          {audioUrl ? 'Save Final Audio (Mix & Speed Applied)' : 'Still generating...'}
         </button>
 
       </div>
+
+      {isExportOpen && audioUrl && (
+        <ExportDialog
+          source={{
+            speechUrl: audioUrl,
+            musicUrl,
+            speed: playbackRate,
+            pitch,
+            musicVolume,
+            ducking,
+            silence: silenceEdit,
+            effects,
+            tags,
+            paragraphs: editedMarkers,
+            bookmarks: editedBookmarks,
+            region,
+            alignment,
+          }}
+          formatTime={formatTime}
+          onExported={setExportedLoudness}
+          onClose={() => setIsExportOpen(false)}
+        />
+      )}
     </div>
   );
 };
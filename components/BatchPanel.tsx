@@ -0,0 +1,303 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BatchRow, BatchRowStatus, BatchSettings, MusicComposer, SpeechProvider, Tone, ToneStyle, VoiceName } from '../types';
+import {
+  BATCH_LIMITS,
+  BatchClip,
+  BatchContext,
+  batchZipName,
+  buildBatchZip,
+  loadBatchSettings,
+  renderBatchRow,
+  saveBatchSettings,
+} from '../services/batch';
+import { GenerationError } from '../services/errors';
+import { EXPORT_FORMATS, loadExportSettings } from '../services/exporter';
+import { parseBatchFile } from '../utils/batch';
+import { JobQueue, JobState } from '../utils/queue';
+import { CloseIcon, DownloadIcon, PauseIcon, PlayIcon, UploadIcon } from './Icons';
+
+interface BatchPanelProps {
+  provider: SpeechProvider;
+  composer: MusicComposer;
+  styles: ToneStyle[];
+  defaultVoice: VoiceName;
+  defaultTone: Tone;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<BatchRowStatus, string> = {
+  queued: 'bg-slate-700 text-slate-300',
+  running: 'bg-blue-900/60 text-blue-200 animate-pulse',
+  retrying: 'bg-amber-900/50 text-amber-200',
+  done: 'bg-teal-900/60 text-teal-200',
+  failed: 'bg-red-900/50 text-red-200',
+};
+
+const SETTING_LABELS: Record<keyof BatchSettings, string> = {
+  concurrency: 'Parallel rows',
+  requestsPerMinute: 'Starts per minute (0 = no limit)',
+  retries: 'Retries per row',
+};
+
+const inputClass = 'w-full px-2 py-1.5 bg-slate-700 border border-slate-600 rounded-lg text-sm text-slate-200 outline-none focus:ring-2 focus:ring-blue-500';
+const buttonClass = 'flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+const BatchPanel: React.FC<BatchPanelProps> = ({ provider, composer, styles, defaultVoice, defaultTone, onClose }) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [settings, setSettings] = useState<BatchSettings>(loadBatchSettings);
+  const [states, setStates] = useState<JobState[]>([]);
+  const [isZipping, setIsZipping] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const queue = useRef<JobQueue<BatchRow> | null>(null);
+  const clips = useRef(new Map<string, BatchClip>());
+  // Fixed when the run starts, so every clip matches the manifest
+  const context = useRef<BatchContext | null>(null);
+  const abort = useRef<AbortController | null>(null);
+
+  const stop = () => {
+    queue.current?.dispose();
+    abort.current?.abort();
+  };
+
+  useEffect(() => stop, []);
+
+  const started = queue.current !== null;
+  const isPaused = queue.current?.isPaused ?? true;
+  const isRunning = started && !isPaused && states.some(s => s.status !== 'done' && s.status !== 'failed');
+  const doneCount = states.filter(s => s.status === 'done').length;
+  const failedCount = states.filter(s => s.status === 'failed').length;
+  const exportSettings = context.current?.exportSettings ?? loadExportSettings();
+
+  const reset = () => {
+    stop();
+    queue.current = null;
+    abort.current = null;
+    context.current = null;
+    clips.current = new Map();
+    setStates([]);
+    setError(null);
+  };
+
+  const handleImport = async (file: File) => {
+    reset();
+    const result = parseBatchFile(file.name, await file.text(), { voice: defaultVoice, tone: defaultTone }, styles);
+    setFileName(file.name);
+    setRows(result.rows);
+    setImportErrors(result.errors);
+  };
+
+  const updateSetting = (key: keyof BatchSettings, value: number) => {
+    const { min, max } = BATCH_LIMITS[key];
+    const next = { ...settings, [key]: Math.min(max, Math.max(min, Math.round(value) || 0)) };
+    setSettings(next);
+    saveBatchSettings(next);
+    queue.current?.updateSettings(next);
+  };
+
+  const handleStart = () => {
+    if (queue.current) {
+      queue.current.start();
+      return;
+    }
+    const runContext: BatchContext = { provider, composer, styles, exportSettings: loadExportSettings() };
+    const controller = new AbortController();
+    context.current = runContext;
+    abort.current = controller;
+    queue.current = new JobQueue<BatchRow>(
+      rows,
+      async (row) => {
+        clips.current.set(row.id, await renderBatchRow(row, runContext, controller.signal));
+      },
+      settings,
+      setStates,
+      // The only retry layer for batch rows (see renderBatchRow), and only for
+      // failures that might pass next time; a safety block or a bad key won't
+      error => !(error instanceof GenerationError) || error.transient
+    );
+    queue.current.start();
+  };
+
+  const handleDownload = async () => {
+    if (!context.current) return;
+    setIsZipping(true);
+    setError(null);
+    try {
+      const zip = await buildBatchZip(rows, states, clips.current, context.current);
+      const url = URL.createObjectURL(zip);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = batchZipName();
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (err) {
+      console.error("Failed to build the batch ZIP", err);
+      setError(err instanceof Error ? err.message : "Could not build the ZIP.");
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  const statusLabel = (state: JobState | undefined): string => {
+    if (!state) return 'queued';
+    if (state.status === 'retrying') return `retry ${state.attempts} of ${settings.retries}`;
+    if (state.status === 'queued' && state.attempts > 0) return 'retry queued';
+    return state.status;
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 flex items-center justify-center bg-black/60 p-4 animate-fade-in">
+      <div className="w-full max-w-3xl max-h-full flex flex-col bg-slate-800 rounded-xl border border-slate-700 shadow-2xl">
+        <div className="flex items-center justify-between p-4 border-b border-slate-700">
+          <h2 className="text-lg font-semibold text-white">Batch Generation</h2>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-full text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+            title="Close (stops the batch)"
+          >
+            <CloseIcon />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          <div className="flex flex-wrap items-center gap-3">
+            <label className={`${buttonClass} bg-slate-700 text-slate-200 ${isRunning ? 'opacity-40' : 'hover:bg-slate-600 cursor-pointer'}`}>
+              <UploadIcon />
+              Import CSV or JSON...
+              <input
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                className="hidden"
+                disabled={isRunning}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImport(file);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+            <span className="text-xs text-slate-400 truncate">
+              {fileName
+                ? `${fileName}: ${rows.length} row${rows.length === 1 ? '' : 's'}`
+                : <>Columns: <span className="font-mono">id, text, voice, tone, music</span></>}
+            </span>
+          </div>
+
+          {importErrors.length > 0 && (
+            <ul className="p-3 max-h-28 overflow-y-auto bg-red-900/20 border border-red-800 rounded-lg text-red-200 text-xs font-mono space-y-1">
+              {importErrors.map((message, i) => <li key={i}>{message}</li>)}
+            </ul>
+          )}
+
+          <div className="grid grid-cols-3 gap-3">
+            {(Object.keys(SETTING_LABELS) as Array<keyof BatchSettings>).map((key) => (
+              <label key={key} className="block text-xs text-slate-400 space-y-1">
+                <span>{SETTING_LABELS[key]}</span>
+                <input
+                  type="number"
+                  min={BATCH_LIMITS[key].min}
+                  max={BATCH_LIMITS[key].max}
+                  value={settings[key]}
+                  onChange={(e) => updateSetting(key, Number(e.target.value))}
+                  className={inputClass}
+                />
+              </label>
+            ))}
+          </div>
+
+          <p className="text-xs text-slate-500">
+            {provider.label} voices each row. Clips are saved as {EXPORT_FORMATS[exportSettings.format].label}
+            {exportSettings.loudness !== 'off' && ' at the export loudness target'}, as set in Export Audio.
+            {!provider.isAvailable() && <span className="text-amber-300"> The {provider.label} engine isn't available.</span>}
+          </p>
+
+          {rows.length > 0 && (
+            <div className="max-h-72 overflow-y-auto border border-slate-700 rounded-lg">
+              <table className="w-full text-xs text-left">
+                <thead className="sticky top-0 bg-slate-900 text-slate-400">
+                  <tr>
+                    <th className="px-3 py-2 font-medium">Id</th>
+                    <th className="px-3 py-2 font-medium">Text</th>
+                    <th className="px-3 py-2 font-medium">Voice</th>
+                    <th className="px-3 py-2 font-medium">Tone</th>
+                    <th className="px-3 py-2 font-medium">Music</th>
+                    <th className="px-3 py-2 font-medium">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-700/60">
+                  {rows.map((row, i) => (
+                    <tr key={row.id} className="text-slate-300">
+                      <td className="px-3 py-2 font-mono text-slate-200">{row.id}</td>
+                      <td className="px-3 py-2 max-w-[14rem] truncate" title={row.text}>{row.text}</td>
+                      <td className="px-3 py-2">{row.voice}</td>
+                      <td className="px-3 py-2">{row.style?.name ?? row.tone}</td>
+                      <td className="px-3 py-2">{row.music ? 'Yes' : ''}</td>
+                      <td className="px-3 py-2">
+                        <span
+                          className={`px-2 py-0.5 rounded-full capitalize ${STATUS_STYLES[states[i]?.status ?? 'queued']}`}
+                          title={states[i]?.error}
+                        >
+                          {statusLabel(states[i])}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-900/20 border border-red-800 rounded-lg text-red-200 text-sm">{error}</div>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 p-4 border-t border-slate-700">
+          {isRunning ? (
+            <button onClick={() => queue.current?.pause()} className={`${buttonClass} bg-slate-700 text-slate-200 hover:bg-slate-600`}>
+              <PauseIcon />
+              Pause
+            </button>
+          ) : (
+            <button
+              onClick={handleStart}
+              disabled={rows.length === 0 || (started && doneCount + failedCount === rows.length)}
+              className={`${buttonClass} bg-blue-600 text-white hover:bg-blue-500`}
+            >
+              <PlayIcon />
+              {started ? 'Resume' : 'Start'}
+            </button>
+          )}
+          {failedCount > 0 && (
+            <button
+              onClick={() => queue.current?.retryFailed()}
+              className={`${buttonClass} bg-slate-700 text-slate-200 hover:bg-slate-600`}
+            >
+              Retry {failedCount} failed
+            </button>
+          )}
+          {started && (
+            <span className="text-xs text-slate-400">
+              {doneCount} of {rows.length} done{failedCount > 0 && `, ${failedCount} failed`}
+              {isPaused && doneCount + failedCount < rows.length && ' (paused; running rows still finish)'}
+            </span>
+          )}
+          <button
+            onClick={handleDownload}
+            disabled={doneCount === 0 || isZipping}
+            className={`${buttonClass} ml-auto bg-teal-600 text-white hover:bg-teal-500`}
+          >
+            <DownloadIcon />
+            {isZipping ? 'Zipping...' : 'Download ZIP'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchPanel;
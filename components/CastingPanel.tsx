@@ -0,0 +1,83 @@
+import React from 'react';
+import { Casting, SpeakerCasting, Tone, ToneStyle, VoiceName } from '../types';
+
+interface CastingPanelProps {
+  speakers: string[];
+  casting: Casting;
+  styles: ToneStyle[];
+  onChange: (speaker: string, value: SpeakerCasting) => void;
+}
+
+const STYLE_PREFIX = 'style:';
+
+const CastingPanel: React.FC<CastingPanelProps> = ({ speakers, casting, styles, onChange }) => {
+  // A style picks its base tone too, so the tone stays meaningful to the
+  // providers and tags that only know the built-in ones
+  const selectDelivery = (speaker: string, current: SpeakerCasting, value: string) => {
+    const { style: _previous, ...rest } = current;
+    if (!value.startsWith(STYLE_PREFIX)) {
+      onChange(speaker, { ...rest, tone: value as Tone });
+      return;
+    }
+    const id = value.slice(STYLE_PREFIX.length);
+    const style = styles.find(s => s.id === id) ?? (current.style?.id === id ? current.style : undefined);
+    if (style) onChange(speaker, { ...rest, tone: style.base, style });
+  };
+
+  if (speakers.length === 0) {
+    return (
+      <div className="p-4 bg-slate-900/50 border border-dashed border-slate-700 rounded-xl text-sm text-slate-500">
+        Write your script as <span className="font-mono text-slate-400">Name: line</span>, one line per turn, and each speaker will appear here for casting.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-slate-300">Cast</label>
+      <div className="space-y-2">
+        {speakers.map((speaker) => {
+          const current = casting[speaker];
+          return (
+            <div
+              key={speaker}
+              className="flex items-center gap-3 bg-slate-900/50 p-3 rounded-lg border border-slate-700/50"
+            >
+              <span className="flex-1 text-sm font-semibold text-white truncate">{speaker}</span>
+              <select
+                value={current.voice}
+                onChange={(e) => onChange(speaker, { ...current, voice: e.target.value as VoiceName })}
+                className="px-2 py-1.5 bg-slate-700 border border-slate-600 rounded-lg text-sm text-slate-200 outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {Object.values(VoiceName).map((voice) => (
+                  <option key={voice} value={voice}>{voice}</option>
+                ))}
+              </select>
+              <select
+                value={current.style ? `${STYLE_PREFIX}${current.style.id}` : current.tone}
+                onChange={(e) => selectDelivery(speaker, current, e.target.value)}
+                className="px-2 py-1.5 bg-slate-700 border border-slate-600 rounded-lg text-sm text-slate-200 outline-none focus:ring-2 focus:ring-teal-500"
+              >
+                {Object.values(Tone).map((tone) => (
+                  <option key={tone} value={tone}>{tone}</option>
+                ))}
+                {(styles.length > 0 || current.style) && (
+                  <optgroup label="Custom">
+                    {styles.map((style) => (
+                      <option key={style.id} value={`${STYLE_PREFIX}${style.id}`}>{style.name}</option>
+                    ))}
+                    {current.style && !styles.some(s => s.id === current.style!.id) && (
+                      <option value={`${STYLE_PREFIX}${current.style.id}`}>{current.style.name}</option>
+                    )}
+                  </optgroup>
+                )}
+              </select>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default CastingPanel;
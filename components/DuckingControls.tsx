@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { DuckingSettings } from '../types';
+import { DEFAULT_DUCKING } from '../utils/ducking';
+
+interface DuckingControlsProps {
+  settings: DuckingSettings;
+  onChange: (settings: DuckingSettings) => void;
+}
+
+interface SliderSpec {
+  key: Exclude<keyof DuckingSettings, 'enabled'>;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+  ducking: boolean; // Disabled along with ducking; fades stay available
+}
+
+const formatMs = (ms: number) => (ms >= 1000 ? `${(ms / 1000).toFixed(1)} s` : `${ms} ms`);
+
+const SLIDERS: SliderSpec[] = [
+  { key: 'depthDb', label: 'Depth', min: 0, max: 24, step: 1, format: v => `${v} dB`, ducking: true },
+  { key: 'attackMs', label: 'Attack', min: 10, max: 1000, step: 10, format: formatMs, ducking: true },
+  { key: 'holdMs', label: 'Hold', min: 0, max: 2000, step: 50, format: formatMs, ducking: true },
+  { key: 'releaseMs', label: 'Release', min: 50, max: 3000, step: 50, format: formatMs, ducking: true },
+  { key: 'fadeInMs', label: 'Fade In', min: 0, max: 10000, step: 250, format: formatMs, ducking: false },
+  { key: 'fadeOutMs', label: 'Fade Out', min: 0, max: 10000, step: 250, format: formatMs, ducking: false },
+];
+
+const DuckingControls: React.FC<DuckingControlsProps> = ({ settings, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+            className="accent-teal-500"
+          />
+          Duck music under speech
+        </label>
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="text-xs text-slate-500 hover:text-slate-300 transition-colors"
+        >
+          {isOpen ? 'Hide settings' : 'Ducking & fades...'}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2">
+          {SLIDERS.map(({ key, label, min, max, step, format, ducking }) => (
+            <label key={key} className={`block ${ducking && !settings.enabled ? 'opacity-40' : ''}`}>
+              <span className="flex justify-between text-xs text-slate-400">
+                <span>{label}</span>
+                <span className="font-mono text-slate-500">{format(settings[key])}</span>
+              </span>
+              <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={settings[key]}
+                disabled={ducking && !settings.enabled}
+                onChange={(e) => onChange({ ...settings, [key]: parseFloat(e.target.value) })}
+                className="w-full h-1 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-teal-500"
+              />
+            </label>
+          ))}
+          <button
+            onClick={() => onChange(DEFAULT_DUCKING)}
+            className="sm:col-span-2 justify-self-end text-xs text-slate-500 hover:text-slate-300 transition-colors"
+          >
+            Reset to defaults
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DuckingControls;
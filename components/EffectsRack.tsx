@@ -0,0 +1,309 @@
+import React, { useState } from 'react';
+import { EffectsPreset, EqBand, EqBandType, SpeechEffect, SpeechEffectKind } from '../types';
+import { isBuiltInEffectsPreset, loadEffectsPresets, saveEffectsPresets } from '../services/presets';
+import { createEffect, DEFAULT_EQ_BAND, EFFECT_KINDS, EFFECT_PRESETS } from '../utils/effects';
+import { CloseIcon } from './Icons';
+
+interface EffectsRackProps {
+  chain: SpeechEffect[];
+  onChange: (chain: SpeechEffect[]) => void;
+}
+
+interface SliderSpec {
+  field: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}
+
+const LABELS: Record<SpeechEffectKind, string> = {
+  eq: 'Parametric EQ',
+  compressor: 'Compressor',
+  deesser: 'De-esser',
+  gate: 'Noise Gate',
+  distortion: 'Distortion',
+  reverb: 'Reverb',
+};
+
+const BAND_LABELS: Record<EqBandType, string> = {
+  peaking: 'Peak',
+  lowshelf: 'Low shelf',
+  highshelf: 'High shelf',
+  highpass: 'High-pass',
+  lowpass: 'Low-pass',
+};
+
+const formatMs = (ms: number) => (ms >= 1000 ? `${(ms / 1000).toFixed(1)} s` : `${ms} ms`);
+const formatDb = (db: number) => `${db > 0 ? '+' : ''}${db} dB`;
+const formatHz = (hz: number) => (hz >= 1000 ? `${(hz / 1000).toFixed(1)} kHz` : `${Math.round(hz)} Hz`);
+const formatPercent = (mix: number) => `${Math.round(mix * 100)}%`;
+
+const SLIDERS: Record<Exclude<SpeechEffectKind, 'eq'>, SliderSpec[]> = {
+  compressor: [
+    { field: 'thresholdDb', label: 'Threshold', min: -60, max: 0, step: 1, format: formatDb },
+    { field: 'ratio', label: 'Ratio', min: 1, max: 20, step: 0.5, format: v => `${v}:1` },
+    { field: 'attackMs', label: 'Attack', min: 0, max: 100, step: 1, format: formatMs },
+    { field: 'releaseMs', label: 'Release', min: 10, max: 1000, step: 10, format: formatMs },
+    { field: 'makeupDb', label: 'Makeup', min: 0, max: 24, step: 1, format: formatDb },
+  ],
+  deesser: [
+    { field: 'frequency', label: 'Frequency', min: 3000, max: 10000, step: 100, format: formatHz },
+    { field: 'thresholdDb', label: 'Threshold', min: -60, max: 0, step: 1, format: formatDb },
+    { field: 'rangeDb', label: 'Max Reduction', min: 0, max: 24, step: 1, format: v => `${v} dB` },
+  ],
+  gate: [
+    { field: 'thresholdDb', label: 'Threshold', min: -80, max: -10, step: 1, format: formatDb },
+    { field: 'rangeDb', label: 'Range', min: 0, max: 80, step: 1, format: v => `${v} dB` },
+    { field: 'attackMs', label: 'Attack', min: 0, max: 50, step: 1, format: formatMs },
+    { field: 'holdMs', label: 'Hold', min: 0, max: 500, step: 10, format: formatMs },
+    { field: 'releaseMs', label: 'Release', min: 10, max: 1000, step: 10, format: formatMs },
+  ],
+  distortion: [
+    { field: 'driveDb', label: 'Drive', min: 0, max: 36, step: 1, format: v => `${v} dB` },
+    { field: 'mix', label: 'Mix', min: 0, max: 1, step: 0.05, format: formatPercent },
+  ],
+  reverb: [
+    { field: 'mix', label: 'Mix', min: 0, max: 1, step: 0.05, format: formatPercent },
+    { field: 'decay', label: 'Decay', min: 0.2, max: 8, step: 0.1, format: v => `${v.toFixed(1)} s` },
+  ],
+};
+
+const selectClass = 'px-2 py-1 bg-slate-700 border border-slate-600 rounded text-xs text-slate-200 outline-none focus:ring-2 focus:ring-violet-500';
+const sliderClass = 'w-full h-1 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-violet-500';
+
+const sameChain = (a: SpeechEffect[], b: SpeechEffect[]) => JSON.stringify(a) === JSON.stringify(b);
+
+const Slider: React.FC<Omit<SliderSpec, 'field'> & { value: number; disabled: boolean; onChange: (value: number) => void }> = ({
+  label, min, max, step, format, value, disabled, onChange,
+}) => (
+  <label className={`block ${disabled ? 'opacity-40' : ''}`}>
+    <span className="flex justify-between text-xs text-slate-400">
+      <span>{label}</span>
+      <span className="font-mono text-slate-500">{format(value)}</span>
+    </span>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      disabled={disabled}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className={sliderClass}
+    />
+  </label>
+);
+
+const EffectsRack: React.FC<EffectsRackProps> = ({ chain, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [savedPresets, setSavedPresets] = useState<EffectsPreset[]>(loadEffectsPresets);
+  const [presetName, setPresetName] = useState('');
+
+  const current = [...EFFECT_PRESETS, ...savedPresets].find(p => sameChain(p.chain, chain));
+  const trimmedName = presetName.trim();
+  const nameTaken = isBuiltInEffectsPreset(trimmedName);
+
+  const update = (index: number, patch: Partial<SpeechEffect>) =>
+    onChange(chain.map((effect, i) => (i === index ? { ...effect, ...patch } as SpeechEffect : effect)));
+
+  const move = (index: number, offset: number) => {
+    const next = [...chain];
+    const [effect] = next.splice(index, 1);
+    next.splice(index + offset, 0, effect);
+    onChange(next);
+  };
+
+  const updateBand = (index: number, bands: EqBand[], b: number, patch: Partial<EqBand>) =>
+    update(index, { bands: bands.map((band, i) => (i === b ? { ...band, ...patch } : band)) });
+
+  const handlePreset = (name: string) => {
+    const preset = [...EFFECT_PRESETS, ...savedPresets].find(p => p.name === name);
+    if (preset) onChange(preset.chain);
+  };
+
+  const handleSave = () => {
+    if (!trimmedName || nameTaken) return;
+    const next = [...savedPresets.filter(p => p.name !== trimmedName), { name: trimmedName, chain }]
+      .sort((a, b) => a.name.localeCompare(b.name));
+    saveEffectsPresets(next);
+    setSavedPresets(next);
+    setPresetName('');
+  };
+
+  const handleDelete = (name: string) => {
+    const next = savedPresets.filter(p => p.name !== name);
+    saveEffectsPresets(next);
+    setSavedPresets(next);
+  };
+
+  const renderEq = (index: number, bands: EqBand[], disabled: boolean) => (
+    <div className="space-y-2">
+      {bands.map((band, b) => (
+        <div key={b} className="grid grid-cols-[auto_1fr_1fr_1fr_auto] gap-x-3 items-end">
+          <select
+            value={band.type}
+            disabled={disabled}
+            onChange={(e) => updateBand(index, bands, b, { type: e.target.value as EqBandType })}
+            className={selectClass}
+          >
+            {Object.entries(BAND_LABELS).map(([type, label]) => <option key={type} value={type}>{label}</option>)}
+          </select>
+          {/* Frequency on a log scale, so every octave gets the same travel */}
+          <Slider
+            label="Freq" min={Math.log10(20)} max={Math.log10(16000)} step={0.01} format={v => formatHz(10 ** v)}
+            value={Math.log10(band.frequency)} disabled={disabled}
+            onChange={v => updateBand(index, bands, b, { frequency: Math.round(10 ** v) })}
+          />
+          <Slider
+            label="Gain" min={-18} max={18} step={0.5} format={formatDb}
+            value={band.gainDb} disabled={disabled || band.type === 'highpass' || band.type === 'lowpass'}
+            onChange={v => updateBand(index, bands, b, { gainDb: v })}
+          />
+          <Slider
+            label="Q" min={0.1} max={10} step={0.1} format={v => v.toFixed(1)}
+            value={band.q} disabled={disabled}
+            onChange={v => updateBand(index, bands, b, { q: v })}
+          />
+          <button
+            onClick={() => update(index, { bands: bands.filter((_, i) => i !== b) })}
+            className="p-1 rounded text-slate-500 hover:text-white hover:bg-slate-700 transition-colors"
+            title="Remove band"
+          >
+            <CloseIcon />
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={() => update(index, { bands: [...bands, { ...DEFAULT_EQ_BAND }] })}
+        className="text-xs text-slate-500 hover:text-slate-300 transition-colors"
+      >
+        + Add band
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700/50 space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <label className="flex items-center gap-2 text-xs text-slate-300">
+          Voice effects
+          <select value={current?.name ?? ''} onChange={(e) => handlePreset(e.target.value)} className={selectClass}>
+            {!current && <option value="" disabled>Custom</option>}
+            {EFFECT_PRESETS.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+            {savedPresets.length > 0 && (
+              <optgroup label="Saved">
+                {savedPresets.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+              </optgroup>
+            )}
+          </select>
+        </label>
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="text-xs text-slate-500 hover:text-slate-300 transition-colors"
+        >
+          {isOpen ? 'Hide effects' : 'Effects rack...'}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="space-y-3">
+          {chain.length === 0 && <p className="text-xs text-slate-500">No effects. The voice plays as generated.</p>}
+          {chain.map((effect, index) => (
+            <div key={index} className="border border-slate-700/50 rounded-lg p-2 space-y-2">
+              <div className="flex items-center gap-2">
+                <label className="flex-1 flex items-center gap-2 text-xs text-slate-300 cursor-pointer select-none">
+                  <input
+                    type="checkbox"
+                    checked={effect.enabled}
+                    onChange={(e) => update(index, { enabled: e.target.checked })}
+                    className="accent-violet-500"
+                  />
+                  {index + 1}. {LABELS[effect.kind]}
+                </label>
+                <button
+                  onClick={() => move(index, -1)}
+                  disabled={index === 0}
+                  className="px-1 text-xs text-slate-500 hover:text-slate-300 disabled:opacity-30 transition-colors"
+                  title="Move earlier in the chain"
+                >
+                  ▲
+                </button>
+                <button
+                  onClick={() => move(index, 1)}
+                  disabled={index === chain.length - 1}
+                  className="px-1 text-xs text-slate-500 hover:text-slate-300 disabled:opacity-30 transition-colors"
+                  title="Move later in the chain"
+                >
+                  ▼
+                </button>
+                <button
+                  onClick={() => onChange(chain.filter((_, i) => i !== index))}
+                  className="p-1 rounded text-slate-500 hover:text-white hover:bg-slate-700 transition-colors"
+                  title="Remove effect"
+                >
+                  <CloseIcon />
+                </button>
+              </div>
+              {effect.kind === 'eq'
+                ? renderEq(index, effect.bands, !effect.enabled)
+                : (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2">
+                    {SLIDERS[effect.kind].map(spec => (
+                      <Slider
+                        {...spec}
+                        key={spec.field}
+                        value={(effect as unknown as Record<string, number>)[spec.field]}
+                        disabled={!effect.enabled}
+                        onChange={value => update(index, { [spec.field]: value } as Partial<SpeechEffect>)}
+                      />
+                    ))}
+                  </div>
+                )}
+            </div>
+          ))}
+
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <select
+              value=""
+              onChange={(e) => e.target.value && onChange([...chain, createEffect(e.target.value as SpeechEffectKind)])}
+              className={selectClass}
+            >
+              <option value="">Add effect...</option>
+              {EFFECT_KINDS.map(kind => <option key={kind} value={kind}>{LABELS[kind]}</option>)}
+            </select>
+            <div className="flex items-center gap-2">
+              {current && savedPresets.includes(current) && (
+                <button
+                  onClick={() => handleDelete(current.name)}
+                  className="text-xs text-slate-500 hover:text-red-400 transition-colors"
+                >
+                  Delete "{current.name}"
+                </button>
+              )}
+              <input
+                type="text"
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+                placeholder="Preset name"
+                className="w-32 px-2 py-1 bg-slate-700 border border-slate-600 rounded text-xs text-slate-200 outline-none focus:ring-2 focus:ring-violet-500"
+              />
+              <button
+                onClick={handleSave}
+                disabled={!trimmedName || nameTaken}
+                title={nameTaken ? 'A built-in preset has that name' : 'Save this chain as a preset'}
+                className="px-2 py-1 rounded text-xs bg-slate-700 text-slate-300 hover:bg-slate-600 disabled:opacity-40 transition-colors"
+              >
+                Save preset
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EffectsRack;
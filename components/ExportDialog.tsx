@@ -0,0 +1,326 @@
+import React, { useState } from 'react';
+import { CaptionFormat, ExportFormat, ExportProgress, ExportSettings, LoudnessPreset, LoudnessStats, MarkerSource } from '../types';
+import {
+  CAPTION_FORMATS,
+  EXPORT_FORMATS,
+  ExportSource,
+  captionFileName,
+  exportCaptions,
+  exportFileName,
+  exportMix,
+  isFormatSupported,
+  loadExportSettings,
+  saveExportSettings,
+} from '../services/exporter';
+import { LOUDNESS_TARGETS } from '../utils/loudness';
+import { CloseIcon, DownloadIcon } from './Icons';
+
+interface ExportDialogProps {
+  source: ExportSource;
+  formatTime: (time: number) => string;
+  onExported: (loudness: LoudnessStats) => void;
+  onClose: () => void;
+}
+
+const FORMAT_DESCRIPTIONS: Record<ExportFormat, string> = {
+  wav: 'Uncompressed, for editing',
+  flac: 'Lossless, about half the size',
+  opus: 'Compressed, for sharing',
+};
+
+const MARKER_OPTIONS: Record<MarkerSource, string> = {
+  paragraphs: 'Paragraph starts',
+  bookmarks: 'Bookmarks',
+  both: 'Paragraphs and bookmarks',
+  none: 'No markers',
+};
+
+const OPUS_BITRATES = [32, 64, 96, 128, 160, 192];
+
+const selectClass = 'w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-sm text-slate-200 outline-none focus:ring-2 focus:ring-blue-500';
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ source, formatTime, onExported, onClose }) => {
+  const [settings, setSettings] = useState<ExportSettings>(loadExportSettings);
+  const [selectionOnly, setSelectionOnly] = useState(false);
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isExporting = progress !== null;
+
+  const update = (changes: Partial<ExportSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    saveExportSettings(next);
+  };
+
+  const download = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const handleCaptions = (format: CaptionFormat) => {
+    setError(null);
+    try {
+      download(exportCaptions({ ...source, region: selectionOnly ? source.region : null }, format), captionFileName(format));
+    } catch (err) {
+      console.error("Failed to export captions", err);
+      setError(err instanceof Error ? err.message : "Could not export captions.");
+    }
+  };
+
+  const handleExport = async () => {
+    setError(null);
+    setProgress({ stage: 'rendering', fraction: 0 });
+    try {
+      const { blob, loudness } = await exportMix(
+        { ...source, region: selectionOnly ? source.region : null },
+        settings,
+        setProgress
+      );
+      download(blob, exportFileName(settings));
+      onExported(loudness);
+      onClose();
+    } catch (err) {
+      console.error("Failed to export audio", err);
+      setError(err instanceof Error ? err.message : "Could not export audio.");
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 flex items-center justify-center bg-black/60 p-4 animate-fade-in">
+      <div className="w-full max-w-md bg-slate-800 rounded-xl border border-slate-700 shadow-2xl">
+        <div className="flex items-center justify-between p-4 border-b border-slate-700">
+          <h2 className="text-lg font-semibold text-white">Export Audio</h2>
+          <button
+            onClick={onClose}
+            disabled={isExporting}
+            className="p-2 rounded-full text-slate-400 hover:text-white hover:bg-slate-700 transition-colors disabled:opacity-50"
+            title="Close"
+          >
+            <CloseIcon />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div className="grid grid-cols-3 gap-2">
+            {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => {
+              const supported = isFormatSupported(format);
+              return (
+                <button
+                  key={format}
+                  onClick={() => update({ format })}
+                  disabled={!supported || isExporting}
+                  title={supported ? FORMAT_DESCRIPTIONS[format] : 'Not supported in this browser'}
+                  className={`p-3 rounded-lg border text-left transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                    settings.format === format
+                      ? 'bg-blue-900/30 border-blue-600'
+                      : 'bg-slate-900/50 border-slate-700 hover:border-slate-500'
+                  }`}
+                >
+                  <div className="text-sm font-semibold text-white">{EXPORT_FORMATS[format].label}</div>
+                  <div className="text-xs text-slate-400">{FORMAT_DESCRIPTIONS[format]}</div>
+                </button>
+              );
+            })}
+          </div>
+
+          {source.region && (
+            <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={selectionOnly}
+                onChange={(e) => setSelectionOnly(e.target.checked)}
+                disabled={isExporting}
+                className="accent-blue-500"
+              />
+              Selection only ({formatTime(source.region.start)} – {formatTime(source.region.end)})
+            </label>
+          )}
+
+          <label className="block space-y-1">
+            <span className="text-xs font-semibold text-slate-400">Loudness</span>
+            <select
+              value={settings.loudness}
+              onChange={(e) => update({ loudness: e.target.value as LoudnessPreset })}
+              disabled={isExporting}
+              className={selectClass}
+            >
+              <option value="off">Off (leave levels as mixed)</option>
+              {(Object.keys(LOUDNESS_TARGETS) as Exclude<LoudnessPreset, 'off'>[]).map((preset) => (
+                <option key={preset} value={preset}>
+                  {LOUDNESS_TARGETS[preset].label}: {LOUDNESS_TARGETS[preset].lufs} LUFS, {LOUDNESS_TARGETS[preset].truePeak} dBTP peak
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {settings.format === 'wav' && (
+            <div className="space-y-3">
+              <label className="block space-y-1">
+                <span className="text-xs font-semibold text-slate-400">Bit Depth</span>
+                <select
+                  value={settings.wav.bitDepth}
+                  onChange={(e) => update({ wav: { ...settings.wav, bitDepth: Number(e.target.value) as ExportSettings['wav']['bitDepth'] } })}
+                  disabled={isExporting}
+                  className={selectClass}
+                >
+                  <option value={16}>16-bit PCM</option>
+                  <option value={24}>24-bit PCM</option>
+                  <option value={32}>32-bit float</option>
+                </select>
+              </label>
+              <label className="block space-y-1">
+                <span className="text-xs font-semibold text-slate-400">Cue Markers</span>
+                <select
+                  value={settings.wav.markers}
+                  onChange={(e) => update({ wav: { ...settings.wav, markers: e.target.value as MarkerSource } })}
+                  disabled={isExporting}
+                  className={selectClass}
+                >
+                  {(Object.keys(MARKER_OPTIONS) as MarkerSource[]).map((option) => (
+                    <option key={option} value={option}>{MARKER_OPTIONS[option]}</option>
+                  ))}
+                </select>
+              </label>
+              <p className="text-xs text-slate-500">
+                Title, voice, tone and script are embedded as tags. Markers show up as cues in DAWs and podcast editors.
+              </p>
+            </div>
+          )}
+
+          {settings.format === 'flac' && (
+            <div className="space-y-3">
+              <label className="block space-y-1">
+                <span className="text-xs font-semibold text-slate-400">Bit Depth</span>
+                <select
+                  value={settings.flac.bitDepth}
+                  onChange={(e) => update({ flac: { ...settings.flac, bitDepth: Number(e.target.value) as 16 | 24 } })}
+                  disabled={isExporting}
+                  className={selectClass}
+                >
+                  <option value={16}>16-bit</option>
+                  <option value={24}>24-bit</option>
+                </select>
+              </label>
+              <label className="block space-y-1">
+                <span className="flex justify-between text-xs font-semibold text-slate-400">
+                  <span>Compression Level</span>
+                  <span className="font-mono text-slate-500">{settings.flac.compressionLevel}</span>
+                </span>
+                <input
+                  type="range"
+                  min="0"
+                  max="8"
+                  step="1"
+                  value={settings.flac.compressionLevel}
+                  onChange={(e) => update({ flac: { ...settings.flac, compressionLevel: parseInt(e.target.value, 10) } })}
+                  disabled={isExporting}
+                  className="w-full h-1 bg-slate-600 rounded-lg appearance-none cursor-pointer"
+                />
+                <span className="flex justify-between text-xs text-slate-500">
+                  <span>Faster</span>
+                  <span>Smaller</span>
+                </span>
+              </label>
+            </div>
+          )}
+
+          {settings.format === 'opus' && (
+            <div className="space-y-3">
+              <label className="block space-y-1">
+                <span className="text-xs font-semibold text-slate-400">Bitrate</span>
+                <select
+                  value={settings.opus.bitrate}
+                  onChange={(e) => update({ opus: { ...settings.opus, bitrate: Number(e.target.value) } })}
+                  disabled={isExporting}
+                  className={selectClass}
+                >
+                  {OPUS_BITRATES.map((kbps) => (
+                    <option key={kbps} value={kbps}>{kbps} kbps</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={settings.opus.variableBitrate}
+                  onChange={(e) => update({ opus: { ...settings.opus, variableBitrate: e.target.checked } })}
+                  disabled={isExporting}
+                  className="accent-blue-500"
+                />
+                Variable bitrate
+              </label>
+            </div>
+          )}
+
+          {progress && (
+            <div className="space-y-1">
+              <div className="flex justify-between text-xs text-slate-400">
+                <span>
+                  {progress.stage === 'rendering'
+                    ? 'Rendering mix...'
+                    : settings.loudness !== 'off' && progress.fraction < 0.5
+                    ? 'Normalizing loudness...'
+                    : 'Encoding...'}
+                </span>
+                {progress.stage === 'encoding' && <span className="font-mono">{Math.round(progress.fraction * 100)}%</span>}
+              </div>
+              <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
+                <div
+                  className={`h-full bg-emerald-500 transition-all ${progress.stage === 'rendering' ? 'animate-pulse w-full opacity-40' : ''}`}
+                  style={progress.stage === 'encoding' ? { width: `${progress.fraction * 100}%` } : undefined}
+                />
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-900/20 border border-red-800 text-red-200 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          <button
+            onClick={handleExport}
+            disabled={isExporting || !isFormatSupported(settings.format)}
+            className="w-full py-3 rounded-xl bg-gradient-to-r from-emerald-600 to-emerald-500 hover:from-emerald-500 hover:to-emerald-400 text-white font-semibold shadow-lg shadow-emerald-900/20 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+          >
+            <DownloadIcon />
+            {isExporting ? 'Exporting...' : `Export ${EXPORT_FORMATS[settings.format].label}`}
+          </button>
+
+          <div className="pt-3 border-t border-slate-700 space-y-2">
+            <span className="text-xs font-semibold text-slate-400">Captions</span>
+            <div className="grid grid-cols-3 gap-2">
+              {(Object.keys(CAPTION_FORMATS) as CaptionFormat[]).map((format) => (
+                <button
+                  key={format}
+                  onClick={() => handleCaptions(format)}
+                  disabled={isExporting || !source.alignment}
+                  className="py-2 rounded-lg bg-slate-700 hover:bg-slate-600 text-sm text-slate-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {CAPTION_FORMATS[format].label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-slate-500">
+              {source.alignment
+                ? 'Timed from the speech audio at the export speed. Word timings are estimates.'
+                : 'Analysing the speech...'}
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { AudioMarker } from '../types';
+import { BookmarkIcon, TrashIcon } from './Icons';
+
+interface MarkerListProps {
+  markers: AudioMarker[];   // Paragraph starts, read-only
+  bookmarks: AudioMarker[];
+  formatTime: (time: number) => string;
+  onSeek: (time: number) => void;
+  onBookmarksChange: (bookmarks: AudioMarker[]) => void;
+}
+
+const MarkerList: React.FC<MarkerListProps> = ({ markers, bookmarks, formatTime, onSeek, onBookmarksChange }) => {
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [draftLabel, setDraftLabel] = useState('');
+
+  if (markers.length === 0 && bookmarks.length === 0) return null;
+
+  const startRename = (index: number) => {
+    setEditingIndex(index);
+    setDraftLabel(bookmarks[index].label);
+  };
+
+  const commitRename = () => {
+    if (editingIndex !== null && draftLabel.trim()) {
+      onBookmarksChange(bookmarks.map((b, i) => (i === editingIndex ? { ...b, label: draftLabel.trim() } : b)));
+    }
+    setEditingIndex(null);
+  };
+
+  const entries = [
+    ...markers.map(marker => ({ marker, bookmarkIndex: null as number | null })),
+    ...bookmarks.map((marker, i) => ({ marker, bookmarkIndex: i as number | null })),
+  ].sort((a, b) => a.marker.time - b.marker.time);
+
+  return (
+    <ul className="max-h-40 overflow-y-auto space-y-1 bg-slate-900/50 p-2 rounded-lg border border-slate-700/50">
+      {entries.map(({ marker, bookmarkIndex }) => (
+        <li
+          key={`${bookmarkIndex ?? 'p'}-${marker.time}`}
+          className="group flex items-center gap-2 px-2 py-1 rounded hover:bg-slate-800"
+        >
+          <span className={bookmarkIndex !== null ? 'text-amber-400' : 'text-slate-600'}>
+            <BookmarkIcon />
+          </span>
+          <button
+            onClick={() => onSeek(marker.time)}
+            className="text-xs font-mono text-blue-400 hover:text-blue-300 w-10 text-left"
+          >
+            {formatTime(marker.time)}
+          </button>
+          {bookmarkIndex !== null && editingIndex === bookmarkIndex ? (
+            <input
+              autoFocus
+              value={draftLabel}
+              onChange={(e) => setDraftLabel(e.target.value)}
+              onBlur={commitRename}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitRename();
+                if (e.key === 'Escape') setEditingIndex(null);
+              }}
+              className="flex-1 px-2 py-0.5 bg-slate-800 rounded text-xs text-white outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          ) : (
+            <span
+              onDoubleClick={() => bookmarkIndex !== null && startRename(bookmarkIndex)}
+              className={`flex-1 text-xs truncate ${bookmarkIndex !== null ? 'text-slate-200 cursor-text' : 'text-slate-400'}`}
+              title={bookmarkIndex !== null ? 'Double-click to rename' : marker.label}
+            >
+              {marker.label}
+            </span>
+          )}
+          {bookmarkIndex !== null && (
+            <button
+              onClick={() => onBookmarksChange(bookmarks.filter((_, i) => i !== bookmarkIndex))}
+              className="p-1 rounded text-slate-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+              title="Remove bookmark"
+            >
+              <TrashIcon />
+            </button>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default MarkerList;
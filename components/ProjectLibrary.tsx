@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { ProjectSummary } from '../types';
+import { CloseIcon, PencilIcon, TrashIcon, UploadIcon } from './Icons';
+
+interface ProjectLibraryProps {
+  projects: ProjectSummary[];
+  activeId: string | null;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => void;
+  onClose: () => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const ProjectLibrary: React.FC<ProjectLibraryProps> = ({ projects, activeId, onOpen, onRename, onDelete, onImport, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const filtered = projects.filter(p => p.name.toLowerCase().includes(query.trim().toLowerCase()));
+
+  const startRename = (project: ProjectSummary) => {
+    setEditingId(project.id);
+    setDraftName(project.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) onRename(editingId, draftName.trim());
+    setEditingId(null);
+  };
+
+  const handleDelete = (project: ProjectSummary) => {
+    if (window.confirm(`Delete "${project.name}"? This cannot be undone.`)) onDelete(project.id);
+  };
+
+  return (
+    <aside className="fixed inset-y-0 left-0 z-20 w-80 max-w-full bg-slate-900 border-r border-slate-700 shadow-2xl flex flex-col animate-fade-in">
+      <div className="flex items-center justify-between p-4 border-b border-slate-800">
+        <h2 className="text-lg font-semibold text-white">Library</h2>
+        <button
+          onClick={onClose}
+          className="p-2 rounded-full text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+          title="Close Library"
+        >
+          <CloseIcon />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-2">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search projects..."
+          className="w-full px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-sm text-slate-100 placeholder-slate-500 outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <label
+          className="flex items-center justify-center gap-2 w-full px-3 py-2 rounded-lg border border-dashed border-slate-700 text-sm text-slate-400 hover:text-white hover:border-slate-500 cursor-pointer transition-colors"
+          title="Import a WAV exported from SonicFlow, with its tags and markers"
+        >
+          <UploadIcon />
+          Import WAV
+          <input
+            type="file"
+            accept=".wav,audio/wav"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+      </div>
+
+      <ul className="flex-1 overflow-y-auto px-2 pb-4 space-y-1">
+        {filtered.length === 0 && (
+          <li className="px-2 py-8 text-center text-sm text-slate-500">
+            {projects.length === 0 ? 'Generated audio is saved here automatically.' : 'No matching projects.'}
+          </li>
+        )}
+        {filtered.map((project) => (
+          <li
+            key={project.id}
+            className={`group rounded-lg border transition-colors ${
+              project.id === activeId
+                ? 'bg-blue-900/30 border-blue-800'
+                : 'border-transparent hover:bg-slate-800'
+            }`}
+          >
+            {editingId === project.id ? (
+              <input
+                autoFocus
+                value={draftName}
+                onChange={(e) => setDraftName(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                className="w-full px-3 py-2.5 bg-slate-800 rounded-lg text-sm text-white outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            ) : (
+              <div className="flex items-center gap-1 pr-1">
+                <button onClick={() => onOpen(project.id)} className="flex-1 min-w-0 text-left px-3 py-2">
+                  <div className="text-sm font-medium text-slate-100 truncate">{project.name}</div>
+                  <div className="text-xs text-slate-500 truncate">
+                    {formatDate(project.updatedAt)} · {project.mode === 'dialogue' ? 'Dialogue' : `${project.voice}, ${project.tone}`}
+                  </div>
+                </button>
+                <button
+                  onClick={() => startRename(project)}
+                  className="p-1.5 rounded text-slate-500 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                  title="Rename"
+                >
+                  <PencilIcon />
+                </button>
+                <button
+                  onClick={() => handleDelete(project)}
+                  className="p-1.5 rounded text-slate-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                  title="Delete"
+                >
+                  <TrashIcon />
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+};
+
+export default ProjectLibrary;
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { SilenceSettings } from '../types';
+import { DEFAULT_SILENCE, SilenceSummary } from '../utils/silence';
+
+interface SilenceControlsProps {
+  settings: SilenceSettings;
+  summary: SilenceSummary | null; // Of the current edit, once the speech is analysed
+  onChange: (settings: SilenceSettings) => void;
+}
+
+type ToggleKey = 'trimEdges' | 'capPauses' | 'normalizeParagraphs';
+type SliderKey = Exclude<keyof SilenceSettings, 'enabled' | ToggleKey>;
+
+interface SliderSpec {
+  key: SliderKey;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+  toggle?: ToggleKey; // Disabled along with this option
+}
+
+const formatMs = (ms: number) => (ms >= 1000 ? `${(ms / 1000).toFixed(1)} s` : `${ms} ms`);
+
+const DETECTION: SliderSpec[] = [
+  { key: 'thresholdDb', label: 'Threshold', min: -70, max: -20, step: 1, format: v => `${v} dB` },
+  { key: 'minSilenceMs', label: 'Minimum Silence', min: 50, max: 1000, step: 10, format: formatMs },
+];
+
+const OPTIONS: (SliderSpec & { toggle: ToggleKey; title: string })[] = [
+  { toggle: 'trimEdges', title: 'Trim head and tail', key: 'edgeMs', label: 'Keep', min: 0, max: 1000, step: 10, format: formatMs },
+  { toggle: 'capPauses', title: 'Cap pauses', key: 'maxPauseMs', label: 'Longest', min: 100, max: 3000, step: 50, format: formatMs },
+  { toggle: 'normalizeParagraphs', title: 'Even out paragraph gaps', key: 'paragraphGapMs', label: 'Gap', min: 200, max: 4000, step: 50, format: formatMs },
+];
+
+const describe = (summary: SilenceSummary): string => {
+  const parts = [
+    summary.head > 0 && `${summary.head.toFixed(1)} s trimmed at the start`,
+    summary.tail > 0 && `${summary.tail.toFixed(1)} s at the end`,
+    summary.pausesShortened > 0 && `${summary.pausesShortened} pause${summary.pausesShortened === 1 ? '' : 's'} shortened`,
+    summary.paragraphGaps > 0 && `${summary.paragraphGaps} paragraph gap${summary.paragraphGaps === 1 ? '' : 's'} evened out`,
+  ].filter(Boolean);
+  if (parts.length === 0) return 'No silences to change.';
+  const change = summary.change < 0 ? `${(-summary.change).toFixed(1)} s shorter` : `${summary.change.toFixed(1)} s longer`;
+  return `${parts.join(', ')}. ${change} overall.`;
+};
+
+const SilenceControls: React.FC<SilenceControlsProps> = ({ settings, summary, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const slider = ({ key, label, min, max, step, format, toggle }: SliderSpec) => {
+    const disabled = !settings.enabled || (toggle !== undefined && !settings[toggle]);
+    return (
+      <label key={key} className={`block ${disabled ? 'opacity-40' : ''}`}>
+        <span className="flex justify-between text-xs text-slate-400">
+          <span>{label}</span>
+          <span className="font-mono text-slate-500">{format(settings[key])}</span>
+        </span>
+        <input
+          type="range"
+          min={min}
+          max={max}
+          step={step}
+          value={settings[key]}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...settings, [key]: parseFloat(e.target.value) })}
+          className="w-full h-1 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-blue-500"
+        />
+      </label>
+    );
+  };
+
+  return (
+    <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700/50 space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+            className="accent-blue-500"
+          />
+          Tidy up silences
+        </label>
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="text-xs text-slate-500 hover:text-slate-300 transition-colors"
+        >
+          {isOpen ? 'Hide settings' : 'Silence settings...'}
+        </button>
+      </div>
+
+      {settings.enabled && (
+        <p className="text-xs text-slate-500">{summary ? describe(summary) : 'Analysing the speech...'}</p>
+      )}
+
+      {isOpen && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2">
+            {DETECTION.map(slider)}
+          </div>
+          {OPTIONS.map((option) => (
+            <div key={option.toggle} className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1 items-center">
+              <label className={`flex items-center gap-2 text-xs text-slate-300 cursor-pointer select-none ${settings.enabled ? '' : 'opacity-40'}`}>
+                <input
+                  type="checkbox"
+                  checked={settings[option.toggle]}
+                  disabled={!settings.enabled}
+                  onChange={(e) => onChange({ ...settings, [option.toggle]: e.target.checked })}
+                  className="accent-blue-500"
+                />
+                {option.title}
+              </label>
+              {slider(option)}
+            </div>
+          ))}
+          <div className="flex justify-end">
+            <button
+              onClick={() => onChange({ ...DEFAULT_SILENCE, enabled: settings.enabled })}
+              className="text-xs text-slate-500 hover:text-slate-300 transition-colors"
+            >
+              Reset to defaults
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SilenceControls;
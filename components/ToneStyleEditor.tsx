@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { StyleEnergy, StylePace, Tone, ToneStyle } from '../types';
+import { MAX_INTENSITY, MAX_STYLE_NAME_CHARS, MAX_STYLE_TEXT_CHARS, STYLE_ENERGIES, STYLE_PACES, toneNameError } from '../utils/tones';
+
+interface ToneStyleEditorProps {
+  initial: ToneStyle;
+  styles: ToneStyle[];
+  // Only given when editing a saved style
+  onDelete?: () => void;
+  onSave: (style: ToneStyle) => void;
+  onCancel: () => void;
+}
+
+const INTENSITY_LABELS = ['Subtle', 'Light', 'Moderate', 'Strong', 'Extreme'];
+
+const inputClass = 'w-full px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-sm text-slate-100 placeholder-slate-500 outline-none focus:ring-2 focus:ring-teal-500';
+const labelClass = 'block text-xs font-medium text-slate-400 mb-1';
+
+const ToneStyleEditor: React.FC<ToneStyleEditorProps> = ({ initial, styles, onDelete, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<ToneStyle>(initial);
+  const [touched, setTouched] = useState(false);
+
+  const update = (patch: Partial<ToneStyle>) => setDraft((prev: ToneStyle) => ({ ...prev, ...patch }));
+  const nameError = toneNameError(draft.name, styles, initial.id);
+
+  const handleSave = () => {
+    setTouched(true);
+    if (nameError) return;
+    onSave({ ...draft, name: draft.name.trim() });
+  };
+
+  return (
+    <div className="p-4 bg-slate-900/50 border border-teal-800/60 rounded-xl space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label className={labelClass}>Name</label>
+          <input
+            value={draft.name}
+            maxLength={MAX_STYLE_NAME_CHARS + 1}
+            onChange={(e) => update({ name: e.target.value })}
+            onBlur={() => setTouched(true)}
+            placeholder="Pirate Captain"
+            className={inputClass}
+          />
+          {touched && nameError && <p className="mt-1 text-xs text-red-300">{nameError}</p>}
+        </div>
+        <div>
+          <label className={labelClass}>Based on</label>
+          <select
+            value={draft.base}
+            onChange={(e) => update({ base: e.target.value as Tone })}
+            className={inputClass}
+          >
+            {Object.values(Tone).map((tone) => (
+              <option key={tone} value={tone}>{tone}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClass}>Persona or accent</label>
+        <input
+          value={draft.persona}
+          maxLength={MAX_STYLE_TEXT_CHARS}
+          onChange={(e) => update({ persona: e.target.value })}
+          placeholder="A gruff sea captain with a West Country accent"
+          className={inputClass}
+        />
+      </div>
+
+      <div>
+        <label className={labelClass}>Direction</label>
+        <textarea
+          rows={2}
+          value={draft.direction}
+          maxLength={MAX_STYLE_TEXT_CHARS}
+          onChange={(e) => update({ direction: e.target.value })}
+          placeholder="Boisterous and theatrical, rolling the r's, chuckling between lines"
+          className={`${inputClass} resize-none`}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div>
+          <label className={labelClass}>
+            Intensity <span className="text-slate-500">{INTENSITY_LABELS[draft.intensity - 1]}</span>
+          </label>
+          <input
+            type="range"
+            min={1}
+            max={MAX_INTENSITY}
+            step={1}
+            value={draft.intensity}
+            onChange={(e) => update({ intensity: Number(e.target.value) })}
+            className="w-full h-1 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-teal-500"
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Pace</label>
+          <select
+            value={draft.pace}
+            onChange={(e) => update({ pace: e.target.value as StylePace })}
+            className={`${inputClass} capitalize`}
+          >
+            {STYLE_PACES.map((pace) => (
+              <option key={pace} value={pace}>{pace}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Energy</label>
+          <select
+            value={draft.energy}
+            onChange={(e) => update({ energy: e.target.value as StyleEnergy })}
+            className={`${inputClass} capitalize`}
+          >
+            {STYLE_ENERGIES.map((energy) => (
+              <option key={energy} value={energy}>{energy}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClass}>Example phrasing <span className="text-slate-500">(guides the delivery, never read aloud)</span></label>
+        <textarea
+          rows={2}
+          value={draft.examples}
+          maxLength={MAX_STYLE_TEXT_CHARS}
+          onChange={(e) => update({ examples: e.target.value })}
+          placeholder="Arr, ye'll be wantin' the treasure, will ye?"
+          className={`${inputClass} resize-none`}
+        />
+      </div>
+
+      <p className="text-xs text-slate-500">
+        The offline voice only follows the base tone, pace and energy. Use the name in scripts as{' '}
+        <span className="font-mono text-slate-400">[tone:{draft.name.trim() || 'Name'}]…[/tone]</span>.
+      </p>
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={handleSave}
+          className="px-3 py-1.5 rounded-lg text-sm font-medium bg-teal-600 hover:bg-teal-500 text-white"
+        >
+          Save style
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-3 py-1.5 rounded-lg text-sm font-medium bg-slate-700 hover:bg-slate-600 text-slate-300"
+        >
+          Cancel
+        </button>
+        {onDelete && (
+          <button
+            onClick={onDelete}
+            className="ml-auto px-3 py-1.5 rounded-lg text-sm font-medium text-red-300 hover:text-red-200"
+          >
+            Delete
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ToneStyleEditor;
@@ -0,0 +1,100 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { SpeechAlignment, TimedSentence } from '../types';
+import { timedIndexAt } from '../utils/alignment';
+
+interface TranscriptProps {
+  alignment: SpeechAlignment | null;
+  currentTime: number; // Seconds at 1.0x, so highlighting is independent of speed
+  isPlaying: boolean;
+  onSeek: (time: number) => void;
+}
+
+interface SentenceProps {
+  sentence: TimedSentence;
+  activeWord: number; // -1 unless this is the current sentence
+  onSeek: (time: number) => void;
+}
+
+// Only the current sentence re-renders as the playhead moves
+const Sentence: React.FC<SentenceProps> = React.memo(({ sentence, activeWord, onSeek }: SentenceProps) => (
+  <span className={`rounded transition-colors ${activeWord >= 0 ? 'bg-blue-900/40 text-slate-100' : ''}`}>
+    {sentence.words.map((word, i) => (
+      <React.Fragment key={i}>
+        <span
+          onClick={() => onSeek(word.start)}
+          className={`cursor-pointer rounded px-0.5 hover:bg-slate-700 ${i === activeWord ? 'bg-blue-600 text-white' : ''}`}
+        >
+          {word.text}
+        </span>{' '}
+      </React.Fragment>
+    ))}
+  </span>
+));
+
+/**
+ * The script as it was voiced, following playback: the sentence and word
+ * being spoken are highlighted, and clicking a word seeks to it.
+ */
+const Transcript: React.FC<TranscriptProps> = ({ alignment, currentTime, isPlaying, onSeek }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const sentenceRefs = useRef<(HTMLSpanElement | null)[]>([]);
+
+  // A stable handler, so the memoized sentences skip re-rendering
+  const onSeekRef = useRef(onSeek);
+  onSeekRef.current = onSeek;
+  const seek = useMemo(() => (time: number) => onSeekRef.current(time), []);
+
+  const paragraphs = useMemo(() => {
+    const groups: { speaker?: string; sentences: { sentence: TimedSentence; index: number }[] }[] = [];
+    alignment?.sentences.forEach((sentence, index) => {
+      if (index === 0 || sentence.paragraph !== alignment.sentences[index - 1].paragraph) {
+        groups.push({ speaker: sentence.speaker, sentences: [] });
+      }
+      groups[groups.length - 1].sentences.push({ sentence, index });
+    });
+    return groups;
+  }, [alignment]);
+
+  const activeSentence = alignment ? timedIndexAt(alignment.sentences, currentTime) : -1;
+  const activeWord = activeSentence >= 0 ? timedIndexAt(alignment!.sentences[activeSentence].words, currentTime) : -1;
+
+  // Keep the current sentence in view while playing
+  useEffect(() => {
+    const container = containerRef.current;
+    const element = sentenceRefs.current[activeSentence];
+    if (!container || !element || !isPlaying) return;
+    const top = element.offsetTop;
+    const bottom = top + element.offsetHeight;
+    if (top < container.scrollTop || bottom > container.scrollTop + container.clientHeight) {
+      container.scrollTo({ top: top - container.clientHeight / 3, behavior: 'smooth' });
+    }
+  }, [activeSentence, isPlaying]);
+
+  if (!alignment) {
+    return <p className="text-xs text-slate-500 px-1">Analysing the speech...</p>;
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative max-h-56 overflow-y-auto space-y-3 bg-slate-900/50 p-3 rounded-lg border border-slate-700/50 text-sm leading-relaxed text-slate-400"
+    >
+      {paragraphs.map((paragraph, p) => (
+        <p key={p}>
+          {paragraph.speaker && <span className="font-semibold text-blue-300">{paragraph.speaker}: </span>}
+          {paragraph.sentences.map(({ sentence, index }) => (
+            <span key={index} ref={(el) => { sentenceRefs.current[index] = el; }}>
+              <Sentence
+                sentence={sentence}
+                activeWord={index === activeSentence ? Math.max(0, activeWord) : -1}
+                onSeek={seek}
+              />{' '}
+            </span>
+          ))}
+        </p>
+      ))}
+    </div>
+  );
+};
+
+export default Transcript;
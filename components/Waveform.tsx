@@ -0,0 +1,232 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { AudioMarker, TimeRegion, WaveformPeaks } from '../types';
+import { peakRange } from '../services/waveform';
+import { loopOffset } from '../utils/loop';
+
+interface WaveformProps {
+  speechPeaks: WaveformPeaks | null;
+  musicPeaks: WaveformPeaks | null;
+  duration: number;    // Seconds at 1.0x, like every time here
+  currentTime: number;
+  speed: number;       // The music loops at its own pace under the sped-up speech
+  isPlaying: boolean;
+  markers: AudioMarker[];
+  bookmarks: AudioMarker[];
+  region: TimeRegion | null;
+  musicGainAt: (time: number) => number; // Level of the music overlay
+  onSeek: (time: number) => void;
+  onRegionChange: (region: TimeRegion | null) => void;
+}
+
+const HEIGHT = 96;
+const MAX_PX_PER_SECOND = 400;
+const ZOOM_STEP = 1.5;
+const DRAG_THRESHOLD = 3; // px before a press becomes a selection
+const MIN_REGION = 0.05;  // Seconds
+
+const COLORS = {
+  played: '#60a5fa',   // blue-400
+  unplayed: '#64748b', // slate-500
+  music: 'rgba(20, 184, 166, 0.35)', // teal-500
+  region: 'rgba(59, 130, 246, 0.18)',
+  regionEdge: '#3b82f6',
+  paragraph: '#475569',
+  bookmark: '#fbbf24',
+  playhead: '#f8fafc',
+};
+
+const zoomButtonClass = 'px-2 py-0.5 rounded bg-slate-700 text-slate-300 hover:bg-slate-600 disabled:opacity-40 transition-colors';
+
+const Waveform: React.FC<WaveformProps> = ({
+  speechPeaks,
+  musicPeaks,
+  duration,
+  currentTime,
+  speed,
+  isPlaying,
+  markers,
+  bookmarks,
+  region,
+  musicGainAt,
+  onSeek,
+  onRegionChange,
+}) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const pendingScroll = useRef<number | null>(null);
+  const [viewWidth, setViewWidth] = useState(0);
+  const [scrollLeft, setScrollLeft] = useState(0);
+  const [zoom, setZoom] = useState(1); // 1 fits the whole track
+
+  const fitPxPerSecond = duration > 0 ? viewWidth / duration : 0;
+  const maxZoom = fitPxPerSecond > 0 ? Math.max(1, MAX_PX_PER_SECOND / fitPxPerSecond) : 1;
+  const pxPerSecond = fitPxPerSecond * zoom;
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewWidth(el.clientWidth));
+    observer.observe(el);
+    setViewWidth(el.clientWidth);
+    return () => observer.disconnect();
+  }, []);
+
+  // Zooming keeps the time under the cursor in place
+  const zoomTo = (next: number, anchorX = viewWidth / 2) => {
+    const clamped = Math.max(1, Math.min(maxZoom, next));
+    if (!pxPerSecond || clamped === zoom) return;
+    const time = (scrollLeft + anchorX) / pxPerSecond;
+    pendingScroll.current = Math.max(0, time * fitPxPerSecond * clamped - anchorX);
+    setZoom(clamped);
+  };
+
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (!el || pendingScroll.current === null) return;
+    el.scrollLeft = pendingScroll.current;
+    setScrollLeft(el.scrollLeft);
+    pendingScroll.current = null;
+  }, [zoom]);
+
+  // Ctrl/Cmd + wheel zooms; needs a non-passive listener to stop the page zooming
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+      zoomTo(zoom * (e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP), e.clientX - el.getBoundingClientRect().left);
+    };
+    el.addEventListener('wheel', onWheel, { passive: false });
+    return () => el.removeEventListener('wheel', onWheel);
+  });
+
+  // Keep the playhead in view while playing
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el || !isPlaying || !pxPerSecond) return;
+    const x = currentTime * pxPerSecond;
+    if (x < el.scrollLeft || x > el.scrollLeft + viewWidth - 20) el.scrollLeft = x - viewWidth * 0.1;
+  }, [currentTime, isPlaying, pxPerSecond, viewWidth]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const g = canvas?.getContext('2d');
+    if (!canvas || !g) return;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.round(viewWidth * dpr);
+    canvas.height = Math.round(HEIGHT * dpr);
+    g.setTransform(dpr, 0, 0, dpr, 0, 0);
+    g.clearRect(0, 0, viewWidth, HEIGHT);
+    if (!pxPerSecond) return;
+
+    const mid = HEIGHT / 2;
+    const xOf = (time: number) => time * pxPerSecond - scrollLeft;
+    const columnSeconds = 1 / pxPerSecond;
+
+    for (let x = 0; x < viewWidth; x++) {
+      const t = (scrollLeft + x) / pxPerSecond;
+      if (t > duration) break;
+
+      if (musicPeaks && musicPeaks.duration > 0) {
+        const musicTime = loopOffset(musicPeaks.loop ?? { start: 0, end: musicPeaks.duration }, t / speed);
+        const range = peakRange(musicPeaks, musicTime, musicTime + columnSeconds / speed);
+        if (range) {
+          const level = musicGainAt(t);
+          g.fillStyle = COLORS.music;
+          g.fillRect(x, mid - range[1] * level * mid, 1, Math.max(1, (range[1] - range[0]) * level * mid));
+        }
+      }
+
+      const range = speechPeaks && peakRange(speechPeaks, t, t + columnSeconds);
+      if (range) {
+        g.fillStyle = t < currentTime ? COLORS.played : COLORS.unplayed;
+        g.fillRect(x, mid - range[1] * mid, 1, Math.max(1, (range[1] - range[0]) * mid));
+      }
+    }
+
+    if (region) {
+      const x0 = xOf(region.start);
+      const x1 = xOf(region.end);
+      g.fillStyle = COLORS.region;
+      g.fillRect(x0, 0, x1 - x0, HEIGHT);
+      g.fillStyle = COLORS.regionEdge;
+      g.fillRect(x0, 0, 1, HEIGHT);
+      g.fillRect(x1 - 1, 0, 1, HEIGHT);
+    }
+
+    const ticks: [AudioMarker[], string][] = [[markers, COLORS.paragraph], [bookmarks, COLORS.bookmark]];
+    for (const [list, color] of ticks) {
+      g.fillStyle = color;
+      for (const marker of list) g.fillRect(xOf(marker.time), 0, 1, 8);
+    }
+
+    g.fillStyle = COLORS.playhead;
+    g.fillRect(xOf(currentTime) - 0.5, 0, 1, HEIGHT);
+  }, [speechPeaks, musicPeaks, duration, currentTime, speed, markers, bookmarks, region, musicGainAt, viewWidth, scrollLeft, pxPerSecond]);
+
+  const timeAt = (clientX: number) => {
+    const el = scrollRef.current;
+    if (!el || !pxPerSecond) return 0;
+    const x = clientX - el.getBoundingClientRect().left + el.scrollLeft;
+    return Math.max(0, Math.min(duration, x / pxPerSecond));
+  };
+
+  // A press seeks; a drag selects a region
+  const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (e.button !== 0 || !pxPerSecond) return;
+    const startX = e.clientX;
+    const startTime = timeAt(startX);
+    let dragging = false;
+
+    const onMove = (event: MouseEvent) => {
+      if (!dragging && Math.abs(event.clientX - startX) < DRAG_THRESHOLD) return;
+      dragging = true;
+      const time = timeAt(event.clientX);
+      onRegionChange({ start: Math.min(startTime, time), end: Math.max(startTime, time) });
+    };
+    const onUp = (event: MouseEvent) => {
+      window.removeEventListener('mousemove', onMove);
+      window.removeEventListener('mouseup', onUp);
+      if (!dragging) {
+        onSeek(startTime);
+        return;
+      }
+      const time = timeAt(event.clientX);
+      const selected = { start: Math.min(startTime, time), end: Math.max(startTime, time) };
+      onRegionChange(selected.end - selected.start >= MIN_REGION ? selected : null);
+    };
+    window.addEventListener('mousemove', onMove);
+    window.addEventListener('mouseup', onUp);
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="relative">
+        <div
+          ref={scrollRef}
+          onScroll={(e) => setScrollLeft(e.currentTarget.scrollLeft)}
+          onMouseDown={handleMouseDown}
+          className="overflow-x-auto bg-slate-900/50 rounded-lg border border-slate-700/50 cursor-text select-none"
+        >
+          <div style={{ width: Math.max(viewWidth, duration * pxPerSecond), height: HEIGHT }} />
+        </div>
+        <canvas
+          ref={canvasRef}
+          className="absolute top-px left-px pointer-events-none rounded-lg"
+          style={{ width: viewWidth, height: HEIGHT }}
+        />
+      </div>
+      <div className="flex items-center justify-between text-xs text-slate-500">
+        <span>Click to seek · drag to select · Ctrl+scroll to zoom</span>
+        <div className="flex items-center gap-1">
+          <button onClick={() => zoomTo(zoom / ZOOM_STEP)} disabled={zoom <= 1} className={zoomButtonClass} title="Zoom out">−</button>
+          <button onClick={() => zoomTo(zoom * ZOOM_STEP)} disabled={zoom >= maxZoom} className={zoomButtonClass} title="Zoom in">+</button>
+          <button onClick={() => zoomTo(1)} disabled={zoom <= 1} className={zoomButtonClass} title="Show the whole track">Fit</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Waveform;
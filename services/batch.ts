@@ -0,0 +1,157 @@
+import { BatchRow, BatchSettings, ExportSettings, MusicComposer, SpeechProvider, ToneStyle } from "../types";
+import { DEFAULT_DUCKING } from "../utils/ducking";
+import type { JobState } from "../utils/queue";
+import { createZip } from "../utils/zip";
+import { EXPORT_FORMATS, buildAudioTags, exportMix } from "./exporter";
+
+const SETTINGS_KEY = 'sonicflow.batch';
+const BATCH_MUSIC_VOLUME = 0.3;
+
+export const DEFAULT_BATCH_SETTINGS: BatchSettings = {
+  concurrency: 2,
+  requestsPerMinute: 20,
+  retries: 2,
+};
+
+export const BATCH_LIMITS: Record<keyof BatchSettings, { min: number; max: number }> = {
+  concurrency: { min: 1, max: 6 },
+  requestsPerMinute: { min: 0, max: 300 },
+  retries: { min: 0, max: 5 },
+};
+
+const clampSetting = (key: keyof BatchSettings, value: unknown): number => {
+  const { min, max } = BATCH_LIMITS[key];
+  return typeof value === 'number' && isFinite(value)
+    ? Math.min(max, Math.max(min, Math.round(value)))
+    : DEFAULT_BATCH_SETTINGS[key];
+};
+
+export const loadBatchSettings = (): BatchSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    return {
+      concurrency: clampSetting('concurrency', saved?.concurrency),
+      requestsPerMinute: clampSetting('requestsPerMinute', saved?.requestsPerMinute),
+      retries: clampSetting('retries', saved?.retries),
+    };
+  } catch {
+    return DEFAULT_BATCH_SETTINGS;
+  }
+};
+
+export const saveBatchSettings = (settings: BatchSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export interface BatchContext {
+  provider: SpeechProvider;
+  composer: MusicComposer;
+  styles: ToneStyle[];
+  exportSettings: ExportSettings;
+}
+
+export interface BatchClip {
+  blob: Blob;
+  musicFallback?: string; // Why the music was composed offline, when it was
+}
+
+export const batchFileName = (row: BatchRow, settings: ExportSettings): string =>
+  `${row.id}.${EXPORT_FORMATS[settings.format].extension}`;
+
+/**
+ * Generates one row's clip: speech, plus music when the row asks for it,
+ * mixed and encoded like a single export with the default player settings.
+ * Requests aren't retried here: the queue retries the whole row, so every
+ * attempt waits its turn under the rate limit. That includes the music,
+ * which only falls back to offline composing for failures a retry won't fix.
+ */
+export const renderBatchRow = async (row: BatchRow, context: BatchContext, signal?: AbortSignal): Promise<BatchClip> => {
+  const { provider, composer, styles, exportSettings } = context;
+  const speech = await provider.generateSpeech(row.text, row.voice, row.tone, { style: row.style, styles, signal, retries: 0 });
+  let musicUrl: string | null = null;
+  let musicFallback: string | undefined;
+  try {
+    if (row.music) {
+      const music = await composer.generateBackgroundMusic(row.text, { tone: row.tone, signal, retries: 0 });
+      musicUrl = music.url;
+      if (music.fallback) musicFallback = music.fallbackReason ?? 'The music service failed.';
+    }
+    const { blob } = await exportMix(
+      {
+        speechUrl: speech.url,
+        musicUrl,
+        speed: 1,
+        pitch: 0,
+        musicVolume: BATCH_MUSIC_VOLUME,
+        ducking: DEFAULT_DUCKING,
+        silence: null,
+        effects: [],
+        tags: buildAudioTags({
+          name: row.id,
+          script: row.text,
+          mode: 'narration',
+          voice: row.voice,
+          tone: row.tone,
+          style: row.style,
+          casting: {},
+          model: provider.model,
+        }),
+        paragraphs: speech.markers,
+        bookmarks: [],
+        region: null,
+        alignment: null,
+      },
+      exportSettings
+    );
+    return { blob, ...(musicFallback ? { musicFallback } : {}) };
+  } finally {
+    URL.revokeObjectURL(speech.url);
+    if (musicUrl) URL.revokeObjectURL(musicUrl);
+  }
+};
+
+/**
+ * Zips the finished clips, named by row id, with a manifest.json listing
+ * every row: its settings, its file, or why it has none, and why its music
+ * was composed offline if it was.
+ */
+export const buildBatchZip = async (
+  rows: BatchRow[],
+  states: JobState[],
+  clips: Map<string, BatchClip>,
+  context: Pick<BatchContext, 'provider' | 'exportSettings'>
+): Promise<Blob> => {
+  const { provider, exportSettings } = context;
+  const entries = await Promise.all(rows.map(async row => {
+    const clip = clips.get(row.id);
+    return clip && { name: batchFileName(row, exportSettings), data: new Uint8Array(await clip.blob.arrayBuffer()) };
+  }));
+
+  const manifest = {
+    generatedAt: new Date().toISOString(),
+    provider: provider.id,
+    model: provider.model,
+    format: exportSettings.format,
+    loudness: exportSettings.loudness,
+    rows: rows.map((row, i) => ({
+      id: row.id,
+      file: clips.has(row.id) ? batchFileName(row, exportSettings) : null,
+      text: row.text,
+      voice: row.voice,
+      tone: row.tone,
+      style: row.style?.name ?? null,
+      music: row.music,
+      ...(clips.get(row.id)?.musicFallback ? { musicFallback: clips.get(row.id)!.musicFallback } : {}),
+      status: states[i]?.status ?? 'queued',
+      attempts: states[i]?.attempts ?? 0,
+      ...(states[i]?.error && !clips.has(row.id) ? { error: states[i].error } : {}),
+    })),
+  };
+
+  return createZip([
+    ...entries.filter((entry): entry is NonNullable<typeof entry> => !!entry),
+    { name: 'manifest.json', data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) },
+  ]);
+};
+
+export const batchZipName = (): string => `sonicflow-batch-${Date.now()}.zip`;
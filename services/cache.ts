@@ -0,0 +1,79 @@
+import { CACHE_STORE, openDb, withStore } from "./db";
+
+// Cap on the total size of cached generations; least recently used entries
+// are evicted once it is exceeded.
+export const CACHE_MAX_BYTES = 200 * 1024 * 1024;
+
+interface CacheEntry {
+  key: string;
+  data: Blob;
+  size: number;
+  createdAt: number;
+  lastAccess: number;
+}
+
+/**
+ * Content-addressed key: SHA-256 over the request fields that determine the
+ * generated output.
+ */
+export const hashCacheKey = async (parts: string[]): Promise<string> => {
+  // Length-prefix each part so ("ab", "c") and ("a", "bc") never collide
+  const material = parts.map(p => `${p.length}:${p}`).join('|');
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(material));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Looks up a cached generation and marks it as recently used.
+ */
+export const getCached = async (key: string): Promise<Blob | undefined> => {
+  try {
+    const entry = await withStore<CacheEntry | undefined>(CACHE_STORE, 'readonly', store => store.get(key));
+    if (!entry) return undefined;
+    await withStore(CACHE_STORE, 'readwrite', store => store.put({ ...entry, lastAccess: Date.now() }));
+    return entry.data;
+  } catch (error) {
+    // A broken cache should never block generation
+    console.warn("Generation cache read failed", error);
+    return undefined;
+  }
+};
+
+/**
+ * Evicts least recently used entries until the cache fits within `maxBytes`.
+ */
+const evict = async (maxBytes: number): Promise<void> => {
+  const db = await openDb();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(CACHE_STORE, 'readwrite');
+    const store = tx.objectStore(CACHE_STORE);
+    const request = store.getAll();
+
+    request.onsuccess = () => {
+      const entries = (request.result as CacheEntry[]).sort((a, b) => a.lastAccess - b.lastAccess);
+      let total = entries.reduce((sum, e) => sum + e.size, 0);
+      for (const entry of entries) {
+        if (total <= maxBytes) break;
+        store.delete(entry.key);
+        total -= entry.size;
+      }
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const putCached = async (key: string, data: Blob): Promise<void> => {
+  try {
+    const now = Date.now();
+    const entry: CacheEntry = { key, data, size: data.size, createdAt: now, lastAccess: now };
+    await withStore(CACHE_STORE, 'readwrite', store => store.put(entry));
+    await evict(CACHE_MAX_BYTES);
+  } catch (error) {
+    console.warn("Generation cache write failed", error);
+  }
+};
+
+export const clearCache = async (): Promise<void> => {
+  await withStore(CACHE_STORE, 'readwrite', store => store.clear());
+};
@@ -0,0 +1,51 @@
+const DB_NAME = 'sonicflow';
+const DB_VERSION = 2;
+
+export const PROJECT_STORE = 'projects';
+export const CACHE_STORE = 'cache';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          const projects = db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+          projects.createIndex('updatedAt', 'updatedAt');
+        }
+        if (event.oldVersion < 2) {
+          const cache = db.createObjectStore(CACHE_STORE, { keyPath: 'key' });
+          cache.createIndex('lastAccess', 'lastAccess');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Runs a single request against `storeName` and resolves with its result
+ * once the transaction commits.
+ */
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = run(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
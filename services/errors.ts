@@ -0,0 +1,160 @@
+/**
+ * Errors from speech and music generation, sorted into the kinds the UI and
+ * the retry logic care about. The messages are written for the user.
+ */
+
+export type GenerationErrorKind =
+  | 'missing-key'
+  | 'auth'
+  | 'quota'
+  | 'safety'
+  | 'empty-audio'
+  | 'malformed-score'
+  | 'network'
+  | 'server'
+  | 'timeout'
+  | 'cancelled'
+  | 'unknown';
+
+const MESSAGES: Record<GenerationErrorKind, string> = {
+  'missing-key': "No Gemini API key is configured. Set GEMINI_API_KEY or switch to the Offline engine.",
+  auth: "Gemini rejected the API key. Check that it is valid and allowed to use this model.",
+  quota: "Gemini's rate limit or quota was reached. Wait a moment and try again.",
+  safety: "Gemini declined this text under its safety settings. Try rewording it.",
+  'empty-audio': "Gemini returned no audio for part of the script.",
+  'malformed-score': "Gemini returned a music score that couldn't be read.",
+  network: "Couldn't reach Gemini. Check your connection and try again.",
+  server: "Gemini is having trouble right now. Try again shortly.",
+  timeout: "Gemini took too long to respond.",
+  cancelled: "Cancelled.",
+  unknown: "Generation failed.",
+};
+
+// Worth another attempt: the same request may well succeed later. The TTS
+// model now and then answers without audio, so that counts too.
+const TRANSIENT: GenerationErrorKind[] = ['quota', 'network', 'server', 'timeout', 'empty-audio'];
+
+export class GenerationError extends Error {
+  readonly kind: GenerationErrorKind;
+  readonly retryAfterMs?: number; // The service's own hint for when to try again
+
+  constructor(kind: GenerationErrorKind, message = MESSAGES[kind], options: { retryAfterMs?: number; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  get transient(): boolean {
+    return TRANSIENT.includes(this.kind);
+  }
+}
+
+export const isCancelled = (error: unknown): boolean =>
+  error instanceof GenerationError && error.kind === 'cancelled';
+
+/**
+ * Reads a retry hint from an error body: Gemini's RetryInfo
+ * ("retryDelay": "27s"), its "Please retry in 27.5s." text, or a
+ * Retry-After value in seconds.
+ */
+const parseRetryAfter = (message: string): number | undefined => {
+  const match = message.match(/"retryDelay"\s*:\s*"([\d.]+)s"/)
+    ?? message.match(/retry in ([\d.]+)\s*s/i)
+    ?? message.match(/retry-after["':\s]+([\d.]+)/i);
+  const seconds = match ? parseFloat(match[1]) : NaN;
+  return isFinite(seconds) ? seconds * 1000 : undefined;
+};
+
+const kindForStatus = (status: number, message: string): GenerationErrorKind => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 400 && /API[_ ]KEY/i.test(message)) return 'auth';
+  if (status === 429) return 'quota';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status >= 500) return 'server';
+  return 'unknown';
+};
+
+/** Sorts any thrown value into a GenerationError, keeping the original as its cause. */
+export const classifyError = (error: unknown): GenerationError => {
+  if (error instanceof GenerationError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  const name = error instanceof Error || error instanceof DOMException ? error.name : '';
+
+  if (name === 'AbortError') return new GenerationError('cancelled', undefined, { cause: error });
+  if (name === 'TimeoutError') return new GenerationError('timeout', undefined, { cause: error });
+
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') {
+    const kind = kindForStatus(status, message);
+    return new GenerationError(
+      kind,
+      kind === 'unknown' ? `Gemini returned an error (${status}).` : undefined,
+      { retryAfterMs: parseRetryAfter(message), cause: error }
+    );
+  }
+
+  // fetch() rejects with a TypeError when the request never completes
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) {
+    return new GenerationError('network', undefined, { cause: error });
+  }
+  return new GenerationError('unknown', message || undefined, { cause: error });
+};
+
+export const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new GenerationError('cancelled');
+};
+
+/** Waits `ms`, or rejects as cancelled as soon as `signal` aborts. */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new GenerationError('cancelled'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new GenerationError('cancelled'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number; // Per attempt
+  retries?: number;   // Attempts after the first
+  baseDelayMs?: number;
+  maxDelayMs?: number; // Longer retry hints fail straight away instead
+}
+
+/**
+ * Calls `request` until it succeeds, retrying transient failures with
+ * exponential backoff and jitter, or after the service's retry hint when it
+ * gives one. Each attempt gets a signal that aborts on cancellation or when
+ * the attempt times out. Whatever finally fails is thrown as a GenerationError.
+ */
+export const withRetry = async <T>(
+  request: (signal: AbortSignal) => Promise<T>,
+  { signal, timeoutMs, retries = 3, baseDelayMs = 1000, maxDelayMs = 60000 }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    throwIfCancelled(signal);
+    const timeout = timeoutMs ? AbortSignal.timeout(timeoutMs) : undefined;
+    const attemptSignal = AbortSignal.any([signal, timeout].filter((s): s is AbortSignal => !!s));
+    try {
+      return await request(attemptSignal);
+    } catch (raw) {
+      const error = signal?.aborted
+        ? new GenerationError('cancelled')
+        : timeout?.aborted ? new GenerationError('timeout', undefined, { cause: raw }) : classifyError(raw);
+      const delay = error.retryAfterMs ?? baseDelayMs * 2 ** attempt * (0.8 + Math.random() * 0.4);
+      if (!error.transient || attempt >= retries || delay > maxDelayMs) throw error;
+      console.warn(`${error.message} Retrying in ${(delay / 1000).toFixed(1)}s.`, raw);
+      await sleep(delay, signal);
+    }
+  }
+};
@@ -0,0 +1,311 @@
+import {
+  AudioMarker,
+  AudioMetadata,
+  AudioTags,
+  CaptionFormat,
+  Casting,
+  DuckingSettings,
+  ExportFormat,
+  ExportProgress,
+  ExportSettings,
+  GeneratedMusic,
+  LoudnessStats,
+  MarkerSource,
+  MusicScore,
+  ScriptMode,
+  SpeechAlignment,
+  SpeechEffect,
+  TimeRegion,
+  Tone,
+  ToneStyle,
+  VoiceName,
+} from "../types";
+import { fetchAudioBuffer, fetchLoopingAudio, synthesizeMusic } from "../utils/audio";
+import { formatCaptions } from "../utils/captions";
+import { readMidi, writeMidi } from "../utils/midi";
+import type { MixInput } from "../utils/mix";
+import { repairScore } from "../utils/score";
+import type { SilenceEdit } from "../utils/silence";
+import type { WorkerRequest, WorkerResponse } from "../workers/export.worker";
+
+const SETTING_KEY = 'sonicflow.export';
+const SOFTWARE_TAG = 'SonicFlow AI';
+const MIX_SAMPLE_RATE = 44100; // Loudness is measured at the WAV and FLAC rate
+
+export interface ExportFormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+  sampleRate: number;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+  wav: { label: 'WAV', extension: 'wav', mimeType: 'audio/wav', sampleRate: 44100 },
+  flac: { label: 'FLAC', extension: 'flac', mimeType: 'audio/flac', sampleRate: 44100 },
+  // Opus always runs at 48 kHz, so render there instead of resampling in the worker
+  opus: { label: 'Opus', extension: 'ogg', mimeType: 'audio/ogg; codecs=opus', sampleRate: 48000 },
+};
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'wav',
+  loudness: 'podcast',
+  wav: { bitDepth: 16, markers: 'paragraphs' },
+  flac: { bitDepth: 16, compressionLevel: 5 },
+  opus: { bitrate: 96, variableBitrate: true },
+};
+
+export const isFormatSupported = (format: ExportFormat): boolean =>
+  format !== 'opus' || typeof AudioEncoder !== 'undefined';
+
+export const loadExportSettings = (): ExportSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTING_KEY) || 'null');
+    if (!saved) return DEFAULT_EXPORT_SETTINGS;
+    return {
+      format: saved.format in EXPORT_FORMATS ? saved.format : DEFAULT_EXPORT_SETTINGS.format,
+      loudness: saved.loudness ?? DEFAULT_EXPORT_SETTINGS.loudness,
+      wav: { ...DEFAULT_EXPORT_SETTINGS.wav, ...saved.wav },
+      flac: { ...DEFAULT_EXPORT_SETTINGS.flac, ...saved.flac },
+      opus: { ...DEFAULT_EXPORT_SETTINGS.opus, ...saved.opus },
+    };
+  } catch {
+    return DEFAULT_EXPORT_SETTINGS;
+  }
+};
+
+export const saveExportSettings = (settings: ExportSettings) => {
+  localStorage.setItem(SETTING_KEY, JSON.stringify(settings));
+};
+
+type WorkerResult = Exclude<WorkerResponse, { type: 'progress' | 'error' }>;
+
+const bufferChannels = (buffer: AudioBuffer) =>
+  Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c).slice());
+
+/**
+ * Runs one job in a dedicated worker so long exports don't block the
+ * player. Channel data is transferred, so callers pass copies. Aborting
+ * `signal` terminates the worker mid-job.
+ */
+const runWorker = (
+  request: WorkerRequest,
+  transfer: Transferable[],
+  { onProgress, signal }: { onProgress?: (fraction: number) => void; signal?: AbortSignal } = {}
+): Promise<WorkerResult> => {
+  const worker = new Worker(new URL('../workers/export.worker.ts', import.meta.url), { type: 'module' });
+
+  return new Promise<WorkerResult>((resolve, reject) => {
+    const onAbort = () => {
+      worker.terminate();
+      reject(new DOMException("The export worker was stopped.", 'AbortError'));
+    };
+    const settle = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.fraction);
+        return;
+      }
+      settle();
+      if (message.type === 'error') reject(new Error(message.message));
+      else resolve(message);
+    };
+    worker.onerror = (event) => {
+      settle();
+      reject(new Error(event.message || "Export worker failed."));
+    };
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+    worker.postMessage(request, transfer);
+  });
+};
+
+/** Everything that shapes the rendered mix. */
+export interface MixSource {
+  speechUrl: string;
+  musicUrl: string | null;
+  speed: number;
+  pitch: number; // Semitones
+  musicVolume: number;
+  ducking: DuckingSettings;
+  silence: SilenceEdit | null; // Times below are on the edited speech when set
+  effects: SpeechEffect[];
+}
+
+export interface ExportSource extends MixSource {
+  tags: AudioTags;
+  paragraphs: AudioMarker[];
+  bookmarks: AudioMarker[];
+  region: TimeRegion | null; // Export only this part when set
+  alignment: SpeechAlignment | null; // For captions; null until the speech is analysed
+}
+
+/** Picks the markers to embed and moves them onto the exported (sped-up, trimmed) timeline. */
+const exportMarkers = (source: ExportSource, choice: MarkerSource): AudioMarker[] => {
+  const markers = [
+    ...(choice === 'paragraphs' || choice === 'both' ? source.paragraphs : []),
+    ...(choice === 'bookmarks' || choice === 'both' ? source.bookmarks : []),
+  ];
+  const { start, end } = source.region ?? { start: 0, end: Infinity };
+  return markers
+    .filter(m => m.time >= start && m.time < end)
+    .map(m => ({ ...m, time: (m.time - start) / source.speed }))
+    .sort((a, b) => a.time - b.time);
+};
+
+export interface ExportResult {
+  blob: Blob;
+  loudness: LoudnessStats; // Of the exported file
+}
+
+/**
+ * Decodes the speech and music on the main thread, where the audio contexts
+ * are, into the plain channels the worker mixes.
+ */
+const decodeMix = async (
+  { speechUrl, musicUrl, speed, pitch, musicVolume, ducking, silence, effects }: MixSource,
+  span: TimeRegion | null = null
+): Promise<MixInput> => {
+  const tempCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
+  try {
+    const speech = await fetchAudioBuffer(speechUrl, tempCtx);
+    const music = musicUrl ? await fetchLoopingAudio(musicUrl, tempCtx) : null;
+    return {
+      speech: { channels: bufferChannels(speech), sampleRate: speech.sampleRate },
+      music: music && { channels: bufferChannels(music.buffer), sampleRate: music.buffer.sampleRate, loop: music.loop },
+      speed,
+      pitch,
+      musicVolume,
+      ducking,
+      silence: silence ?? undefined,
+      span: span ?? undefined,
+      effects,
+    };
+  } finally {
+    await tempCtx.close();
+  }
+};
+
+const mixTransfer = (mix: MixInput): Transferable[] =>
+  [...mix.speech.channels, ...(mix.music?.channels ?? [])].map(c => c.buffer);
+
+/**
+ * Renders the final mix (or the selected region of it), normalizes it to the
+ * chosen loudness target and encodes it in the chosen format. WAV exports
+ * also carry the tags and the chosen markers.
+ */
+export const exportMix = async (
+  source: ExportSource,
+  settings: ExportSettings,
+  onProgress?: (progress: ExportProgress) => void
+): Promise<ExportResult> => {
+  const format = EXPORT_FORMATS[settings.format];
+  onProgress?.({ stage: 'rendering', fraction: 0 });
+  const mix = await decodeMix(source, source.region);
+  const metadata: AudioMetadata = { ...source.tags, markers: exportMarkers(source, settings.wav.markers) };
+  const result = await runWorker(
+    { type: 'encode', settings, mix, sampleRate: format.sampleRate, metadata },
+    mixTransfer(mix),
+    { onProgress: fraction => onProgress?.({ stage: 'encoding', fraction }) }
+  );
+  if (result.type !== 'done') throw new Error("Export worker returned no audio.");
+  return { blob: new Blob([result.data], { type: format.mimeType }), loudness: result.loudness };
+};
+
+/**
+ * Measures the integrated loudness and true peak of the mix as it would be
+ * exported before normalization. The mix renders in the export worker, as
+ * an export does, and `signal` stops it.
+ */
+export const measureMix = async (source: MixSource, signal?: AbortSignal): Promise<LoudnessStats> => {
+  const mix = await decodeMix(source);
+  const result = await runWorker({ type: 'measure', mix, sampleRate: MIX_SAMPLE_RATE }, mixTransfer(mix), { signal });
+  if (result.type !== 'measured') throw new Error("Loudness worker returned no measurement.");
+  return result.loudness;
+};
+
+export const CAPTION_FORMATS: Record<CaptionFormat, { label: string; extension: string; mimeType: string }> = {
+  srt: { label: 'SRT', extension: 'srt', mimeType: 'application/x-subrip' },
+  vtt: { label: 'WebVTT', extension: 'vtt', mimeType: 'text/vtt' },
+  json: { label: 'Word timings', extension: 'json', mimeType: 'application/json' },
+};
+
+/**
+ * Captions (or word timings) for the audio `exportMix` produces from the
+ * same source, timed to its speed and region.
+ */
+export const exportCaptions = (source: ExportSource, format: CaptionFormat): Blob => {
+  if (!source.alignment) throw new Error("The speech is still being analysed. Try again in a moment.");
+  const text = formatCaptions(source.alignment, format, { speed: source.speed, region: source.region });
+  return new Blob([text], { type: `${CAPTION_FORMATS[format].mimeType}; charset=utf-8` });
+};
+
+export const captionFileName = (format: CaptionFormat): string =>
+  `sonicflow-captions-${Date.now()}.${CAPTION_FORMATS[format].extension}`;
+
+/** The background music score as a Standard MIDI File, for editing in a DAW. */
+export const exportMidi = (score: MusicScore): Blob =>
+  new Blob([writeMidi(score)], { type: 'audio/midi' });
+
+export const midiFileName = (): string => `sonicflow-music-${Date.now()}.mid`;
+
+/**
+ * Turns a MIDI file into background music. The score is repaired like any
+ * other, but not snapped to a key, so deliberate detuning survives.
+ */
+export const importMidi = async (file: File): Promise<GeneratedMusic> => {
+  const { score, repairs } = repairScore(readMidi(new Uint8Array(await file.arrayBuffer())), { snapToKey: false });
+  if (repairs.length > 0) console.warn("Repaired the imported score:", repairs.join(', '));
+  const wavBlob = await synthesizeMusic(score);
+  return { url: URL.createObjectURL(wavBlob), score, cached: false };
+};
+
+/** Formats a LUFS or dBTP reading to one decimal place. */
+export const formatLevel = (value: number, unit: 'LUFS' | 'dBTP'): string =>
+  isFinite(value) ? `${value.toFixed(1)} ${unit}` : `-∞ ${unit}`;
+
+export const exportFileName = (settings: ExportSettings): string =>
+  `sonicflow-final-${Date.now()}.${EXPORT_FORMATS[settings.format].extension}`;
+
+interface TagSource {
+  name: string;
+  script: string;
+  mode: ScriptMode;
+  voice: VoiceName;
+  tone: Tone;
+  style?: ToneStyle | null;
+  casting: Casting;
+  model: string;
+}
+
+/**
+ * Describes a project as file tags: the voice is the artist, and the tone,
+ * any custom style and the model go in the comment.
+ */
+export const buildAudioTags = ({ name, script, mode, voice, tone, style, casting, model }: TagSource): AudioTags => {
+  const speakers = Object.keys(casting);
+  const dialogue = mode === 'dialogue' && speakers.length > 0;
+  return {
+    title: name,
+    artist: dialogue ? speakers.map(s => `${s} (${casting[s].voice})`).join(', ') : voice,
+    comment: dialogue
+      ? `Tones: ${speakers.map(s => `${s} ${casting[s].style?.name ?? casting[s].tone}`).join(', ')}; Model: ${model}`
+      : `Tone: ${tone}; ${style ? `Style: ${style.name}; ` : ''}Model: ${model}`,
+    software: SOFTWARE_TAG,
+    script,
+  };
+};
+
+/** Recovers the narration voice and tone written by `buildAudioTags`, if present. */
+export const readVoiceAndTone = (tags: AudioTags): { voice?: VoiceName; tone?: Tone } => {
+  const voice = Object.values(VoiceName).find(v => v === tags.artist);
+  const toneName = tags.comment?.match(/^Tone: (\w+)/)?.[1];
+  const tone = Object.values(Tone).find(t => t === toneName);
+  return { voice, tone };
+};
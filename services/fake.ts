@@ -0,0 +1,53 @@
+import { SpeechProvider, SpeechSegment } from "../types";
+import { SPEECH_SAMPLE_RATE, uint8ArrayToBase64 } from "../utils/audio";
+import { synthesizeFormantSpeech } from "../utils/formant";
+import { Base64PcmDecoder } from "../utils/stream";
+import { GenerationError, sleep } from "./errors";
+import { SpeechBackend, createSpeechProvider } from "./pipeline";
+
+const BYTES_PER_SECOND = SPEECH_SAMPLE_RATE * 2;
+
+export interface FakeStreamOptions {
+  partMs?: number;          // Audio in each streamed part
+  delayMs?: number;         // Wait before each part, as if it came over the network
+  failAfterParts?: number;  // Fail every segment with a server error after this many parts
+}
+
+/**
+ * A stand-in for Gemini's speech stream, for tests and for trying the
+ * player without a key. Audio from the offline synthesizer is sent as
+ * Base64 parts over time, cut at odd byte counts so parts split samples,
+ * and decoded by the same decoder, so it drives the whole streaming path:
+ * the pipeline, stitching and progressive playback.
+ */
+export const createFakeSpeechBackend = ({
+  partMs = 250,
+  delayMs = 100,
+  failAfterParts,
+}: FakeStreamOptions = {}): SpeechBackend => {
+  const partBytes = Math.max(1, Math.round((BYTES_PER_SECOND * partMs) / 1000)) | 1;
+
+  const streamFake = async function* (segment: SpeechSegment, signal?: AbortSignal): AsyncGenerator<Uint8Array> {
+    const pcm = synthesizeFormantSpeech(segment.text, segment.voice, segment.tone, segment.whisper, segment.style);
+    const decoder = new Base64PcmDecoder();
+    for (let part = 0; part * partBytes < pcm.length; part++) {
+      await sleep(delayMs, signal);
+      if (failAfterParts !== undefined && part >= failAfterParts) throw new GenerationError('server');
+      const bytes = decoder.push(uint8ArrayToBase64(pcm.subarray(part * partBytes, (part + 1) * partBytes)));
+      if (bytes.length > 0) yield bytes;
+    }
+  };
+
+  return {
+    id: 'local',
+    label: 'Fake stream',
+    model: 'formant synthesizer (fake stream)',
+    isAvailable: () => true,
+    streamSegment: streamFake,
+    maxChunkChars: 400,
+    concurrency: 2,
+  };
+};
+
+export const createFakeSpeechProvider = (options?: FakeStreamOptions): SpeechProvider =>
+  createSpeechProvider(createFakeSpeechBackend(options));
@@ -1,87 +1,242 @@
-import { GoogleGenAI, Modality, Type } from "@google/genai";
-import { VoiceName, Tone, MusicScore } from "../types";
-import { base64ToUint8Array, pcmToWav, synthesizeMusic } from "../utils/audio";
+import { GenerateContentResponse, GoogleGenAI, Modality, Type } from "@google/genai";
+import { Tone, SpeechSegment, MusicComposer, GeneratedMusic, MusicOptions, StyleEnergy, StylePace, ToneStyle } from "../types";
+import { synthesizeMusic } from "../utils/audio";
+import { Base64PcmDecoder } from "../utils/stream";
+import { repairScore } from "../utils/score";
+import { getCached, hashCacheKey, putCached } from "./cache";
+import { composeOffline } from "./local";
+import { GenerationError, classifyError, isCancelled, throwIfCancelled, withRetry } from "./errors";
+import { createSpeechProvider } from "./pipeline";
 
-const getToneInstruction = (tone: Tone, text: string): string => {
-  const persona = "Act as a world-class voice actor. Speak naturally with varied pitch and pacing, avoiding a robotic delivery.";
-  
+/**
+ * Wraps user text in quotes for a prompt. Straight double quotes inside it
+ * become curly ones, so the text can't close the wrapper and pass the rest
+ * off as instructions.
+ */
+const quote = (text: string): string =>
+  `"${text.replace(/(^|[\s(\[{])"/g, '$1\u201C').replace(/"/g, '\u201D')}"`;
+
+const INTENSITY_WORDS = ['a hint of', 'a light touch of', 'a clear', 'a strong', 'an intense, exaggerated'];
+const PACE_HINTS: Record<StylePace, string> = {
+  slow: "Take your time, with a slow, unhurried pace.",
+  natural: '',
+  fast: "Keep a brisk, quick pace.",
+};
+const ENERGY_HINTS: Record<StyleEnergy, string> = {
+  low: "Keep the energy low and subdued.",
+  natural: '',
+  high: "Bring high energy and projection.",
+};
+
+/** The delivery asked for by a custom style; every user-written field is quoted. */
+const getStyleDirection = (style: ToneStyle): string => [
+  style.persona.trim() ? `Perform in character as ${quote(style.persona.trim())}.` : '',
+  style.direction.trim()
+    ? `Deliver it with ${INTENSITY_WORDS[style.intensity - 1]} sense of this direction: ${quote(style.direction.trim())}.`
+    : '',
+  style.base !== Tone.Normal ? `Let an underlying ${style.base.toLowerCase()} mood come through.` : '',
+  PACE_HINTS[style.pace],
+  ENERGY_HINTS[style.energy],
+  style.examples.trim()
+    ? `For reference only, do not read these aloud, here is example phrasing in this style: ${quote(style.examples.trim())}.`
+    : '',
+].filter(Boolean).join(' ');
+
+const getToneInstruction = ({ text, tone, whisper = false, style }: SpeechSegment): string => {
+  const base = "Act as a world-class voice actor. Speak naturally with varied pitch and pacing, avoiding a robotic delivery.";
+  const delivery = [
+    whisper ? "Whisper this passage, breathy and quiet." : '',
+    /\*[^*]+\*/.test(text) ? "Stress the words wrapped in *asterisks* and never read the asterisks aloud." : '',
+  ].filter(Boolean);
+  const persona = [base, ...delivery].join(' ');
+  const script = quote(text);
+
+  if (style) {
+    return `${persona} ${getStyleDirection(style)} Read the following text in this style:\n\n${script}`;
+  }
   switch (tone) {
     case Tone.Happy:
-      return `${persona} Read the following text with a cheerful, happy tone, full of positive energy:\n\n"${text}"`;
+      return `${persona} Read the following text with a cheerful, happy tone, full of positive energy:\n\n${script}`;
     case Tone.Angry:
-      return `${persona} Read the following text with an angry, frustrated tone, emphasizing the emotion:\n\n"${text}"`;
+      return `${persona} Read the following text with an angry, frustrated tone, emphasizing the emotion:\n\n${script}`;
     case Tone.Sad:
-      return `${persona} Read the following text with a sad, melancholic tone, softly and slowly:\n\n"${text}"`;
+      return `${persona} Read the following text with a sad, melancholic tone, softly and slowly:\n\n${script}`;
     case Tone.Scary:
-      return `${persona} Read the following text with a spooky, mysterious tone, building suspense:\n\n"${text}"`;
+      return `${persona} Read the following text with a spooky, mysterious tone, building suspense:\n\n${script}`;
     case Tone.Normal:
     default:
-      return `${persona} Read the following text in a highly natural, conversational manner, as if talking to a friend:\n\n"${text}"`;
+      return `${persona} Read the following text in a highly natural, conversational manner, as if talking to a friend:\n\n${script}`;
   }
 };
 
-export const generateSpeech = async (text: string, voice: VoiceName, tone: Tone): Promise<string> => {
+const TTS_MODEL = "gemini-2.5-flash-preview-tts";
+const MUSIC_MODEL = "gemini-2.5-flash";
+
+const getClient = (): GoogleGenAI => {
   if (!process.env.API_KEY) {
-    throw new Error("API Key is missing.");
+    throw new GenerationError('missing-key');
   }
+  return new GoogleGenAI({ apiKey: process.env.API_KEY });
+};
 
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const prompt = getToneInstruction(tone, text);
+// Scripts are split into chunks of at most this many characters so each
+// request stays well inside the model's output length limit.
+const MAX_CHUNK_CHARS = 1200;
+const MAX_CONCURRENT_CHUNKS = 3;
+// Per attempt, up to the end of a chunk's stream; a full chunk of speech
+// can take the better part of a minute
+const TTS_TIMEOUT_MS = 120000;
+const MUSIC_TIMEOUT_MS = 60000;
 
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text: prompt }] }],
-      config: {
-        // systemInstruction is removed as it is not supported by the TTS model
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: voice },
-          },
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY'];
+
+/** Throws when Gemini blocked the prompt or stopped its answer for safety. */
+const checkSafety = (response: GenerateContentResponse) => {
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (response.promptFeedback?.blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+    throw new GenerationError('safety');
+  }
+};
+
+/** The Base64 audio parts of one streamed response, once it is known not to be blocked. */
+const audioParts = (response: GenerateContentResponse): string[] => {
+  checkSafety(response);
+  return (response.candidates?.[0]?.content?.parts ?? [])
+    .map(part => part.inlineData?.data)
+    .filter((data): data is string => !!data);
+};
+
+/**
+ * Opens a speech stream and reads up to its first audio, so that every
+ * failure before anything is heard can be retried like a whole request.
+ */
+const openSpeechStream = async (ai: GoogleGenAI, segment: SpeechSegment, signal: AbortSignal) => {
+  const stream = await ai.models.generateContentStream({
+    model: TTS_MODEL,
+    contents: [{ parts: [{ text: getToneInstruction(segment) }] }],
+    config: {
+      // systemInstruction is removed as it is not supported by the TTS model
+      responseModalities: [Modality.AUDIO],
+      speechConfig: {
+        voiceConfig: {
+          prebuiltVoiceConfig: { voiceName: segment.voice },
         },
       },
-    });
+      abortSignal: signal,
+    },
+  });
 
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+  const responses = stream[Symbol.asyncIterator]();
+  for (;;) {
+    const { value, done } = await responses.next();
+    if (done) throw new GenerationError('empty-audio');
+    const parts = audioParts(value);
+    if (parts.length > 0) return { parts, responses };
+  }
+};
 
-    if (!base64Audio) {
-      throw new Error("No audio data returned from Gemini.");
+/**
+ * Streams a segment's speech, decoding each Base64 part as it arrives.
+ * Once audio has been handed on a failure can't be retried, since the
+ * start of the segment may already be playing, so it ends the generation.
+ */
+const streamSpeech = async function* (
+  segment: SpeechSegment,
+  signal?: AbortSignal,
+  retries?: number
+): AsyncGenerator<Uint8Array> {
+  const ai = getClient();
+  const { parts, responses } = await withRetry(
+    attemptSignal => openSpeechStream(ai, segment, attemptSignal),
+    { signal, retries, timeoutMs: TTS_TIMEOUT_MS }
+  );
+  const decoder = new Base64PcmDecoder();
+  try {
+    let pending = parts;
+    for (;;) {
+      for (const part of pending) {
+        const pcm = decoder.push(part);
+        if (pcm.length > 0) yield pcm;
+      }
+      const { value, done } = await responses.next();
+      if (done) return;
+      pending = audioParts(value);
     }
-
-    const pcmData = base64ToUint8Array(base64Audio);
-    const wavBlob = pcmToWav(pcmData);
-    
-    return URL.createObjectURL(wavBlob);
-  } catch (error) {
-    console.error("Gemini TTS Error:", error);
-    throw error;
+  } catch (raw) {
+    if (signal?.aborted) throw new GenerationError('cancelled');
+    const error = classifyError(raw);
+    // The attempt's deadline still runs, and aborts the stream when it passes
+    throw isCancelled(error) ? new GenerationError('timeout', undefined, { cause: raw }) : error;
+  } finally {
+    await responses.return?.(undefined);
   }
 };
 
-export const generateBackgroundMusic = async (text: string): Promise<string> => {
-  if (!process.env.API_KEY) {
-    throw new Error("API Key is missing.");
+export const geminiSpeechProvider = createSpeechProvider({
+  id: 'gemini',
+  label: 'Gemini',
+  model: TTS_MODEL,
+  isAvailable: () => !!process.env.API_KEY,
+  streamSegment: streamSpeech,
+  maxChunkChars: MAX_CHUNK_CHARS,
+  concurrency: MAX_CONCURRENT_CHUNKS,
+  cacheKey: (segment) =>
+    [TTS_MODEL, getToneInstruction(segment), segment.voice, segment.tone],
+});
+
+const readScore = (jsonText: string | undefined): ReturnType<typeof repairScore> => {
+  try {
+    if (!jsonText) throw new Error("No music score generated.");
+    return repairScore(JSON.parse(jsonText));
+  } catch (error) {
+    throw new GenerationError('malformed-score', undefined, { cause: error });
   }
+};
 
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+/**
+ * Asks Gemini for a score, or reuses a cached one for the same prompt. Only
+ * the score JSON is cached; synthesizing it locally is free. Scores are
+ * repaired before use, and when Gemini fails the offline composer steps in.
+ */
+const generateBackgroundMusic = async (
+  text: string,
+  options: MusicOptions = {}
+): Promise<GeneratedMusic> => {
+  const { forceRegenerate = false, signal, retries } = options;
   
   // Prompt to design a music score based on the text
   const prompt = `
-    Analyze the sentiment and mood of the following text: "${text.substring(0, 500)}...". 
+    Analyze the sentiment and mood of the following text: ${quote(`${text.substring(0, 500)}...`)}. 
     Compose a simple, ambient background music score that fits this mood. 
     Return a JSON object containing a list of notes.
     The music should be slow, atmospheric, and loopable.
     Total duration should be around 15 seconds (we will loop it).
     Use frequencies in Hz (e.g. 261.63 for Middle C).
-    Keep it simple with Sine or Triangle waves.
+    Pick an instrument per note: "pad" for sustained chords (shaped by the Sine or Triangle wave type),
+    "pluck" for arpeggios, "bell" for sparse accents, "bass" for low roots, and "percussion"
+    for soft noise hits (freq is the centre of the noise band; below 200 Hz also adds a low thump).
+    Play chords as several notes with the same startTime.
+    Velocity (0-1) sets loudness, pan (-1 left to 1 right) spreads the parts across the stereo field,
+    and an optional envelope (attack, decay and release in seconds, sustain 0-1) overrides the instrument's own.
+    Set a reverb with mix (0-1) and decay (seconds) to suit the mood.
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
+    const cacheKey = await hashCacheKey(['music', MUSIC_MODEL, prompt]);
+    const hit = forceRegenerate ? undefined : await getCached(cacheKey);
+    if (hit) {
+      const { score } = repairScore(JSON.parse(await hit.text()));
+      const wavBlob = await synthesizeMusic(score);
+      throwIfCancelled(signal);
+      return { url: URL.createObjectURL(wavBlob), score, cached: true };
+    }
+
+    const ai = getClient();
+    const response = await withRetry(attemptSignal => ai.models.generateContent({
+      model: MUSIC_MODEL,
       contents: prompt,
       config: {
+        abortSignal: attemptSignal,
         responseMimeType: "application/json",
         responseSchema: {
           type: Type.OBJECT,
@@ -96,24 +251,57 @@ export const generateBackgroundMusic = async (text: string): Promise<string> =>
                   freq: { type: Type.NUMBER },
                   duration: { type: Type.NUMBER },
                   startTime: { type: Type.NUMBER },
-                  type: { type: Type.STRING, enum: ['sine', 'triangle', 'square', 'sawtooth'] }
-                }
+                  type: { type: Type.STRING, enum: ['sine', 'triangle', 'square', 'sawtooth'] },
+                  instrument: { type: Type.STRING, enum: ['pad', 'pluck', 'bell', 'bass', 'percussion'] },
+                  velocity: { type: Type.NUMBER },
+                  pan: { type: Type.NUMBER },
+                  envelope: {
+                    type: Type.OBJECT,
+                    properties: {
+                      attack: { type: Type.NUMBER },
+                      decay: { type: Type.NUMBER },
+                      sustain: { type: Type.NUMBER },
+                      release: { type: Type.NUMBER }
+                    }
+                  }
+                },
+                required: ['freq', 'duration', 'startTime', 'type']
+              }
+            },
+            reverb: {
+              type: Type.OBJECT,
+              properties: {
+                mix: { type: Type.NUMBER },
+                decay: { type: Type.NUMBER }
               }
             }
           }
         }
       }
-    });
+    }), { signal, retries, timeoutMs: MUSIC_TIMEOUT_MS });
 
-    const jsonText = response.text;
-    if (!jsonText) throw new Error("No music score generated.");
-    
-    const score: MusicScore = JSON.parse(jsonText);
+    checkSafety(response);
+    const { score, repairs } = readScore(response.text);
+    if (repairs.length > 0) console.warn("Repaired the music score:", repairs.join(', '));
     const wavBlob = await synthesizeMusic(score);
-    return URL.createObjectURL(wavBlob);
+    throwIfCancelled(signal);
+    await putCached(cacheKey, new Blob([JSON.stringify(score)], { type: 'application/json' }));
+    return { url: URL.createObjectURL(wavBlob), score, cached: false };
 
-  } catch (error) {
-    console.error("Music Generation Error:", error);
-    throw error;
+  } catch (raw) {
+    // No key, no network or an unusable score: the music can still be composed
+    // offline. Only a cancellation stops it, or a failure that might pass next
+    // time when the caller does its own retrying (retries: 0).
+    const error = classifyError(raw);
+    if (isCancelled(error) || (retries === 0 && error.transient)) throw error;
+    console.error("Music Generation Error, composing offline instead:", raw);
+    return { ...(await composeOffline(text, options)), fallback: true, fallbackReason: error.message };
   }
-};
\ No newline at end of file
+};
+
+export const geminiMusicComposer: MusicComposer = {
+  id: 'gemini',
+  label: 'Gemini',
+  isAvailable: () => !!process.env.API_KEY,
+  generateBackgroundMusic,
+};
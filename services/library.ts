@@ -0,0 +1,42 @@
+import { Project, ProjectSummary } from "../types";
+import { PROJECT_STORE, withStore } from "./db";
+
+const toSummary = ({ id, name, createdAt, updatedAt, voice, tone, mode }: Project): ProjectSummary =>
+  ({ id, name, createdAt, updatedAt, voice, tone, mode });
+
+/**
+ * Lists saved projects, most recently updated first.
+ */
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const projects = await withStore<Project[]>(PROJECT_STORE, 'readonly', store => store.getAll());
+  return projects.map(toSummary).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getProject = async (id: string): Promise<Project | undefined> => {
+  return withStore<Project | undefined>(PROJECT_STORE, 'readonly', store => store.get(id));
+};
+
+export const saveProject = async (project: Project): Promise<void> => {
+  await withStore(PROJECT_STORE, 'readwrite', store => store.put(project));
+};
+
+/**
+ * Applies a partial update to a stored project and bumps its timestamp.
+ */
+export const updateProject = async (id: string, changes: Partial<Omit<Project, 'id'>>): Promise<void> => {
+  const existing = await getProject(id);
+  if (!existing) throw new Error("Project not found.");
+  await saveProject({ ...existing, ...changes, updatedAt: Date.now() });
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await withStore(PROJECT_STORE, 'readwrite', store => store.delete(id));
+};
+
+/**
+ * Derives a default project name from the first words of the script.
+ */
+export const defaultProjectName = (script: string): string => {
+  const firstLine = script.trim().split('\n')[0].replace(/\[[^\]]*\]|\*/g, '').trim();
+  return firstLine.length > 40 ? `${firstLine.slice(0, 40).trim()}…` : firstLine || 'Untitled';
+};
@@ -0,0 +1,59 @@
+import { GeneratedMusic, MusicComposer, MusicOptions, SpeechSegment, Tone } from "../types";
+import { synthesizeMusic } from "../utils/audio";
+import { composeScore, moodFor } from "../utils/composer";
+import { synthesizeFormantSpeech } from "../utils/formant";
+import { hashSeed } from "../utils/random";
+import { throwIfCancelled } from "./errors";
+import { createSpeechProvider } from "./pipeline";
+
+// Yield to the event loop between segments so the UI can repaint progress
+const nextTick = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+// Each segment comes out whole, as a single piece
+const streamLocally = async function* (segment: SpeechSegment, signal?: AbortSignal): AsyncGenerator<Uint8Array> {
+  await nextTick();
+  throwIfCancelled(signal);
+  yield synthesizeFormantSpeech(segment.text, segment.voice, segment.tone, segment.whisper, segment.style);
+};
+
+/**
+ * Fully offline speech: a rule-based formant synthesizer that runs in the
+ * browser with no API key. Far from lifelike, but intelligible enough to
+ * audition scripts and exercise the rest of the app.
+ */
+export const localSpeechProvider = createSpeechProvider({
+  id: 'local',
+  label: 'Offline',
+  model: 'formant synthesizer',
+  isAvailable: () => true,
+  streamSegment: streamLocally,
+  maxChunkChars: 400,
+  concurrency: 1,
+});
+
+/**
+ * Composes offline. The mood comes from the tone when it has one, and from
+ * the wording of the text otherwise. The same text always gets the same
+ * music, unless a fresh composition is asked for.
+ */
+export const composeOffline = async (
+  text: string,
+  { tone, seed, forceRegenerate = false, signal }: MusicOptions = {}
+): Promise<GeneratedMusic> => {
+  throwIfCancelled(signal);
+  const mood = tone && tone !== Tone.Normal ? moodFor(tone) : moodFor(text);
+  const score = composeScore({
+    mood,
+    seed: seed ?? (forceRegenerate ? Math.floor(Math.random() * 2 ** 32) : hashSeed(text)),
+  });
+  const wavBlob = await synthesizeMusic(score);
+  throwIfCancelled(signal);
+  return { url: URL.createObjectURL(wavBlob), score, cached: false };
+};
+
+export const localMusicComposer: MusicComposer = {
+  id: 'local',
+  label: 'Offline',
+  isAvailable: () => true,
+  generateBackgroundMusic: composeOffline,
+};
@@ -0,0 +1,230 @@
+import { AudioMarker, Casting, ChunkStatus, GeneratedSpeech, ProviderId, SpeechOptions, SpeechProvider, SpeechSegment, Tone, VoiceName } from "../types";
+import { DEFAULT_STITCH_OPTIONS, PcmStitcher, pcmBytesToSamples, pcmToWav } from "../utils/audio";
+import { getCached, hashCacheKey, putCached } from "./cache";
+import { classifyError, isCancelled, throwIfCancelled } from "./errors";
+import { mapWithConcurrency } from "../utils/concurrency";
+import { detectSpeakers, parseDialogue, sequenceDialogue } from "../utils/dialogue";
+import { markupToSpeechSegments, parseMarkup } from "../utils/markup";
+
+export interface SpeechBackend {
+  id: ProviderId;
+  label: string;
+  model: string;
+  isAvailable: () => boolean;
+  // Renders one segment to 16-bit mono PCM at 24 kHz, yielding pieces of
+  // whole samples as they arrive and rejecting once `signal` aborts.
+  // `retries` overrides how often a failed request is retried.
+  streamSegment: (segment: SpeechSegment, signal?: AbortSignal, retries?: number) => AsyncIterable<Uint8Array>;
+  maxChunkChars: number;
+  concurrency: number;
+  // Fields that fully determine a segment's audio. Backends that return
+  // this are cached; free local backends can leave it out.
+  cacheKey?: (segment: SpeechSegment) => string[];
+}
+
+const MARKER_LABEL_WORDS = 6;
+
+/** Labels a marker with the opening words of its paragraph. */
+const markerLabel = (text: string): string => {
+  const words = text.replace(/\*/g, '').split(/\s+/).filter(Boolean);
+  const label = words.slice(0, MARKER_LABEL_WORDS).join(' ');
+  return words.length > MARKER_LABEL_WORDS ? `${label}…` : label;
+};
+
+/**
+ * Streams one segment's audio to `onPiece`, serving it from the generation
+ * cache in one piece when the backend supports caching and the caller
+ * hasn't forced a regeneration. Fresh audio is cached once it is complete.
+ */
+const streamCached = async (
+  backend: SpeechBackend,
+  segment: SpeechSegment,
+  forceRegenerate: boolean,
+  onPiece: (pcm: Uint8Array) => void,
+  signal?: AbortSignal,
+  retries?: number
+): Promise<{ cached: boolean }> => {
+  const key = backend.cacheKey ? await hashCacheKey(['speech', ...backend.cacheKey(segment)]) : null;
+  if (key && !forceRegenerate) {
+    const hit = await getCached(key);
+    if (hit) {
+      onPiece(new Uint8Array(await hit.arrayBuffer()));
+      return { cached: true };
+    }
+  }
+
+  const pieces: Uint8Array[] = [];
+  for await (const piece of backend.streamSegment(segment, signal, retries)) {
+    throwIfCancelled(signal);
+    if (key) pieces.push(piece);
+    onPiece(piece);
+  }
+  if (key) await putCached(key, new Blob(pieces));
+  return { cached: false };
+};
+
+const joinBytes = (pieces: Uint8Array[]): Uint8Array => {
+  const joined = new Uint8Array(pieces.reduce((sum, piece) => sum + piece.length, 0));
+  let offset = 0;
+  pieces.forEach(piece => {
+    joined.set(piece, offset);
+    offset += piece.length;
+  });
+  return joined;
+};
+
+/**
+ * Synthesizes each segment with bounded concurrency and stitches the results
+ * into a single WAV object URL, reporting per-segment progress as it goes.
+ * Audio is stitched as it streams in, in script order, so `onAudio` hears
+ * the start of the track while later segments are still being voiced.
+ */
+const synthesizeSegments = async (
+  backend: SpeechBackend,
+  segments: SpeechSegment[],
+  { onProgress, onAudio, forceRegenerate = false, signal, retries }: SpeechOptions
+): Promise<GeneratedSpeech> => {
+  if (segments.length === 0) {
+    throw new Error("Script is empty.");
+  }
+
+  const statuses: ChunkStatus[] = segments.map(() => 'pending');
+  const report = () => onProgress?.({
+    total: segments.length,
+    completed: statuses.filter(s => s === 'done' || s === 'cached').length,
+    chunks: [...statuses],
+  });
+  report();
+
+  // A lone segment with no pauses is used just as it was generated
+  const hasPauses = segments.some(s => s.pauseBeforeMs !== undefined || s.pauseAfterMs !== undefined);
+  const stitcher = segments.length === 1 && !hasPauses ? null : new PcmStitcher(segments, DEFAULT_STITCH_OPTIONS, onAudio);
+  const unstitched: Uint8Array[] = [];
+
+  // Pieces wait here until every segment before theirs has been stitched
+  const waiting: Uint8Array[][] = segments.map(() => []);
+  const complete = segments.map(() => false);
+  let next = 0;
+  let failed = false;
+  // The first failure also stops the segments already being voiced
+  const failure = new AbortController();
+  const segmentSignal = signal ? AbortSignal.any([signal, failure.signal]) : failure.signal;
+  const drain = () => {
+    while (!failed && next < segments.length) {
+      waiting[next].forEach(piece => {
+        if (stitcher) {
+          stitcher.push(piece);
+        } else {
+          unstitched.push(piece);
+          onAudio?.(pcmBytesToSamples(piece));
+        }
+      });
+      waiting[next] = [];
+      if (!complete[next]) return;
+      stitcher?.endChunk();
+      next++;
+    }
+  };
+
+  await mapWithConcurrency(segments, backend.concurrency, async (segment, index) => {
+    throwIfCancelled(segmentSignal);
+    statuses[index] = 'generating';
+    report();
+    try {
+      const { cached } = await streamCached(backend, segment, forceRegenerate, piece => {
+        waiting[index].push(piece);
+        drain();
+      }, segmentSignal, retries);
+      complete[index] = true;
+      drain();
+      statuses[index] = cached ? 'cached' : 'done';
+      report();
+    } catch (error) {
+      // Stopped because another segment failed, not a failure of its own
+      const stopped = failure.signal.aborted && !signal?.aborted;
+      failed = true;
+      failure.abort();
+      statuses[index] = stopped ? 'pending' : 'error';
+      report();
+      throw error;
+    }
+  });
+
+  const { pcm, starts } = stitcher ? stitcher.finish() : { pcm: joinBytes(unstitched), starts: [0] };
+  const wavBlob = pcmToWav(pcm);
+
+  // A marker at the start of every paragraph (in dialogue, every turn)
+  const markers: AudioMarker[] = segments
+    .map((segment, i) => ({ segment, i }))
+    .filter(({ i }) => i === 0 || segments[i - 1].endsParagraph)
+    .map(({ segment, i }) => ({ time: starts[i], label: markerLabel(segment.text) }));
+
+  return {
+    url: URL.createObjectURL(wavBlob),
+    cached: statuses.every(s => s === 'cached'),
+    markers,
+  };
+};
+
+/**
+ * Wraps a backend that can voice a single segment into a full
+ * SpeechProvider: markup parsing, chunking, dialogue sequencing, progress
+ * reporting and stitching are shared by every provider.
+ */
+export const createSpeechProvider = (backend: SpeechBackend): SpeechProvider => {
+  const generateSpeech = async (
+    text: string,
+    voice: VoiceName,
+    tone: Tone,
+    options: SpeechOptions = {}
+  ): Promise<GeneratedSpeech> => {
+    const markup = parseMarkup(text, options.styles);
+    if (markup.errors.length > 0) {
+      const { line, column, message } = markup.errors[0];
+      throw new Error(`Script markup error at line ${line}, column ${column}: ${message}`);
+    }
+    const segments = markupToSpeechSegments(markup.segments, voice, tone, backend.maxChunkChars, options.style);
+
+    try {
+      return await synthesizeSegments(backend, segments, options);
+    } catch (raw) {
+      const error = classifyError(raw);
+      if (!isCancelled(error)) console.error(`${backend.label} TTS Error:`, raw);
+      throw error;
+    }
+  };
+
+  /**
+   * Generates a multi-speaker dialogue. Each speaker's turns are voiced with
+   * the voice and tone (or style) from `casting` and sequenced into one track.
+   */
+  const generateDialogue = async (
+    text: string,
+    casting: Casting,
+    options: SpeechOptions = {}
+  ): Promise<GeneratedSpeech> => {
+    const lines = parseDialogue(text);
+    const missing = detectSpeakers(lines).filter(speaker => !casting[speaker]);
+    if (missing.length > 0) {
+      throw new Error(`No voice cast for: ${missing.join(', ')}`);
+    }
+
+    try {
+      const segments = sequenceDialogue(lines, casting, backend.maxChunkChars, options.styles);
+      return await synthesizeSegments(backend, segments, options);
+    } catch (raw) {
+      const error = classifyError(raw);
+      if (!isCancelled(error)) console.error(`${backend.label} Dialogue TTS Error:`, raw);
+      throw error;
+    }
+  };
+
+  return {
+    id: backend.id,
+    label: backend.label,
+    model: backend.model,
+    isAvailable: backend.isAvailable,
+    generateSpeech,
+    generateDialogue,
+  };
+};
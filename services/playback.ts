@@ -0,0 +1,448 @@
+/// <reference types="vite/client" />
+import { SpeechEffect, TimeRegion } from "../types";
+import { detectSpeechActivity, DuckingCurve, duckingGainAt, measureFrameLevels } from "../utils/ducking";
+import { fetchAudioBuffer, fetchLoopingAudio, LoopingAudio } from "../utils/audio";
+import { loopOffset } from "../utils/loop";
+import { applySilenceEdit, SilenceEdit, toEditedTime, toSourceTime } from "../utils/silence";
+import { StreamResampler } from "../utils/stream";
+import type { EffectsMessage, EffectsProcessorName } from "../workers/effects.worklet";
+import effectsWorkletUrl from "../workers/effects.worklet.ts?worker&url";
+import type { StretchEvent, StretchMessage, StretchProcessorName } from "../workers/stretch.worklet";
+import stretchWorkletUrl from "../workers/stretch.worklet.ts?worker&url";
+
+const PROCESSOR_NAME: StretchProcessorName = 'speech-stretch';
+const EFFECTS_PROCESSOR_NAME: EffectsProcessorName = 'speech-effects';
+const SCHEDULE_LEAD = 0.03;     // Seconds ahead that changes are scheduled, so the worklet hears of them in time
+const MUSIC_CROSSFADE = 0.02;   // Seconds over which a music restart fades the old source out
+const REGION_PREPARE = 0.1;     // Seconds before a region boundary that the jump back (or stop) is scheduled
+
+export interface LoadedSpeech {
+  duration: number;     // Seconds at 1.0x, after any silence edit
+  activity: Uint8Array; // For the ducking curve
+}
+
+export interface DecodedSpeech extends LoadedSpeech {
+  levels: Float32Array; // Frame levels of the unedited speech, to plan silence edits from
+}
+
+/**
+ * Live playback on one AudioContext. The speech runs through the export's
+ * WSOLA stretcher and effects chain in AudioWorklets; the music loops at
+ * 1.0x underneath, under the same ducking curve. Everything is scheduled against the
+ * context clock, and the music is restarted at the phase the export would
+ * have at the current speech position, so what plays is what exports.
+ *
+ * Speech can also be streamed in while it is generated. It plays as it
+ * arrives, waiting whenever playback catches up, and once the finished
+ * file is loaded playback carries on from the same place in it.
+ */
+export class PlaybackEngine {
+  private readonly context: AudioContext;
+  private readonly ready: Promise<void>;
+  private readonly musicGain: GainNode;
+  private speechNode: AudioWorkletNode | null = null;
+  private effectsNode: AudioWorkletNode | null = null;
+  private effects: SpeechEffect[] = [];
+  private speechDuration = 0;
+  private source: Float32Array[] = []; // Decoded speech before any silence edit
+  private sourceRate = 0;
+  private silenceEdit: SilenceEdit | null = null;
+  private loading: Promise<unknown> = Promise.resolve();
+
+  // Streamed speech: appends wait for the node, and are resampled to the context rate
+  private streamed = false;
+  private streamReady: Promise<void> = Promise.resolve();
+  private resampler: StreamResampler | null = null;
+  private waiting = false; // Playback has caught up with the stream
+  private lastStart = 0;   // `when` of the latest start, to match stream events against
+  private music: LoopingAudio | null = null;
+  private musicSource: { source: AudioBufferSourceNode; fade: GainNode } | null = null;
+
+  private speed = 1;
+  private pitch = 0;
+  private musicVolume = 1;
+  private duckingCurve: DuckingCurve | null = null;
+
+  // Speech position `anchorPosition` plays at context time `anchorTime`
+  private playing = false;
+  private anchorTime = 0;
+  private anchorPosition = 0;
+
+  // Playback wraps (or stops) at the end of the region
+  private region: TimeRegion | null = null;
+  private repeatRegion = false;
+  private regionTimer: ReturnType<typeof setTimeout> | undefined;
+
+  onEnded: () => void = () => {};
+
+  constructor() {
+    this.context = new (window.AudioContext || (window as any).webkitAudioContext)();
+    this.ready = Promise.all([
+      this.context.audioWorklet.addModule(stretchWorkletUrl),
+      this.context.audioWorklet.addModule(effectsWorkletUrl),
+    ]).then(() => {});
+    this.musicGain = this.context.createGain();
+    this.musicGain.connect(this.context.destination);
+  }
+
+  get duration(): number {
+    return this.speechDuration;
+  }
+
+  get isPlaying(): boolean {
+    return this.playing;
+  }
+
+  /** Speech position in seconds of source (1.0x) time. */
+  get currentTime(): number {
+    return this.positionAt(this.context.currentTime);
+  }
+
+  private positionAt(time: number): number {
+    if (!this.playing) return this.anchorPosition;
+    if (this.waiting) return this.anchorPosition;
+    const elapsed = Math.max(0, time - this.anchorTime);
+    const end = this.region && this.anchorPosition < this.region.end ? this.region.end : this.speechDuration;
+    return Math.min(end, this.anchorPosition + elapsed * this.speed);
+  }
+
+  private post(message: StretchMessage, transfer: Transferable[] = []) {
+    this.speechNode?.port.postMessage(message, transfer);
+  }
+
+  /**
+   * Loads speech from a file. When it is the finished version of speech
+   * that was streamed, playback carries on from the same position.
+   */
+  async loadSpeech(url: string): Promise<DecodedSpeech> {
+    const handOver = this.streamed;
+    if (!handOver) {
+      this.stop();
+      this.anchorPosition = 0;
+    }
+    const load = (async () => {
+      const [buffer] = await Promise.all([fetchAudioBuffer(url, this.context), this.ready]);
+      const wasPlaying = handOver && this.playing;
+      const position = handOver ? this.currentTime : 0;
+      if (handOver) this.stop();
+      this.streamed = false;
+      this.resampler = null;
+      this.source = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c).slice());
+      this.sourceRate = buffer.sampleRate;
+      this.silenceEdit = null;
+
+      this.createSpeechNode(this.source.length);
+      const loaded = { ...this.loadChannels(), levels: measureFrameLevels(this.source, this.sourceRate) };
+      this.anchorPosition = Math.min(position, this.speechDuration);
+      if (wasPlaying) this.startAt(this.context.currentTime + SCHEDULE_LEAD, this.anchorPosition);
+      return loaded;
+    })();
+    this.loading = load.catch(() => {});
+    return load;
+  }
+
+  /**
+   * Starts speech that arrives in pieces, at `sampleRate`, replacing what
+   * was loaded. It can play as soon as the first piece is appended.
+   */
+  beginStream(sampleRate: number) {
+    this.stop();
+    this.anchorPosition = 0;
+    this.streamed = true;
+    this.resampler = new StreamResampler(sampleRate, this.context.sampleRate);
+    this.source = [];
+    this.sourceRate = this.context.sampleRate;
+    this.silenceEdit = null;
+    this.speechDuration = 0;
+    this.streamReady = this.ready.then(() => {
+      this.createSpeechNode(1);
+      this.post({ type: 'load', channels: [new Float32Array(0)], streaming: true });
+    });
+    this.loading = this.streamReady.catch(() => {});
+  }
+
+  /** Adds the next samples of the stream. */
+  appendStream(samples: Float32Array) {
+    if (!this.resampler) return;
+    this.sendStream(this.resampler.push(samples));
+  }
+
+  /** Marks the stream complete, so playback ends at its end rather than waiting. */
+  endStream() {
+    if (!this.resampler) return;
+    this.sendStream(this.resampler.flush());
+    this.resampler = null;
+    this.streamReady.then(() => this.post({ type: 'end' }));
+  }
+
+  private sendStream(samples: Float32Array) {
+    if (samples.length === 0) return;
+    this.speechDuration += samples.length / this.sourceRate;
+    this.streamReady.then(() => this.post({ type: 'append', channels: [samples] }, [samples.buffer]));
+  }
+
+  /** Replaces the speech node with one for `channelCount` channels. */
+  private createSpeechNode(channelCount: number) {
+    this.speechNode?.disconnect();
+    const node = new AudioWorkletNode(this.context, PROCESSOR_NAME, {
+      numberOfInputs: 0,
+      outputChannelCount: [channelCount],
+    });
+    node.port.onmessage = (event: MessageEvent<StretchEvent>) => this.handleEvent(event.data);
+    node.connect(this.effectsInput());
+    this.speechNode = node;
+    this.waiting = false;
+    this.post({ type: 'pitch', semitones: this.pitch });
+  }
+
+  /**
+   * Plays the speech with a silence edit applied (or none), carrying on
+   * from the same point of the script. Returns null before any speech loads.
+   */
+  setSilenceEdit(edit: SilenceEdit | null): LoadedSpeech | null {
+    if (!this.speechNode || this.source.length === 0 || this.streamed) return null;
+    const wasPlaying = this.playing;
+    const position = toEditedTime(edit, toSourceTime(this.silenceEdit, this.currentTime));
+    if (wasPlaying) this.stop();
+    this.silenceEdit = edit;
+    const loaded = this.loadChannels();
+    this.anchorPosition = Math.min(position, this.speechDuration);
+    if (wasPlaying) this.startAt(this.context.currentTime + SCHEDULE_LEAD, this.anchorPosition);
+    return loaded;
+  }
+
+  /** Hands the (edited) speech to the worklet. */
+  private loadChannels(): LoadedSpeech {
+    const channels = this.silenceEdit
+      ? applySilenceEdit(this.source, this.sourceRate, this.silenceEdit)
+      : this.source.map(c => c.slice());
+    const activity = detectSpeechActivity(channels, this.sourceRate);
+    this.speechDuration = (channels[0]?.length ?? 0) / this.sourceRate;
+    this.post({ type: 'load', channels }, channels.map(c => c.buffer));
+    return { duration: this.speechDuration, activity };
+  }
+
+  /** The effects node every speech node plays through, made on first use. */
+  private effectsInput(): AudioNode {
+    if (!this.effectsNode) {
+      this.effectsNode = new AudioWorkletNode(this.context, EFFECTS_PROCESSOR_NAME, {
+        numberOfInputs: 1,
+        outputChannelCount: [2],
+      });
+      this.effectsNode.connect(this.context.destination);
+      this.setEffects(this.effects);
+    }
+    return this.effectsNode;
+  }
+
+  async loadMusic(url: string | null): Promise<void> {
+    const load = (async () => {
+      this.music = url ? await fetchLoopingAudio(url, this.context) : null;
+      if (this.playing) this.startMusic(this.context.currentTime + SCHEDULE_LEAD);
+      else this.stopMusic(this.context.currentTime);
+    })();
+    this.loading = Promise.all([this.loading, load.catch(() => {})]);
+    return load;
+  }
+
+  async play() {
+    await this.loading;
+    if (this.playing || !this.speechNode) return;
+    await this.context.resume();
+    const end = this.region?.end ?? this.speechDuration;
+    const position = this.anchorPosition >= end ? this.region?.start ?? 0 : this.anchorPosition;
+    this.startAt(this.context.currentTime + SCHEDULE_LEAD, position);
+  }
+
+  pause() {
+    this.anchorPosition = this.currentTime;
+    this.stop();
+  }
+
+  seek(position: number) {
+    const clamped = Math.max(0, Math.min(this.speechDuration, position));
+    if (this.playing) this.startAt(this.context.currentTime + SCHEDULE_LEAD, clamped);
+    else this.anchorPosition = clamped;
+  }
+
+  setSpeed(speed: number) {
+    if (speed === this.speed) return;
+    if (!this.playing) {
+      this.speed = speed;
+      return;
+    }
+    // Re-anchor where the change lands; the speech carries on without a seek
+    const when = this.context.currentTime + SCHEDULE_LEAD;
+    this.anchorPosition = this.positionAt(when);
+    this.anchorTime = when;
+    this.speed = speed;
+    this.post({ type: 'speed', when, speed });
+    if (this.waiting) return;
+    this.startMusic(when);
+    this.scheduleRegionEnd();
+  }
+
+  /**
+   * Limits playback to a region: with `repeat` it loops back to the start,
+   * otherwise it stops at the end. Pass null to play through.
+   */
+  setRegion(region: TimeRegion | null, repeat: boolean) {
+    this.region = region;
+    this.repeatRegion = repeat;
+    this.scheduleRegionEnd();
+  }
+
+  setPitch(semitones: number) {
+    this.pitch = semitones;
+    this.post({ type: 'pitch', semitones });
+  }
+
+  setEffects(chain: SpeechEffect[]) {
+    this.effects = chain;
+    this.effectsNode?.port.postMessage({ type: 'chain', chain } satisfies EffectsMessage);
+  }
+
+  /** Music level and ducking curve (on the speech timeline); the curve may be null for a flat level. */
+  setMusicMix(volume: number, curve: DuckingCurve | null) {
+    this.musicVolume = volume;
+    this.duckingCurve = curve;
+    this.scheduleMusicGain(this.context.currentTime);
+  }
+
+  dispose() {
+    this.stop();
+    this.speechNode?.disconnect();
+    this.effectsNode?.disconnect();
+    this.context.close();
+  }
+
+  private startAt(when: number, position: number) {
+    this.playing = true;
+    this.waiting = false;
+    this.lastStart = when;
+    this.anchorTime = when;
+    this.anchorPosition = position;
+    this.post({ type: 'start', when, position, speed: this.speed });
+    this.startMusic(when);
+    this.scheduleRegionEnd();
+  }
+
+  private stop() {
+    clearTimeout(this.regionTimer);
+    this.playing = false;
+    this.waiting = false;
+    this.post({ type: 'stop' });
+    this.stopMusic(this.context.currentTime);
+    this.scheduleMusicGain(this.context.currentTime);
+  }
+
+  private handleEvent(event: StretchEvent) {
+    if (event.type === 'ended') {
+      this.handleEnded();
+      return;
+    }
+    // Events from before the latest start (or after a stop) are stale
+    if (!this.playing || event.start !== this.lastStart) return;
+    if (event.type === 'waiting') {
+      this.waiting = true;
+      this.anchorPosition = event.position;
+      this.stopMusic(this.context.currentTime);
+      this.scheduleMusicGain(this.context.currentTime);
+    } else {
+      this.waiting = false;
+      this.anchorTime = event.when;
+      this.anchorPosition = event.position;
+      this.startMusic(event.when);
+      this.scheduleRegionEnd();
+    }
+  }
+
+  private handleEnded() {
+    if (!this.playing) return;
+    clearTimeout(this.regionTimer);
+    this.anchorPosition = this.speechDuration;
+    this.playing = false;
+    this.stopMusic(this.context.currentTime);
+    this.onEnded();
+  }
+
+  /**
+   * Shortly before playback reaches the region end, schedules the jump back
+   * to its start (or the stop) for the exact moment it is reached.
+   */
+  private scheduleRegionEnd() {
+    clearTimeout(this.regionTimer);
+    const region = this.region;
+    if (!this.playing || this.waiting || !region || this.anchorPosition >= region.end) return;
+    const endTime = this.anchorTime + (region.end - this.anchorPosition) / this.speed;
+    const delay = (endTime - REGION_PREPARE - this.context.currentTime) * 1000;
+    this.regionTimer = setTimeout(() => {
+      if (this.repeatRegion) {
+        this.startAt(endTime, region.start);
+        return;
+      }
+      this.post({ type: 'stop', when: endTime });
+      this.stopMusic(endTime);
+      this.regionTimer = setTimeout(() => {
+        this.anchorPosition = region.end;
+        this.playing = false;
+        this.scheduleMusicGain(this.context.currentTime);
+        this.onEnded();
+      }, Math.max(0, (endTime - this.context.currentTime) * 1000));
+    }, Math.max(0, delay));
+  }
+
+  /**
+   * (Re)starts the looping music at `when`, at the phase it has in the
+   * export: the sped-up time elapsed since the start of the speech.
+   */
+  private startMusic(when: number) {
+    this.stopMusic(when);
+    if (!this.music) return;
+    const source = this.context.createBufferSource();
+    const fade = this.context.createGain();
+    source.buffer = this.music.buffer;
+    source.loop = true;
+    source.loopStart = this.music.loop.start;
+    source.loopEnd = this.music.loop.end;
+    source.connect(fade);
+    fade.connect(this.musicGain);
+    const offset = loopOffset(this.music.loop, this.positionAt(when) / this.speed);
+    source.start(when, offset);
+    this.musicSource = { source, fade };
+    this.scheduleMusicGain(when);
+  }
+
+  private stopMusic(when: number) {
+    if (!this.musicSource) return;
+    const { source, fade } = this.musicSource;
+    fade.gain.setTargetAtTime(0, when, MUSIC_CROSSFADE / 4);
+    source.stop(when + MUSIC_CROSSFADE);
+    source.onended = () => fade.disconnect();
+    this.musicSource = null;
+  }
+
+  private gainAt(position: number): number {
+    return this.musicVolume * (this.duckingCurve ? duckingGainAt(this.duckingCurve, position) : 1);
+  }
+
+  /** Replaces the music gain automation with the ducking curve from `when` on. */
+  private scheduleMusicGain(when: number) {
+    const gain = this.musicGain.gain;
+    const now = this.context.currentTime;
+    gain.cancelScheduledValues(0);
+    gain.setValueAtTime(this.gainAt(this.positionAt(now)), now);
+
+    // A curve may not share its start with the hold just set, so begin it after `now`
+    const start = Math.max(when, now + SCHEDULE_LEAD);
+    const position = this.positionAt(start);
+    const curve = this.duckingCurve;
+    const first = curve ? Math.floor(position * curve.frameRate) : 0;
+    if (!this.playing || !curve || curve.gains.length - first < 2) {
+      gain.setValueAtTime(this.gainAt(position), start);
+      return;
+    }
+    const values = curve.gains.slice(first).map(g => g * this.musicVolume);
+    gain.setValueCurveAtTime(values, start, values.length / curve.frameRate / this.speed);
+  }
+}
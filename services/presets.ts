@@ -0,0 +1,41 @@
+import { EffectsPreset, ToneStyle } from "../types";
+import { EFFECT_PRESETS, sanitizeChain } from "../utils/effects";
+import { sanitizeToneStyle } from "../utils/tones";
+
+const EFFECTS_KEY = 'sonicflow.effectsPresets';
+const TONE_STYLES_KEY = 'sonicflow.toneStyles';
+
+export const isBuiltInEffectsPreset = (name: string): boolean =>
+  EFFECT_PRESETS.some(preset => preset.name.toLowerCase() === name.trim().toLowerCase());
+
+/** The user's saved effects chains, with anything unreadable dropped. */
+export const loadEffectsPresets = (): EffectsPreset[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(EFFECTS_KEY) || '[]');
+    if (!Array.isArray(saved)) return [];
+    return saved
+      .filter(preset => typeof preset?.name === 'string' && preset.name.trim() && !isBuiltInEffectsPreset(preset.name))
+      .map(preset => ({ name: preset.name.trim(), chain: sanitizeChain(preset.chain) }));
+  } catch {
+    return [];
+  }
+};
+
+export const saveEffectsPresets = (presets: EffectsPreset[]) => {
+  localStorage.setItem(EFFECTS_KEY, JSON.stringify(presets));
+};
+
+/** The user's custom tone styles, with anything unreadable dropped. */
+export const loadToneStyles = (): ToneStyle[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(TONE_STYLES_KEY) || '[]');
+    if (!Array.isArray(saved)) return [];
+    return saved.map(sanitizeToneStyle).filter((style): style is ToneStyle => style !== null);
+  } catch {
+    return [];
+  }
+};
+
+export const saveToneStyles = (styles: ToneStyle[]) => {
+  localStorage.setItem(TONE_STYLES_KEY, JSON.stringify(styles));
+};
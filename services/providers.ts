@@ -0,0 +1,29 @@
+import { MusicComposer, ProviderId, SpeechProvider } from "../types";
+import { geminiMusicComposer, geminiSpeechProvider } from "./gemini";
+import { localMusicComposer, localSpeechProvider } from "./local";
+
+const SETTING_KEY = 'sonicflow.provider';
+
+export const SPEECH_PROVIDERS: Record<ProviderId, SpeechProvider> = {
+  gemini: geminiSpeechProvider,
+  local: localSpeechProvider,
+};
+
+export const MUSIC_COMPOSERS: Record<ProviderId, MusicComposer> = {
+  gemini: geminiMusicComposer,
+  local: localMusicComposer,
+};
+
+/**
+ * Returns the saved provider choice, falling back to Gemini when a key is
+ * configured and to the offline synthesizer otherwise.
+ */
+export const loadProviderSetting = (): ProviderId => {
+  const saved = localStorage.getItem(SETTING_KEY);
+  if (saved === 'gemini' || saved === 'local') return saved;
+  return geminiSpeechProvider.isAvailable() ? 'gemini' : 'local';
+};
+
+export const saveProviderSetting = (id: ProviderId) => {
+  localStorage.setItem(SETTING_KEY, id);
+};
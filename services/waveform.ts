@@ -0,0 +1,57 @@
+import { TimeRegion, WaveformPeaks } from "../types";
+import { fetchLoopingAudio } from "../utils/audio";
+import { applySilenceEdit, SilenceEdit } from "../utils/silence";
+import type { PeaksRequest, PeaksResponse } from "../workers/peaks.worker";
+
+const PEAKS_PER_SECOND = 400; // Enough for the deepest zoom
+
+/** Decodes a track and reduces it to waveform peaks in a worker, noting where it loops. */
+export const computePeaks = async (url: string): Promise<WaveformPeaks> => {
+  const tempCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
+  let buffer: AudioBuffer;
+  let loop: TimeRegion;
+  try {
+    ({ buffer, loop } = await fetchLoopingAudio(url, tempCtx));
+  } finally {
+    await tempCtx.close();
+  }
+
+  const request: PeaksRequest = {
+    channels: Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c).slice()),
+    sampleRate: buffer.sampleRate,
+    peaksPerSecond: PEAKS_PER_SECOND,
+  };
+  const worker = new Worker(new URL('../workers/peaks.worker.ts', import.meta.url), { type: 'module' });
+  return new Promise<WaveformPeaks>((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<PeaksResponse>) => {
+      worker.terminate();
+      if (event.data.type === 'done') resolve({ ...event.data.peaks, loop });
+      else reject(new Error(event.data.message));
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || "Waveform worker failed."));
+    };
+    worker.postMessage(request, request.channels.map(c => c.buffer));
+  });
+};
+
+/** Min and max over [from, to) seconds, or null outside the track. */
+export const peakRange = (peaks: WaveformPeaks, from: number, to: number): [number, number] | null => {
+  const first = Math.max(0, Math.floor(from * peaks.peaksPerSecond));
+  const last = Math.min(peaks.min.length, Math.max(first + 1, Math.ceil(to * peaks.peaksPerSecond)));
+  if (first >= last) return null;
+  let lo = 0;
+  let hi = 0;
+  for (let i = first; i < last; i++) {
+    if (peaks.min[i] < lo) lo = peaks.min[i];
+    if (peaks.max[i] > hi) hi = peaks.max[i];
+  }
+  return [lo, hi];
+};
+
+/** The peaks of the speech with a silence edit applied, without decoding it again. */
+export const editPeaks = (peaks: WaveformPeaks, edit: SilenceEdit): WaveformPeaks => {
+  const [min, max] = applySilenceEdit([peaks.min, peaks.max], peaks.peaksPerSecond, edit);
+  return { peaksPerSecond: peaks.peaksPerSecond, duration: min.length / peaks.peaksPerSecond, min, max };
+};
@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { Tone, VoiceName } from '../types';
+import { MAX_BATCH_ROWS, parseBatchFile } from '../utils/batch';
+
+const DEFAULTS = { voice: VoiceName.Kore, tone: Tone.Normal };
+
+test('CSV fields may be quoted, with commas, doubled quotes and newlines', () => {
+  const csv = [
+    '\uFEFFid,Text,voice,tone,music', // With the byte order mark Excel writes
+    'intro,"Hello, and welcome.",Puck,happy,yes',
+    'quote,"She said ""wait"".",,,',
+    '"multi","First line',
+    'second line",kore,Sad,no',
+  ].join('\r\n');
+  const { rows, errors } = parseBatchFile('prompts.csv', csv, DEFAULTS);
+  assert.deepEqual(errors, []);
+  assert.deepEqual(rows, [
+    { id: 'intro', text: 'Hello, and welcome.', voice: VoiceName.Puck, tone: Tone.Happy, music: true },
+    { id: 'quote', text: 'She said "wait".', voice: VoiceName.Kore, tone: Tone.Normal, music: false },
+    { id: 'multi', text: 'First line\r\nsecond line', voice: VoiceName.Kore, tone: Tone.Sad, music: false },
+  ]);
+});
+
+test('CSV rows with problems are reported by number and left out', () => {
+  const csv = [
+    'id,text,voice,music',
+    'a,Fine,,',
+    'b,,,',
+    'a,Duplicate id,,',
+    'c,Bad voice,Nobody,',
+    'd,Bad music,,maybe',
+    ',Generated id,,',
+    '',
+  ].join('\n');
+  const { rows, errors } = parseBatchFile('prompts.csv', csv, DEFAULTS);
+  assert.deepEqual(rows.map(r => r.id), ['a', 'row-6']);
+  assert.deepEqual(errors, [
+    'Row 2: the text is empty.',
+    'Row 3: the id "a" is used more than once.',
+    'Row 4: unknown voice "Nobody".',
+    'Row 5: music should be yes or no, not "maybe".',
+  ]);
+});
+
+test('ids are made safe to use as file names', () => {
+  const { rows } = parseBatchFile('prompts.csv', 'id,text\n../menu/1 main,Hi', DEFAULTS);
+  assert.equal(rows[0].id, '_menu_1_main');
+});
+
+test('a CSV without a text column is rejected', () => {
+  const { rows, errors } = parseBatchFile('prompts.csv', 'id,script\na,Hello', DEFAULTS);
+  assert.deepEqual(rows, []);
+  assert.deepEqual(errors, ['The CSV header needs a "text" column.']);
+});
+
+test('only the first rows up to the limit are read', () => {
+  const csv = ['text', ...Array.from({ length: MAX_BATCH_ROWS + 2 }, (_, i) => `Line ${i}`)].join('\n');
+  const { rows, errors } = parseBatchFile('prompts.csv', csv, DEFAULTS);
+  assert.equal(rows.length, MAX_BATCH_ROWS);
+  assert.deepEqual(errors, [`Only the first ${MAX_BATCH_ROWS} of ${MAX_BATCH_ROWS + 2} rows were read.`]);
+});
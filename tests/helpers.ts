@@ -0,0 +1,27 @@
+import assert from 'node:assert/strict';
+import { resolveObjectURL } from 'node:buffer';
+import { DecodedWav, readWav } from '../utils/wav';
+
+/** Reads back the WAV behind a generated track's object URL. */
+export const readTrack = async (url: string): Promise<DecodedWav> => {
+  const blob = resolveObjectURL(url);
+  assert.ok(blob, `${url} should resolve to a blob`);
+  return readWav(new Uint8Array(await blob.arrayBuffer()));
+};
+
+/** The loudest sample between two times, in seconds. */
+export const peakBetween = ({ channels, sampleRate }: DecodedWav, from: number, to: number): number => {
+  const samples = channels[0].subarray(Math.round(from * sampleRate), Math.round(to * sampleRate));
+  return samples.reduce((peak, s) => Math.max(peak, Math.abs(s)), 0);
+};
+
+/** Joins the sample blocks handed to `onAudio`, scaled like a decoded WAV. */
+export const joinSamples = (blocks: Int16Array[]): Float32Array => {
+  const joined = new Float32Array(blocks.reduce((sum, block) => sum + block.length, 0));
+  let offset = 0;
+  blocks.forEach(block => {
+    for (let i = 0; i < block.length; i++) joined[offset + i] = block[i] / 0x8000;
+    offset += block.length;
+  });
+  return joined;
+};
@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { integratedLoudness, LOUDNESS_TARGETS, measureLoudness, normalizeLoudness, truePeak } from '../utils/loudness';
+
+const SAMPLE_RATE = 48000;
+
+const sine = (seconds: number, frequency: number, dbfs: number, phase = 0): Float32Array => {
+  const amplitude = 10 ** (dbfs / 20);
+  return Float32Array.from({ length: Math.round(seconds * SAMPLE_RATE) }, (_, i) =>
+    amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE + phase));
+};
+
+const join = (...parts: Float32Array[]): Float32Array => {
+  const out = new Float32Array(parts.reduce((sum, p) => sum + p.length, 0));
+  parts.reduce((offset, p) => (out.set(p, offset), offset + p.length), 0);
+  return out;
+};
+
+/** Repeatable white noise from a small linear congruential generator. */
+const noise = (seconds: number, amplitude: number, seed = 1): Float32Array => {
+  let state = seed;
+  return Float32Array.from({ length: Math.round(seconds * SAMPLE_RATE) }, () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return amplitude * (state / 0x80000000 - 1);
+  });
+};
+
+const near = (actual: number, expected: number, tolerance: number, what: string) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${what}: ${actual.toFixed(2)}, expected ${expected}`);
+
+// Reference signals from EBU Tech 3341 (loudness) and BS.1770-4 (true peak)
+
+test('a -23 dBFS 1 kHz stereo sine measures -23 LUFS', () => {
+  const tone = sine(5, 1000, -23);
+  near(integratedLoudness([tone, tone], SAMPLE_RATE), -23, 0.1, 'stereo');
+  // One channel carries half the energy
+  near(integratedLoudness([tone], SAMPLE_RATE), -26, 0.1, 'mono');
+});
+
+test('quiet passages fall below the relative gate', () => {
+  const quiet = sine(5, 1000, -36);
+  const programme = join(quiet, sine(20, 1000, -23), quiet);
+  near(integratedLoudness([programme, programme], SAMPLE_RATE), -23, 0.1, 'gated');
+});
+
+test('silence is below the absolute gate', () => {
+  const silence = new Float32Array(SAMPLE_RATE * 2);
+  assert.equal(integratedLoudness([silence, silence], SAMPLE_RATE), -Infinity);
+});
+
+test('true peak finds the peak between samples', () => {
+  // At a quarter of the sample rate, a 45° phase puts every sample at
+  // 0.707 of the peak, which falls halfway between them
+  const tone = sine(1, SAMPLE_RATE / 4, 0, Math.PI / 4).map(s => s * 0.5);
+  const samplePeak = 20 * Math.log10(tone.reduce((peak, s) => Math.max(peak, Math.abs(s)), 0));
+  near(samplePeak, -9.03, 0.1, 'sample peak');
+  near(truePeak([tone]), -6.02, 0.3, 'true peak');
+});
+
+test('normalizing reaches the target loudness under the true-peak ceiling', () => {
+  const target = LOUDNESS_TARGETS.podcast;
+  // Quiet noise with a few short bursts, which the gain alone would push past the ceiling
+  const burst = noise(0.01, 0.3, 7);
+  const quiet = noise(0.99, 0.02);
+  const channels = [join(quiet, burst, quiet, burst, quiet, burst, quiet, burst), noise(4, 0.02, 3)];
+  const { before, after } = normalizeLoudness(channels, SAMPLE_RATE, target);
+  assert.ok(before.truePeak + target.lufs - before.integrated > target.truePeak + 3, 'the limiter has work to do');
+  near(after.integrated, target.lufs, 0.5, 'integrated');
+  assert.ok(after.truePeak <= target.truePeak + 0.1, `true peak ${after.truePeak.toFixed(2)}`);
+  assert.deepEqual(measureLoudness(channels, SAMPLE_RATE), after);
+});
@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { Tone, ToneStyle } from '../types';
+import { dialogueMarkupErrors } from '../utils/dialogue';
+import { parseMarkup } from '../utils/markup';
+
+const STYLES: ToneStyle[] = [
+  {
+    id: 'noir',
+    name: 'Noir',
+    base: Tone.Scary,
+    direction: 'Low and world-weary.',
+    intensity: 3,
+    pace: 'slow',
+    energy: 'low',
+    persona: '',
+    examples: '',
+  },
+];
+
+const positions = (errors: { line: number; column: number }[]) => errors.map(({ line, column }) => [line, column]);
+
+test('narration errors point at the offending tag', () => {
+  const { errors } = parseMarkup([
+    'A clean first line.',
+    'Then [pause 20s] is too long,',
+    '  [tone:Shouty] is unknown and [/whisper] closes nothing.',
+  ].join('\n'));
+  assert.deepEqual(positions(errors), [[2, 6], [3, 3], [3, 32]]);
+  assert.match(errors[0].message, /too long/);
+  assert.match(errors[1].message, /Unknown tone "Shouty"/);
+  assert.match(errors[2].message, /no matching \[whisper\]/);
+});
+
+test('unclosed tags and emphasis are reported where they open', () => {
+  const { errors } = parseMarkup('Start [whisper]quietly\nand *stress [tone:Noir]this', STYLES);
+  assert.deepEqual(positions(errors), [[2, 13], [1, 7], [2, 5]]);
+  assert.match(errors[0].message, /\[tone:Noir\] is never closed/);
+  assert.match(errors[1].message, /\[whisper\] is never closed/);
+  assert.match(errors[2].message, /Emphasis/);
+});
+
+test('valid markup, escapes and stray brackets parse without errors', () => {
+  const { errors, segments } = parseMarkup('Costs \\*5\\* [sic] [pause 1.5s] [tone:noir]*done*[/tone]', STYLES);
+  assert.deepEqual(errors, []);
+  assert.deepEqual(segments.find(s => s.kind === 'pause'), { kind: 'pause', durationMs: 1500 });
+  assert.equal(segments[0].kind === 'speech' && segments[0].text, 'Costs *5* [sic] ');
+});
+
+test('dialogue errors point into the script, continuation lines included', () => {
+  const script = [
+    'Intro text is ignored.',
+    'Ana: Hello [pause 2] there.',
+    'Ben: Fine, [whisper]thanks',
+    '    and you?[/whisper] [/tone]',
+    'Ana: A *loose end',
+  ].join('\n');
+  assert.deepEqual(positions(dialogueMarkupErrors(script)), [[2, 12], [4, 24], [5, 8]]);
+});
+
+test('dialogue tags do not carry over from one turn to the next', () => {
+  const errors = dialogueMarkupErrors('Ana: [whisper]Psst\nBen: What?[/whisper]');
+  assert.deepEqual(positions(errors), [[1, 6], [2, 11]]);
+  assert.match(errors[0].message, /never closed/);
+  assert.match(errors[1].message, /no matching/);
+});
@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { MusicScore, Note } from '../types';
+import { readMidi, writeMidi } from '../utils/midi';
+
+const SCORE: MusicScore = {
+  tempo: 90,
+  totalDuration: 8,
+  reverb: { mix: 0.4, decay: 2.5 },
+  notes: [
+    // A triangle pad chord
+    { freq: 261.63, startTime: 0, duration: 4, type: 'triangle', instrument: 'pad', velocity: 0.5 },
+    { freq: 329.63, startTime: 0, duration: 4, type: 'triangle', instrument: 'pad', velocity: 0.5 },
+    { freq: 392, startTime: 0, duration: 4, type: 'triangle', instrument: 'pad', velocity: 0.5 },
+    // Overlapping plucks between semitones, panned apart
+    { freq: 450, startTime: 1, duration: 1, type: 'sine', instrument: 'pluck', velocity: 0.8, pan: -0.5 },
+    { freq: 610, startTime: 1.5, duration: 1, type: 'sine', instrument: 'pluck', velocity: 0.6, pan: 0.75 },
+    { freq: 65.41, startTime: 0, duration: 2, type: 'sine', instrument: 'bass', velocity: 0.9 },
+    { freq: 1046.5, startTime: 3, duration: 0.5, type: 'sine', instrument: 'bell', velocity: 0.4 },
+    { freq: 55, startTime: 2, duration: 0.1, type: 'sine', instrument: 'percussion', velocity: 1 },
+  ],
+};
+
+const byTime = (notes: Note[]) =>
+  [...notes].sort((a, b) => a.startTime - b.startTime || a.freq - b.freq);
+
+const cents = (a: number, b: number) => Math.abs(1200 * Math.log2(a / b));
+
+test('a score survives a MIDI round trip', () => {
+  const read = readMidi(writeMidi(SCORE));
+  assert.equal(read.tempo, SCORE.tempo);
+  assert.ok(Math.abs(read.totalDuration - SCORE.totalDuration) < 0.01);
+  assert.ok(read.reverb);
+  assert.ok(Math.abs(read.reverb.mix - SCORE.reverb!.mix) < 1 / 127);
+
+  const expected = byTime(SCORE.notes);
+  const actual = byTime(read.notes);
+  assert.equal(actual.length, expected.length);
+  actual.forEach((note, i) => {
+    const want = expected[i];
+    const label = `note ${i} (${want.instrument} ${want.freq} Hz)`;
+    assert.equal(note.instrument, want.instrument, label);
+    if (want.instrument === 'pad') assert.equal(note.type, want.type, label);
+    assert.ok(cents(note.freq, want.freq) < 1, `${label} pitch ${note.freq}`);
+    assert.ok(Math.abs(note.startTime - want.startTime) < 0.005, `${label} start`);
+    assert.ok(Math.abs(note.duration - want.duration) < 0.005, `${label} duration`);
+    assert.ok(Math.abs(note.velocity! - want.velocity!) <= 1 / 127, `${label} velocity`);
+    assert.ok(Math.abs((note.pan ?? 0) - (want.pan ?? 0)) < 0.02, `${label} pan`);
+  });
+});
+
+test('a score without a loop length loops at the end of its last bar', () => {
+  const bytes = writeMidi({
+    tempo: 120,
+    totalDuration: 0, // Puts the "Loop End" marker at the start, where it is ignored
+    notes: [{ freq: 440, startTime: 0, duration: 2.5, type: 'sine', instrument: 'pluck' }],
+  });
+  const read = readMidi(bytes);
+  assert.equal(read.notes.length, 1);
+  assert.equal(read.totalDuration, 4); // One 4/4 bar at 120 bpm is two seconds
+});
+
+test('files that are not MIDI are rejected', () => {
+  assert.throws(() => readMidi(new TextEncoder().encode('RIFF....WAVE')), /not a MIDI file/);
+});
@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { localSpeechProvider } from '../services/local';
+import { SynthesisProgress, Tone, VoiceName } from '../types';
+import { SPEECH_SAMPLE_RATE } from '../utils/audio';
+import { joinSamples, peakBetween, readTrack } from './helpers';
+
+const LONG_PARAGRAPH = Array.from(
+  { length: 12 },
+  (_, i) => `Sentence number ${i + 1} keeps the second paragraph going for a while.`
+).join(' ');
+
+const SCRIPT = [
+  'The offline voice reads this first paragraph.',
+  LONG_PARAGRAPH,
+  'A short last paragraph ends the script. [pause 1s]',
+].join('\n\n');
+
+const QUIET = 0.01; // ~ -40 dBFS, where the stitcher trims silence
+
+test('offline speech is chunked, stitched and marked per paragraph', async () => {
+  let progress: SynthesisProgress | undefined;
+  const blocks: Int16Array[] = [];
+  const speech = await localSpeechProvider.generateSpeech(SCRIPT, VoiceName.Kore, Tone.Normal, {
+    onProgress: p => { progress = p; },
+    onAudio: samples => blocks.push(samples),
+  });
+
+  // The long paragraph is split, so there are more chunks than paragraphs
+  assert.ok(progress);
+  assert.ok(progress.total > 3, `expected the long paragraph to be chunked, got ${progress.total} chunks`);
+  assert.equal(progress.completed, progress.total);
+  assert.ok(progress.chunks.every(status => status === 'done'));
+
+  const wav = await readTrack(speech.url);
+  assert.equal(wav.sampleRate, SPEECH_SAMPLE_RATE);
+  assert.equal(wav.bitDepth, 16);
+  assert.equal(wav.channels.length, 1);
+  assert.deepEqual(joinSamples(blocks), wav.channels[0], 'the streamed samples are the saved track');
+
+  // One marker per paragraph, labelled with its opening words
+  assert.deepEqual(speech.markers.map(m => m.label), [
+    'The offline voice reads this first…',
+    'Sentence number 1 keeps the second…',
+    'A short last paragraph ends the…',
+  ]);
+  assert.equal(speech.markers[0].time, 0);
+  const duration = wav.channels[0].length / wav.sampleRate;
+  speech.markers.slice(1).forEach((marker, i) => {
+    assert.ok(marker.time > speech.markers[i].time && marker.time < duration);
+    // Paragraphs are stitched 700 ms apart, less the crossfade
+    assert.ok(peakBetween(wav, marker.time - 0.6, marker.time - 0.05) < QUIET, `silence before "${marker.label}"`);
+    assert.ok(peakBetween(wav, marker.time, marker.time + 0.5) > QUIET, `speech after "${marker.label}"`);
+  });
+
+  // The closing [pause 1s] is kept as silence at the end
+  assert.ok(peakBetween(wav, duration - 1, duration) < QUIET);
+  assert.ok(peakBetween(wav, duration - 1.5, duration - 1) > QUIET);
+});
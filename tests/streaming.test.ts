@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { GenerationError } from '../services/errors';
+import { createFakeSpeechProvider } from '../services/fake';
+import { localSpeechProvider } from '../services/local';
+import { ChunkStatus, Tone, VoiceName } from '../types';
+import { joinSamples, readTrack } from './helpers';
+
+const SCRIPT = [
+  'Streaming starts with this opening paragraph.',
+  'The second paragraph is voiced alongside it. [pause 400ms] And carries on after a pause.',
+  'The third paragraph closes the script.',
+].join('\n\n');
+
+// 37 ms parts are an odd number of bytes, so every other part splits a sample
+const FAKE_OPTIONS = { partMs: 37, delayMs: 1 };
+
+test('a fake stream is stitched into the same track as the offline engine', async () => {
+  const blocks: Int16Array[] = [];
+  let chunksAtFirstAudio: ChunkStatus[] | null = null;
+  let chunks: ChunkStatus[] = [];
+  const speech = await createFakeSpeechProvider(FAKE_OPTIONS).generateSpeech(SCRIPT, VoiceName.Kore, Tone.Normal, {
+    onProgress: progress => { chunks = progress.chunks; },
+    onAudio: samples => {
+      chunksAtFirstAudio ??= chunks;
+      blocks.push(samples);
+    },
+  });
+  const offline = await localSpeechProvider.generateSpeech(SCRIPT, VoiceName.Kore, Tone.Normal);
+
+  // Audio was handed on piece by piece, starting before the script was voiced
+  assert.ok(chunksAtFirstAudio);
+  assert.ok(chunksAtFirstAudio.some(status => status !== 'done'), 'first audio arrived before every chunk was done');
+  assert.ok(blocks.length > chunks.length, 'more audio blocks than chunks');
+
+  const wav = await readTrack(speech.url);
+  assert.deepEqual(joinSamples(blocks), wav.channels[0], 'the streamed samples are the saved track');
+  assert.deepEqual(wav.channels, (await readTrack(offline.url)).channels);
+  assert.deepEqual(speech.markers, offline.markers);
+  assert.equal(speech.markers.length, 3);
+});
+
+test('a stream that fails part way rejects with a classified error', async (t) => {
+  t.mock.method(console, 'error', () => {}); // The provider logs the failure
+  const chunks: ChunkStatus[][] = [];
+  const provider = createFakeSpeechProvider({ ...FAKE_OPTIONS, failAfterParts: 3 });
+  await assert.rejects(
+    provider.generateSpeech(SCRIPT, VoiceName.Kore, Tone.Normal, { onProgress: p => chunks.push(p.chunks) }),
+    (error: unknown) => {
+      assert.ok(error instanceof GenerationError);
+      assert.equal(error.kind, 'server');
+      assert.ok(error.transient);
+      return true;
+    }
+  );
+  assert.ok(chunks.at(-1)?.includes('error'));
+});
+
+test('cancelling a stream rejects as cancelled', async () => {
+  const controller = new AbortController();
+  const provider = createFakeSpeechProvider({ partMs: 37, delayMs: 20 });
+  const speech = provider.generateSpeech(SCRIPT, VoiceName.Kore, Tone.Normal, {
+    signal: controller.signal,
+    onAudio: () => controller.abort(),
+  });
+  await assert.rejects(speech, (error: unknown) => error instanceof GenerationError && error.kind === 'cancelled');
+});
@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { chunkScript, splitSentences } from '../utils/text';
+
+test('sentences end only at punctuation followed by whitespace', () => {
+  assert.deepEqual(splitSentences('The price is $3.50 today. Visit example.com for more!'), [
+    'The price is $3.50 today.',
+    'Visit example.com for more!',
+  ]);
+  assert.deepEqual(splitSentences('Version 2.0.1 shipped? Yes.'), ['Version 2.0.1 shipped?', 'Yes.']);
+});
+
+test('abbreviations and initials do not end a sentence', () => {
+  assert.deepEqual(splitSentences('Dr. Smith met Mrs. Jones, e.g. at noon. J. R. Tolkien wrote it.'), [
+    'Dr. Smith met Mrs. Jones, e.g. at noon.',
+    'J. R. Tolkien wrote it.',
+  ]);
+});
+
+test('ellipses and closing quotes stay with their sentence', () => {
+  assert.deepEqual(splitSentences('...and then it ended. "Really?" she asked… Then silence.'), [
+    '...and then it ended.',
+    '"Really?"',
+    'she asked…',
+    'Then silence.',
+  ]);
+  assert.deepEqual(splitSentences('Wait... what?'), ['Wait...', 'what?']);
+});
+
+test('chunks keep the script text exactly', () => {
+  const paragraph = 'The price is $3.50. Visit example.com today... and Dr. Smith will explain, at length; why 1,000 matters.';
+  const chunks = chunkScript(`${paragraph}\n\n...and then it ended`, 40);
+  const last = chunks.pop()!;
+  assert.deepEqual(last, { index: chunks.length, text: '...and then it ended', endsParagraph: true });
+  assert.ok(chunks.every(chunk => chunk.text.length <= 40), 'chunks fit the limit');
+  assert.ok(chunks.at(-1)!.endsParagraph);
+  // Split only at whitespace, so single spaces join the paragraph back up
+  assert.equal(chunks.map(chunk => chunk.text).join(' '), paragraph);
+});
@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { encodeWav, readWav, readWavMetadata } from '../utils/wav';
+
+const SAMPLE_RATE = 8000;
+
+const tone = (length: number, frequency: number): Float32Array =>
+  Float32Array.from({ length }, (_, i) => 0.8 * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE));
+
+const maxError = (a: Float32Array, b: Float32Array): number =>
+  a.reduce((worst, s, i) => Math.max(worst, Math.abs(s - b[i])), 0);
+
+test('tags, labelled markers and a loop survive a round trip', () => {
+  const metadata = {
+    title: 'Chapter One',
+    artist: 'Kore',
+    comment: 'Ünïcode survives too',
+    software: 'SonicFlow AI',
+    script: 'The whole script.\n\nWith two paragraphs.',
+    markers: [
+      { time: 0, label: 'Paragraph 1' },
+      { time: 0.5, label: 'Paragraph 2' },
+      { time: 1.25, label: 'Bookmark' },
+    ],
+    loop: { start: 0.25, end: 1.5 },
+  };
+  const bytes = encodeWav([tone(SAMPLE_RATE * 2, 440)], { sampleRate: SAMPLE_RATE, metadata });
+
+  const read = readWavMetadata(bytes);
+  assert.equal(read.title, metadata.title);
+  assert.equal(read.artist, metadata.artist);
+  assert.equal(read.comment, metadata.comment);
+  assert.equal(read.software, metadata.software);
+  assert.equal(read.script, metadata.script);
+  assert.deepEqual(read.markers.map(m => m.label), metadata.markers.map(m => m.label));
+  read.markers.forEach((m, i) => assert.ok(Math.abs(m.time - metadata.markers[i].time) < 1 / SAMPLE_RATE));
+  assert.ok(read.loop);
+  assert.ok(Math.abs(read.loop.start - metadata.loop.start) < 1 / SAMPLE_RATE);
+  assert.ok(Math.abs(read.loop.end - metadata.loop.end) < 1 / SAMPLE_RATE);
+
+  // Reading the audio finds the same metadata after the data chunk
+  assert.deepEqual(readWav(bytes).metadata, read);
+});
+
+test('a file without metadata reads back with none', () => {
+  const read = readWavMetadata(encodeWav([tone(100, 440)], { sampleRate: SAMPLE_RATE }));
+  assert.deepEqual(read.markers, []);
+  assert.equal(read.loop, undefined);
+  assert.equal(read.title, undefined);
+});
+
+test('16, 24 and 32-bit stereo audio reads back within its resolution', () => {
+  const channels = [tone(1000, 440), tone(1000, 660)];
+  const tolerances = { 16: 2 / 0x8000, 24: 2 / 0x800000, 32: 0 };
+  for (const bitDepth of [16, 24, 32] as const) {
+    const wav = readWav(encodeWav(channels, { sampleRate: SAMPLE_RATE, bitDepth }));
+    assert.equal(wav.sampleRate, SAMPLE_RATE);
+    assert.equal(wav.bitDepth, bitDepth);
+    assert.equal(wav.channels.length, 2);
+    assert.equal(wav.channels[0].length, channels[0].length);
+    wav.channels.forEach((c, i) =>
+      assert.ok(maxError(c, channels[i]) <= tolerances[bitDepth], `${bitDepth}-bit channel ${i}`));
+  }
+});
+
+test('24-bit keeps full-scale and negative samples', () => {
+  const extremes = Float32Array.from([1, -1, 0.5, -0.5, 1 / 0x800000, -1 / 0x800000, 0]);
+  const wav = readWav(encodeWav([extremes], { sampleRate: SAMPLE_RATE, bitDepth: 24 }));
+  assert.ok(maxError(wav.channels[0], extremes) <= 1 / 0x800000);
+  assert.equal(wav.channels[0][1], -1);
+});
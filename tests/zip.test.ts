@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { crc32, createZip } from '../utils/zip';
+
+interface ReadEntry {
+  name: string;
+  data: Uint8Array;
+  crc: number;
+  modified: { time: number; date: number };
+}
+
+/** Lists a stored-only archive through its central directory, checking each local header against it. */
+const readZip = (bytes: Uint8Array): ReadEntry[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const end = bytes.length - 22;
+  assert.equal(view.getUint32(end, true), 0x06054b50, 'end of central directory');
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  assert.equal(offset + view.getUint32(end + 12, true), end, 'central directory ends the archive');
+
+  const entries: ReadEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    assert.equal(view.getUint32(offset, true), 0x02014b50, 'central header');
+    assert.equal(view.getUint16(offset + 10, true), 0, 'stored');
+    const crc = view.getUint32(offset + 16, true);
+    const size = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const local = view.getUint32(offset + 42, true);
+    const name = new TextDecoder().decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    const modified = { time: view.getUint16(offset + 12, true), date: view.getUint16(offset + 14, true) };
+
+    assert.equal(view.getUint32(local, true), 0x04034b50, 'local header');
+    assert.equal(view.getUint32(local + 14, true), crc, 'local CRC');
+    assert.equal(view.getUint16(local + 26, true), nameLength, 'local name');
+    const start = local + 30 + nameLength;
+    entries.push({ name, crc, modified, data: bytes.subarray(start, start + size) });
+    offset += 46 + nameLength;
+  }
+  return entries;
+};
+
+test('crc32 matches the standard check value', () => {
+  assert.equal(crc32(new TextEncoder().encode('123456789')), 0xcbf43926);
+  assert.equal(crc32(new Uint8Array(0)), 0);
+});
+
+test('entries read back with their names, data and checksums', async () => {
+  const clip = Uint8Array.from({ length: 5000 }, (_, i) => (i * 31) & 0xff);
+  const manifest = new TextEncoder().encode('{"rows":[]}');
+  const zip = createZip([
+    { name: 'intro.wav', data: clip },
+    { name: 'menü/ünïcode.wav', data: new Uint8Array(0) },
+    { name: 'manifest.json', data: manifest, modified: new Date(2024, 5, 15, 13, 45, 31) },
+  ]);
+  assert.equal(zip.type, 'application/zip');
+
+  const entries = readZip(new Uint8Array(await zip.arrayBuffer()));
+  assert.deepEqual(entries.map(e => e.name), ['intro.wav', 'menü/ünïcode.wav', 'manifest.json']);
+  assert.deepEqual(entries[0].data, clip);
+  assert.equal(entries[1].data.length, 0);
+  assert.deepEqual(entries[2].data, manifest);
+  entries.forEach(e => assert.equal(e.crc, crc32(e.data), e.name));
+  // DOS time keeps even seconds
+  assert.deepEqual(entries[2].modified, {
+    time: (13 << 11) | (45 << 5) | 15,
+    date: ((2024 - 1980) << 9) | (6 << 5) | 15,
+  });
+});
+
+test('an empty archive is just the end record', async () => {
+  const bytes = new Uint8Array(await createZip([]).arrayBuffer());
+  assert.equal(bytes.length, 22);
+  assert.deepEqual(readZip(bytes), []);
+});
@@ -14,6 +14,22 @@ export enum Tone {
   Scary = 'Scary',
 }
 
+export type StylePace = 'slow' | 'natural' | 'fast';
+export type StyleEnergy = 'low' | 'natural' | 'high';
+
+/** A user-defined delivery, voiced on top of one of the built-in tones. */
+export interface ToneStyle {
+  id: string;
+  name: string;
+  base: Tone;          // Stands in for the style wherever only built-in tones are understood
+  direction: string;   // Free-text direction for the voice actor
+  intensity: number;   // 1 (a hint of it) .. 5 (over the top)
+  pace: StylePace;
+  energy: StyleEnergy;
+  persona: string;     // Accent or character, e.g. "a weary ship's captain from Cork"
+  examples: string;    // Sample lines in the style, for phrasing only
+}
+
 export interface PlaybackState {
   isPlaying: boolean;
   duration: number;
@@ -27,15 +43,321 @@ export interface AudioGenerationState {
   audioUrl: string | null;
 }
 
+export type Instrument = 'pad' | 'pluck' | 'bell' | 'bass' | 'percussion';
+
+/** ADSR envelope; times in seconds, sustain as a fraction of the peak. */
+export interface Envelope {
+  attack: number;
+  decay: number;
+  sustain: number;
+  release: number; // After the note's duration ends
+}
+
 export interface Note {
-  freq: number;      // Frequency in Hz
-  duration: number;  // Duration in seconds
+  freq: number;      // Frequency in Hz; for percussion, the centre of the noise band
+  duration: number;  // Duration in seconds, until the release starts
   startTime: number; // Start time in seconds
-  type: 'sine' | 'triangle' | 'square' | 'sawtooth';
+  type: 'sine' | 'triangle' | 'square' | 'sawtooth'; // Oscillator shape for pads
+  instrument?: Instrument; // Defaults to 'pad'
+  velocity?: number;       // 0..1, defaults to 0.7
+  pan?: number;            // -1 (left) .. 1 (right), defaults to centre
+  envelope?: Partial<Envelope>; // Overrides the instrument's own envelope
+}
+
+export interface ReverbSettings {
+  mix: number;   // Wet level, 0..1
+  decay: number; // Seconds for the tail to fall by 60 dB
 }
 
 export interface MusicScore {
   notes: Note[];
   totalDuration: number;
   tempo: number;
+  reverb?: ReverbSettings; // Defaults to a medium hall
+}
+
+export interface ScriptChunk {
+  index: number;
+  text: string;
+  endsParagraph: boolean; // True if a paragraph break follows this chunk
+}
+
+export type ChunkStatus = 'pending' | 'generating' | 'done' | 'cached' | 'error';
+
+export interface SynthesisProgress {
+  total: number;
+  completed: number;
+  chunks: ChunkStatus[];
+}
+
+export interface GenerationOptions {
+  onProgress?: (progress: SynthesisProgress) => void;
+  forceRegenerate?: boolean; // Skip the generation cache and overwrite its entry
+  signal?: AbortSignal;      // Cancels the generation, which then rejects as cancelled
+  // Retries of each request after a transient failure (three by default).
+  // Callers that retry whole jobs themselves, like the batch queue, pass 0;
+  // the music then fails on such errors instead of composing offline.
+  retries?: number;
+}
+
+export interface SpeechOptions extends GenerationOptions {
+  style?: ToneStyle;    // Narration only; dialogue styles come with the casting
+  styles?: ToneStyle[]; // Custom styles that [tone:Name] markup may name
+  // Called with the finished track's 24 kHz samples, in order, as soon as
+  // they are final, so playback can start before the whole script is voiced
+  onAudio?: (samples: Int16Array) => void;
+}
+
+export type ScriptMode = 'narration' | 'dialogue';
+
+export interface DialogueLine {
+  speaker: string;
+  text: string;
+  line: number; // 1-based line number in the source script
+}
+
+export interface SpeakerCasting {
+  voice: VoiceName;
+  tone: Tone;
+  style?: ToneStyle; // Its base is `tone`
+}
+
+export type Casting = Record<string, SpeakerCasting>;
+
+export interface SpeechSegment {
+  text: string;
+  voice: VoiceName;
+  tone: Tone;
+  style?: ToneStyle; // A custom delivery; its base is `tone`
+  endsParagraph: boolean; // True if a longer pause (paragraph or turn change) follows
+  whisper?: boolean;
+  pauseBeforeMs?: number; // Exact silence inserted as PCM before this segment
+  pauseAfterMs?: number;  // Exact silence inserted as PCM after this segment
+}
+
+export type MarkupSegment =
+  | { kind: 'speech'; text: string; tone: Tone | null; style?: ToneStyle; whisper: boolean; emphasis: boolean }
+  | { kind: 'pause'; durationMs: number };
+
+export interface MarkupError {
+  line: number;   // 1-based
+  column: number; // 1-based
+  message: string;
+}
+
+export interface MarkupParseResult {
+  segments: MarkupSegment[];
+  errors: MarkupError[];
+}
+
+export type ProviderId = 'gemini' | 'local';
+
+export interface SpeechProvider {
+  id: ProviderId;
+  label: string;
+  model: string;
+  isAvailable: () => boolean;
+  generateSpeech: (text: string, voice: VoiceName, tone: Tone, options?: SpeechOptions) => Promise<GeneratedSpeech>;
+  generateDialogue: (text: string, casting: Casting, options?: SpeechOptions) => Promise<GeneratedSpeech>;
+}
+
+export interface GeneratedSpeech {
+  url: string;
+  cached: boolean; // True if every segment was served from the generation cache
+  markers: AudioMarker[]; // Paragraph (or dialogue turn) starts
+}
+
+/** A labelled point on the speech timeline, in seconds at 1.0x speed. */
+export interface AudioMarker {
+  time: number;
+  label: string;
+}
+
+export interface AudioTags {
+  title?: string;
+  artist?: string;
+  comment?: string;
+  software?: string;
+  script?: string; // The source text, stored as the INFO subject
+}
+
+export interface AudioMetadata extends AudioTags {
+  markers: AudioMarker[];
+  loop?: TimeRegion; // Seconds; a WAV `smpl` loop, as written for music
+}
+
+export interface MusicComposer {
+  id: ProviderId;
+  label: string;
+  isAvailable: () => boolean;
+  generateBackgroundMusic: (text: string, options?: MusicOptions) => Promise<GeneratedMusic>;
+}
+
+export interface MusicOptions extends GenerationOptions {
+  tone?: Tone;   // Mood hint for when the text alone says little
+  seed?: number; // For the offline composer; derived from the text by default
+}
+
+export interface GeneratedMusic {
+  url: string;
+  score: MusicScore;
+  cached: boolean;
+  fallback?: boolean; // Composed offline because the chosen composer failed
+  fallbackReason?: string; // Why it failed, for the user
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  script: string;
+  mode: ScriptMode;
+  voice: VoiceName;
+  tone: Tone;
+  style?: ToneStyle | null; // Narration's custom style; `tone` is its base
+  casting: Casting;
+  providerId: ProviderId;
+  speechBlob: Blob;
+  musicBlob: Blob | null;
+  musicScore: MusicScore | null;
+  playbackRate: number;
+  pitch: number; // Semitones
+  musicVolume: number;
+  ducking: DuckingSettings;
+  silence: SilenceSettings;
+  effects: SpeechEffect[];
+  markers: AudioMarker[];   // Paragraph starts from generation
+  bookmarks: AudioMarker[]; // User-placed markers
+}
+
+/** How the music dips under the voice, plus its fades. Times in ms of real (sped-up) time. */
+export interface DuckingSettings {
+  enabled: boolean;
+  depthDb: number;   // Gain reduction while speech is active
+  attackMs: number;  // Ramp down, started ahead of speech
+  releaseMs: number; // Recovery once the hold expires
+  holdMs: number;    // Keeps the duck through short pauses
+  fadeInMs: number;  // 0 disables
+  fadeOutMs: number; // 0 disables
+}
+
+/** How silences in the speech are trimmed and evened out. Times in ms of speech (1.0x) time. */
+export interface SilenceSettings {
+  enabled: boolean;
+  thresholdDb: number;  // Quieter than this (dBFS) counts as silence
+  minSilenceMs: number; // Shorter quiet stretches are left alone
+  trimEdges: boolean;
+  edgeMs: number;       // Silence kept at the head and the tail
+  capPauses: boolean;
+  maxPauseMs: number;   // Longest pause kept between phrases
+  normalizeParagraphs: boolean;
+  paragraphGapMs: number; // Every paragraph gap is made this long
+}
+
+export type EqBandType = 'peaking' | 'lowshelf' | 'highshelf' | 'highpass' | 'lowpass';
+
+/** One filter of the parametric EQ. */
+export interface EqBand {
+  type: EqBandType;
+  frequency: number; // Hz
+  gainDb: number;    // Peaking and shelves only
+  q: number;
+}
+
+/** One stage of the speech effects chain, which runs in order. Times in ms. */
+export type SpeechEffect =
+  | { kind: 'eq'; enabled: boolean; bands: EqBand[] }
+  | { kind: 'compressor'; enabled: boolean; thresholdDb: number; ratio: number; attackMs: number; releaseMs: number; makeupDb: number }
+  | { kind: 'deesser'; enabled: boolean; frequency: number; thresholdDb: number; rangeDb: number } // Ducks the band above `frequency`
+  | { kind: 'gate'; enabled: boolean; thresholdDb: number; attackMs: number; holdMs: number; releaseMs: number; rangeDb: number }
+  | { kind: 'distortion'; enabled: boolean; driveDb: number; mix: number }
+  | { kind: 'reverb'; enabled: boolean; mix: number; decay: number }; // Decay in seconds, as for music
+
+export type SpeechEffectKind = SpeechEffect['kind'];
+
+export interface EffectsPreset {
+  name: string;
+  chain: SpeechEffect[];
+}
+
+/** A span of the speech, in seconds at 1.0x. */
+export interface TimeRegion {
+  start: number;
+  end: number;
+}
+
+/** Per-bucket sample range for drawing a waveform. */
+export interface WaveformPeaks {
+  peaksPerSecond: number;
+  duration: number; // Seconds
+  min: Float32Array;
+  max: Float32Array;
+  loop?: TimeRegion; // Where the track loops, for music with loop points
+}
+
+/** A word of the script placed on the speech timeline, in seconds at 1.0x. */
+export interface TimedWord {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface TimedSentence extends TimedWord {
+  paragraph: number; // Index of the paragraph (in dialogue, the turn) it belongs to
+  speaker?: string;  // Dialogue only
+  words: TimedWord[];
+}
+
+/** Sentence and word timings estimated from the speech audio. */
+export interface SpeechAlignment {
+  duration: number; // Seconds at 1.0x
+  sentences: TimedSentence[];
+}
+
+export type CaptionFormat = 'srt' | 'vtt' | 'json';
+
+export type ProjectSummary = Pick<Project, 'id' | 'name' | 'createdAt' | 'updatedAt' | 'voice' | 'tone' | 'mode'>;
+
+export type ExportFormat = 'wav' | 'flac' | 'opus';
+
+export type LoudnessPreset = 'off' | 'podcast' | 'broadcast' | 'streaming';
+
+export interface LoudnessStats {
+  integrated: number; // LUFS, -Infinity for silence
+  truePeak: number;   // dBTP
+}
+
+export type MarkerSource = 'paragraphs' | 'bookmarks' | 'both' | 'none';
+
+/** Quality settings are kept per format so switching formats doesn't lose them. */
+export interface ExportSettings {
+  format: ExportFormat;
+  loudness: LoudnessPreset; // Applies to every format
+  wav: { bitDepth: 16 | 24 | 32; markers: MarkerSource };
+  flac: { bitDepth: 16 | 24; compressionLevel: number };
+  opus: { bitrate: number; variableBitrate: boolean }; // bitrate in kbps
+}
+
+export interface ExportProgress {
+  stage: 'rendering' | 'encoding';
+  fraction: number;
+}
+
+/** One clip to generate in batch mode. */
+export interface BatchRow {
+  id: string; // Also the clip's file name in the ZIP
+  text: string;
+  voice: VoiceName;
+  tone: Tone;
+  style?: ToneStyle; // When the tone column names a custom style; `tone` is its base
+  music: boolean;    // Mix background music under the speech
+}
+
+export type BatchRowStatus = 'queued' | 'running' | 'retrying' | 'done' | 'failed';
+
+export interface BatchSettings {
+  concurrency: number;       // Rows in flight at once
+  requestsPerMinute: number; // Row starts per minute, 0 for no limit
+  retries: number;           // Extra attempts before a row fails
 }
@@ -0,0 +1,304 @@
+import { AudioMarker, ScriptMode, SpeechAlignment, TimedSentence, TimedWord, Tone, VoiceName } from "../types";
+import { ACTIVITY_FRAME_RATE } from "./ducking";
+import { mergeTurns, parseDialogue } from "./dialogue";
+import { markupToSpeechSegments, parseMarkup } from "./markup";
+import { splitSentences } from "./text";
+
+/**
+ * Places the script's sentences and words on the speech timeline without a
+ * speech recognizer. The speech activity is segmented into voiced stretches
+ * and pauses; each piece of text is sized by its estimated syllables and
+ * fitted in proportion to the voiced time, with the boundaries between
+ * pieces pulled onto nearby pauses: strongly after sentences and clause
+ * punctuation, weakly between plain words. Paragraphs are anchored to the
+ * generation markers when they match the script, sentences are then fitted
+ * within their paragraph and words within their sentence.
+ */
+
+const MIN_PAUSE_FRAMES = 5;     // 50 ms of silence counts as a pause
+const LONG_PAUSE_FRAMES = 30;   // Pauses from 300 ms on count in full
+const MIN_SIGMA_FRAMES = 8;
+const RATE_SPREAD = 0.25;       // Expected drift of the speaking rate, as a fraction of the span
+const MATCH_BONUS = 2;          // For a boundary landing on a pause it expects
+const UNMATCHED_COST = 1;       // For a boundary that expects a pause but gets none
+const SKIPPED_PAUSE_COST = 1.5; // For a pause left inside a piece of text
+const CLAUSE_AFFINITY = 0.8;
+const WORD_AFFINITY = 0.15;
+
+const CLAUSE_END = /[,;:—–…)\]"'”’]$/;
+
+/** Frame range, end exclusive. */
+interface Frames {
+  start: number;
+  end: number;
+}
+
+interface FitUnit {
+  weight: number;   // Estimated syllables
+  affinity: number; // 0..1: how strongly a pause is expected after it
+}
+
+interface Timeline {
+  activity: Uint8Array;
+  voiced: Int32Array; // voiced[f] is the number of active frames before frame f
+  pauses: Frames[];
+}
+
+interface ScriptParagraph {
+  speaker?: string;
+  sentences: { text: string; words: { text: string; weight: number }[] }[];
+}
+
+/** Rough syllable count: vowel groups, a syllable and a bit per digit. */
+const estimateSyllables = (word: string): number => {
+  const letters = word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+  if (!letters) return 0.5;
+  const digits = letters.replace(/\D/g, '').length;
+  const vowels = letters.match(/[aeiouyàâäéèêëîïôöûüæœ]+/g)?.length ?? 0;
+  const silentE = vowels > 1 && /[^aeiouy]e$/.test(letters) ? 1 : 0;
+  // Scripts without Latin vowels: go by length
+  if (vowels === 0 && digits === 0) return Math.max(1, letters.length / 3);
+  return Math.max(1, vowels - silentE + digits * 1.2);
+};
+
+const toParagraph = (text: string, speaker?: string): ScriptParagraph => ({
+  speaker,
+  sentences: splitSentences(text.replace(/\*/g, '').replace(/\s+/g, ' ').trim()).map(sentence => ({
+    text: sentence,
+    words: sentence.split(' ').filter(Boolean).map(word => ({ text: word, weight: estimateSyllables(word) })),
+  })),
+});
+
+/** The text to voice with its markup applied. Voice and tone don't affect the text. */
+const spokenSegments = (script: string) =>
+  markupToSpeechSegments(parseMarkup(script).segments, VoiceName.Puck, Tone.Normal, Infinity);
+
+/**
+ * Splits the script into the paragraphs that were voiced, in the same way
+ * generation does, so that each one lines up with a paragraph marker.
+ */
+const spokenParagraphs = (script: string, mode: ScriptMode): ScriptParagraph[] => {
+  if (mode === 'dialogue') {
+    return mergeTurns(parseDialogue(script)).map(turn =>
+      toParagraph(spokenSegments(turn.text).map(s => s.text).join(' '), turn.speaker)
+    );
+  }
+
+  const paragraphs: ScriptParagraph[] = [];
+  let current: string[] = [];
+  spokenSegments(script).forEach(segment => {
+    current.push(segment.text);
+    if (segment.endsParagraph) {
+      paragraphs.push(toParagraph(current.join(' ')));
+      current = [];
+    }
+  });
+  if (current.length > 0) paragraphs.push(toParagraph(current.join(' ')));
+  return paragraphs.filter(p => p.sentences.length > 0);
+};
+
+const buildTimeline = (activity: Uint8Array): Timeline => {
+  const voiced = new Int32Array(activity.length + 1);
+  const pauses: Frames[] = [];
+  let silentFrom = -1;
+  for (let f = 0; f < activity.length; f++) {
+    voiced[f + 1] = voiced[f] + activity[f];
+    if (!activity[f] && silentFrom < 0) silentFrom = f;
+    if (activity[f] && silentFrom >= 0) {
+      if (f - silentFrom >= MIN_PAUSE_FRAMES) pauses.push({ start: silentFrom, end: f });
+      silentFrom = -1;
+    }
+  }
+  return { activity, voiced, pauses };
+};
+
+/** First frame in [lo, hi] by which `target` voiced frames have passed. */
+const frameAtVoiced = (voiced: Int32Array, target: number, lo: number, hi: number): number => {
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (voiced[mid] < target) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+
+/**
+ * Divides `span` between `units` in order. Boundaries are matched to the
+ * pauses inside the span by dynamic programming: a match costs the squared
+ * distance from the boundary's proportional position (in voiced time) less
+ * a bonus for the pause, and leaving a boundary or a pause unmatched has a
+ * cost of its own. Unmatched boundaries are then spread in proportion
+ * between the matched ones.
+ */
+const fitUnits = (units: FitUnit[], span: Frames, timeline: Timeline): Frames[] => {
+  const { activity, voiced } = timeline;
+  const cumulative = [0];
+  units.forEach(u => cumulative.push(cumulative[cumulative.length - 1] + u.weight));
+  const total = cumulative[units.length];
+
+  let first = span.start;
+  while (first < span.end && !activity[first]) first++;
+  let last = span.end;
+  while (last > first && !activity[last - 1]) last--;
+
+  // Nothing voiced (or nothing to divide): share the span out by weight
+  if (last <= first) {
+    const at = (k: number) => Math.round(span.start + ((span.end - span.start) * cumulative[k]) / total);
+    return units.map((_, k) => ({ start: at(k), end: at(k + 1) }));
+  }
+  if (units.length === 1) return [{ start: first, end: last }];
+
+  const origin = voiced[first];
+  const length = voiced[last] - origin;
+  const pauses = timeline.pauses.filter(p => p.start > first && p.end < last);
+  const strength = pauses.map(p => Math.min(1, (p.end - p.start) / LONG_PAUSE_FRAMES));
+  const position = pauses.map(p => voiced[p.start] - origin);
+  const boundaries = units.length - 1;
+
+  // Uncertainty is largest midway, since both ends of the span are known
+  const expected = (k: number) => (length * cumulative[k + 1]) / total;
+  const sigma = (k: number) => {
+    const f = cumulative[k + 1] / total;
+    return Math.max(MIN_SIGMA_FRAMES, RATE_SPREAD * length * Math.sqrt(f * (1 - f)));
+  };
+
+  // cost[k][j]: best cost with the first k boundaries and first j pauses settled
+  const width = pauses.length + 1;
+  const cost = new Float64Array((boundaries + 1) * width).fill(Infinity);
+  const move = new Uint8Array((boundaries + 1) * width); // 1 match, 2 boundary unmatched, 3 pause unmatched
+  cost[0] = 0;
+  for (let k = 0; k <= boundaries; k++) {
+    for (let j = 0; j < width; j++) {
+      const cell = k * width + j;
+      if (k > 0 && j > 0) {
+        const d = (position[j - 1] - expected(k - 1)) / sigma(k - 1);
+        const c = cost[cell - width - 1] + d * d - units[k - 1].affinity * MATCH_BONUS * strength[j - 1];
+        if (c < cost[cell]) { cost[cell] = c; move[cell] = 1; }
+      }
+      if (k > 0) {
+        const c = cost[cell - width] + units[k - 1].affinity * UNMATCHED_COST;
+        if (c < cost[cell]) { cost[cell] = c; move[cell] = 2; }
+      }
+      if (j > 0) {
+        const c = cost[cell - 1] + SKIPPED_PAUSE_COST * strength[j - 1];
+        if (c < cost[cell]) { cost[cell] = c; move[cell] = 3; }
+      }
+    }
+  }
+
+  const matched = new Int32Array(boundaries).fill(-1);
+  for (let k = boundaries, j = pauses.length; k > 0 || j > 0;) {
+    const step = move[k * width + j];
+    if (step === 1) matched[--k] = --j;
+    else if (step === 2) k--;
+    else j--;
+  }
+
+  // Each boundary ends one unit and starts the next; a matched one spans its pause
+  const cuts: Frames[] = [];
+  const anchors = [{ k: -1, v: 0 }];
+  matched.forEach((j, k) => { if (j >= 0) anchors.push({ k, v: position[j] }); });
+  anchors.push({ k: boundaries, v: length });
+  for (let a = 0; a < anchors.length - 1; a++) {
+    const from = anchors[a];
+    const to = anchors[a + 1];
+    const weight = cumulative[to.k + 1] - cumulative[from.k + 1] || 1;
+    for (let k = from.k + 1; k < to.k; k++) {
+      const share = (cumulative[k + 1] - cumulative[from.k + 1]) / weight;
+      const end = frameAtVoiced(voiced, origin + from.v + (to.v - from.v) * share, first, last);
+      let start = end;
+      while (start < last && !activity[start]) start++;
+      cuts[k] = { start, end };
+    }
+    if (to.k < boundaries) {
+      const pause = pauses[matched[to.k]];
+      cuts[to.k] = { start: pause.end, end: pause.start };
+    }
+  }
+
+  return units.map((_, k) => ({
+    start: k === 0 ? first : cuts[k - 1].start,
+    end: k === boundaries ? last : cuts[k].end,
+  }));
+};
+
+/**
+ * Estimates when each sentence and word of `script` is spoken, from the
+ * speech activity of the generated audio. `markers` are the paragraph (or
+ * dialogue turn) starts from generation; they pin the paragraphs exactly
+ * when there is one per paragraph. Times are seconds at 1.0x.
+ */
+export const alignScript = (
+  script: string,
+  mode: ScriptMode,
+  activity: Uint8Array,
+  markers: AudioMarker[] = []
+): SpeechAlignment => {
+  const duration = activity.length / ACTIVITY_FRAME_RATE;
+  const paragraphs = spokenParagraphs(script, mode);
+  if (paragraphs.length === 0 || activity.length === 0) return { duration, sentences: [] };
+
+  const timeline = buildTimeline(activity);
+  const toFrame = (time: number) => Math.max(0, Math.min(activity.length, Math.round(time * ACTIVITY_FRAME_RATE)));
+  const toSeconds = (frame: number) => frame / ACTIVITY_FRAME_RATE;
+  const sentenceWeight = (s: ScriptParagraph['sentences'][number]) => s.words.reduce((sum, w) => sum + w.weight, 0) || 1;
+
+  const paragraphSpans = markers.length === paragraphs.length
+    ? markers.map((marker, i) => ({
+        start: toFrame(marker.time),
+        end: i + 1 < markers.length ? toFrame(markers[i + 1].time) : activity.length,
+      }))
+    : fitUnits(
+        paragraphs.map(p => ({ weight: p.sentences.reduce((sum, s) => sum + sentenceWeight(s), 0), affinity: 1 })),
+        { start: 0, end: activity.length },
+        timeline
+      );
+
+  const sentences: TimedSentence[] = [];
+  paragraphs.forEach((paragraph, p) => {
+    const sentenceSpans = fitUnits(
+      paragraph.sentences.map(s => ({ weight: sentenceWeight(s), affinity: 1 })),
+      paragraphSpans[p],
+      timeline
+    );
+    paragraph.sentences.forEach((sentence, s) => {
+      const span = sentenceSpans[s];
+      const wordSpans = sentence.words.length > 0
+        ? fitUnits(
+            sentence.words.map(w => ({ weight: w.weight, affinity: CLAUSE_END.test(w.text) ? CLAUSE_AFFINITY : WORD_AFFINITY })),
+            span,
+            timeline
+          )
+        : [];
+      sentences.push({
+        text: sentence.text,
+        start: toSeconds(span.start),
+        end: toSeconds(span.end),
+        paragraph: p,
+        ...(paragraph.speaker ? { speaker: paragraph.speaker } : {}),
+        words: sentence.words.map((word, w) => ({
+          text: word.text,
+          start: toSeconds(wordSpans[w].start),
+          end: toSeconds(wordSpans[w].end),
+        })),
+      });
+    });
+  });
+
+  return { duration, sentences };
+};
+
+/**
+ * Index of the last item that has started by `time` (-1 before the
+ * first), so a sentence or word stays current through the pause after it.
+ */
+export const timedIndexAt = (items: TimedWord[], time: number): number => {
+  let lo = 0;
+  let hi = items.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (items[mid].start <= time) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo - 1;
+};
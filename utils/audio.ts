@@ -1,4 +1,9 @@
-import { MusicScore } from "../types";
+import { MusicScore, TimeRegion } from "../types";
+import { renderScore } from "./synth";
+import { encodeWav, readWavMetadata, WavBitDepth } from "./wav";
+
+// Generated speech is 16-bit mono PCM at this rate
+export const SPEECH_SAMPLE_RATE = 24000;
 
 /**
  * Decodes a Base64 string into a Uint8Array.
@@ -18,7 +23,7 @@ export const base64ToUint8Array = (base64: string): Uint8Array => {
  */
 export const pcmToWav = (pcmData: Uint8Array): Blob => {
   const numChannels = 1;
-  const sampleRate = 24000;
+  const sampleRate = SPEECH_SAMPLE_RATE;
   const bitsPerSample = 16;
   const byteRate = sampleRate * numChannels * (bitsPerSample / 8);
   const blockAlign = numChannels * (bitsPerSample / 8);
@@ -53,86 +58,271 @@ export const pcmToWav = (pcmData: Uint8Array): Blob => {
 };
 
 /**
- * Converts an AudioBuffer to a WAV Blob.
+ * Encodes bytes as Base64.
  */
-export const audioBufferToWav = (buffer: AudioBuffer): Blob => {
-  const numChannels = buffer.numberOfChannels;
-  const sampleRate = buffer.sampleRate;
-  const format = 1; // PCM
-  const bitDepth = 16;
-  
-  const resultLength = buffer.length * numChannels * 2 + 44;
-  const resultBuffer = new ArrayBuffer(resultLength);
-  const view = new DataView(resultBuffer);
-  
-  // RIFF header
-  writeString(view, 0, 'RIFF');
-  view.setUint32(4, 36 + buffer.length * numChannels * 2, true);
-  writeString(view, 8, 'WAVE');
-  
-  // fmt chunk
-  writeString(view, 12, 'fmt ');
-  view.setUint32(16, 16, true);
-  view.setUint16(20, format, true);
-  view.setUint16(22, numChannels, true);
-  view.setUint32(24, sampleRate, true);
-  view.setUint32(28, sampleRate * numChannels * 2, true);
-  view.setUint16(32, numChannels * 2, true);
-  view.setUint16(34, bitDepth, true);
-  
-  // data chunk
-  writeString(view, 36, 'data');
-  view.setUint32(40, buffer.length * numChannels * 2, true);
-  
-  // Write interleaved samples
-  let offset = 44;
-  for (let i = 0; i < buffer.length; i++) {
-    for (let channel = 0; channel < numChannels; channel++) {
-      const sample = buffer.getChannelData(channel)[i];
-      // Clamp and scale to 16-bit integer
-      const s = Math.max(-1, Math.min(1, sample));
-      view.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7FFF, true);
-      offset += 2;
+export const uint8ArrayToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Reinterprets raw 16-bit little-endian PCM bytes as samples.
+ */
+export const pcmBytesToSamples = (pcmData: Uint8Array): Int16Array => {
+  const sampleCount = Math.floor(pcmData.length / 2);
+  // Copy so the Int16Array view is always 2-byte aligned
+  const bytes = pcmData.slice(0, sampleCount * 2);
+  return new Int16Array(bytes.buffer, 0, sampleCount);
+};
+
+/**
+ * Returns the raw little-endian bytes backing a sample array.
+ */
+export const samplesToPcmBytes = (samples: Int16Array): Uint8Array => {
+  return new Uint8Array(samples.buffer, samples.byteOffset, samples.byteLength);
+};
+
+const TRIM_THRESHOLD = 328; // ~ -40 dBFS, below which a chunk's edges count as silence
+const TRIM_PADDING_SECONDS = 0.02; // Kept either side of the sound so onsets and decays aren't clipped
+
+export interface ChunkLayout {
+  endsParagraph: boolean;
+  pauseBeforeMs?: number; // Exact silence requested before this chunk
+  pauseAfterMs?: number;  // Exact silence requested after this chunk
+}
+
+export interface StitchOptions {
+  sampleRate: number;
+  crossfadeMs: number;
+  sentenceGapMs: number;  // Gap after a chunk that ends mid-paragraph
+  paragraphGapMs: number; // Gap after a chunk that ends a paragraph
+}
+
+export interface StitchResult {
+  pcm: Uint8Array;
+  starts: number[]; // Where each chunk begins in the output, in seconds
+}
+
+export const DEFAULT_STITCH_OPTIONS: StitchOptions = {
+  sampleRate: SPEECH_SAMPLE_RATE,
+  crossfadeMs: 15,
+  sentenceGapMs: 350,
+  paragraphGapMs: 700,
+};
+
+const msToSamples = (ms: number, sampleRate: number): number => Math.floor((sampleRate * ms) / 1000);
+
+/**
+ * Where a chunk starts on the output timeline, given where the previous
+ * one ended: after the default gap, overlapped by the crossfade, or after
+ * exactly the pauses asked for (a zero pause just crossfades).
+ */
+const nextChunkStart = (end: number, prev: ChunkLayout, next: ChunkLayout, options: StitchOptions, fadeLen: number): number => {
+  if (prev.pauseAfterMs !== undefined || next.pauseBeforeMs !== undefined) {
+    const pause = msToSamples((prev.pauseAfterMs ?? 0) + (next.pauseBeforeMs ?? 0), options.sampleRate);
+    return pause > 0 ? end + pause : Math.max(0, end - fadeLen);
+  }
+  const gapMs = prev.endsParagraph ? options.paragraphGapMs : options.sentenceGapMs;
+  return Math.max(0, end + msToSamples(gapMs, options.sampleRate) - fadeLen);
+};
+
+/** Equal-power gain at sample `n` of a chunk `length` samples long. */
+const crossfadeGain = (n: number, length: number, fadeIn: number, fadeOut: number): number => {
+  let gain = 1;
+  if (n < fadeIn) {
+    gain *= Math.sin((0.5 * Math.PI * n) / fadeIn);
+  }
+  const fromEnd = length - 1 - n;
+  if (fromEnd < fadeOut) {
+    gain *= Math.sin((0.5 * Math.PI * fromEnd) / fadeOut);
+  }
+  return gain;
+};
+
+const isLoud = (sample: number): boolean => Math.abs(sample) >= TRIM_THRESHOLD;
+
+/**
+ * Joins separately generated PCM chunks into one continuous stream as they
+ * arrive. Each chunk's own leading/trailing silence is trimmed so the gaps
+ * between chunks are consistent, and the joins are overlapped with a short
+ * equal-power crossfade to avoid clicks. Explicit pauses on a chunk replace
+ * the default gap with exactly that much silence.
+ *
+ * Chunks are pushed in order, each in as many pieces of whole samples as it
+ * comes in. Output goes to `onSamples` as soon as it is final; the end of
+ * a chunk is held back until the chunk ends, as it may yet be trimmed or
+ * faded into the next.
+ */
+export class PcmStitcher {
+  private readonly fadeLen: number;
+  private readonly padding: number;
+  private readonly starts: number[] = [];
+  private mix = new Float32Array(0);
+  private length = 0; // Of the whole output, known once the last chunk ends
+  private emitted = 0;
+
+  // The chunk being received, from its first kept sample. Until it turns
+  // loud this holds only the quiet lead-in that may be kept as padding.
+  private index = 0;
+  private start: number; // On the output timeline
+  private body = new Int16Array(0);
+  private bodyLength = 0;
+  private heard = false;
+  private lastLoud = -1;
+  private written = 0; // Body samples already mixed
+
+  constructor(
+    private readonly layouts: ChunkLayout[],
+    private readonly options: StitchOptions = DEFAULT_STITCH_OPTIONS,
+    private readonly onSamples: (samples: Int16Array) => void = () => {}
+  ) {
+    this.fadeLen = msToSamples(options.crossfadeMs, options.sampleRate);
+    this.padding = Math.floor(options.sampleRate * TRIM_PADDING_SECONDS);
+    this.start = msToSamples(layouts[0]?.pauseBeforeMs ?? 0, options.sampleRate);
+    if (layouts.length > 0) this.starts.push(this.start);
+  }
+
+  /** Adds the next piece of the current chunk. */
+  push(pcm: Uint8Array) {
+    let samples = pcmBytesToSamples(pcm);
+    if (!this.heard) {
+      const first = samples.findIndex(isLoud);
+      this.appendBody(first < 0 ? samples : samples.subarray(0, first));
+      this.keepLast(this.padding);
+      if (first < 0) return;
+      this.heard = true;
+      samples = samples.subarray(first);
     }
+    const offset = this.bodyLength;
+    this.appendBody(samples);
+    for (let n = this.bodyLength - 1; n >= offset; n--) {
+      if (isLoud(this.body[n])) {
+        this.lastLoud = n;
+        break;
+      }
+    }
+    // Nothing before the last loud sample can be trimmed, and a fade out
+    // reaches back at most one fade length from there
+    this.mixBody(this.lastLoud + 1 - this.fadeLen, this.bodyLength, this.index > 0 ? this.fadeLen : 0, 0);
+    this.emit(Math.min(this.start + this.written, this.earliestLaterStart(this.start + this.lastLoud + 1)));
+  }
+
+  /** Finishes the current chunk; later pieces belong to the next one. */
+  endChunk() {
+    const length = this.heard ? Math.min(this.bodyLength, this.lastLoud + 1 + this.padding) : 0;
+    const fade = Math.min(this.fadeLen, length);
+    const isLast = this.index >= this.layouts.length - 1;
+    this.mixBody(length, length, this.index > 0 ? fade : 0, isLast ? 0 : fade);
+
+    const end = this.start + length;
+    if (isLast) {
+      this.length = end + msToSamples(this.layouts[this.index]?.pauseAfterMs ?? 0, this.options.sampleRate);
+      this.emit(this.length);
+    } else {
+      this.start = nextChunkStart(end, this.layouts[this.index], this.layouts[this.index + 1], this.options, this.fadeLen);
+      this.starts.push(this.start);
+      this.emit(this.earliestLaterStart(end));
+    }
+    this.index++;
+    this.bodyLength = 0;
+    this.heard = false;
+    this.lastLoud = -1;
+    this.written = 0;
+  }
+
+  /** The whole output, once every chunk has ended. */
+  finish(): StitchResult {
+    this.ensureMix(this.length);
+    return {
+      pcm: samplesToPcmBytes(toSamples(this.mix.subarray(0, this.length))),
+      starts: this.starts.map(s => s / this.options.sampleRate),
+    };
+  }
+
+  /**
+   * The earliest any later chunk could start, were the current one to end
+   * at `end`. A zero pause overlaps a chunk with the one before, so a run
+   * of short chunks can reach back past the start of the current one.
+   */
+  private earliestLaterStart(end: number): number {
+    let start = end;
+    let earliest = Infinity;
+    for (let i = this.index; i < this.layouts.length - 1; i++) {
+      start = nextChunkStart(start, this.layouts[i], this.layouts[i + 1], this.options, this.fadeLen);
+      earliest = Math.min(earliest, start);
+    }
+    return earliest;
+  }
+
+  private appendBody(samples: Int16Array) {
+    const needed = this.bodyLength + samples.length;
+    if (needed > this.body.length) {
+      const grown = new Int16Array(Math.max(needed, this.body.length * 2));
+      grown.set(this.body.subarray(0, this.bodyLength));
+      this.body = grown;
+    }
+    this.body.set(samples, this.bodyLength);
+    this.bodyLength = needed;
+  }
+
+  private keepLast(count: number) {
+    if (this.bodyLength <= count) return;
+    this.body.copyWithin(0, this.bodyLength - count, this.bodyLength);
+    this.bodyLength = count;
+  }
+
+  /** Mixes body samples up to `to` onto the output, faded for a chunk `length` long. */
+  private mixBody(to: number, length: number, fadeIn: number, fadeOut: number) {
+    if (to <= this.written) return;
+    this.ensureMix(this.start + to);
+    for (let n = this.written; n < to; n++) {
+      this.mix[this.start + n] += this.body[n] * crossfadeGain(n, length, fadeIn, fadeOut);
+    }
+    this.written = to;
+  }
+
+  private ensureMix(length: number) {
+    if (length <= this.mix.length) return;
+    const grown = new Float32Array(Math.max(length, this.mix.length * 2));
+    grown.set(this.mix);
+    this.mix = grown;
+  }
+
+  private emit(to: number) {
+    if (to <= this.emitted) return;
+    this.ensureMix(to);
+    this.onSamples(toSamples(this.mix.subarray(this.emitted, to)));
+    this.emitted = to;
   }
-  
-  return new Blob([resultBuffer], { type: 'audio/wav' });
+}
+
+const toSamples = (mix: Float32Array): Int16Array => {
+  const output = new Int16Array(mix.length);
+  for (let n = 0; n < mix.length; n++) {
+    output[n] = Math.max(-32768, Math.min(32767, Math.round(mix[n])));
+  }
+  return output;
 };
 
 /**
- * Synthesizes music from a MusicScore using the Web Audio API.
+ * Converts an AudioBuffer to a WAV Blob.
+ */
+export const audioBufferToWav = (buffer: AudioBuffer, bitDepth: WavBitDepth = 16): Blob => {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  return new Blob([encodeWav(channels, { sampleRate: buffer.sampleRate, bitDepth })], { type: 'audio/wav' });
+};
+
+/**
+ * Synthesizes music from a MusicScore using the Web Audio API, as a WAV
+ * with its loop points in a `smpl` chunk.
  */
 export const synthesizeMusic = async (score: MusicScore): Promise<Blob> => {
   const sampleRate = 44100;
-  // Ensure the duration is long enough for at least one loop or the defined duration
-  const duration = Math.max(score.totalDuration, 10); 
-  const offlineCtx = new OfflineAudioContext(1, sampleRate * duration, sampleRate);
-
-  score.notes.forEach(note => {
-    const osc = offlineCtx.createOscillator();
-    const gain = offlineCtx.createGain();
-    
-    osc.type = note.type;
-    osc.frequency.value = note.freq;
-    
-    // Envelope for ambient feel (long attack, long release)
-    const attack = 0.5;
-    const release = 1.0;
-    
-    gain.gain.setValueAtTime(0, note.startTime);
-    gain.gain.linearRampToValueAtTime(0.2, note.startTime + attack); // Low volume for ambient
-    gain.gain.linearRampToValueAtTime(0.2, note.startTime + note.duration - release);
-    gain.gain.linearRampToValueAtTime(0, note.startTime + note.duration);
-    
-    osc.connect(gain);
-    gain.connect(offlineCtx.destination);
-    
-    osc.start(note.startTime);
-    osc.stop(note.startTime + note.duration);
-  });
-
-  const renderedBuffer = await offlineCtx.startRendering();
-  return audioBufferToWav(renderedBuffer);
+  const { channels, loop } = await renderScore(score, sampleRate);
+  return new Blob([encodeWav(channels, { sampleRate, metadata: { markers: [], loop } })], { type: 'audio/wav' });
 };
 
 const writeString = (view: DataView, offset: number, string: string) => {
@@ -150,121 +340,25 @@ export const fetchAudioBuffer = async (url: string, context: BaseAudioContext):
   return await context.decodeAudioData(arrayBuffer);
 };
 
-/**
- * Performs a basic Overlap-Add time stretch to change speed without changing pitch.
- * Note: This is a synchronous operation on PCM data.
- */
-const timeStretch = (buffer: AudioBuffer, speed: number, context: BaseAudioContext): AudioBuffer => {
-  // If speed is 1.0, just return the original (cloned if needed, but here simple return)
-  if (Math.abs(speed - 1.0) < 0.01) return buffer;
-
-  const numChannels = buffer.numberOfChannels;
-  const inputLen = buffer.length;
-  // New length is inversely proportional to speed
-  const outputLen = Math.floor(inputLen / speed);
-  const sampleRate = buffer.sampleRate;
-
-  // Use the passed context to create buffer, avoids creating too many AudioContexts
-  const outputBuffer = context.createBuffer(numChannels, outputLen, sampleRate);
-
-  // Window size ~90ms at 44.1k
-  const windowSize = 4096; 
-  const overlap = windowSize / 2; // 50% overlap
-  
-  // Create Hanning window
-  const hanning = new Float32Array(windowSize);
-  for (let i = 0; i < windowSize; i++) {
-    hanning[i] = 0.5 * (1 - Math.cos((2 * Math.PI * i) / (windowSize - 1)));
-  }
-
-  for (let c = 0; c < numChannels; c++) {
-    const inputData = buffer.getChannelData(c);
-    const outputData = outputBuffer.getChannelData(c);
-
-    // OLA Algorithm
-    // Synthesis hop is fixed (overlap)
-    // Analysis hop scales with speed (overlap * speed)
-    
-    for (let outputOffset = 0; outputOffset < outputLen - windowSize; outputOffset += overlap) {
-        const inputOffset = Math.floor(outputOffset * speed);
-        
-        // Check boundaries
-        if (inputOffset + windowSize >= inputLen) break;
-
-        for (let i = 0; i < windowSize; i++) {
-            // Add windowed input grain to output
-            outputData[outputOffset + i] += inputData[inputOffset + i] * hanning[i];
-        }
-    }
-  }
-
-  return outputBuffer;
-};
+export interface LoopingAudio {
+  buffer: AudioBuffer;
+  loop: TimeRegion; // Seconds into the buffer
+}
 
 /**
- * Renders the final audio mix (speech + music) at the specific speed.
- * This physically resamples the audio to match the new duration while preserving pitch.
+ * Fetches and decodes a track along with where it loops: its WAV loop
+ * points when it has them, as synthesized music does, else the whole track.
  */
-export const renderEnhancedAudio = async (
-  speechUrl: string,
-  musicUrl: string | null,
-  speed: number,
-  musicVolume: number
-): Promise<Blob> => {
-  // Create one temporary context for decoding
-  const tempCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
-  
+export const fetchLoopingAudio = async (url: string, context: BaseAudioContext): Promise<LoopingAudio> => {
+  const bytes = new Uint8Array(await (await fetch(url)).arrayBuffer());
+  let loop: TimeRegion | undefined;
   try {
-    const speechBuffer = await fetchAudioBuffer(speechUrl, tempCtx);
-    let musicBuffer: AudioBuffer | null = null;
-    if (musicUrl) {
-      musicBuffer = await fetchAudioBuffer(musicUrl, tempCtx);
-    }
-
-    // 1. Time-Stretch Speech to new duration (Preserves Pitch)
-    // We pass tempCtx to reuse it for buffer creation inside timeStretch
-    const stretchedSpeechBuffer = timeStretch(speechBuffer, speed, tempCtx);
-
-    const newDuration = stretchedSpeechBuffer.duration;
-    const sampleRate = 44100;
-
-    // 2. Mix using Offline Context
-    const offlineCtx = new OfflineAudioContext(2, newDuration * sampleRate, sampleRate);
-
-    // Speech Source
-    const speechSource = offlineCtx.createBufferSource();
-    speechSource.buffer = stretchedSpeechBuffer;
-    // Since we already manually stretched it to the correct length, we play it at 1.0 rate
-    speechSource.playbackRate.value = 1.0; 
-    speechSource.connect(offlineCtx.destination);
-    speechSource.start(0);
-
-    // Music Source (if exists)
-    if (musicBuffer) {
-      const musicSource = offlineCtx.createBufferSource();
-      const musicGain = offlineCtx.createGain();
-      
-      musicSource.buffer = musicBuffer;
-      musicSource.loop = true;
-      
-      // IMPORTANT: Do not pitch shift background music. 
-      // Keep it ambient at 1.0x speed, just loop it to fill the new duration.
-      musicSource.playbackRate.value = 1.0; 
-      
-      musicGain.gain.value = musicVolume;
-      
-      musicSource.connect(musicGain);
-      musicGain.connect(offlineCtx.destination);
-      musicSource.start(0);
-    }
-
-    // Render
-    const renderedBuffer = await offlineCtx.startRendering();
-    return audioBufferToWav(renderedBuffer);
-  } finally {
-    // Clean up context to release hardware resources
-    if (tempCtx.state !== 'closed' && 'close' in tempCtx) {
-       await (tempCtx as any).close();
-    }
+    loop = readWavMetadata(bytes).loop;
+  } catch {
+    // Not a WAV; it loops whole
   }
-};
\ No newline at end of file
+  // Decoding detaches the bytes, so the metadata is read first
+  const buffer = await context.decodeAudioData(bytes.buffer);
+  const valid = loop && loop.start >= 0 && loop.end > loop.start && loop.end <= buffer.duration + 0.001;
+  return { buffer, loop: valid ? loop! : { start: 0, end: buffer.duration } };
+};
@@ -0,0 +1,146 @@
+import { BatchRow, Tone, ToneStyle, VoiceName } from "../types";
+import { findToneStyle } from "./tones";
+
+/**
+ * Reads batch rows from CSV or JSON. CSV needs a header row naming its
+ * columns; JSON is an array of objects, or an object with a `rows` array.
+ * Columns are id, text, voice, tone and music. Voice and tone fall back to
+ * the given defaults, and the tone may name a custom style.
+ */
+
+export interface BatchImport {
+  rows: BatchRow[];
+  errors: string[]; // Rows with errors are left out of `rows`
+}
+
+export const MAX_BATCH_ROWS = 500;
+
+const COLUMNS = ['id', 'text', 'voice', 'tone', 'music'] as const;
+type Column = typeof COLUMNS[number];
+
+/** RFC 4180 fields: quoted fields may hold commas, newlines and doubled quotes. */
+const parseCsv = (source: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  const text = source.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === ',') {
+      record.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records.filter(r => r.some(f => f.trim()));
+};
+
+const csvObjects = (source: string): Array<Record<string, unknown>> => {
+  const [header = [], ...records] = parseCsv(source);
+  const names = header.map(h => h.trim().toLowerCase());
+  if (!names.includes('text')) throw new Error("The CSV header needs a \"text\" column.");
+  return records.map(record => Object.fromEntries(names.map((name, i) => [name, record[i] ?? ''])));
+};
+
+const jsonObjects = (source: string): Array<Record<string, unknown>> => {
+  const data = JSON.parse(source);
+  const rows = Array.isArray(data) ? data : data?.rows;
+  if (!Array.isArray(rows)) throw new Error("The JSON needs an array of rows, or an object with a \"rows\" array.");
+  return rows.map(row => (row && typeof row === 'object' ? row : {}));
+};
+
+const cell = (raw: Record<string, unknown>, column: Column): string => {
+  const key = Object.keys(raw).find(k => k.trim().toLowerCase() === column);
+  const value = key === undefined ? undefined : raw[key];
+  return value === undefined || value === null ? '' : String(value).trim();
+};
+
+const TRUTHY = ['true', 'yes', 'y', '1', 'x'];
+const FALSY = ['', 'false', 'no', 'n', '0'];
+
+// Keeps ids usable as file names on every platform
+const safeId = (id: string): string => id.replace(/[^\w.-]+/g, '_').replace(/^\.+/, '').slice(0, 80);
+
+/** Parses a CSV or JSON file's text into rows, reporting problems per row. */
+export const parseBatchFile = (
+  fileName: string,
+  source: string,
+  defaults: { voice: VoiceName; tone: Tone },
+  styles: ToneStyle[] = []
+): BatchImport => {
+  let objects: Array<Record<string, unknown>>;
+  try {
+    objects = /\.json$/i.test(fileName) || /^\s*[[{]/.test(source) ? jsonObjects(source) : csvObjects(source);
+  } catch (error) {
+    return { rows: [], errors: [error instanceof SyntaxError ? `Invalid JSON: ${error.message}` : (error as Error).message] };
+  }
+
+  const rows: BatchRow[] = [];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  objects.slice(0, MAX_BATCH_ROWS).forEach((raw, index) => {
+    const fail = (message: string) => {
+      errors.push(`Row ${index + 1}: ${message}`);
+    };
+    const text = cell(raw, 'text');
+    const id = safeId(cell(raw, 'id') || `row-${index + 1}`);
+    const voiceName = cell(raw, 'voice');
+    const toneName = cell(raw, 'tone');
+    const music = cell(raw, 'music').toLowerCase();
+
+    const voice = voiceName
+      ? Object.values(VoiceName).find(v => v.toLowerCase() === voiceName.toLowerCase())
+      : defaults.voice;
+    const tone = toneName
+      ? Object.values(Tone).find(t => t.toLowerCase() === toneName.toLowerCase())
+      : defaults.tone;
+    const style = toneName && !tone ? findToneStyle(styles, toneName) : undefined;
+
+    if (!text) return fail("the text is empty.");
+    if (!id) return fail("the id has no usable characters.");
+    if (seen.has(id.toLowerCase())) return fail(`the id "${id}" is used more than once.`);
+    if (!voice) return fail(`unknown voice "${voiceName}".`);
+    if (!tone && !style) return fail(`unknown tone "${toneName}".`);
+    if (!TRUTHY.includes(music) && !FALSY.includes(music)) return fail(`music should be yes or no, not "${music}".`);
+
+    seen.add(id.toLowerCase());
+    rows.push({
+      id,
+      text,
+      voice,
+      tone: style ? style.base : tone!,
+      ...(style ? { style } : {}),
+      music: TRUTHY.includes(music),
+    });
+  });
+
+  if (objects.length > MAX_BATCH_ROWS) {
+    errors.push(`Only the first ${MAX_BATCH_ROWS} of ${objects.length} rows were read.`);
+  }
+  return { rows, errors };
+};
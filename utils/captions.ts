@@ -0,0 +1,148 @@
+import { CaptionFormat, SpeechAlignment, TimeRegion, TimedWord } from "../types";
+
+const CUE_MAX_CHARS = 84;  // Two lines
+const LINE_MAX_CHARS = 42;
+const MIN_CUE_SECONDS = 1; // Short cues are held this long when the next one allows
+
+/** How the exported audio relates to the speech timeline. */
+export interface CaptionTiming {
+  speed: number;
+  region: TimeRegion | null; // Only this part was exported
+}
+
+interface Cue {
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string;
+  turnStart: boolean; // First cue of a dialogue turn
+}
+
+/**
+ * Returns a function that moves speech times onto the exported timeline,
+ * or null for times outside the exported region.
+ */
+const retimer = ({ speed, region }: CaptionTiming) => {
+  const { start, end } = region ?? { start: 0, end: Infinity };
+  return <T extends TimedWord>(item: T): T | null => {
+    if (item.end <= start || item.start >= end) return null;
+    return {
+      ...item,
+      start: (Math.max(start, item.start) - start) / speed,
+      end: (Math.min(end, item.end) - start) / speed,
+    };
+  };
+};
+
+/** Breaks cue text into at most two lines, at the space nearest the middle. */
+const wrapLines = (text: string): string => {
+  if (text.length <= LINE_MAX_CHARS) return text;
+  const middle = text.length / 2;
+  let best = -1;
+  for (let i = text.indexOf(' '); i >= 0; i = text.indexOf(' ', i + 1)) {
+    if (best < 0 || Math.abs(i - middle) < Math.abs(best - middle)) best = i;
+  }
+  return best < 0 ? text : `${text.slice(0, best)}\n${text.slice(best + 1)}`;
+};
+
+/**
+ * One cue per sentence, with long sentences split between words so no cue
+ * runs past two lines. Cues never overlap, and short ones are held a little
+ * longer when there is room.
+ */
+const buildCues = (alignment: SpeechAlignment, timing: CaptionTiming): Cue[] => {
+  const retime = retimer(timing);
+  const cues: Cue[] = [];
+  let paragraph = -1;
+
+  alignment.sentences.forEach(sentence => {
+    const words = sentence.words.map(retime).filter((w): w is TimedWord => w !== null);
+    let group: TimedWord[] = [];
+    const flush = () => {
+      if (group.length === 0) return;
+      cues.push({
+        start: group[0].start,
+        end: group[group.length - 1].end,
+        text: group.map(w => w.text).join(' '),
+        speaker: sentence.speaker,
+        turnStart: sentence.paragraph !== paragraph,
+      });
+      paragraph = sentence.paragraph;
+      group = [];
+    };
+    words.forEach(word => {
+      const length = group.reduce((sum, w) => sum + w.text.length + 1, 0) + word.text.length;
+      if (length > CUE_MAX_CHARS) flush();
+      group.push(word);
+    });
+    flush();
+  });
+
+  cues.forEach((cue, i) => {
+    const next = cues[i + 1]?.start ?? Infinity;
+    cue.end = Math.min(Math.max(cue.end, cue.start + MIN_CUE_SECONDS), Math.max(cue.end, next));
+  });
+  return cues;
+};
+
+const timestamp = (seconds: number, separator: ',' | '.'): string => {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor(ms / 60000) % 60;
+  const s = Math.floor(ms / 1000) % 60;
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+const escapeVtt = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const toSrt = (cues: Cue[]): string =>
+  cues.map((cue, i) => {
+    const text = cue.speaker && cue.turnStart ? `${cue.speaker}: ${cue.text}` : cue.text;
+    return `${i + 1}\n${timestamp(cue.start, ',')} --> ${timestamp(cue.end, ',')}\n${wrapLines(text)}\n`;
+  }).join('\n');
+
+const toWebVtt = (cues: Cue[]): string =>
+  ['WEBVTT\n', ...cues.map(cue => {
+    const text = escapeVtt(wrapLines(cue.text));
+    const voiced = cue.speaker ? `<v ${escapeVtt(cue.speaker)}>${text}` : text;
+    return `${timestamp(cue.start, '.')} --> ${timestamp(cue.end, '.')}\n${voiced}\n`;
+  })].join('\n');
+
+/** Every sentence and word with its times in seconds on the exported timeline. */
+const toWordTimings = (alignment: SpeechAlignment, timing: CaptionTiming): string => {
+  const retime = retimer(timing);
+  const round = (t: number) => Math.round(t * 1000) / 1000;
+  const { start, end } = timing.region ?? { start: 0, end: alignment.duration };
+  const sentences = alignment.sentences.flatMap(sentence => {
+    const timed = retime(sentence);
+    if (!timed) return [];
+    return [{
+      text: sentence.text,
+      ...(sentence.speaker ? { speaker: sentence.speaker } : {}),
+      start: round(timed.start),
+      end: round(timed.end),
+      words: sentence.words
+        .map(retime)
+        .filter((w): w is TimedWord => w !== null)
+        .map(w => ({ text: w.text, start: round(w.start), end: round(w.end) })),
+    }];
+  });
+  return JSON.stringify({ speed: timing.speed, duration: round((end - start) / timing.speed), sentences }, null, 2);
+};
+
+/**
+ * Writes captions for the exported audio: SRT, WebVTT, or a JSON file of
+ * sentence and word timings. Times follow the export's speed and region.
+ */
+export const formatCaptions = (alignment: SpeechAlignment, format: CaptionFormat, timing: CaptionTiming): string => {
+  switch (format) {
+    case 'srt':
+      return toSrt(buildCues(alignment, timing));
+    case 'vtt':
+      return toWebVtt(buildCues(alignment, timing));
+    case 'json':
+      return toWordTimings(alignment, timing);
+  }
+};
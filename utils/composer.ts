@@ -0,0 +1,224 @@
+import { Instrument, MusicScore, Note, ReverbSettings, Tone } from "../types";
+import { createRandom } from "./random";
+import { midiToFreq, MusicKey, repairScore, SCALES, ScaleMode } from "./score";
+
+/**
+ * A procedural composer that needs no network. A mood picks the key, tempo,
+ * chord progressions and arrangement; a seed picks among them and places
+ * the ornaments, so the same mood and seed always give the same score.
+ */
+
+export type Mood = 'calm' | 'happy' | 'sad' | 'tense' | 'angry';
+
+export interface ComposeOptions {
+  mood: Mood;
+  seed: number;
+  minDuration?: number; // Seconds; the progression repeats until the loop is at least this long
+}
+
+interface MoodProfile {
+  mode: ScaleMode;
+  tonics: number[];            // Pitch classes to choose from
+  tempo: [number, number];
+  progressions: number[][];    // Scale degrees, 0 = the tonic chord
+  barsPerChord: number;
+  pad: { type: Note['type']; velocity: number };
+  bass: { pattern: 'sustain' | 'pulse'; velocity: number };
+  arpeggio: { instrument: Instrument; stepsPerBeat: number; density: number; velocity: number } | null;
+  bellChance: number;          // Of a bell marking each chord change
+  percussion: { kick: number[]; snare: number[]; hatDensity: number; velocity: number } | null; // Beats in the bar
+  reverb: ReverbSettings;
+}
+
+const PROFILES: Record<Mood, MoodProfile> = {
+  calm: {
+    mode: 'major',
+    tonics: [0, 2, 5, 7],
+    tempo: [64, 76],
+    progressions: [[0, 4, 5, 3], [0, 3, 0, 4], [5, 3, 0, 4], [0, 5, 3, 4]],
+    barsPerChord: 2,
+    pad: { type: 'sine', velocity: 0.55 },
+    bass: { pattern: 'sustain', velocity: 0.45 },
+    arpeggio: { instrument: 'pluck', stepsPerBeat: 1, density: 0.5, velocity: 0.35 },
+    bellChance: 0.3,
+    percussion: null,
+    reverb: { mix: 0.3, decay: 3 },
+  },
+  happy: {
+    mode: 'major',
+    tonics: [0, 2, 7, 9],
+    tempo: [96, 112],
+    progressions: [[0, 4, 5, 3], [0, 3, 4, 3], [3, 4, 2, 5], [0, 5, 3, 4]],
+    barsPerChord: 1,
+    pad: { type: 'triangle', velocity: 0.45 },
+    bass: { pattern: 'pulse', velocity: 0.5 },
+    arpeggio: { instrument: 'pluck', stepsPerBeat: 2, density: 0.8, velocity: 0.45 },
+    bellChance: 0.2,
+    percussion: { kick: [0, 2], snare: [], hatDensity: 0.7, velocity: 0.35 },
+    reverb: { mix: 0.2, decay: 1.8 },
+  },
+  sad: {
+    mode: 'minor',
+    tonics: [9, 4, 2, 11],
+    tempo: [56, 66],
+    progressions: [[0, 5, 2, 6], [0, 3, 5, 4], [0, 6, 5, 6], [0, 5, 3, 4]],
+    barsPerChord: 2,
+    pad: { type: 'sine', velocity: 0.55 },
+    bass: { pattern: 'sustain', velocity: 0.4 },
+    arpeggio: { instrument: 'bell', stepsPerBeat: 1, density: 0.3, velocity: 0.3 },
+    bellChance: 0.4,
+    percussion: null,
+    reverb: { mix: 0.4, decay: 4 },
+  },
+  tense: {
+    mode: 'minor',
+    tonics: [4, 11, 1, 6],
+    tempo: [60, 72],
+    progressions: [[0, 1, 0, 1], [0, 5, 1, 4], [0, 0, 1, 0]],
+    barsPerChord: 2,
+    pad: { type: 'triangle', velocity: 0.45 },
+    bass: { pattern: 'sustain', velocity: 0.55 },
+    arpeggio: { instrument: 'bell', stepsPerBeat: 2, density: 0.15, velocity: 0.25 },
+    bellChance: 0.5,
+    percussion: { kick: [0], snare: [], hatDensity: 0, velocity: 0.4 },
+    reverb: { mix: 0.45, decay: 5 },
+  },
+  angry: {
+    mode: 'minor',
+    tonics: [4, 9, 2, 7],
+    tempo: [112, 128],
+    progressions: [[0, 5, 6, 0], [0, 6, 5, 4], [0, 3, 5, 4]],
+    barsPerChord: 1,
+    pad: { type: 'sawtooth', velocity: 0.35 },
+    bass: { pattern: 'pulse', velocity: 0.6 },
+    arpeggio: { instrument: 'pluck', stepsPerBeat: 2, density: 0.6, velocity: 0.45 },
+    bellChance: 0,
+    percussion: { kick: [0, 1.5, 2], snare: [1, 3], hatDensity: 0.5, velocity: 0.5 },
+    reverb: { mix: 0.15, decay: 1.2 },
+  },
+};
+
+const TONE_MOODS: Record<Tone, Mood> = {
+  [Tone.Normal]: 'calm',
+  [Tone.Happy]: 'happy',
+  [Tone.Sad]: 'sad',
+  [Tone.Scary]: 'tense',
+  [Tone.Angry]: 'angry',
+};
+
+const MOOD_WORDS: Record<Mood, RegExp> = {
+  calm: /\b(calm|peace|peaceful|quiet|gentle|soft|relax|dream|sleep|ocean|breeze|still|rest)\b/gi,
+  happy: /\b(happy|joy|sun|bright|love|smile|laugh|hope|warm|friend|celebrate|fun|win|great)\b/gi,
+  sad: /\b(sad|cry|tears|alone|lost|grief|miss|goodbye|sorrow|lonely|death|dead|pain)\b/gi,
+  tense: /\b(scary|ghost|fear|dark|night|storm|shadow|mystery|horror|danger|creep|whisper|cold)\b/gi,
+  angry: /\b(angry|rage|fight|war|hate|furious|battle|fury|scream|attack|revenge)\b/gi,
+};
+
+export const MOODS = Object.keys(PROFILES) as Mood[];
+
+/**
+ * The mood a tone, a mood name or a passage of text suggests. Text is read
+ * by counting mood words; with none at all it is calm.
+ */
+export const moodFor = (hint: Tone | string): Mood => {
+  if (hint in TONE_MOODS) return TONE_MOODS[hint as Tone];
+  const word = hint.trim().toLowerCase();
+  if ((MOODS as string[]).includes(word)) return word as Mood;
+
+  let best: Mood = 'calm';
+  let bestCount = 0;
+  MOODS.forEach(mood => {
+    const count = (hint.match(MOOD_WORDS[mood]) || []).length;
+    if (count > bestCount) {
+      best = mood;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+/** Semitones above the tonic of a scale degree, which may run past the octave. */
+const degreeSemitones = (mode: ScaleMode, degree: number) =>
+  SCALES[mode][((degree % 7) + 7) % 7] + 12 * Math.floor(degree / 7);
+
+export const composeScore = ({ mood, seed, minDuration = 12 }: ComposeOptions): MusicScore => {
+  const profile = PROFILES[mood];
+  const random = createRandom(seed);
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+  const vary = (velocity: number) => Math.min(1, velocity * (0.85 + 0.3 * random()));
+
+  const key: MusicKey = { tonic: pick(profile.tonics), mode: profile.mode };
+  const tempo = Math.round(profile.tempo[0] + random() * (profile.tempo[1] - profile.tempo[0]));
+  const beat = 60 / tempo;
+  const chordSeconds = profile.barsPerChord * 4 * beat;
+  const progression = pick(profile.progressions);
+  const repeats = Math.max(1, Math.ceil(minDuration / (progression.length * chordSeconds)));
+  // Pads voiced in the octave from C3, bass an octave below
+  const padRoot = 48 + key.tonic;
+  const bassRoot = 36 + key.tonic;
+
+  const notes: Note[] = [];
+  const add = (midi: number, startTime: number, duration: number, instrument: Instrument, velocity: number, extra: Partial<Note> = {}) =>
+    notes.push({ freq: midiToFreq(midi), startTime, duration, type: 'sine', instrument, velocity: vary(velocity), ...extra });
+  const hit = (freq: number, startTime: number, duration: number, velocity: number, pan = 0) =>
+    notes.push({ freq, startTime, duration, type: 'sine', instrument: 'percussion', velocity: vary(velocity), pan });
+
+  for (let c = 0; c < progression.length * repeats; c++) {
+    const degree = progression[c % progression.length];
+    const start = c * chordSeconds;
+    const triad = [0, 2, 4].map(step => degreeSemitones(key.mode, degree + step));
+    const pad = triad.map(semitones => padRoot + (semitones >= 12 ? semitones - 12 : semitones));
+
+    pad.forEach((midi, i) => add(midi, start, chordSeconds - beat / 2, 'pad', profile.pad.velocity, {
+      type: profile.pad.type,
+      pan: (i - 1) * 0.5,
+    }));
+
+    const bass = bassRoot + (triad[0] % 12);
+    if (profile.bass.pattern === 'sustain') {
+      add(bass, start, chordSeconds - beat / 2, 'bass', profile.bass.velocity);
+    } else {
+      for (let b = 0; b < chordSeconds / beat - 0.5; b++) {
+        add(bass, start + b * beat, beat * 0.7, 'bass', profile.bass.velocity * (b % 2 === 0 ? 1 : 0.75));
+      }
+    }
+
+    if (profile.arpeggio) {
+      const { instrument, stepsPerBeat, density, velocity } = profile.arpeggio;
+      const step = beat / stepsPerBeat;
+      const steps = Math.round(chordSeconds / step);
+      for (let s = 0; s < steps; s++) {
+        if (random() >= density) continue;
+        const midi = pad[s % pad.length] + 12 * (1 + Math.floor(s / pad.length) % 2);
+        add(midi, start + s * step, step * 0.9, instrument, velocity, { pan: random() * 1.2 - 0.6 });
+      }
+    }
+
+    if (random() < profile.bellChance) {
+      add(pad[2] + 24, start, beat, 'bell', 0.3, { pan: random() < 0.5 ? -0.4 : 0.4 });
+    }
+
+    if (profile.percussion) {
+      const { kick, snare, hatDensity, velocity } = profile.percussion;
+      for (let bar = 0; bar < profile.barsPerChord; bar++) {
+        const barStart = start + bar * 4 * beat;
+        kick.forEach(b => hit(55, barStart + b * beat, 0.12, velocity));
+        snare.forEach(b => hit(1800, barStart + b * beat, 0.1, velocity * 0.8));
+        for (let e = 0; e < 8; e++) {
+          if (e % 2 === 1 && random() < hatDensity) {
+            hit(7000, barStart + (e / 2) * beat, 0.04, velocity * 0.5, 0.3);
+          }
+        }
+      }
+    }
+  }
+
+  const score = {
+    notes,
+    totalDuration: progression.length * repeats * chordSeconds,
+    tempo,
+    reverb: profile.reverb,
+  };
+  // Already in key; this only makes sure the loop ends cleanly
+  return repairScore(score, { key }).score;
+};
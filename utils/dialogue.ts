@@ -0,0 +1,145 @@
+import { Casting, DialogueLine, MarkupError, SpeakerCasting, SpeechSegment, Tone, ToneStyle, VoiceName } from "../types";
+import { markupToSpeechSegments, parseMarkup } from "./markup";
+
+// "Name: line" — names are short and start with a letter, so timestamps
+// ("10:30") and URLs ("https://") are not mistaken for speakers.
+const SPEAKER_LINE = /^\s*([A-Za-z][\w .'-]{0,29}?)\s*:\s+(.+)$/;
+
+interface SourcePosition {
+  line: number;   // 1-based, in the script
+  column: number; // 1-based
+}
+
+interface SourcedLine extends DialogueLine {
+  sources: SourcePosition[]; // Where each character of `text` came from
+}
+
+const sourcesOf = (line: number, start: number, length: number): SourcePosition[] =>
+  Array.from({ length }, (_, k) => ({ line, column: start + k + 1 }));
+
+/** Appends a continuation to a line, joined by a space that maps to the continuation's start. */
+const extendLine = (last: SourcedLine, text: string, sources: SourcePosition[]) => {
+  last.text = `${last.text} ${text}`;
+  last.sources = [...last.sources, sources[0], ...sources];
+};
+
+const parseSourcedLines = (text: string): SourcedLine[] => {
+  const lines: SourcedLine[] = [];
+
+  text.split('\n').forEach((raw, i) => {
+    const match = raw.match(SPEAKER_LINE);
+    if (match) {
+      const body = match[2].trim();
+      const sources = sourcesOf(i + 1, raw.length - match[2].length, body.length);
+      lines.push({ speaker: match[1].trim(), text: body, line: i + 1, sources });
+    } else if (raw.trim() && lines.length > 0) {
+      const body = raw.trim();
+      extendLine(lines[lines.length - 1], body, sourcesOf(i + 1, raw.search(/\S/), body.length));
+    }
+  });
+
+  return lines;
+};
+
+/**
+ * Parses a `Name: line` script. Lines without a speaker prefix continue the
+ * previous speaker's line; text before the first prefix is ignored.
+ */
+export const parseDialogue = (text: string): DialogueLine[] =>
+  parseSourcedLines(text).map(({ speaker, text, line }) => ({ speaker, text, line }));
+
+/**
+ * Returns the distinct speakers of a dialogue in order of first appearance.
+ */
+export const detectSpeakers = (lines: DialogueLine[]): string[] => {
+  return Array.from(new Set(lines.map(l => l.speaker)));
+};
+
+/**
+ * Heuristic used to suggest dialogue mode: at least two prefixed lines from
+ * at least two different speakers.
+ */
+export const looksLikeDialogue = (text: string): boolean => {
+  const lines = parseDialogue(text);
+  return lines.length >= 2 && detectSpeakers(lines).length >= 2;
+};
+
+/**
+ * Builds a full casting for `speakers`, keeping any explicit choices from
+ * `overrides` and assigning distinct default voices to everyone else.
+ */
+export const castSpeakers = (speakers: string[], overrides: Casting): Casting => {
+  const voices = Object.values(VoiceName);
+  const casting: Casting = {};
+
+  speakers.forEach((speaker, i) => {
+    const fallback: SpeakerCasting = { voice: voices[i % voices.length], tone: Tone.Normal };
+    casting[speaker] = overrides[speaker] ?? fallback;
+  });
+
+  return casting;
+};
+
+/**
+ * Merges consecutive lines by the same speaker into one turn. Each turn is
+ * voiced as one paragraph and gets one marker.
+ */
+export const mergeTurns = (lines: DialogueLine[]): DialogueLine[] => {
+  const turns: DialogueLine[] = [];
+  lines.forEach(line => {
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === line.speaker) {
+      last.text = `${last.text} ${line.text}`;
+    } else {
+      turns.push({ ...line });
+    }
+  });
+  return turns;
+};
+
+/**
+ * Turns dialogue lines into the ordered list of speech segments to
+ * synthesize. Consecutive lines by the same speaker are merged into one
+ * turn, and each turn's markup is applied and chunked like narration.
+ */
+export const sequenceDialogue = (
+  lines: DialogueLine[],
+  casting: Casting,
+  maxChars: number,
+  styles: ToneStyle[] = []
+): SpeechSegment[] => {
+  return mergeTurns(lines).flatMap(turn => {
+    const { voice, tone, style } = casting[turn.speaker];
+    const markup = parseMarkup(turn.text, styles);
+    if (markup.errors.length > 0) {
+      throw new Error(`Script markup error in ${turn.speaker}'s line ${turn.line}: ${markup.errors[0].message}`);
+    }
+    const segments = markupToSpeechSegments(markup.segments, voice, tone, maxChars, style);
+    // A turn change always gets the longer pause
+    if (segments.length > 0) segments[segments.length - 1].endsParagraph = true;
+    return segments;
+  });
+};
+
+/**
+ * Checks a dialogue's markup the way generation applies it: turn by turn,
+ * so a tag can't open in one turn and close in the next. Positions are in
+ * the script, like narration's markup errors.
+ */
+export const dialogueMarkupErrors = (text: string, styles: ToneStyle[] = []): MarkupError[] => {
+  const turns: SourcedLine[] = [];
+  parseSourcedLines(text).forEach(line => {
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === line.speaker) extendLine(last, line.text, line.sources);
+    else turns.push({ ...line });
+  });
+
+  return turns.flatMap(turn =>
+    parseMarkup(turn.text, styles).errors.map(({ column, message }) => {
+      // A turn is one line of markup; errors at its very end point just past it
+      const last = turn.sources[turn.sources.length - 1];
+      const at = turn.sources[column - 1] ?? { line: last.line, column: last.column + 1 };
+      return { ...at, message };
+    })
+  );
+};
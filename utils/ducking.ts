@@ -0,0 +1,122 @@
+import { DuckingSettings } from "../types";
+
+/**
+ * Sidechain ducking for the background music. Speech activity is detected
+ * once per speech buffer; the gain curve derived from it is cheap to
+ * rebuild, so it follows the settings and playback speed live. Export and
+ * preview read the same curve, so they duck identically.
+ */
+
+export const DEFAULT_DUCKING: DuckingSettings = {
+  enabled: true,
+  depthDb: 10,
+  attackMs: 150,
+  releaseMs: 600,
+  holdMs: 250,
+  fadeInMs: 2000,
+  fadeOutMs: 3000,
+};
+
+export const ACTIVITY_FRAME_RATE = 100; // Frames per second of speech time
+
+const SILENCE_FLOOR_DB = -50;
+const ACTIVITY_RANGE_DB = 35; // Frames this far below the loudest count as silence
+
+export interface DuckingCurve {
+  frameRate: number; // Frames per second of speech time (1.0x)
+  gains: Float32Array; // Music gain multiplier per frame, 0..1
+}
+
+/** RMS level of each 10 ms frame across all channels, in dBFS. */
+export const measureFrameLevels = (channels: Float32Array[], sampleRate: number): Float32Array => {
+  const frameLength = Math.max(1, Math.round(sampleRate / ACTIVITY_FRAME_RATE));
+  const length = channels[0]?.length ?? 0;
+  const frameCount = Math.ceil(length / frameLength);
+  const levels = new Float32Array(frameCount);
+
+  for (let f = 0; f < frameCount; f++) {
+    let sum = 0;
+    let count = 0;
+    for (const x of channels) {
+      for (let i = f * frameLength; i < Math.min(length, (f + 1) * frameLength); i++) {
+        sum += x[i] * x[i];
+        count++;
+      }
+    }
+    levels[f] = 10 * Math.log10(sum / Math.max(1, count) + 1e-12);
+  }
+  return levels;
+};
+
+/** Marks each 10 ms frame of speech as active (1) or silent (0). */
+export const detectSpeechActivity = (channels: Float32Array[], sampleRate: number): Uint8Array => {
+  const levels = measureFrameLevels(channels, sampleRate);
+  let loudest = -Infinity;
+  for (let f = 0; f < levels.length; f++) loudest = Math.max(loudest, levels[f]);
+
+  const threshold = Math.max(SILENCE_FLOOR_DB, loudest - ACTIVITY_RANGE_DB);
+  const activity = new Uint8Array(levels.length);
+  for (let f = 0; f < levels.length; f++) activity[f] = levels[f] > threshold ? 1 : 0;
+  return activity;
+};
+
+/**
+ * Turns speech activity into a music gain curve on the speech timeline.
+ * Hold keeps the duck through short gaps; attack ramps down ahead of each
+ * phrase (the whole buffer is known, so the duck can look ahead) and
+ * release ramps back up afterwards. Times are real time at `speed`, so a
+ * faster read keeps the same feel. Fades cover the start and the end.
+ */
+export const buildDuckingCurve = (activity: Uint8Array, settings: DuckingSettings, speed = 1): DuckingCurve => {
+  const n = activity.length;
+  const gains = new Float32Array(n).fill(1);
+  const framesFor = (ms: number) => (ms / 1000) * ACTIVITY_FRAME_RATE * speed;
+  const coef = (ms: number) => (ms > 0 ? Math.exp(-1 / framesFor(ms)) : 0);
+
+  if (settings.enabled && settings.depthDb > 0) {
+    const ducked = 10 ** (-settings.depthDb / 20);
+    const holdFrames = Math.round(framesFor(settings.holdMs));
+
+    // Target gain with hold applied after each active frame
+    let held = -Infinity;
+    for (let i = 0; i < n; i++) {
+      if (activity[i]) held = i;
+      gains[i] = i - held <= holdFrames ? ducked : 1;
+    }
+
+    // Release: the gain drops instantly and recovers with the release time
+    const release = coef(settings.releaseMs);
+    let g = 1;
+    for (let i = 0; i < n; i++) {
+      g = gains[i] < g ? gains[i] : gains[i] + (g - gains[i]) * release;
+      gains[i] = g;
+    }
+
+    // Attack: walking backwards, ramp down ahead of each duck
+    const attack = coef(settings.attackMs);
+    g = 1;
+    for (let i = n - 1; i >= 0; i--) {
+      g = Math.min(gains[i], 1 + (g - 1) * attack);
+      gains[i] = g;
+    }
+  }
+
+  const fadeIn = framesFor(settings.fadeInMs);
+  const fadeOut = framesFor(settings.fadeOutMs);
+  for (let i = 0; i < n; i++) {
+    if (fadeIn > 0 && i < fadeIn) gains[i] *= i / fadeIn;
+    if (fadeOut > 0 && n - i < fadeOut) gains[i] *= (n - i) / fadeOut;
+  }
+
+  return { frameRate: ACTIVITY_FRAME_RATE, gains };
+};
+
+/** Linearly interpolated gain at `time` seconds of speech time. */
+export const duckingGainAt = (curve: DuckingCurve, time: number): number => {
+  const { gains, frameRate } = curve;
+  if (gains.length === 0) return 1;
+  const position = Math.max(0, Math.min(gains.length - 1, time * frameRate));
+  const i = Math.floor(position);
+  const frac = position - i;
+  return i + 1 < gains.length ? gains[i] + (gains[i + 1] - gains[i]) * frac : gains[i];
+};
@@ -0,0 +1,493 @@
+import { EffectsPreset, EqBand, SpeechEffect, SpeechEffectKind } from "../types";
+import { ReverbTail, STEREO_SPREAD } from "./reverb";
+
+/**
+ * The speech effects chain. Every stage processes stereo blocks in place
+ * and keeps its state between blocks, so the player runs the chain live in
+ * an AudioWorklet and the export runs the very same code over the whole
+ * stretched speech: what plays is what exports.
+ */
+
+type EffectOf<K extends SpeechEffectKind> = Extract<SpeechEffect, { kind: K }>;
+
+const DEFAULT_EFFECTS: { [K in SpeechEffectKind]: EffectOf<K> } = {
+  eq: {
+    kind: 'eq',
+    enabled: true,
+    bands: [
+      { type: 'highpass', frequency: 80, gainDb: 0, q: 0.71 },
+      { type: 'peaking', frequency: 3000, gainDb: 2, q: 1 },
+    ],
+  },
+  compressor: { kind: 'compressor', enabled: true, thresholdDb: -20, ratio: 3, attackMs: 10, releaseMs: 150, makeupDb: 4 },
+  deesser: { kind: 'deesser', enabled: true, frequency: 6000, thresholdDb: -30, rangeDb: 8 },
+  gate: { kind: 'gate', enabled: true, thresholdDb: -50, attackMs: 2, holdMs: 80, releaseMs: 120, rangeDb: 40 },
+  distortion: { kind: 'distortion', enabled: true, driveDb: 12, mix: 0.6 },
+  reverb: { kind: 'reverb', enabled: true, mix: 0.25, decay: 1.5 },
+};
+
+export const EFFECT_KINDS = Object.keys(DEFAULT_EFFECTS) as SpeechEffectKind[];
+
+const EQ_BAND_TYPES: EqBand['type'][] = ['peaking', 'lowshelf', 'highshelf', 'highpass', 'lowpass'];
+
+export const DEFAULT_EQ_BAND: EqBand = { type: 'peaking', frequency: 1000, gainDb: 0, q: 1 };
+
+/** A fresh stage with its default settings. */
+export const createEffect = <K extends SpeechEffectKind>(kind: K): EffectOf<K> => {
+  const effect: SpeechEffect = DEFAULT_EFFECTS[kind];
+  const copy = effect.kind === 'eq' ? { ...effect, bands: effect.bands.map(b => ({ ...b })) } : { ...effect };
+  return copy as EffectOf<K>;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Copies the fields `defaults` has from `raw`, where they have the same type. */
+const mergeFields = <T extends object>(defaults: T, raw: unknown): T => {
+  const merged: Partial<T> = {};
+  if (isObject(raw)) {
+    (Object.keys(defaults) as (keyof T & string)[]).forEach(key => {
+      const given = raw[key];
+      if (typeof given === typeof defaults[key] && (typeof given !== 'number' || Number.isFinite(given))) {
+        merged[key] = given as T[typeof key];
+      }
+    });
+  }
+  return { ...defaults, ...merged };
+};
+
+/**
+ * A chain from stored JSON (a project or a saved preset), with unknown
+ * stages dropped and missing or malformed settings back at their defaults.
+ */
+export const sanitizeChain = (raw: unknown): SpeechEffect[] => {
+  if (!Array.isArray(raw)) return [];
+  return (raw as unknown[])
+    .filter(isObject)
+    .filter(effect => EFFECT_KINDS.includes(effect.kind as SpeechEffectKind))
+    .map(effect => {
+      const merged = mergeFields(createEffect(effect.kind as SpeechEffectKind), effect);
+      if (merged.kind !== 'eq') return merged;
+      const bands: unknown[] = Array.isArray(effect.bands) ? effect.bands : [];
+      return {
+        ...merged,
+        bands: bands
+          .filter(isObject)
+          .filter(band => EQ_BAND_TYPES.includes(band.type as EqBand['type']))
+          .map(band => mergeFields(DEFAULT_EQ_BAND, band)),
+      };
+    });
+};
+
+export const EFFECT_PRESETS: EffectsPreset[] = [
+  { name: 'None', chain: [] },
+  {
+    name: 'Broadcast',
+    chain: [
+      { kind: 'eq', enabled: true, bands: [
+        { type: 'highpass', frequency: 90, gainDb: 0, q: 0.71 },
+        { type: 'lowshelf', frequency: 200, gainDb: 2, q: 0.71 },
+        { type: 'peaking', frequency: 3500, gainDb: 3, q: 0.9 },
+      ] },
+      { kind: 'deesser', enabled: true, frequency: 6500, thresholdDb: -28, rangeDb: 6 },
+      { kind: 'compressor', enabled: true, thresholdDb: -22, ratio: 3, attackMs: 8, releaseMs: 120, makeupDb: 5 },
+    ],
+  },
+  {
+    name: 'Telephone',
+    chain: [
+      { kind: 'eq', enabled: true, bands: [
+        { type: 'highpass', frequency: 400, gainDb: 0, q: 1 },
+        { type: 'highpass', frequency: 400, gainDb: 0, q: 0.6 },
+        { type: 'lowpass', frequency: 3400, gainDb: 0, q: 1 },
+        { type: 'lowpass', frequency: 3400, gainDb: 0, q: 0.6 },
+        { type: 'peaking', frequency: 1500, gainDb: 5, q: 1.2 },
+      ] },
+      { kind: 'distortion', enabled: true, driveDb: 8, mix: 0.4 },
+      { kind: 'compressor', enabled: true, thresholdDb: -28, ratio: 6, attackMs: 3, releaseMs: 80, makeupDb: 6 },
+    ],
+  },
+  {
+    name: 'Old Radio',
+    chain: [
+      { kind: 'eq', enabled: true, bands: [
+        { type: 'highpass', frequency: 250, gainDb: 0, q: 0.8 },
+        { type: 'lowpass', frequency: 4500, gainDb: 0, q: 0.8 },
+        { type: 'peaking', frequency: 1000, gainDb: 6, q: 0.8 },
+      ] },
+      { kind: 'distortion', enabled: true, driveDb: 14, mix: 0.5 },
+      { kind: 'compressor', enabled: true, thresholdDb: -24, ratio: 4, attackMs: 5, releaseMs: 200, makeupDb: 3 },
+      { kind: 'reverb', enabled: true, mix: 0.08, decay: 0.4 },
+    ],
+  },
+  {
+    name: 'Cathedral',
+    chain: [
+      { kind: 'eq', enabled: true, bands: [
+        { type: 'highpass', frequency: 100, gainDb: 0, q: 0.71 },
+        { type: 'highshelf', frequency: 5000, gainDb: -3, q: 0.71 },
+      ] },
+      { kind: 'deesser', enabled: true, frequency: 5500, thresholdDb: -32, rangeDb: 10 },
+      { kind: 'reverb', enabled: true, mix: 0.6, decay: 5 },
+    ],
+  },
+  {
+    name: 'Walkie-Talkie',
+    chain: [
+      { kind: 'gate', enabled: true, thresholdDb: -40, attackMs: 1, holdMs: 60, releaseMs: 40, rangeDb: 60 },
+      { kind: 'eq', enabled: true, bands: [
+        { type: 'highpass', frequency: 600, gainDb: 0, q: 1.2 },
+        { type: 'lowpass', frequency: 2600, gainDb: 0, q: 1.2 },
+        { type: 'peaking', frequency: 1800, gainDb: 6, q: 2 },
+      ] },
+      { kind: 'distortion', enabled: true, driveDb: 24, mix: 0.9 },
+      { kind: 'compressor', enabled: true, thresholdDb: -30, ratio: 10, attackMs: 1, releaseMs: 60, makeupDb: 2 },
+    ],
+  },
+];
+
+/** Seconds the chain rings on after the speech stops. */
+export const effectsTail = (chain: SpeechEffect[]): number =>
+  chain.reduce((tail, effect) => tail + (effect.enabled && effect.kind === 'reverb' && effect.mix > 0 ? effect.decay : 0), 0);
+
+const fromDb = (db: number) => 10 ** (db / 20);
+const toDb = (linear: number) => 20 * Math.log10(Math.max(linear, 1e-9));
+
+/** Per-sample smoothing coefficient for a time constant in ms. */
+const smoothing = (ms: number, sampleRate: number) => (ms > 0 ? Math.exp(-1000 / (ms * sampleRate)) : 0);
+
+interface Stage<E extends SpeechEffect = SpeechEffect> {
+  process(left: Float32Array, right: Float32Array): void;
+  /** Takes new settings, keeping the state it has built up. */
+  update(effect: E): void;
+}
+
+/** A biquad from the RBJ cookbook, transposed direct form II, per channel. */
+class Biquad {
+  private b: [number, number, number] = [1, 0, 0];
+  private a: [number, number] = [0, 0];
+  private readonly state = [new Float64Array(2), new Float64Array(2)];
+
+  constructor(band: EqBand, private readonly sampleRate: number) {
+    this.design(band);
+  }
+
+  /** Sets the response; the state carries on, so the change doesn't click. */
+  design({ type, frequency, gainDb, q }: EqBand) {
+    const sampleRate = this.sampleRate;
+    const w0 = (2 * Math.PI * Math.min(Math.max(10, frequency), 0.45 * sampleRate)) / sampleRate;
+    const cos = Math.cos(w0);
+    const alpha = Math.sin(w0) / (2 * Math.max(0.1, q));
+    const A = 10 ** (gainDb / 40);
+    const root = 2 * Math.sqrt(A) * alpha;
+    let b: number[];
+    let a: number[];
+    switch (type) {
+      case 'lowpass':
+        b = [(1 - cos) / 2, 1 - cos, (1 - cos) / 2];
+        a = [1 + alpha, -2 * cos, 1 - alpha];
+        break;
+      case 'highpass':
+        b = [(1 + cos) / 2, -(1 + cos), (1 + cos) / 2];
+        a = [1 + alpha, -2 * cos, 1 - alpha];
+        break;
+      case 'lowshelf':
+        b = [A * (A + 1 - (A - 1) * cos + root), 2 * A * (A - 1 - (A + 1) * cos), A * (A + 1 - (A - 1) * cos - root)];
+        a = [A + 1 + (A - 1) * cos + root, -2 * (A - 1 + (A + 1) * cos), A + 1 + (A - 1) * cos - root];
+        break;
+      case 'highshelf':
+        b = [A * (A + 1 + (A - 1) * cos + root), -2 * A * (A - 1 + (A + 1) * cos), A * (A + 1 + (A - 1) * cos - root)];
+        a = [A + 1 - (A - 1) * cos + root, 2 * (A - 1 - (A + 1) * cos), A + 1 - (A - 1) * cos - root];
+        break;
+      default:
+        b = [1 + alpha * A, -2 * cos, 1 - alpha * A];
+        a = [1 + alpha / A, -2 * cos, 1 - alpha / A];
+    }
+    this.b = [b[0] / a[0], b[1] / a[0], b[2] / a[0]];
+    this.a = [a[1] / a[0], a[2] / a[0]];
+  }
+
+  /** Filters `input` into `output`, which may be the same array. */
+  filter(input: Float32Array, output: Float32Array, channel: number) {
+    const [b0, b1, b2] = this.b;
+    const [a1, a2] = this.a;
+    const z = this.state[channel];
+    for (let n = 0; n < input.length; n++) {
+      const x = input[n];
+      const y = b0 * x + z[0];
+      z[0] = b1 * x - a1 * y + z[1];
+      z[1] = b2 * x - a2 * y;
+      output[n] = y;
+    }
+  }
+}
+
+class Equalizer implements Stage<EffectOf<'eq'>> {
+  private filters: Biquad[];
+
+  constructor(bands: EqBand[], private readonly sampleRate: number) {
+    this.filters = bands.map(band => new Biquad(band, sampleRate));
+  }
+
+  update({ bands }: EffectOf<'eq'>) {
+    this.filters = bands.map((band, i) => {
+      const filter = this.filters[i];
+      if (!filter) return new Biquad(band, this.sampleRate);
+      filter.design(band);
+      return filter;
+    });
+  }
+
+  process(left: Float32Array, right: Float32Array) {
+    this.filters.forEach(f => {
+      f.filter(left, left, 0);
+      f.filter(right, right, 1);
+    });
+  }
+}
+
+const COMPRESSOR_KNEE_DB = 6;
+
+/** Feed-forward compressor with a soft knee, linked across both channels. */
+class Compressor implements Stage<EffectOf<'compressor'>> {
+  private settings: EffectOf<'compressor'>;
+  private attack = 0;
+  private release = 0;
+  private reduction = 0; // dB
+
+  constructor(settings: EffectOf<'compressor'>, private readonly sampleRate: number) {
+    this.update(settings);
+  }
+
+  update(settings: EffectOf<'compressor'>) {
+    this.settings = settings;
+    this.attack = smoothing(settings.attackMs, this.sampleRate);
+    this.release = smoothing(settings.releaseMs, this.sampleRate);
+  }
+
+  process(left: Float32Array, right: Float32Array) {
+    const { thresholdDb, ratio, makeupDb } = this.settings;
+    const slope = 1 - 1 / Math.max(1, ratio);
+    for (let n = 0; n < left.length; n++) {
+      const over = toDb(Math.max(Math.abs(left[n]), Math.abs(right[n]))) - thresholdDb;
+      const target = over <= -COMPRESSOR_KNEE_DB / 2
+        ? 0
+        : over >= COMPRESSOR_KNEE_DB / 2
+          ? slope * over
+          : (slope * (over + COMPRESSOR_KNEE_DB / 2) ** 2) / (2 * COMPRESSOR_KNEE_DB);
+      const coefficient = target > this.reduction ? this.attack : this.release;
+      this.reduction = target + coefficient * (this.reduction - target);
+      const gain = fromDb(makeupDb - this.reduction);
+      left[n] *= gain;
+      right[n] *= gain;
+    }
+  }
+}
+
+const DEESSER_ATTACK_MS = 1;
+const DEESSER_RELEASE_MS = 60;
+
+/**
+ * Turns down only the band above the de-esser's frequency while it is
+ * louder than the threshold. The band is split off by subtraction, so with
+ * no reduction the signal passes untouched.
+ */
+const deesserBand = (frequency: number): EqBand => ({ type: 'highpass', frequency, gainDb: 0, q: 0.71 });
+
+class DeEsser implements Stage<EffectOf<'deesser'>> {
+  private readonly highpass: Biquad;
+  private readonly attack: number;
+  private readonly release: number;
+  private reduction = 0; // dB
+  private high: Float32Array[] = [new Float32Array(0), new Float32Array(0)];
+
+  constructor(private settings: EffectOf<'deesser'>, sampleRate: number) {
+    this.highpass = new Biquad(deesserBand(settings.frequency), sampleRate);
+    this.attack = smoothing(DEESSER_ATTACK_MS, sampleRate);
+    this.release = smoothing(DEESSER_RELEASE_MS, sampleRate);
+  }
+
+  update(settings: EffectOf<'deesser'>) {
+    this.settings = settings;
+    this.highpass.design(deesserBand(settings.frequency));
+  }
+
+  process(left: Float32Array, right: Float32Array) {
+    if (this.high[0].length < left.length) this.high = [new Float32Array(left.length), new Float32Array(left.length)];
+    const [highLeft, highRight] = this.high;
+    this.highpass.filter(left, highLeft, 0);
+    this.highpass.filter(right, highRight, 1);
+    const { thresholdDb, rangeDb } = this.settings;
+    for (let n = 0; n < left.length; n++) {
+      const over = toDb(Math.max(Math.abs(highLeft[n]), Math.abs(highRight[n]))) - thresholdDb;
+      const target = Math.min(rangeDb, Math.max(0, over));
+      const coefficient = target > this.reduction ? this.attack : this.release;
+      this.reduction = target + coefficient * (this.reduction - target);
+      const cut = 1 - fromDb(-this.reduction);
+      left[n] -= cut * highLeft[n];
+      right[n] -= cut * highRight[n];
+    }
+  }
+}
+
+const GATE_DETECTOR_MS = 20; // Release of the peak detector, so the gate doesn't chatter within a cycle
+
+/** Closes down to `rangeDb` below unity while the speech is under the threshold for longer than the hold. */
+class Gate implements Stage<EffectOf<'gate'>> {
+  private readonly detector: number;
+  private attack = 0;
+  private release = 0;
+  private holdSamples = 0;
+  private threshold = 0;
+  private floor = 0;
+  private level = 0;
+  private held = 0;
+  private gain = 1;
+
+  constructor(settings: EffectOf<'gate'>, private readonly sampleRate: number) {
+    this.detector = smoothing(GATE_DETECTOR_MS, sampleRate);
+    this.update(settings);
+  }
+
+  update(settings: EffectOf<'gate'>) {
+    this.attack = smoothing(settings.attackMs, this.sampleRate);
+    this.release = smoothing(settings.releaseMs, this.sampleRate);
+    this.holdSamples = Math.round((settings.holdMs / 1000) * this.sampleRate);
+    this.threshold = fromDb(settings.thresholdDb);
+    this.floor = fromDb(-Math.max(0, settings.rangeDb));
+  }
+
+  process(left: Float32Array, right: Float32Array) {
+    for (let n = 0; n < left.length; n++) {
+      this.level = Math.max(Math.abs(left[n]), Math.abs(right[n]), this.level * this.detector);
+      if (this.level >= this.threshold) this.held = this.holdSamples;
+      else if (this.held > 0) this.held--;
+      const open = this.level >= this.threshold || this.held > 0;
+      const target = open ? 1 : this.floor;
+      this.gain = target + (open ? this.attack : this.release) * (this.gain - target);
+      left[n] *= this.gain;
+      right[n] *= this.gain;
+    }
+  }
+}
+
+/** Soft clipping; full scale still comes out at full scale. */
+class Distortion implements Stage<EffectOf<'distortion'>> {
+  private settings: EffectOf<'distortion'>;
+  private drive = 1;
+  private scale = 1;
+
+  constructor(settings: EffectOf<'distortion'>) {
+    this.update(settings);
+  }
+
+  update(settings: EffectOf<'distortion'>) {
+    this.settings = settings;
+    this.drive = fromDb(settings.driveDb);
+    this.scale = 1 / Math.tanh(this.drive);
+  }
+
+  process(left: Float32Array, right: Float32Array) {
+    const { mix } = this.settings;
+    for (const x of [left, right]) {
+      for (let n = 0; n < x.length; n++) {
+        x[n] += mix * (Math.tanh(this.drive * x[n]) * this.scale - x[n]);
+      }
+    }
+  }
+}
+
+/** The music's reverb, fed the mid signal; the dry speech stays at full level. */
+class Reverb implements Stage<EffectOf<'reverb'>> {
+  private readonly tails: ReverbTail[];
+  private mid = new Float32Array(0);
+  private wet = new Float32Array(0);
+
+  constructor(private settings: EffectOf<'reverb'>, sampleRate: number) {
+    this.tails = [0, STEREO_SPREAD].map(spread => new ReverbTail(sampleRate, settings.decay, spread));
+  }
+
+  update(settings: EffectOf<'reverb'>) {
+    this.settings = settings;
+    this.tails.forEach(tail => tail.setDecay(settings.decay));
+  }
+
+  process(left: Float32Array, right: Float32Array) {
+    if (this.mid.length < left.length) {
+      this.mid = new Float32Array(left.length);
+      this.wet = new Float32Array(left.length);
+    }
+    const mid = this.mid.subarray(0, left.length);
+    const wet = this.wet.subarray(0, left.length);
+    for (let n = 0; n < left.length; n++) mid[n] = 0.5 * (left[n] + right[n]);
+    [left, right].forEach((x, c) => {
+      this.tails[c].process(mid, wet);
+      for (let n = 0; n < x.length; n++) x[n] += this.settings.mix * wet[n];
+    });
+  }
+}
+
+const createStage = (effect: SpeechEffect, sampleRate: number): Stage => {
+  switch (effect.kind) {
+    case 'eq': return new Equalizer(effect.bands, sampleRate);
+    case 'compressor': return new Compressor(effect, sampleRate);
+    case 'deesser': return new DeEsser(effect, sampleRate);
+    case 'gate': return new Gate(effect, sampleRate);
+    case 'distortion': return new Distortion(effect);
+    case 'reverb': return new Reverb(effect, sampleRate);
+  }
+};
+
+/** A chain ready to process; disabled stages are left out. */
+export class SpeechEffects {
+  private stages: Stage[] = [];
+  private kinds = ''; // The enabled stages' kinds, in order
+
+  constructor(chain: SpeechEffect[], private readonly sampleRate: number) {
+    this.setChain(chain);
+  }
+
+  /**
+   * Switches to `chain`. While the same stages run in the same order they
+   * only take the new settings, so tails and filter state carry on through
+   * live edits; adding, removing, toggling or reordering rebuilds them.
+   */
+  setChain(chain: SpeechEffect[]) {
+    const enabled = chain.filter(effect => effect.enabled);
+    const kinds = enabled.map(effect => effect.kind).join();
+    if (kinds === this.kinds) {
+      enabled.forEach((effect, i) => this.stages[i].update(effect));
+      return;
+    }
+    this.stages = enabled.map(effect => createStage(effect, this.sampleRate));
+    this.kinds = kinds;
+  }
+
+  get isEmpty(): boolean {
+    return this.stages.length === 0;
+  }
+
+  /** Processes one block in place. Mono speech comes in with both sides the same. */
+  process(left: Float32Array, right: Float32Array) {
+    this.stages.forEach(stage => stage.process(left, right));
+  }
+}
+
+/**
+ * Runs speech through the chain in one go and returns stereo channels,
+ * `tailSeconds` longer than the input so a reverb can ring out.
+ */
+export const applySpeechEffects = (
+  channels: Float32Array[],
+  sampleRate: number,
+  chain: SpeechEffect[],
+  tailSeconds = 0
+): Float32Array[] => {
+  const length = (channels[0]?.length ?? 0) + Math.round(tailSeconds * sampleRate);
+  const left = new Float32Array(length);
+  const right = new Float32Array(length);
+  left.set(channels[0] ?? []);
+  right.set(channels[1] ?? channels[0] ?? []);
+  new SpeechEffects(chain, sampleRate).process(left, right);
+  return [left, right];
+};
@@ -0,0 +1,499 @@
+/**
+ * A FLAC encoder in plain TypeScript.
+ *
+ * Each block is coded with the cheapest of a constant, verbatim, fixed
+ * polynomial or (at level 3 and up) quantized LPC subframe, with
+ * partitioned Rice coding of the residual. Stereo blocks also try
+ * left/side, side/right and mid/side decorrelation at level 1 and up.
+ */
+
+const BLOCK_SIZE = 4096;
+
+export interface FlacOptions {
+  sampleRate: number;
+  bitsPerSample: 16 | 24;
+  compressionLevel: number; // 0 (fastest) .. 8 (smallest)
+}
+
+interface LevelSettings {
+  stereo: boolean;
+  maxLpcOrder: number;
+  lpcOrders: number[];   // Orders tried when searching
+  maxPartitionOrder: number;
+}
+
+const levelSettings = (level: number): LevelSettings => {
+  const l = Math.max(0, Math.min(8, Math.round(level)));
+  if (l <= 2) return { stereo: l >= 1, maxLpcOrder: 0, lpcOrders: [], maxPartitionOrder: l === 0 ? 2 : 3 };
+  if (l <= 5) return { stereo: true, maxLpcOrder: 8, lpcOrders: [8], maxPartitionOrder: l === 5 ? 5 : 4 };
+  return { stereo: true, maxLpcOrder: 12, lpcOrders: l === 8 ? [4, 6, 8, 10, 12] : [8, 12], maxPartitionOrder: 6 };
+};
+
+class BitWriter {
+  private bytes = new Uint8Array(1024);
+  private byteLen = 0;
+  private acc = 0;     // Pending bits, most significant first
+  private accBits = 0;
+
+  get bitLength(): number {
+    return this.byteLen * 8 + this.accBits;
+  }
+
+  private pushByte(b: number) {
+    if (this.byteLen === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.byteLen++] = b;
+  }
+
+  /** Writes the low `n` bits of `value` (n <= 32). */
+  write(value: number, n: number) {
+    while (n > 0) {
+      const take = Math.min(n, 8 - this.accBits);
+      const shift = n - take;
+      const bits = Math.floor(value / 2 ** shift) & ((1 << take) - 1);
+      this.acc = (this.acc << take) | bits;
+      this.accBits += take;
+      n -= take;
+      if (this.accBits === 8) {
+        this.pushByte(this.acc);
+        this.acc = 0;
+        this.accBits = 0;
+      }
+    }
+  }
+
+  writeSigned(value: number, n: number) {
+    this.write(value < 0 ? value + 2 ** n : value, n);
+  }
+
+  writeUnary(zeros: number) {
+    while (zeros >= 24) {
+      this.write(0, 24);
+      zeros -= 24;
+    }
+    this.write(1, zeros + 1);
+  }
+
+  append(other: BitWriter) {
+    for (let i = 0; i < other.byteLen; i++) this.write(other.bytes[i], 8);
+    if (other.accBits > 0) this.write(other.acc, other.accBits);
+  }
+
+  alignToByte() {
+    if (this.accBits > 0) this.write(0, 8 - this.accBits);
+  }
+
+  toBytes(): Uint8Array {
+    return this.bytes.slice(0, this.byteLen);
+  }
+}
+
+const CRC8_TABLE = new Uint8Array(256);
+const CRC16_TABLE = new Uint16Array(256);
+for (let i = 0; i < 256; i++) {
+  let c8 = i;
+  let c16 = i << 8;
+  for (let b = 0; b < 8; b++) {
+    c8 = c8 & 0x80 ? ((c8 << 1) ^ 0x07) & 0xff : (c8 << 1) & 0xff;
+    c16 = c16 & 0x8000 ? ((c16 << 1) ^ 0x8005) & 0xffff : (c16 << 1) & 0xffff;
+  }
+  CRC8_TABLE[i] = c8;
+  CRC16_TABLE[i] = c16;
+}
+
+const crc8 = (data: Uint8Array): number => {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) crc = CRC8_TABLE[crc ^ data[i]];
+  return crc;
+};
+
+const crc16 = (data: Uint8Array): number => {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) crc = ((crc << 8) & 0xffff) ^ CRC16_TABLE[(crc >> 8) ^ data[i]];
+  return crc;
+};
+
+/** FLAC's UTF-8-like variable length coding of the frame number. */
+const writeUtf8Number = (w: BitWriter, n: number) => {
+  if (n < 0x80) {
+    w.write(n, 8);
+    return;
+  }
+  let extra = 1;
+  while (n >= 2 ** (6 + 5 * extra) && extra < 6) extra++;
+  const lead = ((0xff << (7 - extra)) & 0xff) | Math.floor(n / 2 ** (6 * extra));
+  w.write(lead & 0xff, 8);
+  for (let i = extra - 1; i >= 0; i--) {
+    w.write(0x80 | (Math.floor(n / 2 ** (6 * i)) & 0x3f), 8);
+  }
+};
+
+/** Sum of Rice-coded lengths for `residual[start..end)` with parameter k. */
+const riceBits = (residual: Int32Array, start: number, end: number, k: number): number => {
+  let bits = (end - start) * (k + 1);
+  for (let i = start; i < end; i++) {
+    const r = residual[i];
+    const u = r >= 0 ? r * 2 : -r * 2 - 1;
+    bits += Math.floor(u / 2 ** k);
+  }
+  return bits;
+};
+
+const bestRiceParam = (residual: Int32Array, start: number, end: number): { k: number; bits: number } => {
+  let sum = 0;
+  for (let i = start; i < end; i++) {
+    const r = residual[i];
+    sum += r >= 0 ? r * 2 : -r * 2 - 1;
+  }
+  const n = Math.max(1, end - start);
+  const guess = sum / n > 1 ? Math.min(14, Math.floor(Math.log2(sum / n))) : 0;
+  let best = { k: guess, bits: riceBits(residual, start, end, guess) };
+  for (const k of [guess - 1, guess + 1]) {
+    if (k < 0 || k > 14) continue;
+    const bits = riceBits(residual, start, end, k);
+    if (bits < best.bits) best = { k, bits };
+  }
+  return best;
+};
+
+interface ResidualPlan {
+  partitionOrder: number;
+  params: number[];
+  bits: number;
+}
+
+const planResidual = (residual: Int32Array, blockSize: number, predictorOrder: number, maxOrder: number): ResidualPlan => {
+  let best: ResidualPlan | null = null;
+  for (let order = 0; order <= maxOrder; order++) {
+    const partitions = 1 << order;
+    if (blockSize % partitions !== 0 || blockSize >> order <= predictorOrder) break;
+    const partSize = blockSize >> order;
+    const params: number[] = [];
+    let bits = 2 + 4;
+    for (let p = 0; p < partitions; p++) {
+      const start = p === 0 ? 0 : p * partSize - predictorOrder;
+      const end = (p + 1) * partSize - predictorOrder;
+      const rice = bestRiceParam(residual, start, end);
+      params.push(rice.k);
+      bits += 4 + rice.bits;
+    }
+    if (!best || bits < best.bits) best = { partitionOrder: order, params, bits };
+  }
+  return best!;
+};
+
+const writeResidual = (w: BitWriter, residual: Int32Array, blockSize: number, predictorOrder: number, plan: ResidualPlan) => {
+  w.write(0, 2); // Rice coding with 4-bit parameters
+  w.write(plan.partitionOrder, 4);
+  const partSize = blockSize >> plan.partitionOrder;
+  plan.params.forEach((k, p) => {
+    w.write(k, 4);
+    const start = p === 0 ? 0 : p * partSize - predictorOrder;
+    const end = (p + 1) * partSize - predictorOrder;
+    for (let i = start; i < end; i++) {
+      const r = residual[i];
+      const u = r >= 0 ? r * 2 : -r * 2 - 1;
+      w.writeUnary(Math.floor(u / 2 ** k));
+      if (k > 0) w.write(u % 2 ** k, k);
+    }
+  });
+};
+
+const fixedResidual = (x: Int32Array, order: number): Int32Array => {
+  const n = x.length;
+  const r = new Int32Array(n - order);
+  for (let i = order; i < n; i++) {
+    let p = 0;
+    switch (order) {
+      case 0: p = 0; break;
+      case 1: p = x[i - 1]; break;
+      case 2: p = 2 * x[i - 1] - x[i - 2]; break;
+      case 3: p = 3 * x[i - 1] - 3 * x[i - 2] + x[i - 3]; break;
+      case 4: p = 4 * x[i - 1] - 6 * x[i - 2] + 4 * x[i - 3] - x[i - 4]; break;
+    }
+    r[i - order] = x[i] - p;
+  }
+  return r;
+};
+
+/** Levinson-Durbin recursion; returns predictor coefficients for every order up to `maxOrder`. */
+const computeLpc = (x: Int32Array, maxOrder: number): number[][] => {
+  const n = x.length;
+  const windowed = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    windowed[i] = x[i] * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (n - 1)));
+  }
+  const autoc = new Float64Array(maxOrder + 1);
+  for (let lag = 0; lag <= maxOrder; lag++) {
+    let sum = 0;
+    for (let i = lag; i < n; i++) sum += windowed[i] * windowed[i - lag];
+    autoc[lag] = sum;
+  }
+
+  const result: number[][] = [];
+  if (autoc[0] === 0) return result;
+  let err = autoc[0];
+  let lpc: number[] = [];
+  for (let i = 0; i < maxOrder; i++) {
+    let r = -autoc[i + 1];
+    for (let j = 0; j < i; j++) r -= lpc[j] * autoc[i - j];
+    r /= err;
+    const next = lpc.slice();
+    next[i] = r;
+    for (let j = 0; j < i; j++) next[j] = lpc[j] + r * lpc[i - 1 - j];
+    lpc = next;
+    err *= 1 - r * r;
+    // FLAC predicts x[n] = sum(c[j] * x[n-1-j]); the recursion yields -c
+    result.push(lpc.map(c => -c));
+    if (err <= 0) break;
+  }
+  return result;
+};
+
+const quantizeLpc = (coefs: number[], precision: number): { qlp: number[]; shift: number } => {
+  const cmax = Math.max(...coefs.map(Math.abs));
+  const qmax = (1 << (precision - 1)) - 1;
+  if (cmax <= 0) return { qlp: coefs.map(() => 0), shift: 0 };
+  let shift = precision - 1 - (Math.floor(Math.log2(cmax)) + 1);
+  shift = Math.max(0, Math.min(15, shift));
+
+  const qlp: number[] = [];
+  let error = 0;
+  for (const c of coefs) {
+    error += c * 2 ** shift;
+    const q = Math.max(-qmax - 1, Math.min(qmax, Math.round(error)));
+    error -= q;
+    qlp.push(q);
+  }
+  return { qlp, shift };
+};
+
+const lpcResidual = (x: Int32Array, qlp: number[], shift: number): Int32Array | null => {
+  const order = qlp.length;
+  const r = new Int32Array(x.length - order);
+  const div = 2 ** shift;
+  for (let i = order; i < x.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < order; j++) sum += qlp[j] * x[i - 1 - j];
+    const value = x[i] - Math.floor(sum / div);
+    if (value > 0x7fffffff || value < -0x80000000) return null;
+    r[i - order] = value;
+  }
+  return r;
+};
+
+/** Encodes one channel of a block as the smallest subframe found. */
+const encodeSubframe = (x: Int32Array, bps: number, settings: LevelSettings): BitWriter => {
+  const n = x.length;
+  const w = new BitWriter();
+
+  let constant = true;
+  for (let i = 1; i < n && constant; i++) constant = x[i] === x[0];
+  if (constant) {
+    w.write(0, 8); // zero pad, CONSTANT, no wasted bits
+    w.writeSigned(x[0], bps);
+    return w;
+  }
+
+  let bestBits = n * bps; // VERBATIM
+  let best: (() => void) | null = null;
+
+  for (let order = 0; order <= Math.min(4, n - 1); order++) {
+    const residual = fixedResidual(x, order);
+    const plan = planResidual(residual, n, order, settings.maxPartitionOrder);
+    const bits = order * bps + plan.bits;
+    if (bits < bestBits) {
+      bestBits = bits;
+      best = () => {
+        w.write(0, 1);
+        w.write(0b001000 | order, 6);
+        w.write(0, 1);
+        for (let i = 0; i < order; i++) w.writeSigned(x[i], bps);
+        writeResidual(w, residual, n, order, plan);
+      };
+    }
+  }
+
+  if (settings.maxLpcOrder > 0 && n > settings.maxLpcOrder) {
+    const precision = bps <= 16 ? 13 : 15;
+    const lpcs = computeLpc(x, settings.maxLpcOrder);
+    for (const order of settings.lpcOrders) {
+      const coefs = lpcs[order - 1];
+      if (!coefs) continue;
+      const { qlp, shift } = quantizeLpc(coefs, precision);
+      const residual = lpcResidual(x, qlp, shift);
+      if (!residual) continue;
+      const plan = planResidual(residual, n, order, settings.maxPartitionOrder);
+      const bits = order * bps + 4 + 5 + order * precision + plan.bits;
+      if (bits < bestBits) {
+        bestBits = bits;
+        best = () => {
+          w.write(0, 1);
+          w.write(0b100000 | (order - 1), 6);
+          w.write(0, 1);
+          for (let i = 0; i < order; i++) w.writeSigned(x[i], bps);
+          w.write(precision - 1, 4);
+          w.writeSigned(shift, 5);
+          qlp.forEach(q => w.writeSigned(q, precision));
+          writeResidual(w, residual, n, order, plan);
+        };
+      }
+    }
+  }
+
+  if (best) {
+    best();
+  } else {
+    w.write(0b00000010, 8); // zero pad, VERBATIM, no wasted bits
+    for (let i = 0; i < n; i++) w.writeSigned(x[i], bps);
+  }
+  return w;
+};
+
+const SAMPLE_SIZE_CODES: Record<number, number> = { 16: 0b100, 24: 0b110 };
+
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  88200: 0b0001, 176400: 0b0010, 192000: 0b0011, 8000: 0b0100, 16000: 0b0101, 22050: 0b0110,
+  24000: 0b0111, 32000: 0b1000, 44100: 0b1001, 48000: 0b1010, 96000: 0b1011,
+};
+
+/**
+ * Frame headers carry the sample rate explicitly rather than deferring to
+ * STREAMINFO, so decoders that start mid-stream can still play the frames.
+ */
+const writeSampleRate = (w: BitWriter, sampleRate: number): (() => void) => {
+  const code = SAMPLE_RATE_CODES[sampleRate];
+  if (code !== undefined) {
+    w.write(code, 4);
+    return () => {};
+  }
+  if (sampleRate % 10 === 0 && sampleRate / 10 <= 0xffff && sampleRate > 0xffff) {
+    w.write(0b1110, 4);
+    return () => w.write(sampleRate / 10, 16);
+  }
+  w.write(0b1101, 4);
+  return () => w.write(sampleRate, 16);
+};
+
+const toIntegerSamples = (channel: Float32Array, bps: number): Int32Array => {
+  const max = 2 ** (bps - 1) - 1;
+  const out = new Int32Array(channel.length);
+  for (let i = 0; i < channel.length; i++) {
+    out[i] = Math.max(-max - 1, Math.min(max, Math.round(channel[i] * max)));
+  }
+  return out;
+};
+
+/**
+ * Encodes planar float channels (-1..1) into a complete FLAC file.
+ */
+export const encodeFlac = (
+  channels: Float32Array[],
+  options: FlacOptions,
+  onProgress?: (fraction: number) => void
+): Uint8Array => {
+  const { sampleRate, bitsPerSample: bps } = options;
+  const numChannels = channels.length;
+  const totalSamples = channels[0]?.length ?? 0;
+  const settings = levelSettings(options.compressionLevel);
+  const ints = channels.map(c => toIntegerSamples(c, bps));
+
+  const frames: Uint8Array[] = [];
+  let minFrame = Infinity;
+  let maxFrame = 0;
+  const blockCount = Math.ceil(totalSamples / BLOCK_SIZE);
+
+  for (let b = 0; b < blockCount; b++) {
+    const start = b * BLOCK_SIZE;
+    const size = Math.min(BLOCK_SIZE, totalSamples - start);
+    const block = ints.map(c => c.subarray(start, start + size));
+
+    // Choose the channel assignment with the fewest bits
+    let assignment = numChannels - 1;
+    let subframes = block.map(x => encodeSubframe(x, bps, settings));
+    if (numChannels === 2 && settings.stereo) {
+      const [left, right] = block;
+      const side = new Int32Array(size);
+      const mid = new Int32Array(size);
+      for (let i = 0; i < size; i++) {
+        side[i] = left[i] - right[i];
+        mid[i] = (left[i] + right[i]) >> 1;
+      }
+      const [l, r] = subframes;
+      const s = encodeSubframe(side, bps + 1, settings);
+      const m = encodeSubframe(mid, bps, settings);
+      const options: Array<[number, BitWriter[]]> = [
+        [1, [l, r]], [8, [l, s]], [9, [s, r]], [10, [m, s]],
+      ];
+      const [bestAssignment, bestSubframes] = options.reduce((a, c) =>
+        c[1][0].bitLength + c[1][1].bitLength < a[1][0].bitLength + a[1][1].bitLength ? c : a);
+      assignment = bestAssignment;
+      subframes = bestSubframes;
+    }
+
+    const header = new BitWriter();
+    header.write(0b11111111111110, 14);
+    header.write(0, 1);      // reserved
+    header.write(0, 1);      // fixed block size stream
+    header.write(0b0111, 4); // block size: 16-bit (size - 1) follows
+    const writeRateSuffix = writeSampleRate(header, sampleRate);
+    header.write(assignment, 4);
+    header.write(SAMPLE_SIZE_CODES[bps], 3);
+    header.write(0, 1);
+    writeUtf8Number(header, b);
+    header.write(size - 1, 16);
+    writeRateSuffix();
+    const headerBytes = header.toBytes();
+
+    const frame = new BitWriter();
+    frame.append(header);
+    frame.write(crc8(headerBytes), 8);
+    subframes.forEach(sf => frame.append(sf));
+    frame.alignToByte();
+    const body = frame.toBytes();
+
+    const out = new Uint8Array(body.length + 2);
+    out.set(body);
+    const crc = crc16(body);
+    out[body.length] = crc >> 8;
+    out[body.length + 1] = crc & 0xff;
+    frames.push(out);
+    minFrame = Math.min(minFrame, out.length);
+    maxFrame = Math.max(maxFrame, out.length);
+
+    if (onProgress && b % 16 === 0) onProgress(b / blockCount);
+  }
+
+  // "fLaC" + STREAMINFO (MD5 left as zero, meaning "not computed")
+  const info = new BitWriter();
+  info.write(0x664c6143, 32);
+  info.write(1, 1);  // last metadata block
+  info.write(0, 7);  // STREAMINFO
+  info.write(34, 24);
+  info.write(BLOCK_SIZE, 16);
+  info.write(BLOCK_SIZE, 16);
+  info.write(frames.length ? minFrame : 0, 24);
+  info.write(maxFrame, 24);
+  info.write(sampleRate, 20);
+  info.write(numChannels - 1, 3);
+  info.write(bps - 1, 5);
+  info.write(Math.floor(totalSamples / 2 ** 32), 4);
+  info.write(totalSamples >>> 0, 32);
+  for (let i = 0; i < 4; i++) info.write(0, 32);
+  const headerBytes = info.toBytes();
+
+  const totalLength = headerBytes.length + frames.reduce((sum, f) => sum + f.length, 0);
+  const output = new Uint8Array(totalLength);
+  output.set(headerBytes);
+  let offset = headerBytes.length;
+  frames.forEach(f => {
+    output.set(f, offset);
+    offset += f.length;
+  });
+
+  onProgress?.(1);
+  return output;
+};
@@ -0,0 +1,397 @@
+import { Tone, ToneStyle, VoiceName } from "../types";
+import { MAX_INTENSITY } from "./tones";
+import { samplesToPcmBytes } from "./audio";
+
+/**
+ * A small rule-based formant synthesizer (in the spirit of Klatt's cascade
+ * synthesizer) used by the offline speech provider. Text is converted to
+ * phonemes with letter-to-sound rules, each phoneme becomes a set of target
+ * formant frequencies and source amplitudes, and the targets are smoothed
+ * and rendered through three cascaded resonators at 24 kHz.
+ */
+
+const SAMPLE_RATE = 24000;
+const FRAME_MS = 5;
+
+interface Phoneme {
+  f: [number, number, number]; // F1..F3 in Hz
+  voice: number;               // Voicing amplitude 0..1
+  noise: number;               // Frication amplitude 0..1
+  noiseF?: number;             // Center of the frication noise band
+  aspirate?: boolean;          // Route noise through the vocal tract (h, whisper)
+  dur: number;                 // Nominal duration in ms
+  stop?: boolean;              // Closure followed by a burst
+  vowel?: boolean;
+}
+
+const V = (f1: number, f2: number, f3: number, dur = 120): Phoneme =>
+  ({ f: [f1, f2, f3], voice: 1, noise: 0, dur, vowel: true });
+const S = (f: [number, number, number], voice: number, noise: number, noiseF: number, dur: number): Phoneme =>
+  ({ f, voice, noise, noiseF, dur });
+const P = (f: [number, number, number], voiced: boolean, noiseF: number): Phoneme =>
+  ({ f, voice: voiced ? 0.4 : 0, noise: 0.8, noiseF, dur: 70, stop: true });
+
+const PHONEMES: Record<string, Phoneme> = {
+  AA: V(730, 1090, 2440), AE: V(660, 1720, 2410), AH: V(640, 1190, 2390, 90),
+  AO: V(570, 840, 2410), EH: V(530, 1840, 2480, 100), ER: V(490, 1350, 1690),
+  IH: V(390, 1990, 2550, 90), IY: V(270, 2290, 3010), UH: V(440, 1020, 2240, 90),
+  UW: V(300, 870, 2240), OW: V(500, 900, 2400, 130), EY: V(480, 1900, 2500, 130),
+  AX: V(500, 1400, 2500, 60),
+  M: S([280, 1000, 2200], 0.6, 0, 0, 70), N: S([280, 1700, 2600], 0.6, 0, 0, 65),
+  NG: S([280, 2300, 2750], 0.6, 0, 0, 70), L: S([360, 1300, 2700], 0.8, 0, 0, 60),
+  R: S([420, 1300, 1600], 0.8, 0, 0, 60), W: S([300, 610, 2200], 0.8, 0, 0, 55),
+  Y: S([260, 2070, 3020], 0.8, 0, 0, 55),
+  S: S([320, 1400, 2600], 0, 0.7, 5500, 100), Z: S([320, 1400, 2600], 0.4, 0.5, 5000, 90),
+  SH: S([300, 1800, 2500], 0, 0.7, 2800, 100), ZH: S([300, 1800, 2500], 0.4, 0.5, 2800, 90),
+  F: S([340, 1100, 2100], 0, 0.35, 7000, 90), V: S([220, 1100, 2100], 0.5, 0.25, 6500, 70),
+  TH: S([320, 1290, 2540], 0, 0.3, 6500, 90), DH: S([270, 1290, 2540], 0.5, 0.2, 6000, 50),
+  HH: { f: [500, 1500, 2500], voice: 0, noise: 0.5, aspirate: true, dur: 60 },
+  P: P([400, 1100, 2150], false, 900), B: P([200, 1100, 2150], true, 900),
+  T: P([400, 1600, 2600], false, 4500), D: P([200, 1600, 2600], true, 4000),
+  K: P([300, 1990, 2850], false, 2200), G: P([200, 1990, 2850], true, 2000),
+  CH: { ...P([350, 1800, 2500], false, 2800), dur: 110 },
+  JH: { ...P([260, 1800, 2500], true, 2800), dur: 100 },
+};
+
+// Diphthongs are rendered as glides between two vowel targets
+const DIPHTHONGS: Record<string, string[]> = {
+  AY: ['AA', 'IY'], AW: ['AA', 'UH'], OY: ['AO', 'IY'],
+};
+
+const EXCEPTIONS: Record<string, string> = {
+  a: 'AX', the: 'DH AX', to: 'T UW', you: 'Y UW', your: 'Y AO R', of: 'AH V',
+  i: 'AY', is: 'IH Z', was: 'W AH Z', are: 'AA R', said: 'S EH D', one: 'W AH N',
+  do: 'D UW', does: 'D AH Z', what: 'W AH T', have: 'HH AE V', who: 'HH UW',
+  there: 'DH EH R', where: 'W EH R', were: 'W ER', they: 'DH EY', he: 'HH IY',
+  she: 'SH IY', we: 'W IY', me: 'M IY', be: 'B IY', my: 'M AY', by: 'B AY',
+  some: 'S AH M', come: 'K AH M', from: 'F R AH M', been: 'B IH N', any: 'EH N IY',
+  many: 'M EH N IY', two: 'T UW', could: 'K UH D', would: 'W UH D', should: 'SH UH D',
+  give: 'G IH V', live: 'L IH V', love: 'L AH V', done: 'D AH N', gone: 'G AO N',
+  again: 'AX G EH N', through: 'TH R UW', know: 'N OW', eye: 'AY', hello: 'HH AX L OW',
+};
+
+const DIGITS = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine'];
+
+// Ordered grapheme rules; the first match at the current position wins
+const RULES: Array<[string, string]> = [
+  ['tion', 'SH AX N'], ['sion', 'ZH AX N'], ['ough', 'AO'], ['igh', 'AY'], ['tch', 'CH'],
+  ['dge', 'JH'], ['ing', 'IH NG'], ['th', 'TH'], ['sh', 'SH'], ['ch', 'CH'], ['ph', 'F'],
+  ['wh', 'W'], ['ck', 'K'], ['ng', 'NG'], ['qu', 'K W'], ['kn', 'N'], ['wr', 'R'],
+  ['ee', 'IY'], ['ea', 'IY'], ['oo', 'UW'], ['ai', 'EY'], ['ay', 'EY'], ['oa', 'OW'],
+  ['ou', 'AW'], ['ow', 'OW'], ['oi', 'OY'], ['oy', 'OY'], ['au', 'AO'], ['aw', 'AO'],
+  ['ie', 'IY'], ['ey', 'IY'], ['ew', 'UW'], ['er', 'ER'], ['ir', 'ER'], ['ur', 'ER'],
+  ['ar', 'AA R'], ['or', 'AO R'], ['ll', 'L'], ['ss', 'S'], ['ff', 'F'], ['tt', 'T'],
+  ['pp', 'P'], ['mm', 'M'], ['nn', 'N'], ['rr', 'R'], ['bb', 'B'], ['dd', 'D'], ['gg', 'G'],
+  ['a', 'AE'], ['b', 'B'], ['c', 'K'], ['d', 'D'], ['e', 'EH'], ['f', 'F'], ['g', 'G'],
+  ['h', 'HH'], ['i', 'IH'], ['j', 'JH'], ['k', 'K'], ['l', 'L'], ['m', 'M'], ['n', 'N'],
+  ['o', 'AA'], ['p', 'P'], ['q', 'K'], ['r', 'R'], ['s', 'S'], ['t', 'T'], ['u', 'AH'],
+  ['v', 'V'], ['w', 'W'], ['x', 'K S'], ['y', 'IY'], ['z', 'Z'],
+];
+
+const LONG_VOWELS: Record<string, string> = { a: 'EY', e: 'IY', i: 'AY', o: 'OW', u: 'UW' };
+
+/**
+ * Converts one lowercase word to a phoneme list using the exception table,
+ * then silent-e and soft c/g handling, then the grapheme rules.
+ */
+const wordToPhonemes = (word: string): string[] => {
+  if (EXCEPTIONS[word]) return EXCEPTIONS[word].split(' ');
+  if (/^\d+$/.test(word)) {
+    return word.split('').flatMap(d => wordToPhonemes(DIGITS[Number(d)]));
+  }
+
+  const phonemes: string[] = [];
+  // Magic e: "make", "time", "home" -> long vowel, silent final e
+  let body = word;
+  let longVowelAt = -1;
+  const magic = word.match(/([aeiou])([^aeiouwxy])e$/);
+  if (magic && word.length > 3) {
+    body = word.slice(0, -1);
+    longVowelAt = word.length - 3;
+  }
+
+  let i = 0;
+  while (i < body.length) {
+    if (i === longVowelAt) {
+      phonemes.push(LONG_VOWELS[body[i]]);
+      i++;
+      continue;
+    }
+    const next = body[i + 1];
+    // Soft c and g before e, i, y
+    if ((body[i] === 'c' || body[i] === 'g') && next && 'eiy'.includes(next)) {
+      phonemes.push(body[i] === 'c' ? 'S' : 'JH');
+      i++;
+      continue;
+    }
+    // Final y after a consonant in a short word sounds like "my"
+    if (body[i] === 'y' && i === body.length - 1 && body.length <= 3 && i > 0) {
+      phonemes.push('AY');
+      i++;
+      continue;
+    }
+    const rule = RULES.find(([g]) => body.startsWith(g, i));
+    if (!rule) {
+      i++;
+      continue;
+    }
+    phonemes.push(...rule[1].split(' '));
+    i += rule[0].length;
+  }
+  return phonemes;
+};
+
+export interface FormantVoice {
+  pitch: number;       // Base F0 in Hz
+  formantScale: number; // Vocal tract length scaling (higher = smaller tract)
+}
+
+const VOICES: Record<VoiceName, FormantVoice> = {
+  [VoiceName.Puck]: { pitch: 135, formantScale: 1.0 },
+  [VoiceName.Charon]: { pitch: 95, formantScale: 0.92 },
+  [VoiceName.Kore]: { pitch: 205, formantScale: 1.15 },
+  [VoiceName.Fenrir]: { pitch: 110, formantScale: 0.96 },
+  [VoiceName.Zephyr]: { pitch: 185, formantScale: 1.12 },
+};
+
+interface Delivery {
+  pitch: number;  // Multiplier on base pitch
+  range: number;  // Multiplier on intonation range
+  rate: number;   // Multiplier on speaking rate
+  gain: number;
+  breath: number; // Aspiration mixed into voicing
+}
+
+const TONES: Record<Tone, Delivery> = {
+  [Tone.Normal]: { pitch: 1.0, range: 1.0, rate: 1.0, gain: 0.8, breath: 0.05 },
+  [Tone.Happy]: { pitch: 1.12, range: 1.5, rate: 1.1, gain: 0.85, breath: 0.05 },
+  [Tone.Angry]: { pitch: 1.05, range: 1.3, rate: 1.15, gain: 1.0, breath: 0.1 },
+  [Tone.Sad]: { pitch: 0.9, range: 0.5, rate: 0.8, gain: 0.65, breath: 0.15 },
+  [Tone.Scary]: { pitch: 0.92, range: 0.8, rate: 0.85, gain: 0.7, breath: 0.35 },
+};
+
+/**
+ * A custom style starts from its base tone; pace and energy push the rate,
+ * intonation range and level further the higher its intensity.
+ */
+const styleDelivery = (style: ToneStyle): Delivery => {
+  const base = TONES[style.base];
+  const strength = style.intensity / MAX_INTENSITY;
+  const pace = style.pace === 'slow' ? -1 : style.pace === 'fast' ? 1 : 0;
+  const energy = style.energy === 'low' ? -1 : style.energy === 'high' ? 1 : 0;
+  return {
+    ...base,
+    rate: base.rate * (1 + 0.15 * pace * strength),
+    range: base.range * (1 + 0.4 * energy * strength),
+    gain: Math.min(1, base.gain * (1 + 0.2 * energy * strength)),
+  };
+};
+
+interface Frame {
+  f: [number, number, number];
+  voice: number;
+  noise: number;
+  noiseF: number;
+  aspirate: number;
+  pitch: number;
+}
+
+interface Token {
+  phonemes: string[];
+  emphasis: boolean;
+  pauseMs: number; // Pause after this word
+  sentenceEnd: '.' | '?' | '!' | null;
+}
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let emphasis = false;
+  const parts = text.toLowerCase().match(/\*|[a-z0-9']+|[.,;:!?—–-]/g) || [];
+
+  parts.forEach(part => {
+    if (part === '*') {
+      emphasis = !emphasis;
+      return;
+    }
+    const last = tokens[tokens.length - 1];
+    if (/^[.!?]$/.test(part)) {
+      if (last) {
+        last.pauseMs = 320;
+        last.sentenceEnd = part as Token['sentenceEnd'];
+      }
+      return;
+    }
+    if (/^[,;:—–-]$/.test(part)) {
+      if (last) last.pauseMs = Math.max(last.pauseMs, 180);
+      return;
+    }
+    const phonemes = wordToPhonemes(part.replace(/'/g, ''));
+    if (phonemes.length > 0) {
+      tokens.push({ phonemes, emphasis, pauseMs: 0, sentenceEnd: null });
+    }
+  });
+  return tokens;
+};
+
+/**
+ * Builds the per-frame parameter track for a text passage.
+ */
+const buildFrames = (text: string, voice: FormantVoice, delivery: Delivery, whisper: boolean): Frame[] => {
+  const frames: Frame[] = [];
+  const tokens = tokenize(text);
+  const basePitch = voice.pitch * delivery.pitch;
+  const silence = (ms: number, pitch: number) => {
+    const prev = frames[frames.length - 1];
+    for (let t = 0; t < ms; t += FRAME_MS) {
+      frames.push({ f: prev ? prev.f : [500, 1500, 2500], voice: 0, noise: 0, noiseF: 3000, aspirate: 0, pitch });
+    }
+  };
+
+  // Declination: pitch drifts down across each sentence
+  let sentenceStart = 0;
+  tokens.forEach((token, w) => {
+    const sentenceLen = tokens.slice(sentenceStart).findIndex(t => t.sentenceEnd !== null) + 1 || tokens.length - sentenceStart;
+    const position = (w - sentenceStart) / Math.max(1, sentenceLen);
+    const wordPitch = basePitch * (1.08 - 0.16 * position * delivery.range) * (token.emphasis ? 1.15 : 1);
+    const isLastWord = token.sentenceEnd !== null;
+    let stressed = false;
+
+    const expanded = token.phonemes.flatMap(p => DIPHTHONGS[p] ?? [p]);
+    expanded.forEach((name, p) => {
+      const ph = PHONEMES[name];
+      if (!ph) return;
+      const isStressed = !!ph.vowel && !stressed;
+      if (isStressed) stressed = true;
+
+      const durMs = (ph.dur * (isStressed ? 1.25 : 1) * (token.emphasis ? 1.2 : 1)) / delivery.rate;
+      const frameCount = Math.max(1, Math.round(durMs / FRAME_MS));
+      const f = ph.f.map(x => x * voice.formantScale) as [number, number, number];
+
+      for (let n = 0; n < frameCount; n++) {
+        let pitch = wordPitch * (isStressed ? 1 + 0.08 * delivery.range : 1);
+        // Sentence-final contour: fall for statements, rise for questions
+        if (isLastWord && p >= expanded.length - 2) {
+          const t = n / frameCount;
+          pitch *= token.sentenceEnd === '?' ? 1 + 0.25 * t * delivery.range : 1 - 0.15 * t * delivery.range;
+        }
+        const inClosure = ph.stop && n < frameCount * 0.6;
+        frames.push({
+          f,
+          voice: whisper ? 0 : inClosure ? ph.voice * 0.3 : ph.voice,
+          noise: inClosure ? 0 : ph.stop ? ph.noise * (n < frameCount * 0.75 ? 1 : 0.3) : ph.noise,
+          noiseF: ph.noiseF ?? 3000,
+          aspirate: whisper ? Math.max(ph.voice, ph.aspirate ? ph.noise : 0) * 0.6 : ph.aspirate ? ph.noise : 0,
+          pitch,
+        });
+      }
+    });
+
+    silence(token.pauseMs > 0 ? token.pauseMs / delivery.rate : 25, wordPitch);
+    if (isLastWord) sentenceStart = w + 1;
+  });
+
+  return frames;
+};
+
+/**
+ * Second-order resonator as used in Klatt-style synthesizers.
+ */
+class Resonator {
+  private a = 0;
+  private b = 0;
+  private c = 0;
+  private y1 = 0;
+  private y2 = 0;
+
+  set(freq: number, bandwidth: number) {
+    const t = 1 / SAMPLE_RATE;
+    this.c = -Math.exp(-2 * Math.PI * bandwidth * t);
+    this.b = 2 * Math.exp(-Math.PI * bandwidth * t) * Math.cos(2 * Math.PI * freq * t);
+    this.a = 1 - this.b - this.c;
+  }
+
+  process(x: number): number {
+    const y = this.a * x + this.b * this.y1 + this.c * this.y2;
+    this.y2 = this.y1;
+    this.y1 = y;
+    return y;
+  }
+}
+
+const BANDWIDTHS = [60, 90, 150];
+
+/**
+ * Renders a passage to 16-bit mono PCM at 24 kHz.
+ */
+export const synthesizeFormantSpeech = (
+  text: string,
+  voiceName: VoiceName,
+  tone: Tone,
+  whisper = false,
+  style?: ToneStyle
+): Uint8Array => {
+  const voice = VOICES[voiceName];
+  const delivery = style ? styleDelivery(style) : TONES[tone];
+  const frames = buildFrames(text, voice, delivery, whisper);
+  const samplesPerFrame = (SAMPLE_RATE * FRAME_MS) / 1000;
+  const mix = new Float32Array(frames.length * samplesPerFrame);
+
+  const formants = [new Resonator(), new Resonator(), new Resonator()];
+  const fricative = new Resonator();
+  const glottis = new Resonator();
+  glottis.set(0, 100);
+
+  // Smoothed parameters give coarticulation between phoneme targets
+  const current = { f: [500, 1500, 2500], voice: 0, noise: 0, noiseF: 3000, aspirate: 0, pitch: voice.pitch };
+  const smoothing = 1 - Math.exp(-1 / (SAMPLE_RATE * 0.012));
+  let phase = 0;
+  let seed = 22222;
+  const noise = () => {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    return seed / 0x3fffffff - 1;
+  };
+
+  let n = 0;
+  frames.forEach(frame => {
+    for (let s = 0; s < samplesPerFrame; s++, n++) {
+      for (let k = 0; k < 3; k++) current.f[k] += (frame.f[k] - current.f[k]) * smoothing;
+      current.voice += (frame.voice - current.voice) * smoothing;
+      current.noise += (frame.noise - current.noise) * smoothing * 2;
+      current.noiseF += (frame.noiseF - current.noiseF) * smoothing;
+      current.aspirate += (frame.aspirate - current.aspirate) * smoothing;
+      current.pitch += (frame.pitch - current.pitch) * smoothing * 0.5;
+
+      // Update filter coefficients every 16 samples; cheap and smooth enough
+      if ((n & 15) === 0) {
+        formants.forEach((r, k) => r.set(current.f[k], BANDWIDTHS[k]));
+        fricative.set(current.noiseF, current.noiseF * 0.3);
+      }
+
+      // Glottal source: impulse train shaped by a low-pass resonator
+      phase += current.pitch / SAMPLE_RATE;
+      let pulse = 0;
+      if (phase >= 1) {
+        phase -= 1;
+        pulse = 1;
+      }
+      const voiced = glottis.process(pulse) * current.voice;
+      const breath = noise() * (current.aspirate + current.voice * delivery.breath) * 0.006;
+
+      let tract = voiced + breath;
+      for (const r of formants) tract = r.process(tract);
+      const frication = fricative.process(noise()) * current.noise * 0.01;
+
+      mix[n] = tract + frication;
+    }
+  });
+
+  // The resonator cascade has a large, pitch-dependent gain, so normalize
+  // each passage to a fixed peak before applying the tone's level
+  let peak = 0;
+  for (let i = 0; i < mix.length; i++) peak = Math.max(peak, Math.abs(mix[i]));
+  const scale = peak > 0 ? (0.7 * delivery.gain * 32767) / peak : 0;
+  const output = new Int16Array(mix.length);
+  for (let i = 0; i < mix.length; i++) output[i] = Math.round(mix[i] * scale);
+
+  return samplesToPcmBytes(output);
+};
@@ -0,0 +1,55 @@
+import { TimeRegion } from "../types";
+
+/**
+ * Seamless loops for rendered music. The music is rendered for one loop
+ * plus up to one more loop's worth of ringing tail, and laid out as an
+ * intro followed by the loop itself:
+ *
+ *   [ first pass, as rendered ][ loop: a pass with the previous pass's tail folded in ]
+ *
+ * The intro plays once, so the music starts without stray tails, and the
+ * loop repeats after it. Any tail longer than a loop is cut off where the
+ * loop ends, so the loop's end is crossfaded, equal-power, into the intro's
+ * end: what leads up to the loop's start without that older tail. The jump
+ * back to the start is then continuous.
+ */
+
+export const LOOP_CROSSFADE_SECONDS = 0.05;
+
+export interface SeamlessLoop {
+  channels: Float32Array[];
+  loop: TimeRegion; // Seconds into the channels
+}
+
+/** Builds the loop from channels rendered `loopSeconds` long plus their tail. */
+export const makeSeamlessLoop = (
+  channels: Float32Array[],
+  sampleRate: number,
+  loopSeconds: number,
+  crossfadeSeconds = LOOP_CROSSFADE_SECONDS
+): SeamlessLoop => {
+  const length = channels[0]?.length ?? 0;
+  const loopLength = Math.max(1, Math.min(length, Math.round(loopSeconds * sampleRate)));
+  const tailLength = Math.min(loopLength, length - loopLength);
+  const fade = Math.min(Math.round(crossfadeSeconds * sampleRate), Math.floor(loopLength / 2));
+
+  const looped = channels.map(x => {
+    const head = x.subarray(0, loopLength);
+    const out = new Float32Array(2 * loopLength);
+    out.set(head);
+    out.set(head, loopLength);
+    for (let n = 0; n < tailLength; n++) out[loopLength + n] += x[loopLength + n];
+    for (let k = 0; k < fade; k++) {
+      const angle = ((k + 0.5) / fade) * (Math.PI / 2);
+      const at = 2 * loopLength - fade + k;
+      out[at] = out[at] * Math.cos(angle) + out[loopLength - fade + k] * Math.sin(angle);
+    }
+    return out;
+  });
+
+  return { channels: looped, loop: { start: loopLength / sampleRate, end: (2 * loopLength) / sampleRate } };
+};
+
+/** The position in a looping track `time` seconds after it started playing. */
+export const loopOffset = (loop: TimeRegion, time: number): number =>
+  time < loop.end ? time : loop.start + ((time - loop.start) % (loop.end - loop.start));
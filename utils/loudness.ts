@@ -0,0 +1,273 @@
+import { LoudnessPreset, LoudnessStats } from "../types";
+
+/**
+ * Loudness measurement and normalization after ITU-R BS.1770-4 / EBU R128:
+ * K-weighted, gated integrated loudness and 4x oversampled true peak.
+ */
+
+export interface LoudnessTarget {
+  label: string;
+  lufs: number;
+  truePeak: number; // Ceiling in dBTP
+}
+
+export const LOUDNESS_TARGETS: Record<Exclude<LoudnessPreset, 'off'>, LoudnessTarget> = {
+  podcast: { label: 'Podcast', lufs: -16, truePeak: -1 },
+  broadcast: { label: 'Broadcast (EBU R128)', lufs: -23, truePeak: -1 },
+  streaming: { label: 'Streaming', lufs: -14, truePeak: -1 },
+};
+
+const ABSOLUTE_GATE = -70;
+const RELATIVE_GATE = -10;
+const BLOCK_SECONDS = 0.4;
+const STEP_SECONDS = 0.1; // 75% block overlap
+
+const OVERSAMPLE = 4;
+const INTERP_HALF_WIDTH = 6; // Taps either side of the interpolated point
+
+const toDb = (linear: number) => 20 * Math.log10(linear);
+const fromDb = (db: number) => 10 ** (db / 20);
+
+interface Biquad {
+  b0: number; b1: number; b2: number;
+  a1: number; a2: number;
+}
+
+/** The two K-weighting stages (high shelf, then high pass), designed for any sample rate. */
+const kWeightingFilters = (sampleRate: number): [Biquad, Biquad] => {
+  let f0 = 1681.974450955533;
+  const gain = 3.999843853973347;
+  let q = 0.7071752369554196;
+  let k = Math.tan((Math.PI * f0) / sampleRate);
+  const vh = fromDb(gain);
+  const vb = vh ** 0.4996667741545416;
+  let a0 = 1 + k / q + k * k;
+  const shelf: Biquad = {
+    b0: (vh + (vb * k) / q + k * k) / a0,
+    b1: (2 * (k * k - vh)) / a0,
+    b2: (vh - (vb * k) / q + k * k) / a0,
+    a1: (2 * (k * k - 1)) / a0,
+    a2: (1 - k / q + k * k) / a0,
+  };
+
+  f0 = 38.13547087602444;
+  q = 0.5003270373238773;
+  k = Math.tan((Math.PI * f0) / sampleRate);
+  a0 = 1 + k / q + k * k;
+  const highPass: Biquad = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (k * k - 1)) / a0,
+    a2: (1 - k / q + k * k) / a0,
+  };
+  return [shelf, highPass];
+};
+
+const applyBiquad = (input: Float32Array, f: Biquad): Float32Array => {
+  const out = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = f.b0 * x + f.b1 * x1 + f.b2 * x2 - f.a1 * y1 - f.a2 * y2;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+    out[i] = y;
+  }
+  return out;
+};
+
+/**
+ * Gated integrated loudness in LUFS, or -Infinity when everything falls
+ * below the absolute gate. All channels are weighted 1.0 (mono and stereo).
+ */
+export const integratedLoudness = (channels: Float32Array[], sampleRate: number): number => {
+  const [shelf, highPass] = kWeightingFilters(sampleRate);
+  const step = Math.round(STEP_SECONDS * sampleRate);
+  const stepsPerBlock = Math.round(BLOCK_SECONDS / STEP_SECONDS);
+  const length = channels[0]?.length ?? 0;
+  const stepCount = Math.floor(length / step);
+
+  // Energy of each 100 ms step, summed over channels
+  const stepEnergy = new Float64Array(stepCount);
+  channels.forEach(channel => {
+    const weighted = applyBiquad(applyBiquad(channel, shelf), highPass);
+    for (let s = 0; s < stepCount; s++) {
+      let sum = 0;
+      for (let i = s * step; i < (s + 1) * step; i++) sum += weighted[i] * weighted[i];
+      stepEnergy[s] += sum;
+    }
+  });
+
+  const blockPower: number[] = [];
+  const blockSamples = step * stepsPerBlock;
+  for (let b = 0; b + stepsPerBlock <= stepCount; b++) {
+    let sum = 0;
+    for (let s = b; s < b + stepsPerBlock; s++) sum += stepEnergy[s];
+    blockPower.push(sum / blockSamples);
+  }
+
+  const lufs = (power: number) => -0.691 + 10 * Math.log10(power);
+  const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+  const absoluteGated = blockPower.filter(p => lufs(p) > ABSOLUTE_GATE);
+  if (absoluteGated.length === 0) return -Infinity;
+  const relativeGate = lufs(mean(absoluteGated)) + RELATIVE_GATE;
+  const gated = absoluteGated.filter(p => lufs(p) > relativeGate);
+  return lufs(mean(gated));
+};
+
+/** Windowed-sinc coefficients for the OVERSAMPLE - 1 points between two samples. */
+const interpolationPhases: number[][] = Array.from({ length: OVERSAMPLE - 1 }, (_, p) => {
+  const frac = (p + 1) / OVERSAMPLE;
+  const taps: number[] = [];
+  for (let j = -INTERP_HALF_WIDTH + 1; j <= INTERP_HALF_WIDTH; j++) {
+    const t = frac - j;
+    const sinc = Math.sin(Math.PI * t) / (Math.PI * t);
+    const window = 0.5 * (1 + Math.cos((Math.PI * t) / INTERP_HALF_WIDTH));
+    taps.push(sinc * window);
+  }
+  return taps;
+});
+
+/**
+ * Per-sample true peak: the largest absolute value over all channels at
+ * sample n and at the oversampled points between n and n + 1. Points are
+ * only interpolated near samples above `floor`, since the overshoot
+ * between samples stays well under 6 dB for band-limited audio.
+ */
+const truePeakEnvelope = (channels: Float32Array[], floor = 0): Float32Array => {
+  const length = channels[0]?.length ?? 0;
+  const peaks = new Float32Array(length);
+  const skipBelow = floor / 2;
+  channels.forEach(x => {
+    for (let n = 0; n < length; n++) {
+      let peak = Math.abs(x[n]);
+      if (peak >= skipBelow || (n + 1 < length && Math.abs(x[n + 1]) >= skipBelow)) {
+        for (const taps of interpolationPhases) {
+          let y = 0;
+          for (let t = 0; t < taps.length; t++) {
+            const i = n + t - INTERP_HALF_WIDTH + 1;
+            if (i >= 0 && i < length) y += x[i] * taps[t];
+          }
+          peak = Math.max(peak, Math.abs(y));
+        }
+      }
+      if (peak > peaks[n]) peaks[n] = peak;
+    }
+  });
+  return peaks;
+};
+
+export const truePeak = (channels: Float32Array[]): number => {
+  let samplePeak = 0;
+  for (const x of channels) {
+    for (let i = 0; i < x.length; i++) samplePeak = Math.max(samplePeak, Math.abs(x[i]));
+  }
+  const peaks = truePeakEnvelope(channels, samplePeak);
+  let max = 0;
+  for (let i = 0; i < peaks.length; i++) if (peaks[i] > max) max = peaks[i];
+  return toDb(max);
+};
+
+export const measureLoudness = (channels: Float32Array[], sampleRate: number): LoudnessStats => ({
+  integrated: integratedLoudness(channels, sampleRate),
+  truePeak: truePeak(channels),
+});
+
+/**
+ * Look-ahead true-peak limiter. The gain needed at each sample is held
+ * over the look-ahead window and then averaged over the same length, so
+ * the gain is already down by the time a peak arrives; release is a
+ * one-pole recovery towards unity. Works in place.
+ */
+export const limitTruePeak = (
+  channels: Float32Array[],
+  sampleRate: number,
+  ceilingDb: number,
+  lookaheadMs = 5,
+  releaseMs = 80
+) => {
+  const length = channels[0]?.length ?? 0;
+  const ceiling = fromDb(ceilingDb);
+  const window = Math.max(1, Math.round((lookaheadMs / 1000) * sampleRate));
+  const peaks = truePeakEnvelope(channels, ceiling);
+
+  const required = new Float32Array(length);
+  let needsLimiting = false;
+  for (let n = 0; n < length; n++) {
+    required[n] = peaks[n] > ceiling ? ceiling / peaks[n] : 1;
+    if (required[n] < 1) needsLimiting = true;
+  }
+  if (!needsLimiting) return;
+
+  // Sliding minimum of required[n .. n + window - 1]
+  const held = new Float32Array(length);
+  const deque: number[] = [];
+  let head = 0;
+  for (let n = length - 1; n >= 0; n--) {
+    while (deque.length > head && required[deque[deque.length - 1]] >= required[n]) deque.pop();
+    deque.push(n);
+    while (deque[head] > n + window - 1) head++;
+    held[n] = required[deque[head]];
+  }
+
+  // Moving average of held[n - window + 1 .. n], then release. Before the
+  // start, held[0] stands in so the first window is already reduced.
+  const release = Math.exp(-1 / ((releaseMs / 1000) * sampleRate));
+  let sum = window * held[0];
+  let gain = held[0];
+  for (let n = 0; n < length; n++) {
+    sum += held[n] - (n >= window ? held[n - window] : held[0]);
+    const smoothed = sum / window;
+    gain = Math.min(smoothed, gain * release + (1 - release));
+    for (const x of channels) x[n] *= gain;
+  }
+};
+
+const NORMALIZE_PASSES = 3;
+const NORMALIZE_TOLERANCE = 0.1; // LU
+
+/**
+ * Applies gain to reach the target integrated loudness, then limits true
+ * peaks to the target ceiling. Limiting lowers the loudness of peaky
+ * material, so the gain is re-aimed over a few passes. Silence is left
+ * untouched. Works in place and returns the loudness before and after.
+ */
+export const normalizeLoudness = (
+  channels: Float32Array[],
+  sampleRate: number,
+  target: LoudnessTarget,
+  onProgress?: (fraction: number) => void
+): { before: LoudnessStats; after: LoudnessStats } => {
+  const before = measureLoudness(channels, sampleRate);
+  if (!isFinite(before.integrated)) return { before, after: before };
+
+  const original = channels.map(x => x.slice());
+  let gainDb = target.lufs - before.integrated;
+  let after = before;
+  for (let pass = 0; pass < NORMALIZE_PASSES; pass++) {
+    const gain = fromDb(gainDb);
+    channels.forEach((x, c) => {
+      const source = original[c];
+      for (let i = 0; i < x.length; i++) x[i] = source[i] * gain;
+    });
+    limitTruePeak(channels, sampleRate, target.truePeak);
+    after = measureLoudness(channels, sampleRate);
+    onProgress?.((pass + 1) / NORMALIZE_PASSES);
+    const error = target.lufs - after.integrated;
+    if (Math.abs(error) < NORMALIZE_TOLERANCE) break;
+    gainDb += error;
+  }
+
+  // The limiter works on the estimated envelope; trim any residual overshoot
+  if (after.truePeak > target.truePeak) {
+    const trim = fromDb(target.truePeak - after.truePeak);
+    for (const x of channels) {
+      for (let i = 0; i < x.length; i++) x[i] *= trim;
+    }
+    after = measureLoudness(channels, sampleRate);
+  }
+  onProgress?.(1);
+  return { before, after };
+};
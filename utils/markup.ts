@@ -0,0 +1,255 @@
+import { MarkupError, MarkupParseResult, MarkupSegment, SpeechSegment, Tone, ToneStyle, VoiceName } from "../types";
+import { chunkScript, splitSentencePieces } from "./text";
+import { findToneStyle } from "./tones";
+
+/**
+ * Script markup
+ * -------------
+ *   [pause 800ms] / [pause 1.5s]   Exact silence, inserted as PCM (max 10s)
+ *   [tone:Sad] ... [/tone]         Read the enclosed passage with another Tone or custom style (may nest)
+ *   [whisper] ... [/whisper]       Whisper the enclosed passage
+ *   *words*                        Emphasize the enclosed words
+ *   \* and \[                      A literal asterisk or bracket
+ *
+ * Square brackets that don't start one of the tags above are read as text.
+ */
+
+export const MAX_PAUSE_MS = 10000;
+
+const TAG = /^\[(\/?)(pause|tone|whisper)\b([^\]\n]*)\]/i;
+const PAUSE_ARGS = /^(\d+(?:\.\d+)?)\s*(ms|s)$/i;
+
+interface Position {
+  line: number;
+  column: number;
+}
+
+interface Delivery {
+  tone: Tone;
+  style?: ToneStyle;
+}
+
+/** A built-in tone, or else a custom style, by name. */
+const findDelivery = (name: string, styles: ToneStyle[]): Delivery | undefined => {
+  const tone = Object.values(Tone).find(t => t.toLowerCase() === name.toLowerCase());
+  if (tone) return { tone };
+  const style = findToneStyle(styles, name);
+  return style && { tone: style.base, style };
+};
+
+/**
+ * Parses marked-up script text into a typed segment list. Parsing never
+ * throws: problems are collected as line/column errors and the best-effort
+ * segment list is still returned. `styles` are the custom styles that
+ * [tone:Name] may name besides the built-in tones.
+ */
+export const parseMarkup = (source: string, styles: ToneStyle[] = []): MarkupParseResult => {
+  const segments: MarkupSegment[] = [];
+  const errors: MarkupError[] = [];
+  const toneStack: Array<Position & Delivery> = [];
+  let whisperOpen: Position | null = null;
+  let emphasisOpen: Position | null = null;
+  let buffer = '';
+  let line = 1;
+  let column = 1;
+
+  const error = (at: Position, message: string) => errors.push({ ...at, message });
+
+  const flush = () => {
+    if (!buffer) return;
+    const delivery = toneStack[toneStack.length - 1];
+    segments.push({
+      kind: 'speech',
+      text: buffer,
+      tone: delivery ? delivery.tone : null,
+      ...(delivery?.style ? { style: delivery.style } : {}),
+      whisper: whisperOpen !== null,
+      emphasis: emphasisOpen !== null,
+    });
+    buffer = '';
+  };
+
+  const handleTag = (at: Position, closing: boolean, name: string, args: string) => {
+    switch (name) {
+      case 'pause': {
+        if (closing) {
+          error(at, '[pause] does not take a closing tag.');
+          return;
+        }
+        const match = args.trim().match(PAUSE_ARGS);
+        if (!match) {
+          error(at, 'Pause needs a duration with a unit, e.g. [pause 800ms] or [pause 2s].');
+          return;
+        }
+        const value = parseFloat(match[1]);
+        const durationMs = Math.round(match[2].toLowerCase() === 's' ? value * 1000 : value);
+        if (durationMs > MAX_PAUSE_MS) {
+          error(at, `Pause is too long (max ${MAX_PAUSE_MS / 1000}s).`);
+          return;
+        }
+        flush();
+        segments.push({ kind: 'pause', durationMs });
+        return;
+      }
+      case 'tone': {
+        if (closing) {
+          if (toneStack.length === 0) {
+            error(at, '[/tone] has no matching [tone:…].');
+            return;
+          }
+          flush();
+          toneStack.pop();
+          return;
+        }
+        const toneName = args.trim().replace(/^:\s*/, '');
+        const delivery = args.trim().startsWith(':') ? findDelivery(toneName, styles) : undefined;
+        if (!delivery) {
+          const names = [...Object.values(Tone), ...styles.map(s => s.name)];
+          error(at, `Unknown tone "${toneName}". Use one of: ${names.join(', ')}.`);
+          return;
+        }
+        flush();
+        toneStack.push({ ...at, ...delivery });
+        return;
+      }
+      case 'whisper': {
+        if (args.trim()) {
+          error(at, `[${closing ? '/' : ''}whisper] does not take arguments.`);
+          return;
+        }
+        if (closing === (whisperOpen === null)) {
+          error(at, closing ? '[/whisper] has no matching [whisper].' : '[whisper] is already open.');
+          return;
+        }
+        flush();
+        whisperOpen = closing ? null : at;
+        return;
+      }
+    }
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    const at = { line, column };
+    let consumed = 1;
+
+    if (ch === '\\' && (source[i + 1] === '*' || source[i + 1] === '[')) {
+      buffer += source[i + 1];
+      consumed = 2;
+    } else if (ch === '*') {
+      flush();
+      emphasisOpen = emphasisOpen ? null : at;
+    } else if (ch === '[') {
+      const match = source.slice(i).match(TAG);
+      if (match) {
+        consumed = match[0].length;
+        handleTag(at, match[1] === '/', match[2].toLowerCase(), match[3]);
+      } else {
+        buffer += ch;
+      }
+    } else {
+      buffer += ch;
+    }
+
+    for (let k = 0; k < consumed; k++) {
+      if (source[i + k] === '\n') {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+    }
+    i += consumed;
+  }
+  flush();
+
+  toneStack.forEach(open => error(open, `[tone:${open.style?.name ?? open.tone}] is never closed.`));
+  if (whisperOpen) error(whisperOpen, '[whisper] is never closed.');
+  if (emphasisOpen) error(emphasisOpen, 'Emphasis "*" is never closed. Use \\* for a literal asterisk.');
+
+  return { segments, errors };
+};
+
+/**
+ * Converts parsed markup into the speech segments to synthesize. Adjacent
+ * runs with the same delivery are merged so only tone or whisper changes
+ * split the request; emphasis stays inline as *asterisks* for the prompt.
+ * Pauses attach to the neighbouring segment as exact silence. A custom
+ * default style applies wherever the markup doesn't pick another tone.
+ */
+export const markupToSpeechSegments = (
+  segments: MarkupSegment[],
+  voice: VoiceName,
+  defaultTone: Tone,
+  maxChars: number,
+  defaultStyle?: ToneStyle
+): SpeechSegment[] => {
+  const result: SpeechSegment[] = [];
+  let pendingPauseMs = 0;
+  let run: { text: string; tone: Tone; style?: ToneStyle; whisper: boolean } | null = null;
+
+  const flushRun = () => {
+    if (!run) return;
+    // A paragraph break right after the previous segment still counts
+    // even if it landed in this run (e.g. just after a closing tag)
+    const leading = run.text.match(/^\s*/)![0];
+    if (/\n\s*\n/.test(leading) && result.length > 0) {
+      result[result.length - 1].endsParagraph = true;
+    }
+    if (!run.text.trim()) {
+      run = null;
+      return;
+    }
+    const endsParagraph = /\n\s*\n\s*$/.test(run.text);
+    const chunks = chunkScript(run.text, maxChars);
+    chunks.forEach((chunk, i) => {
+      result.push({
+        text: chunk.text,
+        voice,
+        tone: run!.tone,
+        ...(run!.style ? { style: run!.style } : {}),
+        whisper: run!.whisper,
+        endsParagraph: i < chunks.length - 1 ? chunk.endsParagraph : endsParagraph,
+        ...(i === 0 && pendingPauseMs > 0 ? { pauseBeforeMs: pendingPauseMs } : {}),
+      });
+    });
+    if (chunks.length > 0) pendingPauseMs = 0;
+    run = null;
+  };
+
+  segments.forEach(segment => {
+    if (segment.kind === 'pause') {
+      flushRun();
+      const last = result[result.length - 1];
+      if (last && pendingPauseMs === 0) {
+        last.pauseAfterMs = (last.pauseAfterMs ?? 0) + segment.durationMs;
+      } else {
+        pendingPauseMs += segment.durationMs;
+      }
+      return;
+    }
+
+    const tone = segment.tone ?? defaultTone;
+    const style = segment.tone ? segment.style : defaultStyle;
+    const text = segment.emphasis && segment.text.trim()
+      ? segment.text.replace(/^(\s*)([\s\S]*?)(\s*)$/, (_, lead, body, trail) =>
+          `${lead}${splitSentencePieces(body).map(s => s.replace(/^([\s\S]*?)(\s*)$/, '*$1*$2')).join('')}${trail}`)
+      : segment.text;
+
+    if (run && (run.tone !== tone || run.style?.id !== style?.id || run.whisper !== segment.whisper)) {
+      flushRun();
+    }
+    if (!run) run = { text: '', tone, style, whisper: segment.whisper };
+    run.text += text;
+  });
+  flushRun();
+
+  // A pause at the very end of the script
+  if (pendingPauseMs > 0 && result.length > 0) {
+    const last = result[result.length - 1];
+    last.pauseAfterMs = (last.pauseAfterMs ?? 0) + pendingPauseMs;
+  }
+
+  return result;
+};
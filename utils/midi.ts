@@ -0,0 +1,450 @@
+import { Instrument, MusicScore, Note } from "../types";
+import { DEFAULT_REVERB } from "./reverb";
+import { freqToMidi, midiToFreq } from "./score";
+
+/**
+ * Standard MIDI Files for music scores. Scores are written as type 1: a
+ * conductor track with the tempo and a "Loop End" marker, then one track
+ * per instrument. Frequencies between semitones are kept with pitch bend
+ * (the default ±2 semitone range, set explicitly); since bend, like pan,
+ * applies to a whole channel, overlapping notes that need different bends
+ * or pans are spread over several channels of their track. Percussion goes
+ * on the General MIDI drum channel.
+ */
+
+const PPQ = 480;
+const BEND_RANGE = 2; // Semitones either way
+const BEND_CENTRE = 8192;
+const DRUM_CHANNEL = 9;
+const LOOP_END_MARKER = 'Loop End';
+const DEFAULT_MIDI_TEMPO = 120; // What a file without tempo events plays at
+
+const META_TRACK_NAME = 0x03;
+const META_MARKER = 0x06;
+const META_END_OF_TRACK = 0x2f;
+const META_TEMPO = 0x51;
+const META_TIME_SIGNATURE = 0x58;
+
+const NOTE_OFF = 0x80;
+const NOTE_ON = 0x90;
+const CONTROL_CHANGE = 0xb0;
+const PROGRAM_CHANGE = 0xc0;
+const PITCH_BEND = 0xe0;
+
+const CC_DATA_ENTRY = 6;
+const CC_PAN = 10;
+const CC_DATA_ENTRY_FINE = 38;
+const CC_REVERB_SEND = 91;
+const CC_RPN_FINE = 100;
+const CC_RPN_COARSE = 101;
+
+/** General MIDI programs (zero-based) each instrument is written with. */
+const PROGRAMS: Record<Instrument, number> = {
+  pad: 89,   // Warm pad
+  pluck: 46, // Orchestral harp
+  bell: 14,  // Tubular bells
+  bass: 38,  // Synth bass
+  percussion: 0,
+};
+
+/** General MIDI drum keys and the noise band each one plays with. */
+const DRUMS = [
+  { key: 36, freq: 55 },   // Kick
+  { key: 45, freq: 160 },  // Low tom
+  { key: 38, freq: 1800 }, // Snare
+  { key: 42, freq: 7000 }, // Closed hi-hat
+];
+
+const WAVE_TYPES: Note['type'][] = ['sine', 'triangle', 'square', 'sawtooth'];
+const INSTRUMENTS: Instrument[] = ['pad', 'pluck', 'bell', 'bass', 'percussion'];
+
+const trackName = (instrument: Instrument, type: Note['type']) => {
+  const name = instrument[0].toUpperCase() + instrument.slice(1);
+  return instrument === 'pad' ? `${name} (${type})` : name;
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// --- Writing ---
+
+interface TrackEvent {
+  tick: number;
+  order: number; // At the same tick: note-offs, then controllers, then note-ons
+  data: number[];
+}
+
+const variableLength = (value: number): number[] => {
+  const bytes = [value & 0x7f];
+  while ((value >>= 7) > 0) bytes.unshift((value & 0x7f) | 0x80);
+  return bytes;
+};
+
+const textBytes = (text: string) => Array.from(new TextEncoder().encode(text));
+
+const metaEvent = (tick: number, type: number, data: number[]): TrackEvent =>
+  ({ tick, order: 1, data: [0xff, type, ...variableLength(data.length), ...data] });
+
+const chunk = (id: string, body: number[]): number[] => {
+  const length = body.length;
+  return [...textBytes(id), length >>> 24, (length >>> 16) & 0xff, (length >>> 8) & 0xff, length & 0xff, ...body];
+};
+
+const encodeTrack = (events: TrackEvent[], endTick: number): number[] => {
+  const sorted = [...events].sort((a, b) => a.tick - b.tick || a.order - b.order);
+  const last = Math.max(endTick, sorted.length > 0 ? sorted[sorted.length - 1].tick : 0);
+  sorted.push(metaEvent(last, META_END_OF_TRACK, []));
+  const body: number[] = [];
+  let tick = 0;
+  sorted.forEach(event => {
+    body.push(...variableLength(event.tick - tick), ...event.data);
+    tick = event.tick;
+  });
+  return chunk('MTrk', body);
+};
+
+/** What a channel is currently set up for, and until when it is sounding. */
+interface ChannelState {
+  channel: number;
+  bend: number;
+  pan: number;
+  busyUntil: number;
+}
+
+/** Encodes a score as a type 1 Standard MIDI File. */
+export const writeMidi = (score: MusicScore): Uint8Array => {
+  const tempo = score.tempo > 0 ? score.tempo : DEFAULT_MIDI_TEMPO;
+  const toTicks = (seconds: number) => Math.max(0, Math.round((seconds * tempo * PPQ) / 60));
+  const endTick = toTicks(score.totalDuration);
+  const reverb = score.reverb ?? DEFAULT_REVERB;
+
+  const microseconds = Math.round(60_000_000 / tempo);
+  const conductor = [
+    metaEvent(0, META_TRACK_NAME, textBytes('Background music')),
+    metaEvent(0, META_TEMPO, [microseconds >>> 16, (microseconds >>> 8) & 0xff, microseconds & 0xff]),
+    metaEvent(0, META_TIME_SIGNATURE, [4, 2, 24, 8]),
+    metaEvent(endTick, META_MARKER, textBytes(LOOP_END_MARKER)),
+  ];
+
+  // One track per instrument, and per wave type for pads
+  const groups = new Map<string, { instrument: Instrument; type: Note['type']; notes: Note[] }>();
+  score.notes.forEach(note => {
+    const instrument = note.instrument ?? 'pad';
+    const type = instrument === 'pad' ? note.type : 'sine';
+    const id = `${instrument}:${type}`;
+    if (!groups.has(id)) groups.set(id, { instrument, type, notes: [] });
+    groups.get(id)!.notes.push(note);
+  });
+
+  const freeChannels = Array.from({ length: 16 }, (_, c) => c).filter(c => c !== DRUM_CHANNEL);
+  const tracks = [...groups.values()].map(({ instrument, type, notes }) => {
+    const events: TrackEvent[] = [metaEvent(0, META_TRACK_NAME, textBytes(trackName(instrument, type)))];
+    const drums = instrument === 'percussion';
+    const states: ChannelState[] = [];
+    const control = (tick: number, channel: number, controller: number, value: number) =>
+      events.push({ tick, order: 1, data: [CONTROL_CHANGE | channel, controller, value] });
+    const setBend = (tick: number, state: ChannelState, bend: number) => {
+      state.bend = bend;
+      events.push({ tick, order: 1, data: [PITCH_BEND | state.channel, bend & 0x7f, bend >> 7] });
+    };
+    const setPan = (tick: number, state: ChannelState, pan: number) => {
+      state.pan = pan;
+      control(tick, state.channel, CC_PAN, pan);
+    };
+
+    const claimChannel = (): ChannelState | null => {
+      const channel = drums ? (states.length === 0 ? DRUM_CHANNEL : undefined) : freeChannels.shift();
+      if (channel === undefined) return null;
+      if (!drums) {
+        events.push({ tick: 0, order: 1, data: [PROGRAM_CHANGE | channel, PROGRAMS[instrument]] });
+        // Pitch bend range, through registered parameter 0
+        control(0, channel, CC_RPN_COARSE, 0);
+        control(0, channel, CC_RPN_FINE, 0);
+        control(0, channel, CC_DATA_ENTRY, BEND_RANGE);
+        control(0, channel, CC_DATA_ENTRY_FINE, 0);
+      }
+      control(0, channel, CC_REVERB_SEND, Math.round(clamp(reverb.mix, 0, 1) * 127));
+      const state = { channel, bend: BEND_CENTRE, pan: 64, busyUntil: 0 };
+      states.push(state);
+      return state;
+    };
+
+    [...notes].sort((a, b) => a.startTime - b.startTime).forEach(note => {
+      const start = toTicks(note.startTime);
+      const end = Math.max(start + 1, toTicks(note.startTime + note.duration));
+      const pan = Math.round(((clamp(note.pan ?? 0, -1, 1) + 1) / 2) * 127);
+      let key: number;
+      let bend = BEND_CENTRE;
+      if (drums) {
+        key = DRUMS.reduce((best, drum) =>
+          Math.abs(Math.log(drum.freq / note.freq)) < Math.abs(Math.log(best.freq / note.freq)) ? drum : best
+        ).key;
+      } else {
+        const midi = clamp(freqToMidi(note.freq), 0, 127);
+        key = Math.round(midi);
+        bend = clamp(Math.round(BEND_CENTRE + ((midi - key) / BEND_RANGE) * BEND_CENTRE), 0, 16383);
+      }
+
+      // A channel already set up for this note, else an idle one, else a new one
+      const state = states.find(s => (drums || s.bend === bend) && s.pan === pan)
+        ?? states.find(s => s.busyUntil <= start)
+        ?? claimChannel()
+        ?? states.reduce((a, b) => (a.busyUntil <= b.busyUntil ? a : b)); // Out of channels: the closest we can get
+      if (state.bend !== bend) setBend(start, state, bend);
+      if (state.pan !== pan) setPan(start, state, pan);
+      state.busyUntil = Math.max(state.busyUntil, end);
+
+      const velocity = clamp(Math.round((note.velocity ?? 0.7) * 127), 1, 127);
+      events.push({ tick: start, order: 2, data: [NOTE_ON | state.channel, key, velocity] });
+      events.push({ tick: end, order: 0, data: [NOTE_OFF | state.channel, key, 0] });
+    });
+    return encodeTrack(events, endTick);
+  });
+
+  const header = chunk('MThd', [0, 1, 0, tracks.length + 1, PPQ >> 8, PPQ & 0xff]);
+  return new Uint8Array([...header, ...encodeTrack(conductor, endTick), ...tracks.flat()]);
+};
+
+// --- Reading ---
+
+interface RawEvent {
+  tick: number;
+  status: number; // Channel status byte, or 0xff for meta events
+  data: Uint8Array;
+  metaType?: number;
+}
+
+class MidiReader {
+  offset = 0;
+  constructor(private bytes: Uint8Array) {}
+
+  get done() {
+    return this.offset >= this.bytes.length;
+  }
+
+  byte(): number {
+    if (this.offset >= this.bytes.length) throw new Error("The MIDI file ends unexpectedly.");
+    return this.bytes[this.offset++];
+  }
+
+  take(length: number): Uint8Array {
+    if (this.offset + length > this.bytes.length) throw new Error("The MIDI file ends unexpectedly.");
+    const data = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return data;
+  }
+
+  text(length: number): string {
+    return String.fromCharCode(...this.take(length));
+  }
+
+  uint(length: number): number {
+    let value = 0;
+    for (let i = 0; i < length; i++) value = value * 256 + this.byte();
+    return value;
+  }
+
+  variableLength(): number {
+    let value = 0;
+    for (let i = 0; i < 4; i++) {
+      const b = this.byte();
+      value = (value << 7) | (b & 0x7f);
+      if (!(b & 0x80)) return value;
+    }
+    throw new Error("The MIDI file has a malformed length.");
+  }
+}
+
+const readTrack = (reader: MidiReader): RawEvent[] => {
+  const events: RawEvent[] = [];
+  let tick = 0;
+  let running = 0;
+  while (!reader.done) {
+    tick += reader.variableLength();
+    let status = reader.byte();
+    if (status < 0x80) {
+      if (!running) throw new Error("The MIDI file has data without a status byte.");
+      reader.offset--;
+      status = running;
+    }
+
+    if (status === 0xff) {
+      const metaType = reader.byte();
+      const data = reader.take(reader.variableLength());
+      events.push({ tick, status, data, metaType });
+      if (metaType === META_END_OF_TRACK) break;
+    } else if (status === 0xf0 || status === 0xf7) {
+      reader.take(reader.variableLength()); // System exclusive; nothing in it for us
+    } else if (status >= 0xf0) {
+      throw new Error("The MIDI file has an unexpected system message.");
+    } else {
+      running = status;
+      const type = status & 0xf0;
+      const length = type === PROGRAM_CHANGE || type === 0xd0 ? 1 : 2;
+      events.push({ tick, status, data: reader.take(length) });
+    }
+  }
+  return events;
+};
+
+/** An instrument for a General MIDI program. */
+const programInstrument = (program: number): { instrument: Instrument; type: Note['type'] } => {
+  if (program <= 7 || (program >= 24 && program <= 31) || program === 45 || program === 46 || (program >= 104 && program <= 108)) {
+    return { instrument: 'pluck', type: 'sine' };
+  }
+  if (program >= 8 && program <= 15) return { instrument: 'bell', type: 'sine' };
+  if (program >= 32 && program <= 39) return { instrument: 'bass', type: 'sine' };
+  if (program === 80) return { instrument: 'pad', type: 'square' };
+  if (program === 81) return { instrument: 'pad', type: 'sawtooth' };
+  return { instrument: 'pad', type: program >= 88 && program <= 95 ? 'triangle' : 'sine' };
+};
+
+/** Our own track names, as written by `writeMidi`. */
+const parseTrackName = (name: string): { instrument: Instrument; type: Note['type'] } | null => {
+  const match = /^(\w+)(?:\s*\((\w+)\))?$/.exec(name.trim().toLowerCase());
+  if (!match || !INSTRUMENTS.includes(match[1] as Instrument)) return null;
+  const type = WAVE_TYPES.includes(match[2] as Note['type']) ? (match[2] as Note['type']) : 'sine';
+  return { instrument: match[1] as Instrument, type };
+};
+
+interface ChannelSetup {
+  program: number;
+  bend: number;  // -1..1 of the bend range
+  range: number; // Semitones
+  pan: number;
+  rpn: [number, number];
+}
+
+/**
+ * Decodes a type 0 or 1 Standard MIDI File into a score. Each note keeps
+ * the pitch bend, pan and velocity its channel had when it started; bends
+ * during a note are not followed. The loop length comes from a "Loop End"
+ * marker if there is one, else the last note's end rounded up to a bar.
+ */
+export const readMidi = (bytes: Uint8Array): MusicScore => {
+  const reader = new MidiReader(bytes);
+  if (reader.text(4) !== 'MThd') throw new Error("This is not a MIDI file.");
+  const headerLength = reader.uint(4);
+  reader.uint(2); // Format; type 2's independent sequences are read as if type 1
+  const trackCount = reader.uint(2);
+  const division = reader.uint(2);
+  reader.take(headerLength - 6);
+  if (division & 0x8000) throw new Error("MIDI files timed in SMPTE frames aren't supported.");
+
+  const tracks: RawEvent[][] = [];
+  for (let t = 0; t < trackCount && !reader.done; t++) {
+    const id = reader.text(4);
+    const length = reader.uint(4);
+    const body = new MidiReader(reader.take(length));
+    if (id === 'MTrk') tracks.push(readTrack(body));
+  }
+
+  // Tempo map, shared by all tracks
+  const tempos = tracks.flat()
+    .filter(e => e.metaType === META_TEMPO && e.data.length === 3)
+    .map(e => ({ tick: e.tick, secondsPerTick: ((e.data[0] << 16) | (e.data[1] << 8) | e.data[2]) / 1e6 / division }))
+    .sort((a, b) => a.tick - b.tick);
+  if (tempos.length === 0 || tempos[0].tick > 0) tempos.unshift({ tick: 0, secondsPerTick: 60 / DEFAULT_MIDI_TEMPO / division });
+  const toSeconds = (tick: number) => {
+    let seconds = 0;
+    for (let i = 0; i < tempos.length; i++) {
+      const next = tempos[i + 1]?.tick ?? Infinity;
+      seconds += (Math.min(tick, next) - tempos[i].tick) * tempos[i].secondsPerTick;
+      if (tick <= next) break;
+    }
+    return seconds;
+  };
+
+  const notes: Note[] = [];
+  let loopEnd: number | undefined;
+  let reverbSend = -1;
+
+  tracks.forEach(events => {
+    let named: { instrument: Instrument; type: Note['type'] } | null = null;
+    const channels: ChannelSetup[] = Array.from({ length: 16 }, () => ({ program: 0, bend: 0, range: BEND_RANGE, pan: 0, rpn: [127, 127] }));
+    const sounding = new Map<number, { tick: number; velocity: number; freq: number; pan: number; channel: number }[]>();
+    const finish = (channel: number, key: number, tick: number) => {
+      const started = sounding.get(channel * 128 + key)?.shift();
+      if (!started) return;
+      const { instrument, type } = started.channel === DRUM_CHANNEL
+        ? { instrument: 'percussion' as Instrument, type: 'sine' as Note['type'] }
+        : named ?? programInstrument(channels[channel].program);
+      const startTime = toSeconds(started.tick);
+      const note: Note = {
+        freq: started.freq,
+        startTime,
+        duration: Math.max(0.01, toSeconds(tick) - startTime),
+        type,
+        instrument,
+        velocity: started.velocity / 127,
+      };
+      if (started.pan !== 0) note.pan = started.pan;
+      notes.push(note);
+    };
+
+    events.forEach(event => {
+      if (event.status === 0xff) {
+        const text = new TextDecoder().decode(event.data);
+        if (event.metaType === META_TRACK_NAME) named = parseTrackName(text);
+        if (event.metaType === META_MARKER && text.trim().toLowerCase() === LOOP_END_MARKER.toLowerCase()) {
+          loopEnd = toSeconds(event.tick);
+        }
+        return;
+      }
+      const channel = event.status & 0x0f;
+      const setup = channels[channel];
+      const [a, b] = event.data;
+      switch (event.status & 0xf0) {
+        case NOTE_ON:
+          if (b > 0) {
+            const freq = channel === DRUM_CHANNEL
+              ? (DRUMS.find(d => d.key === a)?.freq ?? midiToFreq(a))
+              : midiToFreq(a + setup.bend * setup.range);
+            const id = channel * 128 + a;
+            if (!sounding.has(id)) sounding.set(id, []);
+            sounding.get(id)!.push({ tick: event.tick, velocity: b, freq, pan: setup.pan, channel });
+            break;
+          }
+          finish(channel, a, event.tick); // Note-on at velocity 0 is a note-off
+          break;
+        case NOTE_OFF:
+          finish(channel, a, event.tick);
+          break;
+        case PROGRAM_CHANGE:
+          setup.program = a;
+          break;
+        case PITCH_BEND:
+          setup.bend = (((b << 7) | a) - BEND_CENTRE) / BEND_CENTRE;
+          break;
+        case CONTROL_CHANGE:
+          if (a === CC_PAN) setup.pan = clamp((b - 64) / 63, -1, 1);
+          if (a === CC_REVERB_SEND) reverbSend = Math.max(reverbSend, b);
+          if (a === CC_RPN_COARSE) setup.rpn[0] = b;
+          if (a === CC_RPN_FINE) setup.rpn[1] = b;
+          if (a === CC_DATA_ENTRY && setup.rpn[0] === 0 && setup.rpn[1] === 0) setup.range = b;
+          if (a === CC_DATA_ENTRY_FINE && setup.rpn[0] === 0 && setup.rpn[1] === 0) setup.range = Math.floor(setup.range) + b / 100;
+          break;
+      }
+    });
+
+    // Notes left hanging end with their track
+    const lastTick = events.length > 0 ? events[events.length - 1].tick : 0;
+    sounding.forEach((started, id) => {
+      while (started.length > 0) finish(Math.floor(id / 128), id % 128, lastTick);
+    });
+  });
+
+  if (notes.length === 0) throw new Error("The MIDI file has no notes.");
+  notes.sort((a, b) => a.startTime - b.startTime);
+
+  const firstTempo = tempos[0].secondsPerTick * division; // Seconds per beat
+  const tempo = Math.round(60 / firstTempo);
+  const bar = 4 * firstTempo;
+  const lastEnd = notes.reduce((end, n) => Math.max(end, n.startTime + n.duration), 0);
+  const score: MusicScore = {
+    notes,
+    totalDuration: loopEnd && loopEnd > 0 ? loopEnd : Math.ceil(lastEnd / bar - 1e-6) * bar,
+    tempo,
+  };
+  if (reverbSend >= 0) score.reverb = { ...DEFAULT_REVERB, mix: reverbSend / 127 };
+  return score;
+};
@@ -0,0 +1,119 @@
+import { DuckingSettings, SpeechEffect, TimeRegion } from "../types";
+import { buildDuckingCurve, detectSpeechActivity } from "./ducking";
+import { applySpeechEffects, effectsTail } from "./effects";
+import { loopOffset } from "./loop";
+import { applySilenceEdit, SilenceEdit } from "./silence";
+import { cubic, timeStretch } from "./stretch";
+
+/**
+ * The exported mix, worked out on plain channels so it can run in a worker,
+ * where there are no audio contexts. Exports and loudness measurements both
+ * render through here, so what is measured is what gets exported.
+ */
+
+export interface DecodedTrack {
+  channels: Float32Array[];
+  sampleRate: number;
+}
+
+export interface MixInput {
+  speech: DecodedTrack;
+  music: (DecodedTrack & { loop: TimeRegion }) | null; // Loop in seconds into the track
+  speed: number;
+  pitch: number; // Semitones
+  musicVolume: number;
+  ducking?: DuckingSettings; // Music plays at a flat volume when omitted
+  silence?: SilenceEdit; // Applied first; the span and ducking follow the edited speech
+  span?: TimeRegion; // Render only this part of the speech
+  effects: SpeechEffect[];
+}
+
+/** Resamples one channel with cubic interpolation. */
+const resample = (x: Float32Array, from: number, to: number): Float32Array => {
+  if (from === to) return x;
+  const out = new Float32Array(Math.floor((x.length * to) / from));
+  const step = from / to;
+  const at = (i: number) => x[Math.max(0, Math.min(x.length - 1, i))];
+  for (let n = 0; n < out.length; n++) {
+    const position = n * step;
+    const i = Math.floor(position);
+    out[n] = cubic(at(i - 1), at(i), at(i + 1), at(i + 2), position - i);
+  }
+  return out;
+};
+
+/** Track sample at a fractional index, linearly interpolated. */
+const sampleAt = (x: Float32Array, position: number): number => {
+  const i = Math.floor(position);
+  const next = i + 1 < x.length ? x[i + 1] : 0;
+  return x[i] + (next - x[i]) * (position - i);
+};
+
+/** Copies `span` (seconds) out of each channel. */
+const sliceChannels = (channels: Float32Array[], sampleRate: number, span: TimeRegion): Float32Array[] => {
+  const from = Math.max(0, Math.floor(span.start * sampleRate));
+  const to = Math.min(channels[0]?.length ?? 0, Math.ceil(span.end * sampleRate));
+  return channels.map(x => x.slice(from, Math.max(from + 1, to)));
+};
+
+/**
+ * Renders the stereo mix at `sampleRate`: the speech silence-edited,
+ * stretched to the new speed (keeping its pitch unless a shift is asked
+ * for) and run through its effects, with the music looping under it at its
+ * own pace, ducked around the speech. With a span, that part renders exactly
+ * as it sounds within the full mix: the music picks up at the phase it has
+ * there, under the same ducking. A full render runs on until the effects'
+ * reverb has died away.
+ */
+export const renderMixChannels = (
+  { speech, music, speed, pitch, musicVolume, ducking, silence, span, effects }: MixInput,
+  sampleRate: number
+): Float32Array[] => {
+  const speechRate = speech.sampleRate;
+  const edited = silence ? applySilenceEdit(speech.channels, speechRate, silence) : speech.channels;
+  const start = span?.start ?? 0;
+  const spanned = span ? sliceChannels(edited, speechRate, span) : edited;
+  const stretched = Math.abs(speed - 1.0) < 0.01 && pitch === 0
+    ? spanned
+    : spanned.map(x => timeStretch(x, speechRate, speed, pitch));
+  const speechDuration = (stretched[0]?.length ?? 0) / speechRate;
+
+  const tail = span ? 0 : effectsTail(effects);
+  const processed = effects.some(e => e.enabled) ? applySpeechEffects(stretched, speechRate, effects, tail) : stretched;
+  const [left, right = left] = processed.map(x => resample(x, speechRate, sampleRate));
+  const out = [Float32Array.from(left), Float32Array.from(right)];
+  if (!music) return out;
+
+  // The curve is on the edited speech's timeline; stretched, it spans the
+  // rendered speech, spread over it as setValueCurveAtTime would
+  let curve: Float32Array | null = null;
+  let curveSeconds = 0;
+  if (ducking) {
+    const { gains, frameRate } = buildDuckingCurve(detectSpeechActivity(edited, speechRate), ducking, speed);
+    const values = gains
+      .slice(Math.floor(start * frameRate), span ? Math.ceil(span.end * frameRate) + 1 : undefined)
+      .map(g => g * musicVolume);
+    if (values.length >= 2) {
+      curve = values;
+      curveSeconds = values.length / frameRate / speed;
+    }
+  }
+
+  // The player stops the music with the speech and lets the effects ring on alone
+  const musicEnd = tail > 0 ? Math.min(out[0].length, Math.floor(speechDuration * sampleRate)) : out[0].length;
+  const [musicLeft, musicRight = musicLeft] = music.channels;
+  const trackEnd = (musicLeft?.length ?? 0) - 1;
+  for (let n = 0; n < musicEnd && trackEnd >= 0; n++) {
+    const time = n / sampleRate;
+    // The music has been looping at 1.0x since the speech began
+    const position = Math.min(trackEnd, loopOffset(music.loop, start / speed + time) * music.sampleRate);
+    let gain = musicVolume;
+    if (curve) {
+      const k = Math.min(curve.length - 1, (time * (curve.length - 1)) / curveSeconds);
+      gain = sampleAt(curve, k);
+    }
+    out[0][n] += sampleAt(musicLeft, position) * gain;
+    out[1][n] += sampleAt(musicRight, position) * gain;
+  }
+  return out;
+};
@@ -0,0 +1,140 @@
+/**
+ * Minimal Ogg muxer for a single Opus stream (RFC 7845). Packets come from an
+ * encoder such as WebCodecs' AudioEncoder; this only handles the framing.
+ */
+
+export interface OpusPacket {
+  data: Uint8Array;
+  samples: number; // Duration in 48 kHz samples
+}
+
+export interface OggOpusOptions {
+  channels: number;
+  inputSampleRate: number;
+  preSkip: number;
+  totalSamples: number; // Playable length in 48 kHz samples, used to trim the last packet
+  vendor?: string;
+}
+
+const CRC_TABLE = new Uint32Array(256);
+for (let i = 0; i < 256; i++) {
+  let c = i << 24;
+  for (let b = 0; b < 8; b++) c = c & 0x80000000 ? (c << 1) ^ 0x04c11db7 : c << 1;
+  CRC_TABLE[i] = c >>> 0;
+}
+
+const oggCrc = (data: Uint8Array): number => {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ data[i]) & 0xff]) >>> 0;
+  return crc;
+};
+
+const HEADER_TYPE_BOS = 0x02;
+const HEADER_TYPE_EOS = 0x04;
+const MAX_SEGMENTS = 255;
+
+const buildPage = (
+  packets: Uint8Array[],
+  headerType: number,
+  granule: number,
+  serial: number,
+  sequence: number
+): Uint8Array => {
+  const lacing: number[] = [];
+  packets.forEach(p => {
+    for (let n = p.length; ; n -= 255) {
+      lacing.push(Math.min(n, 255));
+      if (n < 255) break;
+    }
+  });
+  const bodySize = packets.reduce((sum, p) => sum + p.length, 0);
+  const page = new Uint8Array(27 + lacing.length + bodySize);
+  const view = new DataView(page.buffer);
+
+  page.set([0x4f, 0x67, 0x67, 0x53]); // "OggS"
+  page[4] = 0; // version
+  page[5] = headerType;
+  view.setUint32(6, granule % 2 ** 32, true);
+  view.setUint32(10, Math.floor(granule / 2 ** 32), true);
+  view.setUint32(14, serial, true);
+  view.setUint32(18, sequence, true);
+  page[26] = lacing.length;
+  page.set(lacing, 27);
+  let offset = 27 + lacing.length;
+  packets.forEach(p => {
+    page.set(p, offset);
+    offset += p.length;
+  });
+  view.setUint32(22, oggCrc(page), true);
+  return page;
+};
+
+const segmentCount = (packet: Uint8Array) => Math.floor(packet.length / 255) + 1;
+
+const opusHead = ({ channels, inputSampleRate, preSkip }: OggOpusOptions): Uint8Array => {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set([0x4f, 0x70, 0x75, 0x73, 0x48, 0x65, 0x61, 0x64]); // "OpusHead"
+  head[8] = 1; // version
+  head[9] = channels;
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, inputSampleRate, true);
+  view.setInt16(16, 0, true); // output gain
+  head[18] = 0; // mapping family: mono or stereo
+  return head;
+};
+
+const opusTags = (vendor: string): Uint8Array => {
+  const vendorBytes = new TextEncoder().encode(vendor);
+  const tags = new Uint8Array(8 + 4 + vendorBytes.length + 4);
+  const view = new DataView(tags.buffer);
+  tags.set([0x4f, 0x70, 0x75, 0x73, 0x54, 0x61, 0x67, 0x73]); // "OpusTags"
+  view.setUint32(8, vendorBytes.length, true);
+  tags.set(vendorBytes, 12);
+  view.setUint32(12 + vendorBytes.length, 0, true); // no user comments
+  return tags;
+};
+
+/**
+ * Wraps encoded Opus packets in an Ogg container with the required
+ * identification and comment header pages.
+ */
+export const muxOggOpus = (packets: OpusPacket[], options: OggOpusOptions): Uint8Array => {
+  const serial = (Math.random() * 2 ** 32) >>> 0;
+  const pages: Uint8Array[] = [];
+  let sequence = 0;
+
+  pages.push(buildPage([opusHead(options)], HEADER_TYPE_BOS, 0, serial, sequence++));
+  pages.push(buildPage([opusTags(options.vendor ?? 'SonicFlow')], 0, 0, serial, sequence++));
+
+  const endGranule = options.preSkip + options.totalSamples;
+  let granule = options.preSkip;
+  let pending: Uint8Array[] = [];
+  let pendingSegments = 0;
+
+  const flush = (last: boolean) => {
+    const pageGranule = last ? endGranule : Math.min(granule, endGranule);
+    pages.push(buildPage(pending, last ? HEADER_TYPE_EOS : 0, pageGranule, serial, sequence++));
+    pending = [];
+    pendingSegments = 0;
+  };
+
+  packets.forEach((packet, i) => {
+    const segments = segmentCount(packet.data);
+    if (pendingSegments + segments > MAX_SEGMENTS) flush(false);
+    pending.push(packet.data);
+    pendingSegments += segments;
+    granule += packet.samples;
+    if (i === packets.length - 1) flush(true);
+  });
+  if (packets.length === 0) flush(true);
+
+  const total = pages.reduce((sum, p) => sum + p.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  pages.forEach(p => {
+    out.set(p, offset);
+    offset += p.length;
+  });
+  return out;
+};
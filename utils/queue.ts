@@ -0,0 +1,152 @@
+import { BatchRowStatus, BatchSettings } from "../types";
+
+export interface JobState {
+  status: BatchRowStatus;
+  attempts: number;
+  error?: string;
+  retryAt?: number; // Epoch ms of the next attempt while retrying
+}
+
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 60000;
+
+const retryHint = (error: unknown): number | undefined => {
+  const hint = (error as { retryAfterMs?: unknown })?.retryAfterMs;
+  return typeof hint === 'number' && isFinite(hint) && hint >= 0 ? hint : undefined;
+};
+
+/**
+ * Runs jobs with a cap on how many are in flight and how often they start,
+ * retrying failures with exponential backoff while `shouldRetry` allows.
+ * An error carrying a `retryAfterMs` hint, as GenerationError does, is
+ * retried after that long instead, or fails at once if the hint is longer
+ * than the queue would ever wait.
+ * Pausing stops new starts while running jobs finish; every state change is
+ * reported through `onChange`.
+ */
+export class JobQueue<T> {
+  readonly states: JobState[];
+  private waiting: number[] = []; // Indexes ready to start, in order
+  private active = 0;
+  private paused = true;
+  private disposed = false;
+  private lastStart = -Infinity;
+  private startTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryTimers = new Set<ReturnType<typeof setTimeout>>();
+
+  constructor(
+    private readonly jobs: T[],
+    private readonly run: (job: T, index: number) => Promise<void>,
+    private settings: BatchSettings,
+    private readonly onChange: (states: JobState[]) => void,
+    private readonly shouldRetry: (error: unknown) => boolean = () => true
+  ) {
+    this.states = jobs.map(() => ({ status: 'queued', attempts: 0 }));
+    this.waiting = jobs.map((_, i) => i);
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  get isIdle(): boolean {
+    return this.active === 0 && this.waiting.length === 0 && this.retryTimers.size === 0;
+  }
+
+  start() {
+    this.paused = false;
+    this.pump();
+    this.emit();
+  }
+
+  pause() {
+    this.paused = true;
+    this.clearStartTimer();
+    this.emit();
+  }
+
+  updateSettings(settings: BatchSettings) {
+    this.settings = settings;
+    this.clearStartTimer();
+    this.pump();
+  }
+
+  /** Queues the failed jobs again with fresh attempts. */
+  retryFailed() {
+    this.states.forEach((state, index) => {
+      if (state.status !== 'failed') return;
+      this.states[index] = { status: 'queued', attempts: 0 };
+      this.waiting.push(index);
+    });
+    this.pump();
+    this.emit();
+  }
+
+  /** Stops starting jobs for good. Running jobs finish, but report nothing. */
+  dispose() {
+    this.disposed = true;
+    this.paused = true;
+    this.clearStartTimer();
+    this.retryTimers.forEach(clearTimeout);
+    this.retryTimers.clear();
+  }
+
+  private emit() {
+    if (!this.disposed) this.onChange([...this.states]);
+  }
+
+  private clearStartTimer() {
+    if (this.startTimer !== null) clearTimeout(this.startTimer);
+    this.startTimer = null;
+  }
+
+  private pump() {
+    if (this.paused || this.startTimer !== null) return;
+    const interval = this.settings.requestsPerMinute > 0 ? 60000 / this.settings.requestsPerMinute : 0;
+    while (this.active < Math.max(1, this.settings.concurrency) && this.waiting.length > 0) {
+      const wait = this.lastStart + interval - Date.now();
+      if (wait > 0) {
+        this.startTimer = setTimeout(() => {
+          this.startTimer = null;
+          this.pump();
+        }, wait);
+        return;
+      }
+      this.launch(this.waiting.shift()!);
+    }
+  }
+
+  private async launch(index: number) {
+    this.active++;
+    this.lastStart = Date.now();
+    const attempts = this.states[index].attempts + 1;
+    this.states[index] = { status: 'running', attempts };
+    this.emit();
+
+    try {
+      await this.run(this.jobs[index], index);
+      this.states[index] = { status: 'done', attempts };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const hint = retryHint(error);
+      if (attempts > this.settings.retries || this.disposed || !this.shouldRetry(error) || (hint ?? 0) > RETRY_MAX_MS) {
+        this.states[index] = { status: 'failed', attempts, error: message };
+      } else {
+        const delay = hint ?? Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (attempts - 1));
+        this.states[index] = { status: 'retrying', attempts, error: message, retryAt: Date.now() + delay };
+        const timer = setTimeout(() => {
+          this.retryTimers.delete(timer);
+          this.states[index] = { ...this.states[index], status: 'queued' };
+          this.waiting.unshift(index);
+          this.pump();
+          this.emit();
+        }, delay);
+        this.retryTimers.add(timer);
+      }
+    } finally {
+      this.active--;
+    }
+    this.emit();
+    this.pump();
+  }
+}
@@ -0,0 +1,102 @@
+import { ReverbSettings } from "../types";
+
+/**
+ * Algorithmic stereo reverb in the Freeverb style: eight damped feedback
+ * combs in parallel, then four allpasses in series, per channel. The right
+ * channel's delays are slightly longer, which decorrelates the two sides
+ * into a wide tail.
+ */
+
+const COMB_TUNINGS = [1116, 1188, 1277, 1356, 1422, 1491, 1557, 1617]; // Samples at 44.1 kHz
+const ALLPASS_TUNINGS = [556, 441, 341, 225];
+export const STEREO_SPREAD = 23; // Extra samples on the right channel's delays
+const ALLPASS_FEEDBACK = 0.5;
+const DAMPING = 0.3;     // High-frequency loss per pass through a comb
+const INPUT_GAIN = 0.015; // The eight combs sum to roughly unity
+const WET_GAIN = 3;
+
+export const DEFAULT_REVERB: ReverbSettings = { mix: 0.25, decay: 2.5 };
+
+interface DelayLine {
+  buffer: Float32Array;
+  index: number;
+}
+
+const delayLines = (tunings: number[], sampleRate: number, spread: number): DelayLine[] =>
+  tunings.map(tuning => ({
+    buffer: new Float32Array(Math.max(1, Math.round(((tuning + spread) * sampleRate) / 44100))),
+    index: 0,
+  }));
+
+/**
+ * The wet signal for one channel, rendered a block at a time so a live
+ * chain can run it; the tail carries on from one block into the next.
+ */
+export class ReverbTail {
+  private readonly combs: DelayLine[];
+  private readonly allpasses: DelayLine[];
+  private readonly filtered: Float32Array;
+  private feedback: number[] = [];
+
+  constructor(private readonly sampleRate: number, decay: number, spread = 0) {
+    this.combs = delayLines(COMB_TUNINGS, sampleRate, spread);
+    this.allpasses = delayLines(ALLPASS_TUNINGS, sampleRate, spread);
+    this.filtered = new Float32Array(this.combs.length);
+    this.setDecay(decay);
+  }
+
+  /** Changes the decay time; what is already ringing carries on. */
+  setDecay(decay: number) {
+    // Feedback giving a 60 dB fall over `decay` seconds for each delay
+    this.feedback = this.combs.map(({ buffer }) => Math.pow(10, (-3 * buffer.length) / (Math.max(0.1, decay) * this.sampleRate)));
+  }
+
+  /** Writes the wet signal for `input` into `wet`, which may be the same array. */
+  process(input: Float32Array, wet: Float32Array) {
+    for (let n = 0; n < input.length; n++) {
+      const x = input[n];
+      let y = 0;
+      for (let c = 0; c < this.combs.length; c++) {
+        const comb = this.combs[c];
+        const out = comb.buffer[comb.index];
+        this.filtered[c] = out * (1 - DAMPING) + this.filtered[c] * DAMPING;
+        comb.buffer[comb.index] = x * INPUT_GAIN + this.filtered[c] * this.feedback[c];
+        y += out;
+        if (++comb.index === comb.buffer.length) comb.index = 0;
+      }
+      for (const allpass of this.allpasses) {
+        const delayed = allpass.buffer[allpass.index];
+        allpass.buffer[allpass.index] = y + delayed * ALLPASS_FEEDBACK;
+        y = delayed - y;
+        if (++allpass.index === allpass.buffer.length) allpass.index = 0;
+      }
+      wet[n] = y * WET_GAIN;
+    }
+  }
+}
+
+/** The wet signal for one channel. */
+const reverberate = (input: Float32Array, sampleRate: number, decay: number, spread: number): Float32Array => {
+  const wet = new Float32Array(input.length);
+  new ReverbTail(sampleRate, decay, spread).process(input, wet);
+  return wet;
+};
+
+/**
+ * Adds reverb to a mono or stereo signal and returns stereo channels. The
+ * dry signal is kept at full level and the tail mixed in at `mix`.
+ */
+export const applyReverb = (channels: Float32Array[], sampleRate: number, { mix, decay }: ReverbSettings): Float32Array[] => {
+  const left = channels[0];
+  const right = channels[1] ?? channels[0];
+  if (mix <= 0) return [left.slice(), right.slice()];
+
+  const input = new Float32Array(left.length);
+  for (let n = 0; n < input.length; n++) input[n] = 0.5 * (left[n] + right[n]);
+
+  return [left, right].map((dry, c) => {
+    const wet = reverberate(input, sampleRate, decay, c * STEREO_SPREAD);
+    for (let n = 0; n < wet.length; n++) wet[n] = dry[n] + mix * wet[n];
+    return wet;
+  });
+};
@@ -0,0 +1,261 @@
+import { Envelope, Instrument, MusicScore, Note, ReverbSettings } from "../types";
+import { DEFAULT_REVERB } from "./reverb";
+
+/**
+ * Validation and repair for music scores from outside the app (a model's
+ * JSON, an old project). Anything unusable is dropped, out-of-range values
+ * are clamped, tonal notes are snapped to the score's key, repeated pitches
+ * on one instrument stop overlapping and every note is released by the
+ * loop point, so the loop ends cleanly.
+ */
+
+export type ScaleMode = 'major' | 'minor';
+
+export interface MusicKey {
+  tonic: number; // Pitch class, 0 = C
+  mode: ScaleMode;
+}
+
+export interface RepairOptions {
+  snapToKey?: boolean; // Defaults to true
+  key?: MusicKey;      // Detected from the notes when not given
+}
+
+export interface RepairedScore {
+  score: MusicScore;
+  key: MusicKey | null; // Null when nothing was snapped
+  repairs: string[];    // What was changed, for logging
+}
+
+export const SCALES: Record<ScaleMode, number[]> = {
+  major: [0, 2, 4, 5, 7, 9, 11],
+  minor: [0, 2, 3, 5, 7, 8, 10],
+};
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'];
+const WAVE_TYPES: Note['type'][] = ['sine', 'triangle', 'square', 'sawtooth'];
+const INSTRUMENTS: Instrument[] = ['pad', 'pluck', 'bell', 'bass', 'percussion'];
+
+const MIN_FREQ = 30;
+const MAX_FREQ = 4200;
+const MIN_NOISE_FREQ = 40;
+const MAX_NOISE_FREQ = 12000;
+const MIN_NOTE_SECONDS = 0.05;
+const MAX_NOTE_SECONDS = 30;
+const MIN_LOOP_SECONDS = 4;
+const MAX_LOOP_SECONDS = 180;
+const MAX_ENVELOPE_SECONDS = 10;
+const MAX_NOTES = 600;
+const DEFAULT_TEMPO = 60;
+
+export const midiToFreq = (midi: number): number => 440 * Math.pow(2, (midi - 69) / 12);
+export const freqToMidi = (freq: number): number => 69 + 12 * Math.log2(freq / 440);
+
+export const keyName = ({ tonic, mode }: MusicKey): string => `${NOTE_NAMES[tonic]} ${mode}`;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/** A finite number from a number or numeric string. */
+const toNumber = (value: unknown): number | undefined => {
+  const n = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : undefined;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const inScale = (midi: number, key: MusicKey) =>
+  SCALES[key.mode].includes((((Math.round(midi) - key.tonic) % 12) + 12) % 12);
+
+/**
+ * The major or minor key whose scale covers most of the tonal notes,
+ * weighted by length and loudness. Ties between relative keys go to the
+ * one whose tonic sounds most.
+ */
+export const detectKey = (notes: Note[]): MusicKey | null => {
+  const weights = new Array(12).fill(0);
+  notes.forEach(note => {
+    if (note.instrument === 'percussion') return;
+    const pc = ((Math.round(freqToMidi(note.freq)) % 12) + 12) % 12;
+    weights[pc] += note.duration * (note.velocity ?? 0.7);
+  });
+  if (weights.every(w => w === 0)) return null;
+
+  let best: MusicKey = { tonic: 0, mode: 'major' };
+  let bestScore = -Infinity;
+  for (const mode of ['major', 'minor'] as ScaleMode[]) {
+    for (let tonic = 0; tonic < 12; tonic++) {
+      const covered = SCALES[mode].reduce((sum, step) => sum + weights[(tonic + step) % 12], 0);
+      const score = covered + 0.5 * weights[tonic];
+      if (score > bestScore) {
+        bestScore = score;
+        best = { tonic, mode };
+      }
+    }
+  }
+  return best;
+};
+
+/** The nearest in-key pitch to a frequency. */
+const snapFreq = (freq: number, key: MusicKey): number => {
+  const midi = freqToMidi(freq);
+  const nearest = Math.round(midi);
+  if (inScale(nearest, key)) return midiToFreq(nearest);
+  // Scales have no two adjacent gaps, so one neighbour is always in key
+  const below = nearest - 1;
+  const above = nearest + 1;
+  if (!inScale(below, key)) return midiToFreq(above);
+  if (!inScale(above, key)) return midiToFreq(below);
+  return midiToFreq(midi - below <= above - midi ? below : above);
+};
+
+const repairEnvelope = (value: unknown): Partial<Envelope> | undefined => {
+  if (!isObject(value)) return undefined;
+  const envelope: Partial<Envelope> = {};
+  (['attack', 'decay', 'release'] as const).forEach(field => {
+    const n = toNumber(value[field]);
+    if (n !== undefined) envelope[field] = clamp(n, 0, MAX_ENVELOPE_SECONDS);
+  });
+  const sustain = toNumber(value.sustain);
+  if (sustain !== undefined) envelope.sustain = clamp(sustain, 0, 1);
+  return Object.keys(envelope).length > 0 ? envelope : undefined;
+};
+
+const repairReverb = (value: unknown): ReverbSettings | undefined => {
+  if (!isObject(value)) return undefined;
+  return {
+    mix: clamp(toNumber(value.mix) ?? DEFAULT_REVERB.mix, 0, 1),
+    decay: clamp(toNumber(value.decay) ?? DEFAULT_REVERB.decay, 0.1, 10),
+  };
+};
+
+/**
+ * Checks and repairs a score. Throws if nothing playable is left, so a
+ * caller can fall back to composing its own.
+ */
+export const repairScore = (raw: unknown, { snapToKey = true, key }: RepairOptions = {}): RepairedScore => {
+  if (!isObject(raw)) throw new Error("The music score is not an object.");
+
+  const counts = new Map<string, number>();
+  const record = (repair: string) => counts.set(repair, (counts.get(repair) ?? 0) + 1);
+
+  const rawNotes = Array.isArray(raw.notes) ? raw.notes : [];
+  let notes: Note[] = [];
+  rawNotes.forEach(item => {
+    if (!isObject(item)) {
+      record('dropped malformed notes');
+      return;
+    }
+    let freq = toNumber(item.freq);
+    let duration = toNumber(item.duration);
+    let startTime = toNumber(item.startTime);
+    if (freq === undefined || duration === undefined || startTime === undefined || freq <= 0 || duration <= 0) {
+      record('dropped notes without a pitch, start or length');
+      return;
+    }
+
+    let instrument = item.instrument as Instrument | undefined;
+    if (instrument !== undefined && !INSTRUMENTS.includes(instrument)) {
+      instrument = undefined;
+      record('unknown instruments played as pads');
+    }
+
+    if (instrument === 'percussion') {
+      const clamped = clamp(freq, MIN_NOISE_FREQ, MAX_NOISE_FREQ);
+      if (clamped !== freq) record('percussion bands moved into range');
+      freq = clamped;
+    } else if (freq < MIN_FREQ || freq > MAX_FREQ) {
+      // Move by octaves, so the note keeps its place in the harmony
+      while (freq < MIN_FREQ) freq *= 2;
+      while (freq > MAX_FREQ) freq /= 2;
+      record('pitches moved into the audible range');
+    }
+    if (startTime < 0) {
+      startTime = 0;
+      record('negative start times moved to zero');
+    }
+    if (duration < MIN_NOTE_SECONDS || duration > MAX_NOTE_SECONDS) {
+      duration = clamp(duration, MIN_NOTE_SECONDS, MAX_NOTE_SECONDS);
+      record('note lengths clamped');
+    }
+
+    const type = WAVE_TYPES.includes(item.type as Note['type']) ? (item.type as Note['type']) : 'sine';
+    if (item.type !== undefined && type !== item.type) record('unknown wave types played as sine');
+
+    const repaired: Note = { freq, duration, startTime, type };
+    if (instrument) repaired.instrument = instrument;
+    const velocity = toNumber(item.velocity);
+    if (velocity !== undefined) repaired.velocity = clamp(velocity, 0, 1);
+    const pan = toNumber(item.pan);
+    if (pan !== undefined) repaired.pan = clamp(pan, -1, 1);
+    const envelope = repairEnvelope(item.envelope);
+    if (envelope) repaired.envelope = envelope;
+    notes.push(repaired);
+  });
+
+  const tempo = clamp(toNumber(raw.tempo) ?? DEFAULT_TEMPO, 30, 240);
+  const loopLength = (): number => {
+    const given = toNumber(raw.totalDuration);
+    if (given !== undefined && given > 0) return given;
+    // Round the last note's end up to a whole bar
+    const bar = (4 * 60) / tempo;
+    const lastEnd = notes.reduce((end, n) => Math.max(end, n.startTime + n.duration), 0);
+    record('missing loop length taken from the notes');
+    return Math.ceil(lastEnd / bar) * bar;
+  };
+  const totalDuration = clamp(loopLength(), MIN_LOOP_SECONDS, MAX_LOOP_SECONDS);
+
+  const inLoop = notes.filter(n => n.startTime <= totalDuration - MIN_NOTE_SECONDS);
+  if (inLoop.length < notes.length) record('notes after the loop end dropped');
+  notes = inLoop.sort((a, b) => a.startTime - b.startTime);
+  if (notes.length > MAX_NOTES) {
+    notes = notes.slice(0, MAX_NOTES);
+    record(`notes beyond the first ${MAX_NOTES} dropped`);
+  }
+  if (notes.length === 0) throw new Error("The music score has no playable notes.");
+
+  let snappedKey: MusicKey | null = null;
+  if (snapToKey) {
+    snappedKey = key ?? detectKey(notes);
+    if (snappedKey) {
+      const name = keyName(snappedKey);
+      notes.forEach(n => {
+        if (n.instrument === 'percussion') return;
+        const snapped = snapFreq(n.freq, snappedKey!);
+        if (Math.abs(freqToMidi(snapped) - freqToMidi(n.freq)) > 0.01) record(`pitches snapped to ${name}`);
+        n.freq = snapped;
+      });
+    }
+  }
+
+  // A pitch repeated on one instrument is cut short where the next one starts
+  const lastByVoice = new Map<string, Note>();
+  notes = notes.filter(n => {
+    const voice = `${n.instrument ?? 'pad'}:${Math.round(freqToMidi(n.freq) * 4)}`;
+    const previous = lastByVoice.get(voice);
+    if (previous && n.startTime < previous.startTime + previous.duration) {
+      if (n.startTime - previous.startTime < MIN_NOTE_SECONDS) {
+        previous.duration = Math.max(previous.duration, n.startTime + n.duration - previous.startTime);
+        record('duplicate notes merged');
+        return false;
+      }
+      previous.duration = n.startTime - previous.startTime;
+      record('overlapping repeats of a pitch trimmed');
+    }
+    lastByVoice.set(voice, n);
+    return true;
+  });
+
+  // Every note is released by the loop point; its tail carries over into the next pass
+  notes.forEach(n => {
+    if (n.startTime + n.duration <= totalDuration + 1e-6) return;
+    n.duration = Math.max(MIN_NOTE_SECONDS, totalDuration - n.startTime);
+    record('notes shortened to end by the loop point');
+  });
+
+  const reverb = repairReverb(raw.reverb);
+  const score: MusicScore = { notes, totalDuration, tempo };
+  if (reverb) score.reverb = reverb;
+  const repairs = [...counts].map(([repair, count]) => `${repair} (${count})`);
+  return { score, key: snappedKey, repairs };
+};
@@ -0,0 +1,203 @@
+import { AudioMarker, SilenceSettings } from "../types";
+import { ACTIVITY_FRAME_RATE } from "./ducking";
+
+/**
+ * Silence editing for the speech: trims the head and tail, caps long pauses
+ * and evens out paragraph gaps. The edit is planned once from the frame
+ * levels of the decoded speech and applied to whatever needs it (the
+ * playback engine, the export render, the waveform), so the preview and
+ * the export cut in exactly the same places. Silences are shortened from
+ * their middle, so word decays and onsets are left intact.
+ */
+
+export const DEFAULT_SILENCE: SilenceSettings = {
+  enabled: false,
+  thresholdDb: -45,
+  minSilenceMs: 250,
+  trimEdges: true,
+  edgeMs: 150,
+  capPauses: true,
+  maxPauseMs: 800,
+  normalizeParagraphs: false,
+  paragraphGapMs: 1000,
+};
+
+const JOIN_FADE_SECONDS = 0.005;
+const PARAGRAPH_TOLERANCE_FRAMES = 10; // A marker this soon after a silence still starts its paragraph
+
+/** A kept stretch of the source, in frames, followed by inserted silence. */
+export interface EditPiece {
+  from: number;
+  to: number;      // Exclusive
+  silence: number; // Frames of silence inserted after it
+}
+
+export interface SilenceSummary {
+  head: number; // Seconds trimmed from the start
+  tail: number; // Seconds trimmed from the end
+  pausesShortened: number;
+  paragraphGaps: number; // Paragraph gaps lengthened or shortened
+  change: number; // Seconds gained (positive) or lost overall
+}
+
+/** The edited speech is the pieces played back to back. */
+export interface SilenceEdit {
+  frameRate: number; // Frames per second of source time
+  pieces: EditPiece[];
+  summary: SilenceSummary;
+}
+
+interface Run {
+  start: number;
+  end: number; // Exclusive
+}
+
+/** Stretches of at least `minFrames` frames quieter than `thresholdDb`. */
+const detectSilences = (levels: Float32Array, thresholdDb: number, minFrames: number): Run[] => {
+  const runs: Run[] = [];
+  let start = -1;
+  for (let f = 0; f <= levels.length; f++) {
+    const silent = f < levels.length && levels[f] < thresholdDb;
+    if (silent && start < 0) start = f;
+    if (!silent && start >= 0) {
+      if (f - start >= minFrames) runs.push({ start, end: f });
+      start = -1;
+    }
+  }
+  return runs;
+};
+
+/**
+ * Plans the edit for speech with the given frame levels (see
+ * `measureFrameLevels`). `markers` are the paragraph starts, which tell
+ * paragraph gaps from pauses within a paragraph. Returns null when
+ * silence editing is off.
+ */
+export const planSilenceEdit = (
+  levels: Float32Array,
+  settings: SilenceSettings,
+  markers: AudioMarker[]
+): SilenceEdit | null => {
+  if (!settings.enabled) return null;
+  const frameRate = ACTIVITY_FRAME_RATE;
+  const frames = levels.length;
+  const toFrames = (ms: number) => Math.round((ms / 1000) * frameRate);
+  const edge = toFrames(settings.edgeMs);
+  const paragraphStarts = markers.map(m => Math.round(m.time * frameRate));
+
+  const pieces: EditPiece[] = [];
+  const summary: SilenceSummary = { head: 0, tail: 0, pausesShortened: 0, paragraphGaps: 0, change: 0 };
+  let from = 0;
+  let end = frames;
+  // Ends the current piece at `until` and carries on from `resume`
+  const cut = (until: number, resume: number, silence = 0) => {
+    pieces.push({ from, to: until, silence });
+    from = resume;
+  };
+
+  detectSilences(levels, settings.thresholdDb, Math.max(1, toFrames(settings.minSilenceMs))).forEach(run => {
+    const length = run.end - run.start;
+    if (run.start === 0 && run.end === frames) return; // Nothing but silence
+
+    if (run.start === 0 || run.end === frames) {
+      if (!settings.trimEdges || length <= edge) return;
+      if (run.start === 0) {
+        from = run.end - edge;
+        summary.head = from / frameRate;
+      } else {
+        end = run.start + edge;
+        summary.tail = (frames - end) / frameRate;
+      }
+      return;
+    }
+
+    const paragraph = paragraphStarts.some(p => p >= run.start && p <= run.end + PARAGRAPH_TOLERANCE_FRAMES);
+    const target = paragraph && settings.normalizeParagraphs
+      ? toFrames(settings.paragraphGapMs)
+      : settings.capPauses ? Math.min(length, toFrames(settings.maxPauseMs)) : length;
+
+    if (target < length) {
+      cut(run.start + Math.floor(target / 2), run.end - Math.ceil(target / 2));
+    } else if (target > length) {
+      const middle = run.start + Math.floor(length / 2);
+      cut(middle, middle, target - length);
+    } else {
+      return;
+    }
+    if (paragraph && settings.normalizeParagraphs) summary.paragraphGaps++;
+    else summary.pausesShortened++;
+  });
+  pieces.push({ from, to: end, silence: 0 });
+
+  const edited = pieces.reduce((sum, p) => sum + p.to - p.from + p.silence, 0);
+  summary.change = (edited - frames) / frameRate;
+  return { frameRate, pieces, summary };
+};
+
+/** Length of the edited speech in seconds. */
+export const editedDuration = (edit: SilenceEdit): number =>
+  edit.pieces.reduce((sum, p) => sum + p.to - p.from + p.silence, 0) / edit.frameRate;
+
+/** Where a source time lands in the edited speech; times in removed silence land on the cut. */
+export const toEditedTime = (edit: SilenceEdit | null, time: number): number => {
+  if (!edit) return time;
+  const frame = time * edit.frameRate;
+  let output = 0;
+  for (const piece of edit.pieces) {
+    if (frame < piece.from) break;
+    if (frame <= piece.to) return (output + frame - piece.from) / edit.frameRate;
+    output += piece.to - piece.from + piece.silence;
+  }
+  return output / edit.frameRate;
+};
+
+/** The source time of an edited time; inserted silence maps to the end of the piece before it. */
+export const toSourceTime = (edit: SilenceEdit | null, time: number): number => {
+  if (!edit) return time;
+  const target = time * edit.frameRate;
+  let output = 0;
+  for (const piece of edit.pieces) {
+    const length = piece.to - piece.from;
+    if (target <= output + length) return (piece.from + Math.max(0, target - output)) / edit.frameRate;
+    output += length + piece.silence;
+    if (target <= output) return piece.to / edit.frameRate;
+  }
+  const last = edit.pieces[edit.pieces.length - 1];
+  return (last?.to ?? 0) / edit.frameRate;
+};
+
+/**
+ * Applies the edit to sampled data, at any rate: audio channels, or the
+ * per-bucket peaks of a waveform. Each cut gets a short fade either side.
+ */
+export const applySilenceEdit = (channels: Float32Array[], sampleRate: number, edit: SilenceEdit): Float32Array[] => {
+  const length = channels[0]?.length ?? 0;
+  const at = (frame: number) => Math.min(length, Math.round((frame * sampleRate) / edit.frameRate));
+  const spans = edit.pieces.map(p => ({
+    from: at(p.from),
+    to: Math.max(at(p.from), at(p.to)),
+    silence: Math.round((p.silence * sampleRate) / edit.frameRate),
+  }));
+  const total = spans.reduce((sum, s) => sum + s.to - s.from + s.silence, 0);
+  const fadeLength = Math.max(1, Math.round(JOIN_FADE_SECONDS * sampleRate));
+
+  return channels.map(x => {
+    const output = new Float32Array(total);
+    let offset = 0;
+    spans.forEach((span, i) => {
+      const count = span.to - span.from;
+      output.set(x.subarray(span.from, span.to), offset);
+      const previous = spans[i - 1];
+      const next = spans[i + 1];
+      const fade = Math.min(fadeLength, Math.floor(count / 2));
+      if (previous && (previous.to !== span.from || previous.silence > 0)) {
+        for (let n = 0; n < fade; n++) output[offset + n] *= n / fade;
+      }
+      if (next && (span.to !== next.from || span.silence > 0)) {
+        for (let n = 0; n < fade; n++) output[offset + count - 1 - n] *= n / fade;
+      }
+      offset += count + span.silence;
+    });
+    return output;
+  });
+};
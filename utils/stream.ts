@@ -0,0 +1,140 @@
+import { base64ToUint8Array } from "./audio";
+import { cubic } from "./stretch";
+
+/**
+ * Pieces for speech that arrives while it is still being generated: the
+ * Base64 parts of a streamed response, the growing track the player
+ * follows, and resampling it to the playback rate on the way in.
+ */
+
+/**
+ * Decodes streamed Base64 parts of 16-bit PCM one at a time. A part may
+ * end halfway through a sample; that byte is held for the next part, so
+ * every piece handed on holds whole samples.
+ */
+export class Base64PcmDecoder {
+  private carry: number | null = null;
+
+  push(base64: string): Uint8Array {
+    const bytes = base64ToUint8Array(base64);
+    let joined = bytes;
+    if (this.carry !== null) {
+      joined = new Uint8Array(bytes.length + 1);
+      joined[0] = this.carry;
+      joined.set(bytes, 1);
+    }
+    const even = joined.length & ~1;
+    this.carry = even < joined.length ? joined[even] : null;
+    return joined.subarray(0, even);
+  }
+}
+
+/**
+ * A speech track that grows as it is generated. Samples are final once
+ * appended; listeners hear of every append and of the end.
+ */
+export class SpeechStream {
+  readonly sampleRate: number;
+  private samples: Float32Array;
+  private length = 0;
+  private done = false;
+  private readonly listeners = new Set<() => void>();
+
+  constructor(sampleRate: number) {
+    this.sampleRate = sampleRate;
+    this.samples = new Float32Array(sampleRate * 10);
+  }
+
+  get duration(): number {
+    return this.length / this.sampleRate;
+  }
+
+  get sampleCount(): number {
+    return this.length;
+  }
+
+  get finished(): boolean {
+    return this.done;
+  }
+
+  /** The samples from `from` to the current end, scaled to -1..1. */
+  read(from: number): Float32Array {
+    return this.samples.slice(from, this.length);
+  }
+
+  append(pcm: Int16Array) {
+    if (this.done || pcm.length === 0) return;
+    const needed = this.length + pcm.length;
+    if (needed > this.samples.length) {
+      const grown = new Float32Array(Math.max(needed, this.samples.length * 2));
+      grown.set(this.samples.subarray(0, this.length));
+      this.samples = grown;
+    }
+    for (let i = 0; i < pcm.length; i++) this.samples[this.length + i] = pcm[i] / 32768;
+    this.length = needed;
+    this.notify();
+  }
+
+  finish() {
+    if (this.done) return;
+    this.done = true;
+    this.notify();
+  }
+
+  /** Calls `listener` on every change; returns the unsubscribe. */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+/**
+ * Resamples a stream piece by piece with cubic interpolation, carrying the
+ * few samples it needs across pieces so the joins are seamless.
+ */
+export class StreamResampler {
+  private readonly step: number; // Input samples per output sample
+  private history = new Float32Array(1); // One sample before the first, for the interpolator
+  private position = 1; // Fractional index into history + input
+  private received = 0;
+  private produced = 0;
+
+  constructor(private readonly fromRate: number, private readonly toRate: number) {
+    this.step = fromRate / toRate;
+  }
+
+  push(input: Float32Array): Float32Array {
+    if (this.fromRate === this.toRate) return input;
+    this.received += input.length;
+    const x = new Float32Array(this.history.length + input.length);
+    x.set(this.history);
+    x.set(input, this.history.length);
+
+    const output: number[] = [];
+    while (Math.floor(this.position) + 2 < x.length) {
+      const i = Math.floor(this.position);
+      output.push(cubic(x[i - 1], x[i], x[i + 1], x[i + 2], this.position - i));
+      this.position += this.step;
+    }
+    const keep = Math.max(0, Math.floor(this.position) - 1);
+    this.history = x.slice(keep);
+    this.position -= keep;
+    this.produced += output.length;
+    return Float32Array.from(output);
+  }
+
+  /** The last few samples, held back for want of samples after them. */
+  flush(): Float32Array {
+    if (this.fromRate === this.toRate) return new Float32Array(0);
+    const remaining = Math.round((this.received * this.toRate) / this.fromRate) - this.produced;
+    const tail = this.push(new Float32Array(2));
+    this.received -= 2; // That padding isn't part of the stream
+    return tail.subarray(0, Math.max(0, remaining));
+  }
+}
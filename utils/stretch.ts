@@ -0,0 +1,321 @@
+/**
+ * WSOLA (waveform-similarity overlap-add) time stretching with transient
+ * handling, and pitch shifting by resampling the stretched stream.
+ *
+ * Each output grain is a Hann-windowed slice of the source taken near its
+ * nominal position, nudged so it lines up with the natural continuation of
+ * the previous grain. Around onsets (plosives, clicks, note attacks) the
+ * grains follow the source at 1.0x instead, so an attack is neither smeared
+ * nor repeated; the schedule catches up over the following grains.
+ */
+
+const WINDOW_SECONDS = 0.032;
+const TOLERANCE_SECONDS = 0.008; // Alignment search range either side
+const COARSE_STEP = 4;           // Decimation of the first alignment pass
+const RECOVER_FRAMES = 4;        // Grains over which a post-transient lag is caught up
+
+const ONSET_HOP_SECONDS = 0.005;
+const ONSET_HISTORY = 4;         // Hops of energy an onset is compared against
+const ONSET_RISE = 4;            // Energy ratio (6 dB) that marks an onset
+const ONSET_FLOOR_DB = -45;      // Relative to the loudest hop
+const ONSET_SPACING_SECONDS = 0.05;
+
+export const MIN_PITCH_SEMITONES = -12;
+export const MAX_PITCH_SEMITONES = 12;
+
+export const semitonesToRatio = (semitones: number): number => 2 ** (semitones / 12);
+
+/** Sample positions where the short-term energy jumps sharply. */
+export const detectOnsets = (x: Float32Array, sampleRate: number): Int32Array => {
+  const hop = Math.max(1, Math.round(ONSET_HOP_SECONDS * sampleRate));
+  const hops = Math.floor(x.length / hop);
+  const energy = new Float32Array(hops);
+  let loudest = 0;
+  for (let k = 0; k < hops; k++) {
+    let sum = 0;
+    for (let i = k * hop; i < (k + 1) * hop; i++) sum += x[i] * x[i];
+    energy[k] = sum / hop;
+    loudest = Math.max(loudest, energy[k]);
+  }
+
+  const floor = loudest * 10 ** (ONSET_FLOOR_DB / 10);
+  const spacing = Math.round(ONSET_SPACING_SECONDS / ONSET_HOP_SECONDS);
+  const onsets: number[] = [];
+  let last = -Infinity;
+  for (let k = ONSET_HISTORY; k < hops; k++) {
+    let before = 0;
+    for (let j = k - ONSET_HISTORY; j < k; j++) before += energy[j];
+    before /= ONSET_HISTORY;
+    if (energy[k] > floor && energy[k] > before * ONSET_RISE && k - last >= spacing) {
+      onsets.push(k * hop);
+      last = k;
+    }
+  }
+  return Int32Array.from(onsets);
+};
+
+/** Index of the first onset at or after `position`. */
+const firstOnsetFrom = (onsets: Int32Array, position: number): number => {
+  let lo = 0;
+  let hi = onsets.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (onsets[mid] < position) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+
+/**
+ * Streams a stretched and pitch-shifted rendition of a whole source buffer.
+ * Speed and pitch can change between `render` calls and `seek` jumps
+ * anywhere, so the same engine serves offline renders and live playback.
+ * Speech that is still arriving can be appended as it comes.
+ */
+export class TimeStretcher {
+  readonly sampleRate: number;
+  private source: Float32Array; // May have spare room past `length` once appended to
+  private length: number;
+  private onsets: Int32Array;
+  private readonly window: Float32Array;
+  private readonly frameLength: number;
+  private readonly hop: number; // Synthesis hop, half the window
+  private readonly tolerance: number;
+
+  private speed = 1;
+  private pitchRatio = 1;
+
+  // Grain scheduling, in source samples
+  private previousStart = 0;
+  private target = 0; // Nominal start of the next grain
+
+  // Overlap-add accumulator for the grain being completed
+  private readonly overlap: Float32Array;
+
+  // Stretched (not yet resampled) samples and the source position of each
+  private stretched: Float32Array;
+  private stretchedSource: Float64Array;
+  private stretchedLength = 0;
+  private readPosition = 1; // Fractional index into `stretched`; one sample of history for the interpolator
+
+  constructor(source: Float32Array, sampleRate: number) {
+    this.source = source;
+    this.length = source.length;
+    this.sampleRate = sampleRate;
+    this.onsets = detectOnsets(source, sampleRate);
+    this.frameLength = 2 * Math.round((WINDOW_SECONDS * sampleRate) / 2);
+    this.hop = this.frameLength / 2;
+    this.tolerance = Math.round(TOLERANCE_SECONDS * sampleRate);
+    // Periodic Hann: at 50% overlap the windows sum to exactly one
+    this.window = new Float32Array(this.frameLength);
+    for (let i = 0; i < this.frameLength; i++) {
+      this.window[i] = 0.5 * (1 - Math.cos((2 * Math.PI * i) / this.frameLength));
+    }
+    this.overlap = new Float32Array(this.frameLength);
+    this.stretched = new Float32Array(this.frameLength * 4);
+    this.stretchedSource = new Float64Array(this.frameLength * 4);
+    this.seek(0);
+  }
+
+  get duration(): number {
+    return this.length / this.sampleRate;
+  }
+
+  /** Source time, in seconds, of the next sample `render` will write. */
+  get position(): number {
+    const i = Math.min(Math.floor(this.readPosition), this.stretchedLength - 1);
+    const samples = i >= 0 ? this.stretchedSource[i] : this.target;
+    return Math.max(0, Math.min(this.length, samples)) / this.sampleRate;
+  }
+
+  setSpeed(speed: number) {
+    this.speed = speed;
+  }
+
+  setPitch(semitones: number) {
+    this.pitchRatio = semitonesToRatio(semitones);
+  }
+
+  /**
+   * Adds samples to the end of the source. Onsets are looked for over the
+   * new samples and a few hops before them rather than the whole source,
+   * so they can differ slightly from those of a one-piece source.
+   */
+  append(samples: Float32Array) {
+    const length = this.length + samples.length;
+    if (length > this.source.length) {
+      const grown = new Float32Array(Math.max(length, this.source.length * 2));
+      grown.set(this.source.subarray(0, this.length));
+      this.source = grown;
+    }
+    this.source.set(samples, this.length);
+
+    const hop = Math.max(1, Math.round(ONSET_HOP_SECONDS * this.sampleRate));
+    const settled = Math.floor(this.length / hop) * hop; // Onsets before here stay as they are
+    const from = Math.max(0, settled - ONSET_HISTORY * hop);
+    const spacing = Math.round(ONSET_SPACING_SECONDS * this.sampleRate);
+    const kept = Array.from(this.onsets).filter(o => o < settled);
+    let last = kept.length > 0 ? kept[kept.length - 1] : -Infinity;
+    detectOnsets(this.source.subarray(from, length), this.sampleRate).forEach(o => {
+      if (from + o >= settled && from + o - last >= spacing) {
+        kept.push(from + o);
+        last = from + o;
+      }
+    });
+    this.onsets = Int32Array.from(kept);
+    this.length = length;
+  }
+
+  /** Restarts output at `time` seconds of source time. */
+  seek(time: number) {
+    const start = Math.max(0, Math.round(time * this.sampleRate));
+    this.target = start;
+    this.previousStart = start - this.hop;
+    this.overlap.fill(0);
+    this.stretchedLength = 0;
+    this.readPosition = 1;
+    // Prime the stream so the first grain only holds its own fade-in half
+    this.appendStretched(new Float32Array(1), start);
+  }
+
+  /** Fills `output` and returns it; past the end of the source it is silence. */
+  render(output: Float32Array): Float32Array {
+    const ratio = this.pitchRatio;
+    for (let n = 0; n < output.length; n++) {
+      // Cubic interpolation needs one sample behind and two ahead
+      while (Math.floor(this.readPosition) + 2 >= this.stretchedLength) this.addGrain();
+      const i = Math.floor(this.readPosition);
+      const t = this.readPosition - i;
+      const s = this.stretched;
+      output[n] = ratio === 1 ? s[i] : cubic(s[i - 1], s[i], s[i + 1], s[i + 2], t);
+      this.readPosition += ratio;
+    }
+    this.compact();
+    return output;
+  }
+
+  private sample(i: number): number {
+    return i >= 0 && i < this.length ? this.source[i] : 0;
+  }
+
+  /**
+   * Picks where the next grain starts. The previous grain's natural
+   * continuation is the template; candidates around the nominal position
+   * are scored by normalized cross-correlation against it, coarsely first
+   * and then sample by sample around the best coarse match.
+   */
+  private nextGrainStart(analysisHop: number): number {
+    const natural = this.previousStart + this.hop;
+
+    // An onset inside the previous grain: continue at 1.0x until it has passed
+    const next = firstOnsetFrom(this.onsets, this.previousStart);
+    const nextOnset = next < this.onsets.length ? this.onsets[next] : Infinity;
+    if (nextOnset < this.previousStart + this.frameLength) return natural;
+    if (Math.abs(analysisHop - this.hop) < 1e-6 && Math.abs(this.target - natural) < 1) return natural;
+
+    // Catch up gradually after a transient rather than jumping back over it
+    const lag = this.target - (this.previousStart + analysisHop);
+    const nominal = Math.abs(lag) > this.tolerance
+      ? this.previousStart + analysisHop + lag / RECOVER_FRAMES
+      : this.target;
+
+    // Never reach back over an onset already played. An onset ahead may
+    // only enter through a grain's second half, so that the following grain
+    // is locked to it and the attack keeps its full weight in the overlap.
+    const lastOnset = next > 0 ? this.onsets[next - 1] + 1 : -Infinity;
+    const latest = nextOnset - this.hop; // At least `natural`, since the previous grain holds no onset
+    const center = Math.round(Math.max(lastOnset, Math.min(latest, nominal)));
+    const lo = Math.max(center - this.tolerance, lastOnset);
+    const hi = Math.min(center + this.tolerance, latest);
+
+    const score = (candidate: number, step: number): number => {
+      let dot = 0;
+      let energy = 1e-9;
+      for (let i = 0; i < this.frameLength; i += step) {
+        const c = this.sample(candidate + i);
+        dot += c * this.sample(natural + i);
+        energy += c * c;
+      }
+      return dot / Math.sqrt(energy);
+    };
+
+    let best = center;
+    let bestScore = -Infinity;
+    for (let c = lo; c <= hi; c += COARSE_STEP) {
+      const s = score(c, COARSE_STEP);
+      if (s > bestScore) { bestScore = s; best = c; }
+    }
+    const coarse = best;
+    bestScore = -Infinity;
+    for (let c = Math.max(lo, coarse - COARSE_STEP + 1); c <= Math.min(hi, coarse + COARSE_STEP - 1); c++) {
+      const s = score(c, 2);
+      if (s > bestScore) { bestScore = s; best = c; }
+    }
+    return best;
+  }
+
+  /** Overlap-adds one grain and moves the completed hop to the stretched stream. */
+  private addGrain() {
+    // Stretch by speed / pitch; resampling by the pitch ratio restores the pace
+    const analysisHop = this.hop * (this.speed / this.pitchRatio);
+    const start = this.nextGrainStart(analysisHop);
+    this.target += analysisHop;
+    for (let i = 0; i < this.frameLength; i++) {
+      this.overlap[i] += this.sample(start + i) * this.window[i];
+    }
+    this.appendStretched(this.overlap.subarray(0, this.hop), start);
+    this.overlap.copyWithin(0, this.hop);
+    this.overlap.fill(0, this.hop);
+    this.previousStart = start;
+  }
+
+  private appendStretched(samples: Float32Array, sourceStart: number) {
+    const needed = this.stretchedLength + samples.length;
+    if (needed > this.stretched.length) {
+      const grown = new Float32Array(needed * 2);
+      grown.set(this.stretched.subarray(0, this.stretchedLength));
+      this.stretched = grown;
+      const grownSource = new Float64Array(needed * 2);
+      grownSource.set(this.stretchedSource.subarray(0, this.stretchedLength));
+      this.stretchedSource = grownSource;
+    }
+    this.stretched.set(samples, this.stretchedLength);
+    const step = samples.length > 1 ? this.speed / this.pitchRatio : 0;
+    for (let i = 0; i < samples.length; i++) {
+      this.stretchedSource[this.stretchedLength + i] = sourceStart + i * step;
+    }
+    this.stretchedLength = needed;
+  }
+
+  /** Drops consumed stretched samples, keeping the interpolator's history. */
+  private compact() {
+    const drop = Math.floor(this.readPosition) - 1;
+    if (drop < this.frameLength) return;
+    this.stretched.copyWithin(0, drop, this.stretchedLength);
+    this.stretchedSource.copyWithin(0, drop, this.stretchedLength);
+    this.stretchedLength -= drop;
+    this.readPosition -= drop;
+  }
+}
+
+/** Catmull-Rom interpolation between b and c. */
+export const cubic = (a: number, b: number, c: number, d: number, t: number): number =>
+  b + 0.5 * t * (c - a + t * (2 * a - 5 * b + 4 * c - d + t * (3 * (b - c) + d - a)));
+
+/**
+ * Stretches a whole buffer to `1 / speed` of its length and shifts its
+ * pitch by `semitones`, independently of each other.
+ */
+export const timeStretch = (
+  input: Float32Array,
+  sampleRate: number,
+  speed: number,
+  semitones = 0
+): Float32Array => {
+  const length = Math.floor(input.length / speed);
+  if (Math.abs(speed - 1) < 0.01 && semitones === 0) return input.slice();
+  const stretcher = new TimeStretcher(input, sampleRate);
+  stretcher.setSpeed(speed);
+  stretcher.setPitch(semitones);
+  return stretcher.render(new Float32Array(length));
+};
@@ -0,0 +1,198 @@
+import { Envelope, Instrument, MusicScore, Note } from "../types";
+import { makeSeamlessLoop, SeamlessLoop } from "./loop";
+import { createRandom } from "./random";
+import { applyReverb, DEFAULT_REVERB } from "./reverb";
+
+/**
+ * Renders a MusicScore offline in stereo. Each note is voiced by one of a
+ * handful of small instrument models, shaped by an ADSR envelope, scaled by
+ * its velocity and panned; the whole mix then goes through the reverb.
+ */
+
+interface Patch {
+  envelope: Envelope;
+  level: number; // Gain at full velocity
+}
+
+const PATCHES: Record<Instrument, Patch> = {
+  pad: { envelope: { attack: 0.6, decay: 0.5, sustain: 0.8, release: 1.2 }, level: 0.2 },
+  pluck: { envelope: { attack: 0.003, decay: 0.8, sustain: 0.3, release: 0.2 }, level: 0.45 },
+  bell: { envelope: { attack: 0.002, decay: 2, sustain: 0.1, release: 1 }, level: 0.2 },
+  bass: { envelope: { attack: 0.01, decay: 0.3, sustain: 0.7, release: 0.25 }, level: 0.35 },
+  percussion: { envelope: { attack: 0.001, decay: 0.2, sustain: 0, release: 0.05 }, level: 0.5 },
+};
+
+const DEFAULT_VELOCITY = 0.7;
+const PAD_DETUNE_CENTS = 6;
+const BELL_RATIO = 1.4;       // Modulator to carrier; inharmonic, hence metallic
+const KICK_MAX_FREQ = 200;    // Percussion below this also gets a pitch-dropping thump
+const NOISE_SEED = 0x9e3779b9;
+
+/** The instrument's envelope with the note's overrides, fitted to its length. */
+const resolveEnvelope = (note: Note, patch: Patch): Envelope => {
+  const envelope = { ...patch.envelope, ...note.envelope };
+  const attack = Math.max(0.001, envelope.attack);
+  const decay = Math.max(0, envelope.decay);
+  // Short notes share their length between attack and decay, so the release
+  // always starts from the sustain level
+  const scale = Math.min(1, note.duration / (attack + decay));
+  return {
+    attack: attack * scale,
+    decay: decay * scale,
+    sustain: Math.min(1, Math.max(0, envelope.sustain)),
+    release: Math.max(0.01, envelope.release),
+  };
+};
+
+const scheduleEnvelope = (param: AudioParam, start: number, duration: number, envelope: Envelope, peak: number) => {
+  const { attack, decay, sustain, release } = envelope;
+  param.setValueAtTime(0, start);
+  param.linearRampToValueAtTime(peak, start + attack);
+  if (decay > 0) param.linearRampToValueAtTime(peak * sustain, start + attack + decay);
+  param.setValueAtTime(peak * sustain, start + duration);
+  param.linearRampToValueAtTime(0, start + duration + release);
+};
+
+/** Karplus-Strong string: a burst of noise recirculated through a lowpassed delay. */
+const pluckBuffer = (ctx: BaseAudioContext, freq: number, seconds: number, random: () => number): AudioBuffer => {
+  const buffer = ctx.createBuffer(1, Math.max(1, Math.ceil(seconds * ctx.sampleRate)), ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  const period = Math.max(2, Math.round(ctx.sampleRate / freq));
+  for (let n = 0; n < Math.min(period, data.length); n++) data[n] = random() * 2 - 1;
+  for (let n = period; n < data.length; n++) {
+    data[n] = 0.996 * 0.5 * (data[n - period] + data[n - period + 1]);
+  }
+  return buffer;
+};
+
+const noiseBuffer = (ctx: BaseAudioContext, random: () => number): AudioBuffer => {
+  const buffer = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let n = 0; n < data.length; n++) data[n] = random() * 2 - 1;
+  return buffer;
+};
+
+/** Connects the instrument's raw sound for a note into `output` and schedules it. */
+const voice = (
+  ctx: BaseAudioContext,
+  note: Note,
+  instrument: Instrument,
+  output: AudioNode,
+  end: number,
+  noise: AudioBuffer,
+  random: () => number
+) => {
+  const start = note.startTime;
+  const oscillator = (type: OscillatorType, freq: number, level: number, destination: AudioNode = output) => {
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.type = type;
+    osc.frequency.value = freq;
+    gain.gain.value = level;
+    osc.connect(gain).connect(destination);
+    osc.start(start);
+    osc.stop(end);
+    return osc;
+  };
+
+  switch (instrument) {
+    case 'pad': {
+      const filter = ctx.createBiquadFilter();
+      filter.type = 'lowpass';
+      filter.frequency.value = Math.min(8000, note.freq * 6);
+      filter.Q.value = 0.5;
+      filter.connect(output);
+      oscillator(note.type, note.freq, 0.5, filter).detune.value = -PAD_DETUNE_CENTS;
+      oscillator(note.type, note.freq, 0.5, filter).detune.value = PAD_DETUNE_CENTS;
+      break;
+    }
+    case 'pluck': {
+      const source = ctx.createBufferSource();
+      source.buffer = pluckBuffer(ctx, note.freq, end - start, random);
+      source.connect(output);
+      source.start(start);
+      break;
+    }
+    case 'bell': {
+      // Two-operator FM; the modulation index falls away as the bell rings
+      const carrier = oscillator('sine', note.freq, 1);
+      const modulator = ctx.createOscillator();
+      const depth = ctx.createGain();
+      modulator.frequency.value = note.freq * BELL_RATIO;
+      depth.gain.setValueAtTime(note.freq * 3, start);
+      depth.gain.exponentialRampToValueAtTime(note.freq * 0.05, end);
+      modulator.connect(depth).connect(carrier.frequency);
+      modulator.start(start);
+      modulator.stop(end);
+      break;
+    }
+    case 'bass': {
+      const filter = ctx.createBiquadFilter();
+      filter.type = 'lowpass';
+      filter.frequency.value = Math.min(1200, note.freq * 4);
+      filter.connect(output);
+      oscillator('sine', note.freq, 0.7);
+      oscillator('square', note.freq, 0.25, filter);
+      break;
+    }
+    case 'percussion': {
+      const source = ctx.createBufferSource();
+      const filter = ctx.createBiquadFilter();
+      source.buffer = noise;
+      source.loop = true;
+      filter.type = 'bandpass';
+      filter.frequency.value = note.freq;
+      filter.Q.value = 0.8;
+      source.connect(filter).connect(output);
+      // Start somewhere different in the noise each hit
+      source.start(start, random() * noise.duration);
+      source.stop(end);
+      if (note.freq < KICK_MAX_FREQ) {
+        const thump = oscillator('sine', note.freq * 2.5, 1);
+        thump.frequency.setValueAtTime(note.freq * 2.5, start);
+        thump.frequency.exponentialRampToValueAtTime(note.freq, start + 0.08);
+      }
+      break;
+    }
+  }
+};
+
+/**
+ * Renders the score as a seamless stereo loop (see `utils/loop`): notes
+ * and reverb that ring past the loop's end carry over into its start.
+ */
+export const renderScore = async (score: MusicScore, sampleRate: number): Promise<SeamlessLoop> => {
+  const loopSeconds = Math.max(1, score.totalDuration);
+  const reverb = score.reverb ?? DEFAULT_REVERB;
+  const voiced = score.notes
+    .filter(note => note.freq > 0 && note.duration > 0 && note.startTime >= 0 && note.startTime < loopSeconds)
+    .map(note => {
+      const instrument = note.instrument && PATCHES[note.instrument] ? note.instrument : 'pad';
+      const envelope = resolveEnvelope(note, PATCHES[instrument]);
+      return { note, instrument, envelope, end: note.startTime + note.duration + envelope.release };
+    });
+  const lastEnd = voiced.reduce((end, v) => Math.max(end, v.end), 0);
+  const tail = Math.min(loopSeconds, Math.max(0, lastEnd - loopSeconds) + reverb.decay);
+
+  const ctx = new OfflineAudioContext(2, Math.ceil(sampleRate * (loopSeconds + tail)), sampleRate);
+  const random = createRandom(NOISE_SEED);
+  const noise = noiseBuffer(ctx, random);
+
+  voiced.forEach(({ note, instrument, envelope, end }) => {
+    const velocity = Math.min(1, Math.max(0, note.velocity ?? DEFAULT_VELOCITY));
+    const amp = ctx.createGain();
+    const panner = ctx.createStereoPanner();
+    scheduleEnvelope(amp.gain, note.startTime, note.duration, envelope, PATCHES[instrument].level * velocity);
+    panner.pan.value = Math.min(1, Math.max(-1, note.pan ?? 0));
+    amp.connect(panner).connect(ctx.destination);
+    voice(ctx, note, instrument, amp, end, noise, random);
+  });
+
+  const rendered = await ctx.startRendering();
+  const wet = applyReverb([rendered.getChannelData(0), rendered.getChannelData(1)], sampleRate, reverb);
+  const looped = makeSeamlessLoop(wet, sampleRate, loopSeconds);
+  // Keep dense scores from clipping once the tails are added
+  const peak = looped.channels.reduce((max, x) => x.reduce((m, v) => Math.max(m, Math.abs(v)), max), 0);
+  if (peak > 0.98) looped.channels.forEach(x => x.forEach((v, n) => { x[n] = (v * 0.98) / peak; }));
+  return looped;
+};
@@ -0,0 +1,106 @@
+import { ScriptChunk } from "../types";
+
+// End punctuation, with any closing quotes or brackets, where whitespace or the text's end follows
+const SENTENCE_END = /[.!?…]+["'”’)\]]*(?=\s|$)/g;
+
+// Words whose full stop doesn't end the sentence
+const ABBREVIATIONS = new Set(['mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'mt', 'vs', 'e.g', 'i.e', 'approx']);
+
+/** Whether `before` ends in an abbreviation or a single initial, so a full stop after it is no sentence end. */
+const endsInAbbreviation = (before: string): boolean => {
+  const word = before.match(/(?:^|[\s(“"'])(\p{L}[\p{L}.]*)$/u)?.[1];
+  return !!word && (/^\p{Lu}$/u.test(word) || ABBREVIATIONS.has(word.toLowerCase()));
+};
+
+/**
+ * Like `splitSentences`, but each sentence keeps the whitespace after it,
+ * so the pieces join back into exactly `text`. Sentences end only where
+ * whitespace or the end of the text follows, so decimals, URLs and a
+ * leading ellipsis stay whole.
+ */
+export const splitSentencePieces = (text: string): string[] => {
+  const pieces: string[] = [];
+  let start = 0;
+  for (const match of text.matchAll(SENTENCE_END)) {
+    const end = match.index! + match[0].length;
+    const sentence = text.slice(start, end);
+    if (match[0] === '.' && endsInAbbreviation(text.slice(start, match.index))) continue;
+    // Punctuation on its own ("... and then") stays with what follows
+    if (!/[\p{L}\p{N}]/u.test(sentence)) continue;
+    const next = text.slice(end).search(/\S/);
+    const stop = next === -1 ? text.length : end + next;
+    pieces.push(text.slice(start, stop));
+    start = stop;
+  }
+  if (start < text.length) pieces.push(text.slice(start));
+  return pieces;
+};
+
+/**
+ * Splits a block of text into sentences, keeping terminal punctuation and
+ * closing quotes/brackets attached to the sentence they end.
+ */
+export const splitSentences = (text: string): string[] =>
+  splitSentencePieces(text).map(s => s.trim()).filter(s => s.length > 0);
+
+/**
+ * Breaks a single over-long sentence at clause boundaries (commas, semicolons,
+ * dashes) and, as a last resort, at word boundaries. Like the sentences, the
+ * pieces keep their whitespace and join back into `sentence`.
+ */
+const splitLongSentence = (sentence: string, maxChars: number): string[] => {
+  const pieces: string[] = [];
+  let current = '';
+
+  const add = (part: string) => {
+    if (current.trim() && (current + part).trim().length > maxChars) {
+      pieces.push(current);
+      current = '';
+    }
+    current += part;
+  };
+
+  for (const clause of sentence.split(/(?<=[,;:—–]\s+)(?=\S)/)) {
+    // Hard split on whitespace
+    if (clause.trim().length > maxChars) clause.split(/(?<=\s)(?=\S)/).forEach(add);
+    else add(clause);
+  }
+  if (current) pieces.push(current);
+  return pieces;
+};
+
+/**
+ * Splits a script into chunks no longer than `maxChars`, breaking only at
+ * paragraph and sentence boundaries where possible. Chunks never span a
+ * paragraph break, so `endsParagraph` can be used to choose the gap that
+ * follows each chunk when the audio is stitched back together.
+ */
+export const chunkScript = (text: string, maxChars: number): ScriptChunk[] => {
+  const chunks: ScriptChunk[] = [];
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map(p => p.replace(/\s+/g, ' ').trim())
+    .filter(p => p.length > 0);
+
+  paragraphs.forEach(paragraph => {
+    let current = '';
+    const sentences = splitSentencePieces(paragraph).flatMap(s =>
+      s.trim().length > maxChars ? splitLongSentence(s, maxChars) : [s]
+    );
+
+    // Chunks are cut from the paragraph itself, so its text reaches the voice unchanged
+    sentences.forEach(sentence => {
+      if (current.trim() && (current + sentence).trim().length > maxChars) {
+        chunks.push({ index: chunks.length, text: current.trim(), endsParagraph: false });
+        current = '';
+      }
+      current += sentence;
+    });
+
+    if (current.trim()) {
+      chunks.push({ index: chunks.length, text: current.trim(), endsParagraph: true });
+    }
+  });
+
+  return chunks;
+};
@@ -0,0 +1,75 @@
+import { StyleEnergy, StylePace, Tone, ToneStyle } from "../types";
+
+/**
+ * Custom delivery styles. Each builds on a built-in tone, which the offline
+ * synthesizer, the music composer and the file tags use in its place.
+ */
+
+export const MAX_INTENSITY = 5;
+export const MAX_STYLE_TEXT_CHARS = 600; // Per free-text field, to keep prompts short
+
+export const STYLE_PACES: StylePace[] = ['slow', 'natural', 'fast'];
+export const STYLE_ENERGIES: StyleEnergy[] = ['low', 'natural', 'high'];
+
+export const createToneStyle = (base: Tone = Tone.Normal): ToneStyle => ({
+  id: crypto.randomUUID(),
+  name: '',
+  base,
+  direction: '',
+  intensity: 3,
+  pace: 'natural',
+  energy: 'natural',
+  persona: '',
+  examples: '',
+});
+
+const text = (value: unknown): string =>
+  typeof value === 'string' ? value.slice(0, MAX_STYLE_TEXT_CHARS) : '';
+
+export const MAX_STYLE_NAME_CHARS = 40;
+
+// Brackets would end the [tone:Name] tag that names the style in markup
+const cleanName = (name: string): string =>
+  name.replace(/[\[\]\r\n]/g, '').trim().slice(0, MAX_STYLE_NAME_CHARS);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const oneOf = <T extends string>(options: readonly T[], value: unknown, fallback: T): T =>
+  options.find(option => option === value) ?? fallback;
+
+/** A style from stored JSON, or null when it has no id or name to go by. */
+export const sanitizeToneStyle = (raw: unknown): ToneStyle | null => {
+  if (!isObject(raw) || typeof raw.id !== 'string' || typeof raw.name !== 'string' || !cleanName(raw.name)) return null;
+  const intensity = typeof raw.intensity === 'number' && Number.isFinite(raw.intensity) ? Math.round(raw.intensity) : 3;
+  return {
+    id: raw.id,
+    name: cleanName(raw.name),
+    base: oneOf(Object.values(Tone), raw.base, Tone.Normal),
+    direction: text(raw.direction),
+    intensity: Math.min(MAX_INTENSITY, Math.max(1, intensity)),
+    pace: oneOf(STYLE_PACES, raw.pace, 'natural'),
+    energy: oneOf(STYLE_ENERGIES, raw.energy, 'natural'),
+    persona: text(raw.persona),
+    examples: text(raw.examples),
+  };
+};
+
+/** Why a style can't take this name, or null when it can. */
+export const toneNameError = (name: string, styles: ToneStyle[], exceptId?: string): string | null => {
+  if (!name.trim()) return 'Give the style a name.';
+  if (/[\[\]]/.test(name)) return "Names can't contain square brackets.";
+  if (name.trim().length > MAX_STYLE_NAME_CHARS) return `Keep the name under ${MAX_STYLE_NAME_CHARS} characters.`;
+  if (isToneNameTaken(name, styles, exceptId)) return 'A tone or style already has that name.';
+  return null;
+};
+
+/** Built-in tone names take precedence, so a style can't hide one. */
+export const isToneNameTaken = (name: string, styles: ToneStyle[], exceptId?: string): boolean => {
+  const key = name.trim().toLowerCase();
+  return Object.values(Tone).some(t => t.toLowerCase() === key)
+    || styles.some(s => s.id !== exceptId && s.name.toLowerCase() === key);
+};
+
+export const findToneStyle = (styles: ToneStyle[], name: string): ToneStyle | undefined =>
+  styles.find(s => s.name.toLowerCase() === name.trim().toLowerCase());
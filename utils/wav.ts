@@ -0,0 +1,330 @@
+import { AudioMarker, AudioMetadata, AudioTags, TimeRegion } from "../types";
+
+export type WavBitDepth = 16 | 24 | 32;
+
+export interface WavOptions {
+  sampleRate: number;
+  bitDepth?: WavBitDepth;
+  metadata?: AudioMetadata; // Marker times are in seconds of this file
+}
+
+export interface DecodedWav {
+  sampleRate: number;
+  bitDepth: number;
+  channels: Float32Array[];
+  metadata: AudioMetadata;
+}
+
+const FORMAT_PCM = 1;
+const FORMAT_FLOAT = 3;
+const FORMAT_EXTENSIBLE = 0xfffe;
+
+/** RIFF INFO chunk ids for each tag. */
+const INFO_IDS: Record<keyof AudioTags, string> = {
+  title: 'INAM',
+  artist: 'IART',
+  comment: 'ICMT',
+  software: 'ISFT',
+  script: 'ISBJ',
+};
+
+const writeString = (view: DataView, offset: number, string: string) => {
+  for (let i = 0; i < string.length; i++) {
+    view.setUint8(offset + i, string.charCodeAt(i));
+  }
+};
+
+const readString = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+/** Builds a chunk with its 8-byte header, padded to an even length as RIFF requires. */
+const chunk = (id: string, body: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(8 + body.length + (body.length % 2));
+  const view = new DataView(out.buffer);
+  writeString(view, 0, id);
+  view.setUint32(4, body.length, true);
+  out.set(body, 8);
+  return out;
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => {
+    out.set(p, offset);
+    offset += p.length;
+  });
+  return out;
+};
+
+const zeroTerminated = (text: string): Uint8Array => {
+  const encoded = new TextEncoder().encode(text);
+  const out = new Uint8Array(encoded.length + 1);
+  out.set(encoded);
+  return out;
+};
+
+const listChunk = (type: string, subchunks: Uint8Array[]): Uint8Array =>
+  chunk('LIST', concat([new TextEncoder().encode(type), ...subchunks]));
+
+const infoChunk = (tags: AudioTags): Uint8Array | null => {
+  const subchunks = (Object.keys(INFO_IDS) as (keyof AudioTags)[])
+    .filter(key => tags[key])
+    .map(key => chunk(INFO_IDS[key], zeroTerminated(tags[key]!)));
+  return subchunks.length > 0 ? listChunk('INFO', subchunks) : null;
+};
+
+/**
+ * Writes a `cue ` chunk with one point per marker plus an `adtl` list
+ * labelling each one, which is where DAWs and podcast editors look.
+ */
+const markerChunks = (markers: AudioMarker[], sampleRate: number, length: number): Uint8Array[] => {
+  if (markers.length === 0) return [];
+  const cue = new Uint8Array(4 + markers.length * 24);
+  const view = new DataView(cue.buffer);
+  view.setUint32(0, markers.length, true);
+  markers.forEach((marker, i) => {
+    const position = Math.max(0, Math.min(length, Math.round(marker.time * sampleRate)));
+    const offset = 4 + i * 24;
+    view.setUint32(offset, i + 1, true);       // cue point id
+    view.setUint32(offset + 4, position, true); // play order position
+    writeString(view, offset + 8, 'data');
+    view.setUint32(offset + 12, 0, true);       // chunk start
+    view.setUint32(offset + 16, 0, true);       // block start
+    view.setUint32(offset + 20, position, true); // sample offset
+  });
+
+  const labels = markers.map((marker, i) => {
+    const text = zeroTerminated(marker.label);
+    const body = new Uint8Array(4 + text.length);
+    new DataView(body.buffer).setUint32(0, i + 1, true);
+    body.set(text, 4);
+    return chunk('labl', body);
+  });
+
+  return [chunk('cue ', cue), listChunk('adtl', labels)];
+};
+
+/**
+ * Writes a `smpl` chunk with one forward loop, the way samplers and DAWs
+ * store sustain loops. Its end is the last sample played, hence inclusive.
+ */
+const loopChunk = (loop: TimeRegion, sampleRate: number, length: number): Uint8Array => {
+  const smpl = new Uint8Array(36 + 24);
+  const view = new DataView(smpl.buffer);
+  const start = Math.max(0, Math.min(length - 1, Math.round(loop.start * sampleRate)));
+  const end = Math.max(start, Math.min(length, Math.round(loop.end * sampleRate)) - 1);
+  view.setUint32(8, Math.round(1e9 / sampleRate), true); // sample period in ns
+  view.setUint32(12, 60, true);                          // MIDI unity note
+  view.setUint32(28, 1, true);                           // loop count
+  view.setUint32(36 + 8, start, true);
+  view.setUint32(36 + 12, end, true);
+  return chunk('smpl', smpl);
+};
+
+const encodeSamples = (
+  channels: Float32Array[],
+  bitDepth: WavBitDepth,
+  onProgress?: (fraction: number) => void
+): Uint8Array => {
+  const numChannels = channels.length;
+  const length = channels[0]?.length ?? 0;
+  const bytesPerSample = bitDepth / 8;
+  const out = new Uint8Array(length * numChannels * bytesPerSample);
+  const view = new DataView(out.buffer);
+
+  // Write interleaved samples
+  let offset = 0;
+  const progressStep = Math.max(1, Math.floor(length / 20));
+  for (let i = 0; i < length; i++) {
+    for (let c = 0; c < numChannels; c++) {
+      const s = Math.max(-1, Math.min(1, channels[c][i]));
+      if (bitDepth === 16) {
+        view.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7FFF, true);
+      } else if (bitDepth === 24) {
+        const v = Math.round(s < 0 ? s * 0x800000 : s * 0x7FFFFF);
+        out[offset] = v & 0xff;
+        out[offset + 1] = (v >> 8) & 0xff;
+        out[offset + 2] = (v >> 16) & 0xff;
+      } else {
+        view.setFloat32(offset, channels[c][i], true);
+      }
+      offset += bytesPerSample;
+    }
+    if (onProgress && i % progressStep === 0) onProgress(i / length);
+  }
+  return out;
+};
+
+/**
+ * Encodes planar float channels (-1..1) as a WAV file. 16 and 24 bit are
+ * integer PCM; 32 bit is IEEE float, which needs the extended `fmt ` chunk
+ * and a `fact` chunk. Tags, markers and a loop are written after the audio.
+ */
+export const encodeWav = (
+  channels: Float32Array[],
+  { sampleRate, bitDepth = 16, metadata }: WavOptions,
+  onProgress?: (fraction: number) => void
+): Uint8Array => {
+  const numChannels = channels.length;
+  const length = channels[0]?.length ?? 0;
+  const isFloat = bitDepth === 32;
+  const blockAlign = numChannels * (bitDepth / 8);
+
+  const fmt = new Uint8Array(isFloat ? 18 : 16);
+  const fmtView = new DataView(fmt.buffer);
+  fmtView.setUint16(0, isFloat ? FORMAT_FLOAT : FORMAT_PCM, true);
+  fmtView.setUint16(2, numChannels, true);
+  fmtView.setUint32(4, sampleRate, true);
+  fmtView.setUint32(8, sampleRate * blockAlign, true);
+  fmtView.setUint16(12, blockAlign, true);
+  fmtView.setUint16(14, bitDepth, true);
+
+  const chunks = [chunk('fmt ', fmt)];
+  if (isFloat) {
+    const fact = new Uint8Array(4);
+    new DataView(fact.buffer).setUint32(0, length, true);
+    chunks.push(chunk('fact', fact));
+  }
+  chunks.push(chunk('data', encodeSamples(channels, bitDepth, onProgress)));
+  if (metadata) {
+    const info = infoChunk(metadata);
+    if (info) chunks.push(info);
+    chunks.push(...markerChunks(metadata.markers, sampleRate, length));
+    if (metadata.loop) chunks.push(loopChunk(metadata.loop, sampleRate, length));
+  }
+
+  const body = concat(chunks);
+  const out = new Uint8Array(12 + body.length);
+  const view = new DataView(out.buffer);
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, 4 + body.length, true);
+  writeString(view, 8, 'WAVE');
+  out.set(body, 12);
+
+  onProgress?.(1);
+  return out;
+};
+
+const readZeroTerminated = (bytes: Uint8Array): string => {
+  const end = bytes.indexOf(0);
+  return new TextDecoder().decode(end === -1 ? bytes : bytes.subarray(0, end));
+};
+
+/** Iterates the chunks in `bytes[start..end)`, tolerating a truncated final chunk. */
+const readChunks = (bytes: Uint8Array, start: number, end: number) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: { id: string; body: Uint8Array }[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    const id = readString(bytes, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    const bodyEnd = Math.min(end, offset + 8 + size);
+    chunks.push({ id, body: bytes.subarray(offset + 8, bodyEnd) });
+    offset = offset + 8 + size + (size % 2);
+  }
+  return chunks;
+};
+
+interface ScannedWav {
+  format: number;
+  numChannels: number;
+  sampleRate: number;
+  bitDepth: number;
+  data: Uint8Array | null;
+  metadata: AudioMetadata;
+}
+
+/** Walks the chunks of a WAV file, collecting the format and metadata. */
+const scanWav = (bytes: Uint8Array): ScannedWav => {
+  if (bytes.length < 12 || readString(bytes, 0, 4) !== 'RIFF' || readString(bytes, 8, 4) !== 'WAVE') {
+    throw new Error("Not a WAV file.");
+  }
+
+  let format = 0;
+  let numChannels = 0;
+  let sampleRate = 0;
+  let bitDepth = 0;
+  let data: Uint8Array | null = null;
+  const tags: AudioTags = {};
+  const cuePositions = new Map<number, number>();
+  const cueLabels = new Map<number, string>();
+  let loop: TimeRegion | undefined;
+
+  for (const { id, body } of readChunks(bytes, 12, bytes.length)) {
+    const view = new DataView(body.buffer, body.byteOffset, body.byteLength);
+    if (id === 'fmt ') {
+      format = view.getUint16(0, true);
+      numChannels = view.getUint16(2, true);
+      sampleRate = view.getUint32(4, true);
+      bitDepth = view.getUint16(14, true);
+      // WAVE_FORMAT_EXTENSIBLE keeps the real format in the sub-format GUID
+      if (format === FORMAT_EXTENSIBLE && body.length >= 26) format = view.getUint16(24, true);
+    } else if (id === 'data') {
+      data = body;
+    } else if (id === 'cue ') {
+      const count = view.getUint32(0, true);
+      for (let i = 0; i < count && 4 + i * 24 + 24 <= body.length; i++) {
+        const offset = 4 + i * 24;
+        cuePositions.set(view.getUint32(offset, true), view.getUint32(offset + 20, true));
+      }
+    } else if (id === 'smpl' && body.length >= 36 + 24 && view.getUint32(28, true) > 0) {
+      // The first loop, in samples; the sample rate may not be known yet
+      loop = { start: view.getUint32(36 + 8, true), end: view.getUint32(36 + 12, true) + 1 };
+    } else if (id === 'LIST') {
+      const type = readString(body, 0, 4);
+      for (const sub of readChunks(body, 4, body.length)) {
+        if (type === 'INFO') {
+          const key = (Object.keys(INFO_IDS) as (keyof AudioTags)[]).find(k => INFO_IDS[k] === sub.id);
+          if (key) tags[key] = readZeroTerminated(sub.body);
+        } else if (type === 'adtl' && sub.id === 'labl' && sub.body.length >= 4) {
+          const cueId = new DataView(sub.body.buffer, sub.body.byteOffset).getUint32(0, true);
+          cueLabels.set(cueId, readZeroTerminated(sub.body.subarray(4)));
+        }
+      }
+    }
+  }
+
+  const markers = [...cuePositions.entries()]
+    .sort((a, b) => a[1] - b[1])
+    .map(([cueId, position]) => ({ time: position / sampleRate, label: cueLabels.get(cueId) ?? '' }));
+  const metadata: AudioMetadata = { ...tags, markers };
+  if (loop && sampleRate > 0) metadata.loop = { start: loop.start / sampleRate, end: loop.end / sampleRate };
+
+  return { format, numChannels, sampleRate, bitDepth, data, metadata };
+};
+
+/** Tags, markers and loop of a WAV file, without decoding its audio. */
+export const readWavMetadata = (bytes: Uint8Array): AudioMetadata => scanWav(bytes).metadata;
+
+/**
+ * Reads a WAV file written by `encodeWav` or any other PCM/float RIFF
+ * writer, including INFO tags, labelled cue points and a sample loop.
+ */
+export const readWav = (bytes: Uint8Array): DecodedWav => {
+  const { format, numChannels, sampleRate, bitDepth, data, metadata } = scanWav(bytes);
+  if (!data || numChannels === 0 || sampleRate === 0) throw new Error("WAV file has no audio data.");
+  if (!(format === FORMAT_PCM && [8, 16, 24, 32].includes(bitDepth)) && !(format === FORMAT_FLOAT && bitDepth === 32)) {
+    throw new Error(`Unsupported WAV encoding (format ${format}, ${bitDepth}-bit).`);
+  }
+
+  const bytesPerSample = bitDepth / 8;
+  const length = Math.floor(data.length / (bytesPerSample * numChannels));
+  const channels = Array.from({ length: numChannels }, () => new Float32Array(length));
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let offset = 0;
+  for (let i = 0; i < length; i++) {
+    for (let c = 0; c < numChannels; c++) {
+      let s: number;
+      if (format === FORMAT_FLOAT) s = view.getFloat32(offset, true);
+      else if (bitDepth === 8) s = (data[offset] - 128) / 128;
+      else if (bitDepth === 16) s = view.getInt16(offset, true) / 0x8000;
+      else if (bitDepth === 24) s = ((data[offset] | (data[offset + 1] << 8) | (data[offset + 2] << 24 >> 8))) / 0x800000;
+      else s = view.getInt32(offset, true) / 0x80000000;
+      channels[c][i] = s;
+      offset += bytesPerSample;
+    }
+  }
+
+  return { sampleRate, bitDepth, channels, metadata };
+};
@@ -0,0 +1,44 @@
+import { SpeechEffect } from "../types";
+import { SpeechEffects } from "../utils/effects";
+
+// AudioWorkletGlobalScope, which the DOM lib doesn't describe
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+declare function registerProcessor(name: string, processor: new () => AudioWorkletProcessor): void;
+
+// The main thread imports types only; loading this module registers the processor
+export type EffectsProcessorName = 'speech-effects';
+const PROCESSOR_NAME: EffectsProcessorName = 'speech-effects';
+
+export type EffectsMessage = { type: 'chain'; chain: SpeechEffect[] };
+
+/**
+ * Runs the speech from the stretcher through the export's effects chain
+ * and outputs stereo. It keeps processing with no input, so a reverb
+ * rings out after a pause.
+ */
+class EffectsProcessor extends AudioWorkletProcessor {
+  private effects = new SpeechEffects([], sampleRate);
+
+  constructor() {
+    super();
+    this.port.onmessage = (event: MessageEvent<EffectsMessage>) => {
+      this.effects.setChain(event.data.chain);
+    };
+  }
+
+  process(inputs: Float32Array[][], outputs: Float32Array[][]): boolean {
+    const input = inputs[0] ?? [];
+    const [left, right] = outputs[0];
+    if (input[0]) left.set(input[0]);
+    else left.fill(0);
+    if (input[1] ?? input[0]) right.set(input[1] ?? input[0]);
+    else right.fill(0);
+    this.effects.process(left, right);
+    return true;
+  }
+}
+
+registerProcessor(PROCESSOR_NAME, EffectsProcessor);
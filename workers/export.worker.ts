@@ -0,0 +1,159 @@
+import { AudioMetadata, ExportSettings, LoudnessStats } from "../types";
+import { encodeFlac } from "../utils/flac";
+import { LOUDNESS_TARGETS, measureLoudness, normalizeLoudness } from "../utils/loudness";
+import { MixInput, renderMixChannels } from "../utils/mix";
+import { muxOggOpus, OpusPacket } from "../utils/ogg";
+import { encodeWav } from "../utils/wav";
+
+// Both render the mix here: one to encode it, the other to measure it
+export type WorkerRequest =
+  | {
+      type: 'encode';
+      settings: ExportSettings;
+      mix: MixInput;
+      sampleRate: number;
+      metadata?: AudioMetadata; // Marker times are on the rendered timeline
+    }
+  | { type: 'measure'; mix: MixInput; sampleRate: number };
+
+type EncodeRequest = Extract<WorkerRequest, { type: 'encode' }>;
+
+export type WorkerResponse =
+  | { type: 'progress'; fraction: number }
+  | { type: 'done'; data: Uint8Array; loudness: LoudnessStats }
+  | { type: 'measured'; loudness: LoudnessStats }
+  | { type: 'error'; message: string };
+
+const ctx = self as unknown as Worker;
+
+const post = (message: WorkerResponse, transfer: Transferable[] = []) => ctx.postMessage(message, transfer);
+
+const OPUS_SAMPLE_RATE = 48000;
+const OPUS_DEFAULT_PRE_SKIP = 312;
+const OPUS_INPUT_FRAMES = 4800; // 100 ms per AudioData
+
+/** Reads the pre-skip from an OpusHead the encoder may hand back as its description. */
+const readPreSkip = (description: AllowSharedBufferSource | undefined): number => {
+  if (!description) return OPUS_DEFAULT_PRE_SKIP;
+  const bytes = ArrayBuffer.isView(description)
+    ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength)
+    : new Uint8Array(description);
+  if (bytes.length < 12) return OPUS_DEFAULT_PRE_SKIP;
+  return bytes[10] | (bytes[11] << 8);
+};
+
+const encodeOpus = async (
+  channels: Float32Array[],
+  sampleRate: number,
+  settings: ExportSettings['opus'],
+  onProgress: (fraction: number) => void
+): Promise<Uint8Array> => {
+  if (typeof AudioEncoder === 'undefined') throw new Error("Opus encoding is not supported in this browser.");
+  if (sampleRate !== OPUS_SAMPLE_RATE) throw new Error(`Opus input must be ${OPUS_SAMPLE_RATE} Hz.`);
+
+  const numberOfChannels = channels.length;
+  const length = channels[0]?.length ?? 0;
+  const packets: OpusPacket[] = [];
+  let preSkip = OPUS_DEFAULT_PRE_SKIP;
+  let failure: Error | null = null;
+
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      const samples = Math.round(((chunk.duration ?? 20000) * OPUS_SAMPLE_RATE) / 1e6);
+      packets.push({ data, samples });
+      if (metadata?.decoderConfig) preSkip = readPreSkip(metadata.decoderConfig.description);
+      onProgress(Math.min(1, (chunk.timestamp / 1e6) * OPUS_SAMPLE_RATE / Math.max(1, length)));
+    },
+    error: (e) => {
+      failure = e;
+    },
+  });
+
+  encoder.configure({
+    codec: 'opus',
+    sampleRate,
+    numberOfChannels,
+    bitrate: settings.bitrate * 1000,
+    bitrateMode: settings.variableBitrate ? 'variable' : 'constant',
+  });
+
+  for (let offset = 0; offset < length && !failure; offset += OPUS_INPUT_FRAMES) {
+    const frames = Math.min(OPUS_INPUT_FRAMES, length - offset);
+    const planar = new Float32Array(frames * numberOfChannels);
+    channels.forEach((c, i) => planar.set(c.subarray(offset, offset + frames), i * frames));
+    const audioData = new AudioData({
+      format: 'f32-planar',
+      sampleRate,
+      numberOfFrames: frames,
+      numberOfChannels,
+      timestamp: Math.round((offset / sampleRate) * 1e6),
+      data: planar,
+    });
+    encoder.encode(audioData);
+    audioData.close();
+  }
+
+  await encoder.flush();
+  encoder.close();
+  if (failure) throw failure;
+
+  return muxOggOpus(packets, { channels: numberOfChannels, inputSampleRate: sampleRate, preSkip, totalSamples: length });
+};
+
+const encode = async (
+  channels: Float32Array[],
+  { settings, sampleRate, metadata }: EncodeRequest,
+  onProgress: (fraction: number) => void
+): Promise<Uint8Array> => {
+  switch (settings.format) {
+    case 'wav':
+      return encodeWav(channels, { sampleRate, bitDepth: settings.wav.bitDepth, metadata }, onProgress);
+    case 'flac':
+      return encodeFlac(
+        channels,
+        { sampleRate, bitsPerSample: settings.flac.bitDepth, compressionLevel: settings.flac.compressionLevel },
+        onProgress
+      );
+    case 'opus':
+      return encodeOpus(channels, sampleRate, settings.opus, onProgress);
+  }
+};
+
+/**
+ * Renders the mix, normalizes it to the chosen loudness target (first half
+ * of the progress bar) and then encodes it (second half).
+ */
+const renderAndEncode = async (request: EncodeRequest) => {
+  const { settings, mix, sampleRate } = request;
+  const channels = renderMixChannels(mix, sampleRate);
+  const report = (offset: number, scale: number) => (fraction: number) =>
+    post({ type: 'progress', fraction: offset + fraction * scale });
+
+  let loudness: LoudnessStats;
+  let encodeProgress = report(0, 1);
+  if (settings.loudness === 'off') {
+    loudness = measureLoudness(channels, sampleRate);
+  } else {
+    loudness = normalizeLoudness(channels, sampleRate, LOUDNESS_TARGETS[settings.loudness], report(0, 0.5)).after;
+    encodeProgress = report(0.5, 0.5);
+  }
+
+  const data = await encode(channels, request, encodeProgress);
+  post({ type: 'done', data, loudness }, [data.buffer]);
+};
+
+ctx.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  try {
+    if (request.type === 'measure') {
+      const channels = renderMixChannels(request.mix, request.sampleRate);
+      post({ type: 'measured', loudness: measureLoudness(channels, request.sampleRate) });
+    } else {
+      await renderAndEncode(request);
+    }
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,46 @@
+import { WaveformPeaks } from "../types";
+
+export interface PeaksRequest {
+  channels: Float32Array[];
+  sampleRate: number;
+  peaksPerSecond: number;
+}
+
+export type PeaksResponse =
+  | { type: 'done'; peaks: WaveformPeaks }
+  | { type: 'error'; message: string };
+
+const ctx = self as unknown as Worker;
+
+/** Min and max of each bucket, over all channels. */
+const computePeaks = ({ channels, sampleRate, peaksPerSecond }: PeaksRequest): WaveformPeaks => {
+  const length = channels[0]?.length ?? 0;
+  const bucketSize = sampleRate / peaksPerSecond;
+  const count = Math.ceil(length / bucketSize);
+  const min = new Float32Array(count);
+  const max = new Float32Array(count);
+  for (let b = 0; b < count; b++) {
+    const from = Math.floor(b * bucketSize);
+    const to = Math.min(length, Math.floor((b + 1) * bucketSize));
+    let lo = 0;
+    let hi = 0;
+    for (const x of channels) {
+      for (let i = from; i < to; i++) {
+        if (x[i] < lo) lo = x[i];
+        else if (x[i] > hi) hi = x[i];
+      }
+    }
+    min[b] = lo;
+    max[b] = hi;
+  }
+  return { peaksPerSecond, duration: length / sampleRate, min, max };
+};
+
+ctx.onmessage = (event: MessageEvent<PeaksRequest>) => {
+  try {
+    const peaks = computePeaks(event.data);
+    ctx.postMessage({ type: 'done', peaks } satisfies PeaksResponse, [peaks.min.buffer, peaks.max.buffer]);
+  } catch (error) {
+    ctx.postMessage({ type: 'error', message: error instanceof Error ? error.message : String(error) } satisfies PeaksResponse);
+  }
+};
@@ -0,0 +1,162 @@
+import { TimeStretcher } from "../utils/stretch";
+
+// AudioWorkletGlobalScope, which the DOM lib doesn't describe
+declare const sampleRate: number;
+declare const currentTime: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+declare function registerProcessor(name: string, processor: new () => AudioWorkletProcessor): void;
+
+// The main thread imports types only; loading this module registers the processor
+export type StretchProcessorName = 'speech-stretch';
+const PROCESSOR_NAME: StretchProcessorName = 'speech-stretch';
+
+/**
+ * Times are AudioContext seconds; positions are seconds of source (1.0x)
+ * time. Streamed speech is loaded empty with `streaming` set, grows with
+ * 'append' and is complete after 'end'.
+ */
+export type StretchMessage =
+  | { type: 'load'; channels: Float32Array[]; streaming?: boolean }
+  | { type: 'append'; channels: Float32Array[] }
+  | { type: 'end' }
+  | { type: 'start'; when: number; position: number; speed: number }
+  | { type: 'speed'; when: number; speed: number }
+  | { type: 'stop'; when?: number } // Immediately when `when` is omitted
+  | { type: 'pitch'; semitones: number };
+
+/**
+ * While streaming, playback that catches up with the speech received so
+ * far waits for more, and resumes at context time `when`. Both carry the
+ * `when` of the start they belong to, so stale ones can be told apart.
+ */
+export type StretchEvent =
+  | { type: 'ended' }
+  | { type: 'waiting'; start: number; position: number }
+  | { type: 'resumed'; start: number; when: number; position: number };
+
+// Streamed speech this close to the end of what has arrived waits, so no
+// grain reaches past it
+const STREAM_GUARD_SECONDS = 0.25;
+
+type ScheduledMessage =
+  | Extract<StretchMessage, { type: 'start' | 'speed' }>
+  | { type: 'stop'; when: number };
+
+/**
+ * Plays the speech through the same WSOLA engine the export uses. Starts
+ * and speed changes are applied at the exact frame they are scheduled for,
+ * so the main thread can keep the music on the same clock.
+ */
+class StretchProcessor extends AudioWorkletProcessor {
+  private stretchers: TimeStretcher[] = [];
+  private playing = false;
+  private pitch = 0;
+  private scheduled: ScheduledMessage[] = [];
+  private streaming = false;
+  private waiting = false;
+  private started = 0; // `when` of the start being played
+
+  constructor() {
+    super();
+    this.port.onmessage = (event: MessageEvent<StretchMessage>) => this.receive(event.data);
+  }
+
+  private receive(message: StretchMessage) {
+    switch (message.type) {
+      case 'load':
+        this.stretchers = message.channels.map(x => new TimeStretcher(x, sampleRate));
+        this.stretchers.forEach(s => s.setPitch(this.pitch));
+        this.playing = false;
+        this.scheduled = [];
+        this.streaming = message.streaming ?? false;
+        this.waiting = false;
+        break;
+      case 'append':
+        message.channels.forEach((x, c) => this.stretchers[c]?.append(x));
+        break;
+      case 'end':
+        this.streaming = false;
+        break;
+      case 'stop':
+        if (message.when !== undefined) {
+          this.schedule({ type: 'stop', when: message.when });
+        } else {
+          this.playing = false;
+          this.scheduled = [];
+        }
+        break;
+      case 'pitch':
+        this.pitch = message.semitones;
+        this.stretchers.forEach(s => s.setPitch(message.semitones));
+        break;
+      default:
+        this.schedule(message);
+    }
+  }
+
+  private schedule(message: ScheduledMessage) {
+    this.scheduled.push(message);
+    this.scheduled.sort((a, b) => a.when - b.when);
+  }
+
+  private apply(message: ScheduledMessage) {
+    if (message.type === 'stop') {
+      this.playing = false;
+      return;
+    }
+    this.stretchers.forEach(s => s.setSpeed(message.speed));
+    if (message.type === 'start') {
+      this.stretchers.forEach(s => s.seek(message.position));
+      this.playing = true;
+      this.waiting = false;
+      this.started = message.when;
+    }
+  }
+
+  process(_inputs: Float32Array[][], outputs: Float32Array[][]): boolean {
+    const output = outputs[0];
+    const frames = output[0]?.length ?? 0;
+    let frame = 0;
+    while (frame < frames) {
+      const next = this.scheduled[0];
+      const due = next ? Math.max(frame, Math.round((next.when - currentTime) * sampleRate)) : frames;
+      const end = Math.min(frames, due);
+      if (this.playing && end > frame) this.render(output, frame, end);
+      frame = end;
+      if (next && due < frames) this.apply(this.scheduled.shift()!);
+    }
+    return true;
+  }
+
+  private render(output: Float32Array[], from: number, to: number) {
+    const first = this.stretchers[0];
+    if (this.streaming && first && first.position + STREAM_GUARD_SECONDS > first.duration) {
+      if (!this.waiting) {
+        this.waiting = true;
+        this.port.postMessage({ type: 'waiting', start: this.started, position: first.position } satisfies StretchEvent);
+      }
+      return;
+    }
+    if (this.waiting) {
+      this.waiting = false;
+      this.port.postMessage({
+        type: 'resumed',
+        start: this.started,
+        when: currentTime + from / sampleRate,
+        position: first.position,
+      } satisfies StretchEvent);
+    }
+
+    this.stretchers.forEach((stretcher, c) => {
+      if (output[c]) stretcher.render(output[c].subarray(from, to));
+    });
+    if (first && first.position >= first.duration) {
+      this.playing = false;
+      this.port.postMessage({ type: 'ended' } satisfies StretchEvent);
+    }
+  }
+}
+
+registerProcessor(PROCESSOR_NAME, StretchProcessor);